@@ -0,0 +1,15 @@
+import type { Access } from 'payload'
+
+import { checkRole } from '@/access/utilities'
+
+export const adminOrPublishedProduct: Access = ({ req: { user } }) => {
+  if (user && checkRole(['admin'], user)) {
+    return true
+  }
+
+  return {
+    is_published: {
+      equals: true,
+    },
+  }
+}
@@ -12,6 +12,9 @@ import { checkRole } from '@/access/utilities'
  * - Customer: can create only for their own cart (data.user === user.id)
  * - Guest: denied
  *
+ * Purchase limits are enforced separately by the enforcePurchaseLimits hook,
+ * which can return a descriptive error instead of a plain 403.
+ *
  * @see https://payloadcms.com/docs/access-control/collections#create
  */
 export const cartItemsCreateAccess: Access = ({ req: { user }, data }) => {
@@ -0,0 +1,77 @@
+import type { CartItem } from '@/payload-types'
+import { getVariantUnitsPerPack, loadItemVariants } from '@/utilities/productVariants'
+import { checkPurchaseLimits, PurchaseLimitError } from '@/utilities/purchaseLimits'
+import type { CollectionBeforeChangeHook } from 'payload'
+
+const relationId = (value: unknown): string | undefined => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : undefined
+}
+
+/**
+ * Hook to enforce purchase limits when a customer adds to or changes their cart
+ * Checks the whole cart with this item applied, so category limits count every
+ * product in the category, and the customer's orders in the rolling period.
+ * Pack-size lines count as packs × units per pack.
+ */
+export const enforcePurchaseLimits: CollectionBeforeChangeHook<CartItem> = async ({
+  data,
+  req,
+  operation,
+  originalDoc,
+}) => {
+  if (!data) return data
+  if (
+    operation === 'update' &&
+    data.quantity === undefined &&
+    data.product === undefined &&
+    data.variant === undefined
+  ) {
+    return data
+  }
+
+  const userId = relationId(data.user ?? originalDoc?.user)
+  const productId = relationId(data.product ?? originalDoc?.product)
+  const quantity = data.quantity ?? originalDoc?.quantity ?? 0
+  const variant = data.variant !== undefined ? data.variant : originalDoc?.variant
+  if (!userId || !productId) return data
+
+  const otherItems = await req.payload.find({
+    collection: 'cart-items',
+    where: {
+      and: [
+        { user: { equals: userId } },
+        ...(originalDoc?.id ? [{ id: { not_equals: originalDoc.id } }] : []),
+      ],
+    },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  const lines = [
+    ...otherItems.docs.map((item) => ({ productId: relationId(item.product)!, quantity: item.quantity, variant: item.variant })),
+    { productId, quantity, variant },
+  ]
+  const variants = await loadItemVariants(req.payload, lines, req)
+
+  const violations = await checkPurchaseLimits(req.payload, {
+    items: lines.map((line) => {
+      const variantId = relationId(line.variant)
+      return {
+        productId: line.productId,
+        quantity: line.quantity,
+        unitsPerPack: variantId ? getVariantUnitsPerPack(variants.get(variantId)) : undefined,
+      }
+    }),
+    customerId: userId,
+    req,
+  })
+
+  if (violations.length > 0) {
+    throw new PurchaseLimitError(violations)
+  }
+
+  return data
+}
@@ -0,0 +1,2 @@
+export { enforcePurchaseLimits } from './enforcePurchaseLimits'
+export { validateCartItemVariant } from './validateCartItemVariant'
@@ -0,0 +1,48 @@
+import type { CartItem } from '@/payload-types'
+import { loadItemVariants, variantBelongsToProduct } from '@/utilities/productVariants'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+const relationId = (value: unknown): string | undefined => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : undefined
+}
+
+/**
+ * Hook to check the pack size chosen for a cart item
+ * Products sold in several pack sizes need a variant, and the variant must
+ * belong to the item's product.
+ */
+export const validateCartItemVariant: CollectionBeforeChangeHook<CartItem> = async ({
+  data,
+  req,
+  originalDoc,
+}) => {
+  if (!data) return data
+
+  const productId = relationId(data.product ?? originalDoc?.product)
+  const variantId = relationId(data.variant !== undefined ? data.variant : originalDoc?.variant)
+  if (!productId) return data
+
+  if (!variantId) {
+    const product = await req.payload.findByID({
+      collection: 'products',
+      id: productId,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+    if (product?.enableVariants) {
+      throw new APIError(`Choose a pack size for "${product.title}"`, 400, null, true)
+    }
+    return data
+  }
+
+  const variants = await loadItemVariants(req.payload, [{ variant: variantId }], req)
+  const variant = variants.get(variantId)
+  if (!variant || !variantBelongsToProduct(variant, productId)) {
+    throw new APIError('The selected pack size does not belong to this product', 400, null, true)
+  }
+
+  return data
+}
@@ -2,6 +2,7 @@ import { adminOnlyFieldAccess } from '@/access/adminOnlyFieldAccess'
 import { adminOrUserId } from '@/access/adminOrUserId'
 import { cartItemsCreateAccess } from '@/access/cartItemsCreateAccess'
 import type { CollectionConfig } from 'payload'
+import { enforcePurchaseLimits, validateCartItemVariant } from './hooks'
 
 export const CartItems: CollectionConfig = {
     slug: 'cart-items',
@@ -42,15 +43,28 @@ export const CartItems: CollectionConfig = {
             dbName: 'product_id',
             required: true,
         },
+        {
+            name: 'variant',
+            type: 'relationship',
+            relationTo: 'variants',
+            // @ts-expect-error dbName is valid for postgres adapter
+            dbName: 'variant_id',
+            admin: {
+                description: 'Pack size (strip, box, ...) when the product is sold in several',
+            },
+        },
         {
             name: 'quantity',
             type: 'number',
             required: true,
             min: 1,
             admin: {
-                description: 'Quantity of the product',
+                description: 'Quantity of the product, in packs of the variant when set',
             },
         },
         // created_at / updated_at handled by proper Payload config (timestamps: true is default)
     ],
+    hooks: {
+        beforeChange: [validateCartItemVariant, enforcePurchaseLimits],
+    },
 }
@@ -3,11 +3,14 @@ import type { CollectionConfig } from 'payload'
 import { adminOnly } from '@/access/adminOnly'
 import { publicAccess } from '@/access/publicAccess'
 
+import { invalidateCatalogSearchCache } from '@/utilities/catalogSearch'
+
 import { deleteMediaWhenLogoCleared } from './Categories/hooks/deleteMediaWhenLogoCleared'
 
 /**
  * Categories collection - Strict schema match with Supabase 'categories' table
- * DB columns: id, name, slug, logo_url, created_at, updated_at
+ * DB columns: id, name, slug, logo_url, search_keywords, max_quantity_per_order,
+ * max_quantity_per_period, purchase_limit_period_days, created_at, updated_at
  */
 export const Categories: CollectionConfig = {
   slug: 'categories',
@@ -73,6 +76,45 @@ export const Categories: CollectionConfig = {
         readOnly: true,
       },
     },
+    {
+      name: 'search_keywords',
+      type: 'text',
+      admin: {
+        description: 'Synonyms used by catalog search, e.g. "flu, pilek, batuk" for Cold & Flu',
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'max_quantity_per_order',
+          type: 'number',
+          min: 1,
+          admin: {
+            description: 'Combined purchase limit per order for all products in this category',
+            width: '33%',
+          },
+        },
+        {
+          name: 'max_quantity_per_period',
+          type: 'number',
+          min: 1,
+          admin: {
+            description: 'Combined purchase limit per customer over the period',
+            width: '33%',
+          },
+        },
+        {
+          name: 'purchase_limit_period_days',
+          type: 'number',
+          min: 1,
+          admin: {
+            description: 'Rolling period in days (default 30)',
+            width: '33%',
+          },
+        },
+      ],
+    },
   ],
   hooks: {
     beforeValidate: [
@@ -92,7 +134,8 @@ export const Categories: CollectionConfig = {
         return data
       },
     ],
-    afterChange: [deleteMediaWhenLogoCleared],
+    afterChange: [deleteMediaWhenLogoCleared, () => invalidateCatalogSearchCache()],
+    afterDelete: [() => invalidateCatalogSearchCache()],
     beforeChange: [
       async ({ data, operation }) => {
         // Auto-generate slug if not provided
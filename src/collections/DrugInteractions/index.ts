@@ -0,0 +1,117 @@
+import { adminOnly } from '@/access/adminOnly'
+import { DRUG_INTERACTION_SEVERITY_OPTIONS } from '@/utilities/drugInteractions'
+import { normalizeIngredientName } from '@/utilities/productAttributes'
+import type { CollectionConfig } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Drug Interactions Collection - Ingredient interaction rules checked at order time
+ *
+ * Schema fields:
+ * - ingredient_a, ingredient_b (text, normalized like product active ingredients)
+ * - severity (varchar: minor, moderate, major, contraindicated)
+ * - description, recommendation (text)
+ * - is_active (boolean)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Rules are evaluated by checkDrugInteractions against the products in an
+ * order and the customer's recent orders (src/utilities/drugInteractions).
+ */
+export const DrugInteractions: CollectionConfig = {
+  slug: 'drug-interactions',
+  dbName: 'drug_interactions',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'description',
+    defaultColumns: ['ingredient_a', 'ingredient_b', 'severity', 'is_active'],
+    group: 'Catalog',
+    description: 'Ingredient pairs that interact. Matching orders are flagged for the pharmacist before fulfilment.',
+    pagination: {
+      defaultLimit: 50,
+      limits: [20, 50, 100],
+    },
+  },
+  access: {
+    create: adminOnly,
+    read: adminOnly,
+    update: adminOnly,
+    delete: adminOnly,
+  },
+  hooks: {
+    beforeChange: [
+      ({ data, originalDoc }) => {
+        if (!data) return data
+
+        if (data.ingredient_a) data.ingredient_a = normalizeIngredientName(data.ingredient_a)
+        if (data.ingredient_b) data.ingredient_b = normalizeIngredientName(data.ingredient_b)
+
+        const ingredientA = data.ingredient_a ?? originalDoc?.ingredient_a
+        const ingredientB = data.ingredient_b ?? originalDoc?.ingredient_b
+        if (ingredientA && ingredientA === ingredientB) {
+          throw new APIError('An interaction needs two different ingredients', 400, null, true)
+        }
+
+        return data
+      },
+    ],
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'ingredient_a',
+          type: 'text',
+          required: true,
+          index: true,
+          admin: {
+            description: 'Active ingredient name, e.g. Warfarin',
+            width: '50%',
+          },
+        },
+        {
+          name: 'ingredient_b',
+          type: 'text',
+          required: true,
+          index: true,
+          admin: {
+            description: 'Interacting ingredient, e.g. Ibuprofen',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'severity',
+      type: 'select',
+      required: true,
+      defaultValue: 'moderate',
+      options: DRUG_INTERACTION_SEVERITY_OPTIONS,
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+      required: true,
+      admin: {
+        description: 'Shown to the pharmacist, e.g. "Increased bleeding risk"',
+      },
+    },
+    {
+      name: 'recommendation',
+      type: 'textarea',
+      admin: {
+        description: 'Suggested action, e.g. "Counsel the customer; consider paracetamol instead"',
+      },
+    },
+    {
+      name: 'is_active',
+      type: 'checkbox',
+      defaultValue: true,
+      index: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+}
@@ -1,11 +1,28 @@
 import type { Inventory } from '@/payload-types'
+import { getReorderPoint } from '@/utilities/demandForecast'
+import { suggestStockTransfers, type StockTransferSuggestion } from '@/utilities/stockTransfers'
 import type { CollectionAfterReadHook, Payload } from 'payload'
 
+/**
+ * Stock level summary added to inventory documents as `stock_info`
+ */
+export interface InventoryStockInfo {
+  quantity: number
+  low_stock_threshold: number
+  is_out_of_stock: boolean
+  is_low_stock: boolean
+  is_critically_low: boolean
+  stock_level_percentage: number
+  stock_status: 'out_of_stock' | 'critically_low' | 'low' | 'adequate' | 'high'
+  needs_reorder: boolean
+}
+
 /**
  * Check and flag low stock levels for inventory items
  * This hook adds low stock information to inventory documents
  * 
- * Updated for simplified schema: only uses quantity and low_stock_threshold
+ * The threshold is the record's forecast reorder point, falling back to
+ * low_stock_threshold before a forecast exists
  */
 export const checkLowStockLevels: CollectionAfterReadHook = async ({
   doc,
@@ -13,7 +30,7 @@ export const checkLowStockLevels: CollectionAfterReadHook = async ({
 }) => {
   try {
     const quantity = doc.quantity || 0
-    const threshold = doc.low_stock_threshold || 10
+    const threshold = getReorderPoint(doc)
 
     // Check various stock level conditions
     const isOutOfStock = quantity === 0
@@ -26,7 +43,7 @@ export const checkLowStockLevels: CollectionAfterReadHook = async ({
       : 100
 
     // Determine stock status
-    let stockStatus: 'out_of_stock' | 'critically_low' | 'low' | 'adequate' | 'high'
+    let stockStatus: InventoryStockInfo['stock_status']
 
     if (isOutOfStock) {
       stockStatus = 'out_of_stock'
@@ -41,7 +58,7 @@ export const checkLowStockLevels: CollectionAfterReadHook = async ({
     }
 
     // Add stock level information to the document
-    const stockInfo = {
+    const stockInfo: InventoryStockInfo = {
       quantity,
       low_stock_threshold: threshold,
       is_out_of_stock: isOutOfStock,
@@ -60,18 +77,19 @@ export const checkLowStockLevels: CollectionAfterReadHook = async ({
     req.payload.logger.error(`Error checking low stock levels for inventory ${doc.id}: ${error instanceof Error ? error.message : String(error)}`)
 
     // Return document with safe defaults if calculation fails
+    const fallback: InventoryStockInfo = {
+      quantity: 0,
+      low_stock_threshold: 10,
+      is_out_of_stock: true,
+      is_low_stock: true,
+      is_critically_low: true,
+      stock_level_percentage: 0,
+      stock_status: 'out_of_stock',
+      needs_reorder: true,
+    }
     return {
       ...doc,
-      stock_info: {
-        quantity: 0,
-        low_stock_threshold: 10,
-        is_out_of_stock: true,
-        is_low_stock: true,
-        is_critically_low: true,
-        stock_level_percentage: 0,
-        stock_status: 'out_of_stock' as const,
-        needs_reorder: true,
-      },
+      stock_info: fallback,
     }
   }
 }
@@ -87,10 +105,10 @@ export const getLowStockInventory = async (payload: Payload): Promise<Inventory[
       depth: 2,
     })
 
-    // Filter items where quantity <= low_stock_threshold
+    // Filter items at or below their reorder point
     return allInventory.docs.filter((item: Inventory) => {
       const quantity = item.quantity || 0
-      const threshold = item.low_stock_threshold || 10
+      const threshold = getReorderPoint(item)
       return quantity <= threshold
     })
   } catch (error) {
@@ -124,11 +142,14 @@ export const getOutOfStockInventory = async (payload: Payload): Promise<Inventor
 
 /**
  * Get inventory items that need reordering
+ * Where one outlet is low while another holds a surplus of the same product,
+ * a transfer between them is suggested before buying more.
  */
 export const getInventoryNeedingReorder = async (payload: Payload): Promise<{
   low_stock: Inventory[]
   out_of_stock: Inventory[]
   total_items: number
+  transfer_suggestions: StockTransferSuggestion[]
 }> => {
   try {
     const [lowStockItems, outOfStockItems] = await Promise.all([
@@ -140,10 +161,17 @@ export const getInventoryNeedingReorder = async (payload: Payload): Promise<{
     const outOfStockIds = new Set(outOfStockItems.map(item => item.id))
     const uniqueLowStockItems = lowStockItems.filter(item => !outOfStockIds.has(item.id))
 
+    const productIds = [...uniqueLowStockItems, ...outOfStockItems]
+      .map(item => (typeof item.product === 'object' ? item.product.id : item.product))
+    const transferSuggestions = productIds.length > 0
+      ? await suggestStockTransfers(payload, { productIds: [...new Set(productIds)] })
+      : []
+
     return {
       low_stock: uniqueLowStockItems,
       out_of_stock: outOfStockItems,
       total_items: uniqueLowStockItems.length + outOfStockItems.length,
+      transfer_suggestions: transferSuggestions,
     }
   } catch (error) {
     payload.logger.error(`Error fetching inventory needing reorder: ${error instanceof Error ? error.message : String(error)}`)
@@ -151,12 +179,13 @@ export const getInventoryNeedingReorder = async (payload: Payload): Promise<{
       low_stock: [],
       out_of_stock: [],
       total_items: 0,
+      transfer_suggestions: [],
     }
   }
 }
 
 /**
- * Get stock for a specific product (simplified - 1:1 relationship)
+ * Get stock for a specific product, summed across outlets
  */
 export const getProductStock = async (
   payload: Payload,
@@ -175,7 +204,7 @@ export const getProductStock = async (
           equals: productId,
         },
       },
-      limit: 1,
+      pagination: false,
       depth: 0,
     })
 
@@ -188,9 +217,9 @@ export const getProductStock = async (
       }
     }
 
-    const item = inventory.docs[0] as Inventory
-    const quantity = item.quantity || 0
-    const threshold = item.low_stock_threshold || 10
+    const records = inventory.docs as Inventory[]
+    const quantity = records.reduce((sum, item) => sum + (item.quantity || 0), 0)
+    const threshold = records.reduce((sum, item) => sum + getReorderPoint(item), 0)
 
     return {
       quantity,
@@ -1,3 +1,4 @@
 export { checkLowStockLevels } from './checkLowStockLevels'
+export { recordInitialStock, recordInventoryMovement } from './recordInventoryMovement'
 export { updateCartsOnStockChange } from './updateCartsOnStockChange'
-
+export { validateInventoryOutlet } from './validateInventoryOutlet'
@@ -0,0 +1,75 @@
+import type { Inventory } from '@/payload-types'
+import { createInventoryMovement, getInventoryMovementContext } from '@/utilities/inventoryMovements'
+import type { CollectionAfterChangeHook, CollectionBeforeChangeHook } from 'payload'
+
+/**
+ * Record a ledger movement whenever an inventory quantity changes
+ *
+ * Stock utilities describe the change via `context.inventoryMovement`;
+ * direct edits in the admin panel are recorded as adjustments.
+ */
+export const recordInventoryMovement: CollectionBeforeChangeHook<Inventory> = async ({
+  data,
+  operation,
+  originalDoc,
+  req,
+  context,
+}) => {
+  if (!data || operation !== 'update' || !originalDoc) return data
+
+  const quantityBefore = originalDoc.quantity || 0
+  const quantityAfter = data.quantity ?? quantityBefore
+
+  if (quantityAfter === quantityBefore) return data
+
+  const movement = getInventoryMovementContext(context) ?? {
+    type: 'adjustment' as const,
+    reason: 'Manual inventory edit',
+  }
+
+  const productId = typeof originalDoc.product === 'object' ? originalDoc.product.id : originalDoc.product
+
+  await createInventoryMovement(req.payload, req, {
+    ...movement,
+    inventoryId: originalDoc.id,
+    productId,
+    quantityBefore,
+    quantityAfter,
+  })
+
+  req.payload.logger.info(
+    `Inventory quantity changed for product ${productId}: ${quantityBefore} → ${quantityAfter} (${movement.type})`
+  )
+
+  return data
+}
+
+/**
+ * Record the opening balance of a newly created inventory record as a receipt
+ * Runs after change because the inventory ID is not known before insert
+ */
+export const recordInitialStock: CollectionAfterChangeHook<Inventory> = async ({
+  doc,
+  operation,
+  req,
+  context,
+}) => {
+  if (operation !== 'create' || !doc.quantity) return doc
+
+  const movement = getInventoryMovementContext(context) ?? {
+    type: 'receipt' as const,
+    reason: 'Opening stock',
+  }
+
+  const productId = typeof doc.product === 'object' ? doc.product.id : doc.product
+
+  await createInventoryMovement(req.payload, req, {
+    ...movement,
+    inventoryId: doc.id,
+    productId,
+    quantityBefore: 0,
+    quantityAfter: doc.quantity,
+  })
+
+  return doc
+}
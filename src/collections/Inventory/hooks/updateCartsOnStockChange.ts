@@ -1,5 +1,7 @@
 import type { Cart } from '@/payload-types'
 import { productCaching } from '@/utilities/caching'
+import { findProductInventory } from '@/utilities/outlets'
+import { getVariantUnitsPerPack } from '@/utilities/productVariants'
 import { invalidateStockCache } from '@/utilities/stockAvailability'
 import type { CollectionAfterChangeHook, PayloadRequest } from 'payload'
 
@@ -74,9 +76,13 @@ export const updateCartsOnStockChange: CollectionAfterChangeHook = async ({
 
       req.payload.logger.info(`Found ${cartsWithProduct.docs.length} carts containing product ${productId}`)
 
+      // Carts are not routed to an outlet yet: cap them at the chain-wide stock
+      const records = await findProductInventory(req.payload, productId, { req })
+      const totalQuantity = records.reduce((sum, record) => sum + (record.quantity || 0), 0)
+
       // Update each cart that contains this product
       for (const cart of cartsWithProduct.docs) {
-        await updateCartForStockChange(req, cart, productId, currentQuantity)
+        await updateCartForStockChange(req, cart, productId, totalQuantity)
       }
     }
 
@@ -113,10 +119,13 @@ async function updateCartForStockChange(
 
       if (itemProductId === productId) {
         const currentQuantity = item.quantity || 0
+        // Pack-size variants consume several stock units per pack
+        const unitsPerPack = typeof item.variant === 'object' ? getVariantUnitsPerPack(item.variant) : 1
+        const availablePacks = Math.floor(availableStock / unitsPerPack)
 
-        if (currentQuantity > availableStock) {
+        if (currentQuantity > availablePacks) {
           // Reduce quantity to available stock
-          const newQuantity = Math.max(0, availableStock)
+          const newQuantity = Math.max(0, availablePacks)
 
           if (newQuantity === 0) {
             req.payload.logger.info(`Removing out-of-stock product ${productId} from cart ${cart.id}`)
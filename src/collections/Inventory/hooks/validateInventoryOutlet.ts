@@ -0,0 +1,54 @@
+import type { Inventory } from '@/payload-types'
+import { findInventoryRecord, getDefaultOutlet } from '@/utilities/outlets'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : null
+}
+
+/**
+ * One inventory record per product per outlet
+ * New records without an outlet are assigned to the default outlet when one
+ * exists. Stock cannot be moved by re-assigning a record to another outlet.
+ * The (product_id, outlet_id) unique constraint rejects concurrent duplicates
+ * that both pass this check.
+ */
+export const validateInventoryOutlet: CollectionBeforeChangeHook<Inventory> = async ({
+  data,
+  operation,
+  originalDoc,
+  req,
+}) => {
+  if (!data) return data
+
+  const productId = relationId(data.product ?? originalDoc?.product)
+  const previousOutletId = relationId(originalDoc?.outlet)
+  let outletId = data.outlet === undefined ? previousOutletId : relationId(data.outlet)
+
+  const changed =
+    operation === 'create' ||
+    outletId !== previousOutletId ||
+    productId !== relationId(originalDoc?.product)
+  if (!productId || !changed) return data
+
+  if (operation === 'update' && previousOutletId && outletId !== previousOutletId) {
+    throw new APIError('An inventory record cannot move to another outlet', 400, null, true)
+  }
+
+  if (!outletId) {
+    const defaultOutlet = await getDefaultOutlet(req.payload, req)
+    if (defaultOutlet) {
+      outletId = defaultOutlet.id
+      data.outlet = outletId
+    }
+  }
+
+  const existing = await findInventoryRecord(req.payload, productId, { outletId, req })
+  if (existing && existing.id !== originalDoc?.id) {
+    throw new APIError('This product already has an inventory record at this outlet', 400, null, true)
+  }
+
+  return data
+}
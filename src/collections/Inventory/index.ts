@@ -1,15 +1,29 @@
 import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
 import type { CollectionConfig } from 'payload'
-import { checkLowStockLevels, updateCartsOnStockChange } from './hooks'
+import {
+  checkLowStockLevels,
+  recordInitialStock,
+  recordInventoryMovement,
+  updateCartsOnStockChange,
+  validateInventoryOutlet,
+} from './hooks'
 
 /**
- * Inventory Collection - Stock management per product (1:1 relationship)
+ * Inventory Collection - Stock management per product per outlet
  * 
  * Schema fields:
- * - product_id (uuid, FK, UNIQUE)
- * - quantity (integer, NOT NULL, default 0)
+ * - product_id (uuid, FK), outlet_id (uuid, FK) - UNIQUE together, NULLS NOT DISTINCT
+ * - quantity (integer, NOT NULL, default 0, in the product's base unit)
  * - low_stock_threshold (integer, default 10)
+ * - reorder_point, safety_stock (integer), average_daily_demand (numeric),
+ *   lead_time_days (integer), forecast_updated_at (timestamptz) - demand forecast
+ * - abc_class, xyz_class (varchar), classified_at (timestamptz) - latest ABC/XYZ run
+ * - shelf_location (varchar)
  * - updated_at (timestamptz)
+ *
+ * Quantity changes are recorded in the inventory-movements ledger. The reorder
+ * point is forecast daily from sales (src/utilities/demandForecast) and
+ * replaces low_stock_threshold once the record has sales history.
  */
 export const Inventory: CollectionConfig = {
   slug: 'inventory',
@@ -17,9 +31,9 @@ export const Inventory: CollectionConfig = {
   lockDocuments: false,
   admin: {
     useAsTitle: 'id',
-    defaultColumns: ['product', 'quantity', 'low_stock_threshold', 'updated_at'],
+    defaultColumns: ['product', 'outlet', 'quantity', 'low_stock_threshold', 'reorder_point', 'updated_at'],
     group: 'Inventory',
-    description: 'Stock management per product',
+    description: 'Stock management per product per outlet',
     pagination: {
       defaultLimit: 20,
       limits: [10, 20, 50, 100],
@@ -37,9 +51,18 @@ export const Inventory: CollectionConfig = {
       type: 'relationship',
       relationTo: 'products',
       required: true,
-      unique: true, // 1:1 relationship per schema
+      index: true,
       admin: {
-        description: 'The product this inventory belongs to (1:1 relationship)',
+        description: 'The product this inventory belongs to (one record per outlet)',
+      },
+    },
+    {
+      name: 'outlet',
+      type: 'relationship',
+      relationTo: 'outlets',
+      index: true,
+      admin: {
+        description: 'Outlet holding this stock. Empty means the default outlet.',
       },
     },
     {
@@ -50,7 +73,7 @@ export const Inventory: CollectionConfig = {
       min: 0,
       index: true,
       admin: {
-        description: 'Current available quantity',
+        description: 'Current available quantity, in the product\'s base unit',
         step: 1,
       },
       validate: (value: number | null | undefined) => {
@@ -72,7 +95,7 @@ export const Inventory: CollectionConfig = {
       defaultValue: 10,
       min: 0,
       admin: {
-        description: 'Minimum stock level before low stock alert',
+        description: 'Minimum stock level before low stock alert. Used until a reorder point is forecast.',
         step: 1,
       },
       validate: (value: number | null | undefined) => {
@@ -88,6 +111,112 @@ export const Inventory: CollectionConfig = {
         return true
       },
     },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'reorder_point',
+          type: 'number',
+          admin: {
+            description: 'Forecast from sales: lead time demand + safety stock',
+            readOnly: true,
+            width: '33%',
+          },
+        },
+        {
+          name: 'safety_stock',
+          type: 'number',
+          admin: {
+            readOnly: true,
+            width: '33%',
+          },
+        },
+        {
+          name: 'average_daily_demand',
+          type: 'number',
+          admin: {
+            description: 'Moving average of daily sales, in base units',
+            readOnly: true,
+            width: '33%',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'lead_time_days',
+          type: 'number',
+          admin: {
+            description: 'Supplier lead time used for the forecast',
+            readOnly: true,
+            width: '50%',
+          },
+        },
+        {
+          name: 'forecast_updated_at',
+          type: 'date',
+          admin: {
+            readOnly: true,
+            width: '50%',
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'abc_class',
+          type: 'select',
+          index: true,
+          options: [
+            { label: 'A - top 80% of revenue', value: 'A' },
+            { label: 'B - next 15% of revenue', value: 'B' },
+            { label: 'C - last 5% of revenue', value: 'C' },
+          ],
+          admin: {
+            readOnly: true,
+            width: '33%',
+          },
+        },
+        {
+          name: 'xyz_class',
+          type: 'select',
+          index: true,
+          options: [
+            { label: 'X - steady demand', value: 'X' },
+            { label: 'Y - variable demand', value: 'Y' },
+            { label: 'Z - erratic demand', value: 'Z' },
+          ],
+          admin: {
+            readOnly: true,
+            width: '33%',
+          },
+        },
+        {
+          name: 'classified_at',
+          type: 'date',
+          admin: {
+            description: 'Set by the ABC/XYZ classification report',
+            readOnly: true,
+            width: '33%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'shelf_location',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'Shelf or bin the stock is kept on, e.g. A-03. Used to scope stock takes.',
+      },
+    },
     {
       name: 'updated_at',
       type: 'date',
@@ -101,21 +230,9 @@ export const Inventory: CollectionConfig = {
   ],
   timestamps: false,
   hooks: {
-    beforeChange: [
-      async ({ data, operation, originalDoc, req }) => {
-        if (!data) return data
-
-        // Log inventory changes for audit purposes
-        if (operation === 'update' && originalDoc && data.quantity !== originalDoc.quantity) {
-          req.payload.logger.info(
-            `Inventory quantity changed for product ${data.product}: ${originalDoc.quantity} → ${data.quantity}`
-          )
-        }
-
-        return data
-      },
-    ],
+    beforeChange: [validateInventoryOutlet, recordInventoryMovement],
     afterChange: [
+      recordInitialStock,
       updateCartsOnStockChange,
       async ({ doc, operation, req, context }) => {
         // Skip if this is triggered by our own hook to prevent loops
@@ -0,0 +1,2 @@
+export { syncInventoryFromBatch, syncInventoryOnBatchDelete } from './syncInventoryFromBatch'
+export { validateBatchData } from './validateBatchData'
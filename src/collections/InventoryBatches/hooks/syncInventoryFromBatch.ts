@@ -0,0 +1,109 @@
+import type { InventoryBatch } from '@/payload-types'
+import {
+  getInventoryMovementContext,
+  inventoryMovementContext,
+  withScopedContext,
+  type InventoryMovementContext,
+} from '@/utilities/inventoryMovements'
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, PayloadRequest } from 'payload'
+
+/**
+ * Apply a batch quantity delta to the batch's inventory record
+ * The inventory update is recorded in the movement ledger by the Inventory hooks
+ */
+async function applyBatchDelta(
+  req: PayloadRequest,
+  batch: InventoryBatch,
+  delta: number,
+  movement: InventoryMovementContext
+): Promise<void> {
+  const inventoryId = typeof batch.inventory === 'object' ? batch.inventory?.id : batch.inventory
+  if (!inventoryId || delta === 0) return
+
+  const inventory = await req.payload.findByID({
+    collection: 'inventory',
+    id: inventoryId,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  const currentQuantity = inventory.quantity || 0
+  const newQuantity = Math.max(0, currentQuantity + delta)
+
+  await withScopedContext(req, () =>
+    req.payload.update({
+      collection: 'inventory',
+      id: inventoryId,
+      data: { quantity: newQuantity },
+      req,
+      overrideAccess: true,
+      context: inventoryMovementContext(movement),
+    })
+  )
+
+  req.payload.logger.info(
+    `Batch ${batch.batch_number}: inventory ${inventoryId} ${currentQuantity} → ${newQuantity} (${movement.type})`
+  )
+}
+
+/**
+ * Keep inventory.quantity in step with batch quantities
+ *
+ * Stock utilities that already update inventory themselves (e.g. FEFO order
+ * deduction) set `context.skipInventorySync` to avoid double counting.
+ */
+export const syncInventoryFromBatch: CollectionAfterChangeHook<InventoryBatch> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+  context,
+}) => {
+  if (context?.skipInventorySync) return doc
+
+  if (operation === 'create') {
+    await applyBatchDelta(
+      req,
+      doc,
+      doc.quantity || 0,
+      getInventoryMovementContext(context) ?? {
+        type: 'receipt',
+        reason: `Batch ${doc.batch_number} received`,
+      }
+    )
+    return doc
+  }
+
+  const delta = (doc.quantity || 0) - (previousDoc?.quantity || 0)
+
+  await applyBatchDelta(
+    req,
+    doc,
+    delta,
+    getInventoryMovementContext(context) ?? {
+      type: 'adjustment',
+      reason: `Batch ${doc.batch_number} quantity edited`,
+    }
+  )
+
+  return doc
+}
+
+/**
+ * Remove a deleted batch's remaining units from inventory
+ */
+export const syncInventoryOnBatchDelete: CollectionAfterDeleteHook<InventoryBatch> = async ({
+  doc,
+  req,
+  context,
+}) => {
+  if (context?.skipInventorySync) return doc
+
+  await applyBatchDelta(req, doc, -(doc.quantity || 0), {
+    type: 'adjustment',
+    reason: `Batch ${doc.batch_number} deleted`,
+  })
+
+  return doc
+}
@@ -0,0 +1,90 @@
+import type { InventoryBatch } from '@/payload-types'
+import { findInventoryRecord, getOutletId } from '@/utilities/outlets'
+import { toBaseQuantity } from '@/utilities/unitsOfMeasure'
+import type { CollectionBeforeValidateHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Validates batch dates and batch number uniqueness, converts a received
+ * quantity (e.g. 5 box) to the product's base unit, and resolves the
+ * inventory record from the product and outlet (the default outlet when empty)
+ */
+export const validateBatchData: CollectionBeforeValidateHook<InventoryBatch> = async ({
+  data,
+  operation,
+  originalDoc,
+  req,
+}) => {
+  if (!data) return data
+
+  const product = data.product ?? originalDoc?.product
+  const productId = product && typeof product === 'object' ? product.id : product
+
+  if (!productId) return data
+
+  // Expiry must come after manufacture
+  const manufactureDate = data.manufacture_date ?? originalDoc?.manufacture_date
+  const expiryDate = data.expiry_date ?? originalDoc?.expiry_date
+  if (manufactureDate && expiryDate && new Date(expiryDate) <= new Date(manufactureDate)) {
+    throw new APIError('Expiry date must be after manufacture date', 400, null, true)
+  }
+
+  // Resolve inventory record for the product at the batch's outlet
+  const inventory = await findInventoryRecord(req.payload, productId, {
+    outletId: getOutletId(data.outlet === undefined ? originalDoc?.outlet : data.outlet),
+    req,
+  })
+
+  if (!inventory) {
+    throw new APIError('Create an inventory record for this product at this outlet before adding batches', 400, null, true)
+  }
+
+  const previousInventory = originalDoc?.inventory
+  const previousInventoryId = typeof previousInventory === 'object' ? previousInventory?.id : previousInventory
+  if (previousInventoryId && previousInventoryId !== inventory.id) {
+    throw new APIError('A batch cannot move to another outlet', 400, null, true)
+  }
+
+  data.inventory = inventory.id
+  data.outlet = getOutletId(inventory.outlet)
+
+  // Batch number must be unique per product per outlet
+  const batchNumber = data.batch_number?.trim()
+  if (batchNumber) {
+    data.batch_number = batchNumber
+
+    const existing = await req.payload.find({
+      collection: 'inventory-batches',
+      where: {
+        and: [
+          { inventory: { equals: inventory.id } },
+          { batch_number: { equals: batchNumber } },
+          ...(originalDoc?.id ? [{ id: { not_equals: originalDoc.id } }] : []),
+        ],
+      },
+      limit: 1,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+
+    if (existing.totalDocs > 0) {
+      throw new APIError(`Batch ${batchNumber} already exists for this product at this outlet`, 400, null, true)
+    }
+  }
+
+  // A receipt entered in a purchase unit sets the batch quantity in base units
+  if (operation === 'create' && data.received_quantity) {
+    const productDoc = await req.payload.findByID({
+      collection: 'products',
+      id: productId,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+
+    data.quantity = toBaseQuantity(productDoc, data.received_quantity, data.received_unit)
+  }
+
+  return data
+}
@@ -0,0 +1,181 @@
+import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
+import { UNIT_OF_MEASURE_OPTIONS } from '@/utilities/unitsOfMeasure'
+import type { CollectionConfig } from 'payload'
+import { syncInventoryFromBatch, syncInventoryOnBatchDelete, validateBatchData } from './hooks'
+
+/**
+ * Inventory Batches Collection - Stock per batch/lot with expiry dates
+ *
+ * Schema fields:
+ * - inventory_id (uuid, FK)
+ * - product_id, outlet_id (uuid, FK)
+ * - batch_number (varchar, unique per product per outlet)
+ * - manufacture_date, expiry_date (timestamptz)
+ * - quantity (integer, remaining units in this batch, in the product's base unit)
+ * - received_quantity, received_unit (quantity as received, e.g. 5 box)
+ * - unit_cost (numeric, purchase cost per base unit)
+ * - purchase_order_id, supplier_id (uuid, FK; set by goods receipt)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Batch quantities roll up into inventory.quantity. Any inventory quantity not
+ * covered by batches is treated as unbatched legacy stock. Orders consume
+ * batches FEFO (first-expiry-first-out).
+ */
+export const InventoryBatches: CollectionConfig = {
+  slug: 'inventory-batches',
+  dbName: 'inventory_batches',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'batch_number',
+    defaultColumns: ['batch_number', 'product', 'quantity', 'expiry_date', 'unit_cost'],
+    group: 'Inventory',
+    description: 'Stock per batch/lot. Orders consume the earliest-expiring batch first.',
+    pagination: {
+      defaultLimit: 20,
+      limits: [10, 20, 50, 100],
+    },
+  },
+  access: {
+    create: inventoryAdminAccess,
+    read: inventoryAdminAccess,
+    update: inventoryAdminAccess,
+    delete: inventoryAdminAccess,
+  },
+  fields: [
+    {
+      name: 'product',
+      type: 'relationship',
+      relationTo: 'products',
+      required: true,
+      index: true,
+      admin: {
+        description: 'Product this batch belongs to',
+      },
+    },
+    {
+      name: 'outlet',
+      type: 'relationship',
+      relationTo: 'outlets',
+      index: true,
+      admin: {
+        description: 'Outlet holding this batch. Empty means the default outlet.',
+      },
+    },
+    {
+      name: 'inventory',
+      type: 'relationship',
+      relationTo: 'inventory',
+      index: true,
+      admin: {
+        description: 'Resolved automatically from the product and outlet',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'batch_number',
+      type: 'text',
+      required: true,
+      index: true,
+      admin: {
+        description: 'Batch/lot number printed on the packaging',
+      },
+    },
+    {
+      name: 'manufacture_date',
+      type: 'date',
+      admin: {
+        date: { pickerAppearance: 'dayOnly' },
+      },
+    },
+    {
+      name: 'expiry_date',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: { pickerAppearance: 'dayOnly' },
+      },
+    },
+    {
+      name: 'quantity',
+      type: 'number',
+      required: true,
+      defaultValue: 0,
+      min: 0,
+      admin: {
+        description: 'Remaining units in this batch, in the product\'s base unit',
+        step: 1,
+      },
+      validate: (value: number | null | undefined) => {
+        if (value === null || value === undefined) {
+          return 'Quantity is required'
+        }
+        if (value < 0) {
+          return 'Quantity cannot be negative'
+        }
+        if (!Number.isInteger(value)) {
+          return 'Quantity must be a whole number'
+        }
+        return true
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'received_quantity',
+          type: 'number',
+          min: 1,
+          admin: {
+            description: 'Quantity as received, in the unit below. Sets the batch quantity on create.',
+            step: 1,
+            width: '50%',
+          },
+        },
+        {
+          name: 'received_unit',
+          type: 'select',
+          options: UNIT_OF_MEASURE_OPTIONS,
+          admin: {
+            description: 'Unit received, e.g. box. Converted with the product\'s unit conversions.',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'unit_cost',
+      type: 'number',
+      min: 0,
+      admin: {
+        description: 'Purchase cost per base unit (IDR), used for inventory valuation',
+      },
+    },
+    {
+      name: 'purchase_order',
+      type: 'relationship',
+      relationTo: 'purchase-orders',
+      index: true,
+      admin: {
+        description: 'Purchase order this batch was received on',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'supplier',
+      type: 'relationship',
+      relationTo: 'suppliers',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+  hooks: {
+    beforeValidate: [validateBatchData],
+    afterChange: [syncInventoryFromBatch],
+    afterDelete: [syncInventoryOnBatchDelete],
+  },
+}
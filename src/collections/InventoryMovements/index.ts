@@ -0,0 +1,165 @@
+import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Inventory Movements Collection - Append-only stock ledger
+ *
+ * Schema fields:
+ * - inventory_id (uuid, FK)
+ * - product_id (uuid, FK)
+ * - type (varchar: sale, cancellation_restore, adjustment, expiry, return, receipt,
+ *   transfer_out, transfer_in)
+ * - quantity_change, quantity_before, quantity_after (integer)
+ * - actor_id (uuid, FK admins), order_id (uuid, FK orders)
+ * - stock_transfer_id (uuid, FK stock_transfers)
+ * - reason, notes (text)
+ * - batch_allocations (jsonb: batches a sale took, reversed exactly on restore)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Rows are written by the Inventory hooks only; the sum of quantity_change per
+ * inventory record must equal inventory.quantity.
+ */
+export const InventoryMovements: CollectionConfig = {
+  slug: 'inventory-movements',
+  dbName: 'inventory_movements',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'id',
+    defaultColumns: ['product', 'type', 'quantity_change', 'quantity_after', 'order', 'createdAt'],
+    group: 'Inventory',
+    description: 'Read-only stock ledger. Every inventory quantity change is recorded here.',
+    pagination: {
+      defaultLimit: 50,
+      limits: [20, 50, 100],
+    },
+  },
+  access: {
+    // Ledger entries are created by Inventory hooks via Local API (bypasses access)
+    create: () => false,
+    read: inventoryAdminAccess,
+    // Immutable audit trail
+    update: () => false,
+    delete: () => false,
+  },
+  fields: [
+    {
+      name: 'inventory',
+      type: 'relationship',
+      relationTo: 'inventory',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'product',
+      type: 'relationship',
+      relationTo: 'products',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'type',
+      type: 'select',
+      required: true,
+      index: true,
+      options: [
+        { label: 'Sale', value: 'sale' },
+        { label: 'Cancellation Restore', value: 'cancellation_restore' },
+        { label: 'Adjustment', value: 'adjustment' },
+        { label: 'Expiry', value: 'expiry' },
+        { label: 'Return', value: 'return' },
+        { label: 'Receipt', value: 'receipt' },
+        { label: 'Transfer Out', value: 'transfer_out' },
+        { label: 'Transfer In', value: 'transfer_in' },
+      ],
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'quantity_change',
+      type: 'number',
+      required: true,
+      admin: {
+        description: 'Signed delta applied to inventory quantity',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'quantity_before',
+      type: 'number',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'quantity_after',
+      type: 'number',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'actor',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        description: 'Admin who made the change (empty for system/checkout changes)',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'order',
+      type: 'relationship',
+      relationTo: 'orders',
+      admin: {
+        description: 'Order that caused this movement, if any',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'stock_transfer',
+      type: 'relationship',
+      relationTo: 'stock-transfers',
+      index: true,
+      admin: {
+        description: 'Transfer between outlets that caused this movement, if any',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'reason',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'batch_allocations',
+      type: 'json',
+      admin: {
+        description: 'Batches the units came from or went back to',
+        readOnly: true,
+        condition: (data) => Boolean(data?.batch_allocations),
+      },
+    },
+  ],
+  timestamps: true,
+}
@@ -0,0 +1,38 @@
+import type { Order } from '@/payload-types'
+import { getVariantUnitsPerPack, loadItemVariants, variantBelongsToProduct } from '@/utilities/productVariants'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Hook to fill the pack size of order lines sold as a variant
+ * Lines copied from a transaction keep their checkout snapshot; lines entered
+ * by hand take units_per_pack from the variant, which must belong to the
+ * line's product.
+ */
+export const applyVariantPackSizes: CollectionBeforeChangeHook<Order> = async ({
+  data,
+  req,
+}) => {
+  if (!data?.items) return data
+
+  const variants = await loadItemVariants(req.payload, data.items, req)
+
+  for (const item of data.items) {
+    const productId = typeof item.product === 'object' && item.product !== null ? item.product.id : item.product
+    const variantId = typeof item.variant === 'object' && item.variant !== null ? item.variant.id : item.variant
+
+    if (!variantId) {
+      item.units_per_pack = item.units_per_pack || 1
+      continue
+    }
+
+    const variant = variants.get(String(variantId))
+    if (!variant || !variantBelongsToProduct(variant, String(productId))) {
+      throw new APIError(`Variant ${variantId} is not a pack size of product ${productId}`, 400, null, true)
+    }
+
+    item.units_per_pack = item.units_per_pack || getVariantUnitsPerPack(variant)
+  }
+
+  return data
+}
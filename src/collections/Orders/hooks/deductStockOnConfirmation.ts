@@ -1,38 +1,33 @@
 import type { Order } from '@/payload-types'
+import { consumeBatchesFEFO, describeBatchAllocations } from '@/utilities/inventoryBatches'
+import { inventoryMovementContext, withScopedContext } from '@/utilities/inventoryMovements'
+import { findInventoryRecord, getOutletId } from '@/utilities/outlets'
+import { getItemBaseQuantity } from '@/utilities/productVariants'
 import type { CollectionAfterChangeHook } from 'payload'
+import { APIError } from 'payload'
 
 /**
- * Hook to deduct stock quantities when order is confirmed
- * Simplified for 1:1 product-inventory relationship
+ * Hook to deduct stock quantities when an order enters processing
+ * Runs when enforceOrderStatusTransition marks the order's stock as held
+ * (`stock_deducted` false → true). Stock is taken from the order's outlet
  */
 export const deductStockOnConfirmation: CollectionAfterChangeHook<Order> = async ({
   doc,
   req,
-  operation: _operation,
+  operation,
   previousDoc,
   context,
 }) => {
   const { payload } = req
 
   try {
-    // Only process when order status changes to 'confirmed' or 'processing'
-    const statusRequiringDeduction = ['confirmed', 'processing']
-    const newStatus = doc?.status
-    const oldStatus = previousDoc?.status
-
-    // Skip if status isn't changing to one that requires stock deduction
-    if (!newStatus || !statusRequiringDeduction.includes(newStatus)) {
+    // Only deduct when stock is being taken
+    if (operation !== 'update' || previousDoc?.stock_deducted || !doc.stock_deducted) {
       return doc
     }
 
-    // Skip if status was already confirmed/processing (avoid double deduction)
-    if (oldStatus && statusRequiringDeduction.includes(oldStatus)) {
-      return doc
-    }
-
-    // Skip if stock wasn't validated (safety check)
-    if (!context.stockValidated) {
-      payload.logger.warn(`Order ${doc.id}: Stock deduction skipped - stock validation not confirmed`)
+    // Stock already deducted by the caller (e.g. processOrderWithStockDeduction)
+    if (context.skipStockDeduction) {
       return doc
     }
 
@@ -49,41 +44,61 @@ export const deductStockOnConfirmation: CollectionAfterChangeHook<Order> = async
         const productId = typeof item.product === 'object' && item.product !== null
           ? (typeof item.product.id === 'string' ? item.product.id : String(item.product.id))
           : String(item.product)
-        const quantityToDeduct = item.quantity || 0
+        // Pack-size lines consume units_per_pack stock units per pack
+        const quantityToDeduct = getItemBaseQuantity(item)
 
         if (productId && quantityToDeduct > 0) {
-          // Get inventory for this product (1:1 relationship)
-          const inventoryResult = await payload.find({
-            collection: 'inventory',
-            where: {
-              product: { equals: productId },
-            },
-            limit: 1,
+          // Get inventory for this product at the order's outlet
+          const inventory = await findInventoryRecord(payload, productId, {
+            outletId: getOutletId(doc.outlet),
             req,
-            overrideAccess: true,
           })
 
-          if (inventoryResult.docs.length === 0) {
+          if (!inventory) {
             payload.logger.warn(`Order ${doc.id}: No inventory found for product ${productId}`)
             continue
           }
 
-          const inventory = inventoryResult.docs[0]
           const currentQuantity = inventory.quantity || 0
-          const newQuantity = Math.max(0, currentQuantity - quantityToDeduct)
+          // validateStockAvailability checked this; stock may have moved since
+          if (currentQuantity < quantityToDeduct) {
+            throw new APIError(
+              `Insufficient stock for product ${productId}: requested ${quantityToDeduct}, available ${currentQuantity}`,
+              400,
+              null,
+              true
+            )
+          }
+          const newQuantity = currentQuantity - quantityToDeduct
 
-          // Update inventory quantity
-          await payload.update({
-            collection: 'inventory',
-            id: inventory.id,
-            data: {
-              quantity: newQuantity,
-            },
-            req,
-            overrideAccess: true,
-            context: { skipHooks: true },
+          // Consume batches first-expiry-first-out
+          const { allocations } = await consumeBatchesFEFO(payload, req, productId, quantityToDeduct, {
+            inventoryId: inventory.id,
           })
 
+          // Update inventory quantity, recording the batches taken for restoration
+          await withScopedContext(req, () =>
+            payload.update({
+              collection: 'inventory',
+              id: inventory.id,
+              data: {
+                quantity: newQuantity,
+              },
+              req,
+              overrideAccess: true,
+              context: inventoryMovementContext(
+                {
+                  type: 'sale',
+                  orderId: doc.id,
+                  reason: 'Order confirmation',
+                  notes: describeBatchAllocations(allocations),
+                  batchAllocations: allocations,
+                },
+                { skipHooks: true }
+              ),
+            })
+          )
+
           payload.logger.info(
             `Order ${doc.id}: Deducted ${quantityToDeduct} from product ${productId} (${currentQuantity} → ${newQuantity})`
           )
@@ -97,7 +112,8 @@ export const deductStockOnConfirmation: CollectionAfterChangeHook<Order> = async
 
     return doc
   } catch (error) {
+    // Re-throw so the status change rolls back with the failed deduction
     payload.logger.error(`Order ${doc.id}: Stock deduction failed: ${error}`)
-    return doc
+    throw error
   }
 }
\ No newline at end of file
@@ -0,0 +1,66 @@
+import type { Order } from '@/payload-types'
+import {
+  canTransitionOrderStatus,
+  INITIAL_ORDER_STATUSES,
+  isOrderStatus,
+  SHIPPED_ORDER_STATUSES,
+} from '@/utilities/orderStatus'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Hook to enforce the order status state machine
+ *
+ * Rejects illegal transitions and flips `stock_deducted`, which drives
+ * deductStockOnConfirmation and restoreStockOnCancellation:
+ * - entering processing deducts stock (unless already held)
+ * - cancelling/refunding before shipping restores it
+ * Orders flagged with a payment mismatch cannot enter processing.
+ */
+export const enforceOrderStatusTransition: CollectionBeforeChangeHook<Order> = async ({
+  data,
+  operation,
+  originalDoc,
+}) => {
+  if (!data) return data
+
+  if (operation === 'create') {
+    const status = data.status || 'pending'
+    if (!isOrderStatus(status) || !INITIAL_ORDER_STATUSES.includes(status)) {
+      throw new APIError(`Orders cannot be created with status "${status}"`, 400, null, true)
+    }
+    if (status === 'prescription_review' && !data.prescription_required) {
+      throw new APIError('Only prescription orders can await prescription review', 400, null, true)
+    }
+    data.stock_deducted = false
+    return data
+  }
+
+  const from = originalDoc?.status || 'pending'
+  const to = data.status || from
+
+  if (to === from) return data
+
+  if (!canTransitionOrderStatus(from, to)) {
+    throw new APIError(`Cannot change order status from "${from}" to "${to}"`, 400, null, true)
+  }
+
+  const paymentMismatch = data.has_payment_mismatch ?? originalDoc?.has_payment_mismatch
+  if (to === 'processing' && paymentMismatch) {
+    throw new APIError('Reconcile the payment mismatch before processing this order', 400, null, true)
+  }
+
+  const stockDeducted = Boolean(originalDoc?.stock_deducted)
+
+  if (to === 'processing' && !stockDeducted) {
+    data.stock_deducted = true
+  }
+
+  const goodsShipped = isOrderStatus(from) && SHIPPED_ORDER_STATUSES.includes(from)
+
+  if ((to === 'cancelled' || to === 'refunded') && stockDeducted && !goodsShipped) {
+    data.stock_deducted = false
+  }
+
+  return data
+}
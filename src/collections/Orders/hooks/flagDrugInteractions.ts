@@ -0,0 +1,47 @@
+import type { Order } from '@/payload-types'
+import { checkDrugInteractions } from '@/utilities/drugInteractions'
+import type { CollectionBeforeChangeHook } from 'payload'
+
+/**
+ * Hook to record drug interaction and duplicate-therapy warnings on the order
+ * Rechecked whenever items are set, against the order and the customer's
+ * recent orders. Warnings are informational: the pharmacist reviews them
+ * before moving the order to processing.
+ */
+export const flagDrugInteractions: CollectionBeforeChangeHook<Order> = async ({
+  data,
+  req,
+  operation,
+  originalDoc,
+}) => {
+  if (!data) return data
+  if (operation !== 'create' && !data.items) return data
+
+  const productIds = (data.items || [])
+    .map((item) => (typeof item.product === 'object' && item.product !== null ? item.product.id : item.product))
+    .filter(Boolean)
+
+  const orderedBy = data.orderedBy ?? originalDoc?.orderedBy
+  const customerId = typeof orderedBy === 'object' && orderedBy !== null ? orderedBy.id : orderedBy
+
+  try {
+    const warnings = await checkDrugInteractions(req.payload, {
+      productIds,
+      customerId,
+      excludeOrderId: originalDoc?.id,
+      req,
+    })
+
+    data.interaction_warnings = warnings.map((warning) => ({
+      type: warning.type,
+      severity: warning.severity,
+      message: warning.message,
+    }))
+    data.has_interaction_warnings = warnings.length > 0
+  } catch (error) {
+    // A failed check must not block checkout; leave the previous result in place
+    req.payload.logger.error(`Drug interaction check failed: ${error}`)
+  }
+
+  return data
+}
@@ -1,3 +1,10 @@
+export { applyVariantPackSizes } from './applyVariantPackSizes'
 export { deductStockOnConfirmation } from './deductStockOnConfirmation'
+export { enforceOrderStatusTransition } from './enforceOrderStatusTransition'
+export { flagDrugInteractions } from './flagDrugInteractions'
+export { notifyPrescriptionRejection } from './notifyPrescriptionRejection'
 export { restoreStockOnCancellation } from './restoreStockOnCancellation'
+export { reviewPrescription } from './reviewPrescription'
+export { routeOrderToOutlet } from './routeOrderToOutlet'
+export { settleStockReservations } from './settleStockReservations'
 export { validateStockAvailability } from './validateStockAvailability'
@@ -0,0 +1,55 @@
+import type { Order } from '@/payload-types'
+import type { CollectionAfterChangeHook } from 'payload'
+
+/**
+ * Hook to email the customer when their prescription is rejected
+ * Email failures are logged and never block the order update
+ */
+export const notifyPrescriptionRejection: CollectionAfterChangeHook<Order> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  if (operation !== 'update') return doc
+  if (doc.prescription_status !== 'rejected' || previousDoc?.prescription_status === 'rejected') {
+    return doc
+  }
+
+  const { payload } = req
+
+  try {
+    const customerId = typeof doc.orderedBy === 'object' ? doc.orderedBy?.id : doc.orderedBy
+    if (!customerId) return doc
+
+    const customer = await payload.findByID({
+      collection: 'users',
+      id: customerId,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+
+    if (!customer?.email) {
+      payload.logger.warn(`Order ${doc.id}: cannot notify prescription rejection - customer has no email`)
+      return doc
+    }
+
+    await payload.sendEmail({
+      to: customer.email,
+      subject: `Resep untuk pesanan ${doc.id} ditolak`,
+      html: [
+        `<p>Halo ${customer.full_name || 'Pelanggan'},</p>`,
+        `<p>Resep yang Anda unggah untuk pesanan <strong>${doc.id}</strong> tidak dapat kami verifikasi, sehingga pesanan dibatalkan.</p>`,
+        `<p>Alasan: ${doc.prescription_rejection_reason || '-'}</p>`,
+        '<p>Silakan buat pesanan baru dengan resep yang valid atau hubungi apoteker kami.</p>',
+      ].join(''),
+    })
+
+    payload.logger.info(`Order ${doc.id}: prescription rejection sent to ${customer.email}`)
+  } catch (error) {
+    payload.logger.error(`Order ${doc.id}: failed to send prescription rejection email: ${error}`)
+  }
+
+  return doc
+}
@@ -1,39 +1,37 @@
 import type { Order } from '@/payload-types'
+import { describeBatchAllocations, restoreOrderBatchStock } from '@/utilities/inventoryBatches'
+import { inventoryMovementContext, withScopedContext } from '@/utilities/inventoryMovements'
+import { findInventoryRecord, getOutletId } from '@/utilities/outlets'
+import { getItemBaseQuantity } from '@/utilities/productVariants'
 import type { CollectionAfterChangeHook } from 'payload'
 
 /**
- * Hook to restore stock quantities when order is cancelled
- * Simplified for 1:1 product-inventory relationship
+ * Hook to restore stock quantities when an order is cancelled or refunded
+ * Runs when enforceOrderStatusTransition releases the order's stock
+ * (`stock_deducted` true → false). Stock returns to the order's outlet
  */
 export const restoreStockOnCancellation: CollectionAfterChangeHook<Order> = async ({
   doc,
   req,
-  operation: _operation,
+  operation,
   previousDoc,
-  context: _context,
+  context,
 }) => {
   const { payload } = req
 
   try {
-    // Only process when order status changes to 'cancelled'
-    const newStatus = doc?.status
-    const oldStatus = previousDoc?.status
-
-    // Skip if status isn't changing to cancelled
-    if (newStatus !== 'cancelled') {
+    // Only restore when stock is being released
+    if (operation !== 'update' || !previousDoc?.stock_deducted || doc.stock_deducted) {
       return doc
     }
 
-    // Skip if order was already cancelled (avoid double restoration)
-    if (oldStatus === 'cancelled') {
+    // Stock already restored by the caller (e.g. cancelOrderWithStockRestoration)
+    if (context.skipStockRestoration) {
       return doc
     }
 
-    // Only restore stock if the order was previously confirmed/processing
-    const statusesWithStockDeducted = ['confirmed', 'processing', 'shipped']
-    if (!oldStatus || !statusesWithStockDeducted.includes(oldStatus)) {
-      return doc
-    }
+    const reason = (context.cancellationReason as string | undefined)
+      || (doc.status === 'refunded' ? 'Order refund' : 'Order cancellation')
 
     // Skip if no items in the order
     if (!doc?.items || !Array.isArray(doc.items) || doc.items.length === 0) {
@@ -48,40 +46,48 @@ export const restoreStockOnCancellation: CollectionAfterChangeHook<Order> = asyn
         const productId = typeof item.product === 'object' && item.product !== null
           ? (typeof item.product.id === 'string' ? item.product.id : String(item.product.id))
           : String(item.product)
-        const quantityToRestore = item.quantity || 0
+        const quantityToRestore = getItemBaseQuantity(item)
 
         if (productId && quantityToRestore > 0) {
-          // Get inventory for this product (1:1 relationship)
-          const inventoryResult = await payload.find({
-            collection: 'inventory',
-            where: {
-              product: { equals: productId },
-            },
-            limit: 1,
+          // Get inventory for this product at the order's outlet
+          const inventory = await findInventoryRecord(payload, productId, {
+            outletId: getOutletId(doc.outlet),
             req,
-            overrideAccess: true,
           })
 
-          if (inventoryResult.docs.length === 0) {
+          if (!inventory) {
             payload.logger.warn(`Order ${doc.id}: No inventory found for product ${productId}`)
             continue
           }
 
-          const inventory = inventoryResult.docs[0]
           const currentQuantity = inventory.quantity || 0
           const newQuantity = currentQuantity + quantityToRestore
 
+          // Return units to the batches the order took them from
+          const { allocations } = await restoreOrderBatchStock(payload, req, doc.id, inventory.id, quantityToRestore)
+
           // Update inventory quantity
-          await payload.update({
-            collection: 'inventory',
-            id: inventory.id,
-            data: {
-              quantity: newQuantity,
-            },
-            req,
-            overrideAccess: true,
-            context: { skipHooks: true },
-          })
+          await withScopedContext(req, () =>
+            payload.update({
+              collection: 'inventory',
+              id: inventory.id,
+              data: {
+                quantity: newQuantity,
+              },
+              req,
+              overrideAccess: true,
+              context: inventoryMovementContext(
+                {
+                  type: 'cancellation_restore',
+                  orderId: doc.id,
+                  reason,
+                  notes: describeBatchAllocations(allocations),
+                  batchAllocations: allocations,
+                },
+                { skipHooks: true }
+              ),
+            })
+          )
 
           payload.logger.info(
             `Order ${doc.id}: Restored ${quantityToRestore} to product ${productId} (${currentQuantity} → ${newQuantity})`
@@ -96,7 +102,8 @@ export const restoreStockOnCancellation: CollectionAfterChangeHook<Order> = asyn
 
     return doc
   } catch (error) {
+    // Re-throw so the status change rolls back with the failed restoration
     payload.logger.error(`Order ${doc.id}: Stock restoration failed: ${error}`)
-    return doc
+    throw error
   }
 }
\ No newline at end of file
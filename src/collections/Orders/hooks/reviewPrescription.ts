@@ -0,0 +1,115 @@
+import { checkRole } from '@/access/utilities'
+import type { Order } from '@/payload-types'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Hook to run the prescription (resep) verification workflow
+ *
+ * - Flags orders containing prescription-only products
+ * - Holds paid prescription orders in 'prescription_review' until approved
+ * - Applies the pharmacist's decision: approval releases a held order to processing,
+ *   rejection cancels it (the customer is notified by notifyPrescriptionRejection)
+ */
+export const reviewPrescription: CollectionBeforeChangeHook<Order> = async ({
+  data,
+  req,
+  operation,
+  originalDoc,
+}) => {
+  if (!data) return data
+
+  const { payload } = req
+
+  // Always derive the flag from the order's items, never from the request
+  const items = data.items ?? originalDoc?.items ?? []
+  const productIds = items
+    .map((item) => (typeof item.product === 'object' && item.product !== null ? item.product.id : item.product))
+    .filter(Boolean)
+
+  let prescriptionRequired = false
+  if (productIds.length > 0) {
+    const prescriptionProducts = await payload.find({
+      collection: 'products',
+      where: {
+        and: [
+          { id: { in: productIds } },
+          { requires_prescription: { equals: true } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+
+    prescriptionRequired = prescriptionProducts.totalDocs > 0
+  }
+  data.prescription_required = prescriptionRequired
+
+  if (!prescriptionRequired) return data
+
+  // New prescription orders wait for pharmacist review
+  if (operation === 'create') {
+    data.prescription_status = 'pending_review'
+    if (data.status === 'paid') {
+      data.status = 'prescription_review'
+    }
+    return data
+  }
+
+  const previousReview = originalDoc?.prescription_status
+  const isReviewDecision = Boolean(data.prescription_status) && data.prescription_status !== previousReview
+
+  // Paid orders are held until the prescription is approved
+  if (
+    data.status === 'paid' &&
+    originalDoc?.status !== 'paid' &&
+    (data.prescription_status ?? previousReview) !== 'approved'
+  ) {
+    data.status = 'prescription_review'
+  }
+
+  if (!isReviewDecision) {
+    return data
+  }
+
+  // A review decision is being made
+  if (!checkRole(['admin'], req.user)) {
+    throw new APIError('Only pharmacists can review prescriptions', 403, null, true)
+  }
+
+  const reviewer = req.user?.collection === 'admins' ? req.user.id : undefined
+
+  if (data.prescription_status === 'approved') {
+    const prescriptionImage = data.prescription_image ?? originalDoc?.prescription_image
+    if (!prescriptionImage) {
+      throw new APIError('Cannot approve: no prescription image has been uploaded', 400, null, true)
+    }
+
+    data.prescription_reviewed_by = reviewer
+    data.prescription_reviewed_at = new Date().toISOString()
+
+    // Release the order to fulfilment
+    if ((data.status ?? originalDoc?.status) === 'prescription_review') {
+      data.status = 'processing'
+    }
+
+    payload.logger.info(`Order ${originalDoc?.id}: prescription approved by ${reviewer ?? 'system'}`)
+  }
+
+  if (data.prescription_status === 'rejected') {
+    const reason = data.prescription_rejection_reason ?? originalDoc?.prescription_rejection_reason
+    if (!reason?.trim()) {
+      throw new APIError('A rejection reason is required when rejecting a prescription', 400, null, true)
+    }
+
+    data.prescription_reviewed_by = reviewer
+    data.prescription_reviewed_at = new Date().toISOString()
+    data.status = 'cancelled'
+
+    payload.logger.info(`Order ${originalDoc?.id}: prescription rejected by ${reviewer ?? 'system'}`)
+  }
+
+  return data
+}
@@ -0,0 +1,97 @@
+import type { Order } from '@/payload-types'
+import { findFulfilmentOutlet, type OutletAddress } from '@/utilities/outlets'
+import { getItemBaseQuantity } from '@/utilities/productVariants'
+import type { CollectionBeforeChangeHook, PayloadRequest } from 'payload'
+import { APIError } from 'payload'
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : null
+}
+
+/**
+ * Delivery address of an order: the linked address, else the customer's default
+ */
+async function resolveDeliveryAddress(req: PayloadRequest, data: Partial<Order>): Promise<OutletAddress> {
+  const addressId = relationId(data.address)
+  if (addressId) {
+    const address = await req.payload.findByID({
+      collection: 'addresses',
+      id: addressId,
+      depth: 0,
+      req,
+      overrideAccess: true,
+      disableErrors: true,
+    })
+    if (address) return { city: address.city, postalCode: address.postal_code }
+  }
+
+  const customerId = relationId(data.orderedBy)
+  if (!customerId) return {}
+
+  const defaults = await req.payload.find({
+    collection: 'addresses',
+    where: {
+      and: [
+        { user: { equals: customerId } },
+        { is_default: { equals: true } },
+      ],
+    },
+    limit: 1,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+  const address = defaults.docs[0]
+
+  return address ? { city: address.city, postalCode: address.postal_code } : {}
+}
+
+/**
+ * Hook to route new orders to the nearest outlet able to fulfil every item
+ * Uses the order's address, or the customer's default address. Orders no
+ * single outlet can fulfil stay unassigned (the default outlet) for an admin
+ * to route. The outlet cannot change while stock is held for the order.
+ */
+export const routeOrderToOutlet: CollectionBeforeChangeHook<Order> = async ({
+  data,
+  req,
+  operation,
+  originalDoc,
+}) => {
+  if (!data) return data
+
+  if (operation === 'update') {
+    const previousOutlet = relationId(originalDoc?.outlet)
+    const outlet = data.outlet === undefined ? previousOutlet : relationId(data.outlet)
+    if (originalDoc?.stock_deducted && outlet !== previousOutlet) {
+      throw new APIError('The outlet cannot change while stock is held for this order', 400, null, true)
+    }
+    return data
+  }
+
+  if (data.outlet || !data.items?.length) return data
+
+  const address = await resolveDeliveryAddress(req, data)
+  const { outlet, candidates } = await findFulfilmentOutlet(req.payload, {
+    items: data.items.map((item) => ({
+      productId: relationId(item.product) || '',
+      quantity: getItemBaseQuantity(item),
+    })),
+    address,
+    req,
+  })
+
+  if (outlet) {
+    data.outlet = outlet.id
+    req.payload.logger.info(
+      `Order routed to outlet ${outlet.name} (${address.postalCode || address.city || 'no address'})`
+    )
+  } else if (candidates.length > 0) {
+    req.payload.logger.warn(
+      `No single outlet can fulfil the order for ${address.postalCode || address.city || 'no address'}; left for manual routing`
+    )
+  }
+
+  return data
+}
@@ -0,0 +1,34 @@
+import type { Order } from '@/payload-types'
+import { fulfillOrderStockReservations, releaseOrderStockReservations } from '@/utilities/stockReservations'
+import type { CollectionAfterChangeHook } from 'payload'
+
+/**
+ * Hook to end the checkout holds of a paid order
+ * The converted reservations keep the order's stock held until the order
+ * deducts it (`stock_deducted` false → true) or is cancelled/refunded first.
+ */
+export const settleStockReservations: CollectionAfterChangeHook<Order> = async ({
+  doc,
+  req,
+  operation,
+  previousDoc,
+}) => {
+  if (operation !== 'update') return doc
+
+  if (doc.stock_deducted && !previousDoc?.stock_deducted) {
+    const fulfilled = await fulfillOrderStockReservations(req, doc.id)
+    if (fulfilled > 0) {
+      req.payload.logger.info(`Order ${doc.id}: fulfilled ${fulfilled} stock reservations`)
+    }
+  } else if (
+    doc.status !== previousDoc?.status &&
+    (doc.status === 'cancelled' || doc.status === 'refunded')
+  ) {
+    const released = await releaseOrderStockReservations(req, doc.id, `Order ${doc.status}`)
+    if (released > 0) {
+      req.payload.logger.info(`Order ${doc.id}: released ${released} stock reservations (${doc.status})`)
+    }
+  }
+
+  return doc
+}
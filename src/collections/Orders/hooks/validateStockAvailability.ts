@@ -1,9 +1,16 @@
 import type { Order } from '@/payload-types'
+import { getSellableQuantity } from '@/utilities/inventoryBatches'
+import { findInventoryRecord, getOutletId } from '@/utilities/outlets'
+import { getItemBaseQuantity } from '@/utilities/productVariants'
+import { checkPurchaseLimits, PurchaseLimitError } from '@/utilities/purchaseLimits'
 import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
 
 /**
  * Hook to validate stock availability before order confirmation
- * Prevents orders from being confirmed if insufficient stock is available
+ * Prevents orders from being confirmed if insufficient stock is available,
+ * if a prescription-only order has not been approved by a pharmacist, or if
+ * the order exceeds a purchase limit without an admin override
  */
 export const validateStockAvailability: CollectionBeforeChangeHook<Order> = async ({
   data,
@@ -14,9 +21,19 @@ export const validateStockAvailability: CollectionBeforeChangeHook<Order> = asyn
 }) => {
   const { payload } = req
 
+  // Record who overrode the purchase limits, and why
+  if (data?.purchase_limit_override && !originalDoc?.purchase_limit_override) {
+    const reason = data.purchase_limit_override_reason ?? originalDoc?.purchase_limit_override_reason
+    if (!reason?.trim()) {
+      throw new APIError('A reason is required to override purchase limits', 400, null, true)
+    }
+    data.purchase_limit_override_by = req.user?.collection === 'admins' ? req.user.id : undefined
+    data.purchase_limit_override_at = new Date().toISOString()
+  }
+
   try {
-    // Only validate stock when order status is being changed to 'confirmed' or 'processing'
-    const statusRequiringValidation = ['confirmed', 'processing']
+    // Only validate stock when order status is being changed to 'processing'
+    const statusRequiringValidation = ['processing']
     const newStatus = data?.status
     const oldStatus = originalDoc?.status
 
@@ -25,13 +42,44 @@ export const validateStockAvailability: CollectionBeforeChangeHook<Order> = asyn
       return data
     }
 
-    // Skip if status was already confirmed/processing (avoid re-validation)
+    // Skip if status was already processing (avoid re-validation)
     if (oldStatus && statusRequiringValidation.includes(oldStatus)) {
       return data
     }
 
-    // Skip if no items in the order
-    if (!data?.items || !Array.isArray(data.items) || data.items.length === 0) {
+    // Prescription-only orders need pharmacist approval first
+    const prescriptionRequired = data.prescription_required ?? originalDoc?.prescription_required
+    const prescriptionStatus = data.prescription_status ?? originalDoc?.prescription_status
+    if (prescriptionRequired && prescriptionStatus !== 'approved') {
+      throw new APIError('Prescription must be approved by a pharmacist before processing', 400, null, true)
+    }
+
+    // Purchase limits, unless an admin has overridden them for this order
+    const items = data.items ?? originalDoc?.items ?? []
+    if (!(data.purchase_limit_override ?? originalDoc?.purchase_limit_override) && items.length > 0) {
+      const orderedBy = data.orderedBy ?? originalDoc?.orderedBy
+      const violations = await checkPurchaseLimits(payload, {
+        items: items.map((item) => ({
+          productId: typeof item.product === 'object' && item.product !== null ? item.product.id : item.product,
+          quantity: item.quantity || 0,
+          unitsPerPack: item.units_per_pack,
+        })),
+        customerId: typeof orderedBy === 'object' && orderedBy !== null ? orderedBy.id : orderedBy,
+        excludeOrderId: originalDoc?.id,
+        req,
+      })
+      if (violations.length > 0) {
+        throw new PurchaseLimitError(violations)
+      }
+    }
+
+    // Stock already held for this order (e.g. processOrderWithStockDeduction)
+    if (originalDoc?.stock_deducted) {
+      return data
+    }
+
+    // Skip if no items in the order (a status-only update keeps the stored items)
+    if (!Array.isArray(items) || items.length === 0) {
       return data
     }
 
@@ -43,13 +91,20 @@ export const validateStockAvailability: CollectionBeforeChangeHook<Order> = asyn
       availableQuantity: number
     }> = []
 
+    // Stock is taken from the order's outlet (the default outlet when unrouted)
+    const outletId = getOutletId(data.outlet ?? originalDoc?.outlet)
+
+    // Lines for several pack sizes of a product draw on the same stock
+    const requestedByProduct = new Map<string, number>()
+
     // Validate stock availability for each item
-    for (const item of data.items) {
+    for (const item of items) {
       if (item && typeof item === 'object' && 'product' in item && 'quantity' in item) {
         const productId = typeof item.product === 'object' && item.product !== null
           ? (typeof item.product.id === 'string' ? item.product.id : String(item.product.id))
           : String(item.product)
-        const requestedQuantity = item.quantity || 0
+        const requestedQuantity = getItemBaseQuantity(item) + (requestedByProduct.get(productId) || 0)
+        requestedByProduct.set(productId, requestedQuantity)
 
         if (productId && requestedQuantity > 0) {
           // Get product details
@@ -57,7 +112,7 @@ export const validateStockAvailability: CollectionBeforeChangeHook<Order> = asyn
             collection: 'products',
             id: productId,
             req,
-            overrideAccess: false,
+            overrideAccess: true,
           })
 
           if (!product) {
@@ -65,24 +120,10 @@ export const validateStockAvailability: CollectionBeforeChangeHook<Order> = asyn
             continue
           }
 
-          // Get available inventory for this product
-          // Simplified 1:1 inventory check
-          const inventoryResult = await payload.find({
-            collection: 'inventory',
-            where: {
-              product: { equals: productId },
-            },
-            limit: 1,
-            req,
-            overrideAccess: false,
-          })
-
-          let totalAvailable = 0
-
-          if (inventoryResult.docs.length > 0) {
-            const inventory = inventoryResult.docs[0]
-            totalAvailable = inventory.quantity || 0
-          }
+          // Get available inventory for this product at the order's outlet
+          const inventory = await findInventoryRecord(payload, productId, { outletId, req })
+          // Expired batch units are not sellable
+          const totalAvailable = inventory ? await getSellableQuantity(payload, inventory, req) : 0
 
           // Check if we have enough stock
           if (totalAvailable < requestedQuantity) {
@@ -91,9 +132,7 @@ export const validateStockAvailability: CollectionBeforeChangeHook<Order> = asyn
             )
           } else {
             // Store successful validation for potential reservation
-            // inventoryId is technically simplified here as we just use product ID to find it,
-            // but effectively we can use inventory ID if found.
-            const inventoryId = String(inventoryResult.docs.length > 0 ? inventoryResult.docs[0].id : productId)
+            const inventoryId = String(inventory?.id ?? productId)
 
             stockReservations.push({
               inventoryId: inventoryId,
@@ -1,5 +1,19 @@
+import { adminOnlyFieldAccess } from '@/access/adminOnlyFieldAccess'
 import { adminOrOrderOwner } from '@/access/adminOrOrderOwner'
+import { DRUG_INTERACTION_SEVERITY_OPTIONS } from '@/utilities/drugInteractions'
 import { CollectionOverride } from '@payloadcms/plugin-ecommerce/types'
+import {
+  applyVariantPackSizes,
+  deductStockOnConfirmation,
+  enforceOrderStatusTransition,
+  flagDrugInteractions,
+  notifyPrescriptionRejection,
+  restoreStockOnCancellation,
+  reviewPrescription,
+  routeOrderToOutlet,
+  settleStockReservations,
+  validateStockAvailability,
+} from './hooks'
 
 export const OrdersCollection: CollectionOverride = ({ defaultCollection }) => ({
   ...defaultCollection,
@@ -7,6 +21,23 @@ export const OrdersCollection: CollectionOverride = ({ defaultCollection }) => (
   lockDocuments: false,
   hooks: {
     ...defaultCollection?.hooks,
+    beforeChange: [
+      ...(defaultCollection?.hooks?.beforeChange || []),
+      applyVariantPackSizes,
+      routeOrderToOutlet,
+      reviewPrescription,
+      flagDrugInteractions,
+      enforceOrderStatusTransition,
+      validateStockAvailability,
+    ],
+    afterChange: [
+      ...(defaultCollection?.hooks?.afterChange || []),
+      deductStockOnConfirmation,
+      restoreStockOnCancellation,
+      // After deduction, so holds end only once the order has its stock
+      settleStockReservations,
+      notifyPrescriptionRejection,
+    ],
   },
   admin: {
     ...defaultCollection?.admin,
@@ -36,6 +67,11 @@ export const OrdersCollection: CollectionOverride = ({ defaultCollection }) => (
       type: 'number',
       required: true,
       dbName: 'total_amount',
+      // Snapshotted from the payment at checkout; reports read revenue from it
+      access: {
+        create: adminOnlyFieldAccess,
+        update: adminOnlyFieldAccess,
+      },
       admin: {
         description: 'Total order amount',
       },
@@ -46,17 +82,47 @@ export const OrdersCollection: CollectionOverride = ({ defaultCollection }) => (
       dbName: 'status',
       options: [
         { label: 'Pending', value: 'pending' },
+        { label: 'Paid', value: 'paid' },
+        { label: 'Awaiting Prescription Review', value: 'prescription_review' },
         { label: 'Processing', value: 'processing' },
         { label: 'Shipped', value: 'shipped' },
         { label: 'Delivered', value: 'delivered' },
         { label: 'Cancelled', value: 'cancelled' },
+        { label: 'Refunded', value: 'refunded' },
       ],
       defaultValue: 'pending',
+      // Customers' orders start pending; payment and fulfilment set the rest
+      access: {
+        create: adminOnlyFieldAccess,
+        update: adminOnlyFieldAccess,
+      },
+      admin: {
+        description: 'pending → paid → processing → shipped → delivered. Illegal transitions are rejected.',
+      },
+    },
+    {
+      name: 'stock_deducted',
+      type: 'checkbox',
+      defaultValue: false,
+      access: {
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Whether inventory is currently held for this order',
+      },
     },
     {
       name: 'items',
       type: 'array',
       dbName: 'order_items',
+      // Line snapshots are the revenue source for reports; customers cannot rewrite them
+      access: {
+        create: adminOnlyFieldAccess,
+        update: adminOnlyFieldAccess,
+      },
       fields: [
         {
           name: 'product',
@@ -65,10 +131,23 @@ export const OrdersCollection: CollectionOverride = ({ defaultCollection }) => (
           required: true,
           dbName: 'product_id',
         },
+        {
+          name: 'variant',
+          type: 'relationship',
+          relationTo: 'variants',
+          dbName: 'variant_id',
+          admin: {
+            description: 'Pack size, when the product is sold in several',
+          },
+        },
         {
           name: 'price',
           type: 'number',
           required: true,
+          access: {
+            create: adminOnlyFieldAccess,
+            update: adminOnlyFieldAccess,
+          },
           admin: {
             description: 'Price at time of order',
           },
@@ -79,6 +158,15 @@ export const OrdersCollection: CollectionOverride = ({ defaultCollection }) => (
           required: true,
           min: 1,
         },
+        {
+          name: 'units_per_pack',
+          type: 'number',
+          min: 1,
+          admin: {
+            description: 'Stock units per pack; filled from the variant',
+            readOnly: true,
+          },
+        },
       ],
       required: true,
     },
@@ -119,5 +207,243 @@ export const OrdersCollection: CollectionOverride = ({ defaultCollection }) => (
         description: 'Linked address record',
       },
     },
+    {
+      name: 'outlet',
+      type: 'relationship',
+      relationTo: 'outlets',
+      index: true,
+      access: {
+        create: adminOnlyFieldAccess,
+        update: adminOnlyFieldAccess,
+      },
+      admin: {
+        position: 'sidebar',
+        description: 'Fulfilling outlet. Routed on create to the nearest outlet with every item in stock; empty means the default outlet.',
+      },
+    },
+    {
+      name: 'payment_reference',
+      type: 'text',
+      unique: true,
+      index: true,
+      access: {
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Provider reference of the payment this order was created from (one order per payment)',
+      },
+    },
+    {
+      name: 'paid_amount',
+      type: 'number',
+      access: {
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Amount the payment provider settled',
+      },
+    },
+    {
+      name: 'has_payment_mismatch',
+      type: 'checkbox',
+      defaultValue: false,
+      index: true,
+      access: {
+        create: () => false,
+        update: adminOnlyFieldAccess,
+      },
+      admin: {
+        position: 'sidebar',
+        description: 'Set when the order total differs from the paid amount. The order cannot be processed until an admin reconciles the payment and clears this flag.',
+      },
+    },
+    {
+      name: 'prescription_required',
+      type: 'checkbox',
+      defaultValue: false,
+      index: true,
+      // Derived by reviewPrescription from the order's items
+      access: {
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        readOnly: true,
+        description: 'Set automatically when the order contains prescription-only products',
+      },
+    },
+    {
+      name: 'prescription_image',
+      type: 'upload',
+      relationTo: 'private-documents',
+      // Customers upload through POST /api/orders/:id/prescription
+      access: {
+        create: adminOnlyFieldAccess,
+        update: adminOnlyFieldAccess,
+      },
+      admin: {
+        condition: (data) => Boolean(data?.prescription_required),
+        description: 'Photo of the prescription (resep) uploaded by the customer. Private: admins and the customer only.',
+      },
+    },
+    {
+      name: 'prescription_status',
+      type: 'select',
+      options: [
+        { label: 'Pending Review', value: 'pending_review' },
+        { label: 'Approved', value: 'approved' },
+        { label: 'Rejected', value: 'rejected' },
+      ],
+      access: {
+        update: adminOnlyFieldAccess,
+      },
+      admin: {
+        condition: (data) => Boolean(data?.prescription_required),
+        description: 'Pharmacist decision. Approving releases a paid order to processing; rejecting cancels it.',
+      },
+    },
+    {
+      name: 'prescription_rejection_reason',
+      type: 'textarea',
+      access: {
+        update: adminOnlyFieldAccess,
+      },
+      admin: {
+        condition: (data) => data?.prescription_status === 'rejected',
+        description: 'Shown to the customer when the prescription is rejected',
+      },
+    },
+    {
+      name: 'prescription_reviewed_by',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.prescription_reviewed_at),
+      },
+    },
+    {
+      name: 'prescription_reviewed_at',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.prescription_reviewed_at),
+        date: { pickerAppearance: 'dayAndTime' },
+      },
+    },
+    {
+      name: 'purchase_limit_override',
+      type: 'checkbox',
+      defaultValue: false,
+      access: {
+        create: adminOnlyFieldAccess,
+        update: adminOnlyFieldAccess,
+      },
+      admin: {
+        position: 'sidebar',
+        description: 'Allow this order to exceed product or category purchase limits',
+      },
+    },
+    {
+      name: 'purchase_limit_override_reason',
+      type: 'textarea',
+      access: {
+        create: adminOnlyFieldAccess,
+        update: adminOnlyFieldAccess,
+      },
+      admin: {
+        position: 'sidebar',
+        condition: (data) => Boolean(data?.purchase_limit_override),
+        description: 'Required when overriding, e.g. the doctor\'s instructions',
+      },
+    },
+    {
+      name: 'purchase_limit_override_by',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        condition: (data) => Boolean(data?.purchase_limit_override_at),
+      },
+    },
+    {
+      name: 'purchase_limit_override_at',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        condition: (data) => Boolean(data?.purchase_limit_override_at),
+        date: { pickerAppearance: 'dayAndTime' },
+      },
+    },
+    {
+      name: 'has_interaction_warnings',
+      type: 'checkbox',
+      defaultValue: false,
+      index: true,
+      access: {
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Set automatically when the items trigger drug interaction warnings',
+      },
+    },
+    {
+      name: 'interaction_warnings',
+      type: 'array',
+      dbName: 'orders_interaction_warnings',
+      access: {
+        create: () => false,
+        update: () => false,
+      },
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.has_interaction_warnings),
+        description: 'Duplicate therapy and drug interactions with this order or the customer\'s recent orders. Review before processing.',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'type',
+              type: 'select',
+              required: true,
+              options: [
+                { label: 'Interaction', value: 'interaction' },
+                { label: 'Duplicate Therapy', value: 'duplicate_therapy' },
+              ],
+              admin: {
+                width: '50%',
+              },
+            },
+            {
+              name: 'severity',
+              type: 'select',
+              required: true,
+              options: DRUG_INTERACTION_SEVERITY_OPTIONS,
+              admin: {
+                width: '50%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'message',
+          type: 'textarea',
+          required: true,
+        },
+      ],
+    },
   ],
 })
\ No newline at end of file
@@ -0,0 +1,59 @@
+import type { Outlet } from '@/payload-types'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Ensures only one default outlet
+ * Setting an outlet as default unsets the previous default. The default
+ * outlet must stay active: it holds inventory recorded without an outlet.
+ */
+export const ensureSingleDefaultOutlet: CollectionBeforeChangeHook<Outlet> = async ({
+  data,
+  req,
+  originalDoc,
+  context,
+}) => {
+  if (context?.skipDefaultOutletHook || !data) {
+    return data
+  }
+
+  const isDefault = data.is_default ?? originalDoc?.is_default
+  const isActive = data.is_active ?? originalDoc?.is_active ?? true
+  if (!isDefault) {
+    return data
+  }
+
+  if (!isActive) {
+    throw new APIError('The default outlet cannot be deactivated', 400, null, true)
+  }
+
+  if (originalDoc?.is_default) {
+    return data
+  }
+
+  const existingDefaults = await req.payload.find({
+    collection: 'outlets',
+    where: {
+      and: [
+        { is_default: { equals: true } },
+        ...(originalDoc?.id ? [{ id: { not_equals: originalDoc.id } }] : []),
+      ],
+    },
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  for (const outlet of existingDefaults.docs) {
+    await req.payload.update({
+      collection: 'outlets',
+      id: outlet.id,
+      data: { is_default: false },
+      req,
+      overrideAccess: true,
+      context: { skipDefaultOutletHook: true },
+    })
+  }
+
+  return data
+}
@@ -0,0 +1 @@
+export { ensureSingleDefaultOutlet } from './ensureSingleDefaultOutlet'
@@ -0,0 +1,154 @@
+import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
+import { publicAccess } from '@/access/publicAccess'
+import type { CollectionConfig } from 'payload'
+import { ensureSingleDefaultOutlet } from './hooks'
+
+/**
+ * Outlets Collection - Pharmacy branches that hold stock and fulfil orders
+ *
+ * Schema fields:
+ * - name (varchar), code (varchar, unique)
+ * - phone (varchar), address (text), city, postal_code (varchar)
+ * - is_active, is_default (boolean)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Service areas live in outlet_service_areas (city, postal_code_prefix).
+ * Inventory is kept per product per outlet; new orders are routed to the
+ * nearest outlet able to fulfil every item (src/utilities/outlets).
+ */
+export const Outlets: CollectionConfig = {
+  slug: 'outlets',
+  dbName: 'outlets',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'code', 'city', 'postal_code', 'is_active', 'is_default'],
+    group: 'Inventory',
+    description: 'Branches that hold stock. Orders are routed to the nearest outlet that can fulfil them.',
+    pagination: {
+      defaultLimit: 20,
+      limits: [10, 20, 50, 100],
+    },
+  },
+  access: {
+    create: inventoryAdminAccess,
+    read: publicAccess,
+    update: inventoryAdminAccess,
+    delete: inventoryAdminAccess,
+  },
+  hooks: {
+    beforeChange: [ensureSingleDefaultOutlet],
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          required: true,
+          index: true,
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'code',
+          type: 'text',
+          unique: true,
+          admin: {
+            description: 'Short outlet code, e.g. JKT-01',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'address',
+      type: 'textarea',
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'city',
+          type: 'text',
+          index: true,
+          admin: {
+            width: '33%',
+          },
+        },
+        {
+          name: 'postal_code',
+          type: 'text',
+          admin: {
+            width: '33%',
+          },
+        },
+        {
+          name: 'phone',
+          type: 'text',
+          admin: {
+            width: '33%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'service_areas',
+      type: 'array',
+      dbName: 'outlet_service_areas',
+      admin: {
+        description: 'Cities and postal code prefixes this outlet delivers to. A longer matching prefix wins.',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'city',
+              type: 'text',
+              admin: {
+                width: '50%',
+              },
+            },
+            {
+              name: 'postal_code_prefix',
+              type: 'text',
+              admin: {
+                description: 'e.g. 121 for postal codes 121xx',
+                width: '50%',
+              },
+              validate: (value: string | null | undefined) => {
+                if (value && !/^\d{1,5}$/.test(value.trim())) {
+                  return 'Postal code prefix must be 1 to 5 digits'
+                }
+                return true
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'is_active',
+      type: 'checkbox',
+      defaultValue: true,
+      index: true,
+      admin: {
+        description: 'Inactive outlets receive no new orders',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'is_default',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        description: 'Main outlet. Inventory and orders without an outlet belong to it.',
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+}
@@ -0,0 +1,118 @@
+import { adminOnly } from '@/access/adminOnly'
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Payment Reconciliations Collection - One report per reconciliation run
+ *
+ * Schema fields:
+ * - started_at, completed_at (timestamptz)
+ * - checked, updated, expired, unchanged, failed, orders_created (integer)
+ * - results (jsonb, per-transaction outcome)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Reports are written by the `reconcileMidtransTransactions` job and served by
+ * GET /api/reports/payment-reconciliation.
+ */
+export const PaymentReconciliations: CollectionConfig = {
+  slug: 'payment-reconciliations',
+  dbName: 'payment_reconciliations',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'started_at',
+    defaultColumns: ['started_at', 'checked', 'updated', 'expired', 'failed', 'orders_created'],
+    group: 'Payments',
+    description: 'Results of the scheduled Midtrans status reconciliation.',
+    pagination: {
+      defaultLimit: 20,
+      limits: [10, 20, 50],
+    },
+  },
+  access: {
+    // Reports are created by the reconciliation job via Local API (bypasses access)
+    create: () => false,
+    read: adminOnly,
+    update: () => false,
+    delete: adminOnly,
+  },
+  fields: [
+    {
+      name: 'started_at',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+        readOnly: true,
+      },
+    },
+    {
+      name: 'completed_at',
+      type: 'date',
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+        readOnly: true,
+      },
+    },
+    {
+      name: 'checked',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        description: 'Transactions whose status was checked with Midtrans',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'updated',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        description: 'Transactions whose status changed',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'expired',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        description: 'Abandoned transactions that were expired',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'unchanged',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'failed',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        description: 'Transactions that could not be checked (see results)',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'orders_created',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        description: 'Orders created for payments whose webhook was lost',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'results',
+      type: 'json',
+      admin: {
+        readOnly: true,
+      },
+    },
+  ],
+  timestamps: true,
+}
@@ -0,0 +1,93 @@
+import { adminOnly } from '@/access/adminOnly'
+import { adminOrUserId } from '@/access/adminOrUserId'
+import { PRIVATE_DOCUMENT_KIND_OPTIONS, PRIVATE_DOCUMENT_MIME_TYPES } from '@/utilities/privateDocuments'
+import type { CollectionConfig } from 'payload'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const filename = fileURLToPath(import.meta.url)
+const dirname = path.dirname(filename)
+
+/**
+ * Private Documents Collection - Customer uploads that must not be public
+ * (prescriptions, bank transfer receipts)
+ *
+ * Schema fields:
+ * - kind (varchar: prescription, payment_proof)
+ * - user_id (uuid, FK profiles) - customer the document belongs to; null for guest checkouts
+ * - order_id (uuid, FK orders)
+ * - transaction_id (uuid, FK payments)
+ * - filename, mime_type, filesize, url, width, height (upload metadata)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Files are stored outside /public and only served through Payload, so the
+ * read access below applies to the file as well as the record: admins and the
+ * owning customer only. Uploads go through the owner-scoped endpoints
+ * (POST /api/orders/:id/prescription, POST /api/payments/bank_transfer/proof),
+ * never directly.
+ */
+export const PrivateDocuments: CollectionConfig = {
+  slug: 'private-documents',
+  dbName: 'private_documents',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'filename',
+    defaultColumns: ['filename', 'kind', 'user', 'order', 'createdAt'],
+    group: 'Sales',
+    description: 'Prescriptions and transfer receipts uploaded by customers. Visible to admins and the customer only.',
+  },
+  access: {
+    // Created by the upload endpoints via Local API (bypasses access)
+    create: () => false,
+    read: adminOrUserId,
+    update: adminOnly,
+    delete: adminOnly,
+  },
+  fields: [
+    {
+      name: 'kind',
+      type: 'select',
+      required: true,
+      index: true,
+      options: PRIVATE_DOCUMENT_KIND_OPTIONS,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      index: true,
+      admin: {
+        description: 'Customer the document belongs to',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'order',
+      type: 'relationship',
+      relationTo: 'orders',
+      index: true,
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.order),
+      },
+    },
+    {
+      name: 'transaction',
+      type: 'relationship',
+      relationTo: 'transactions',
+      index: true,
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.transaction),
+      },
+    },
+  ],
+  upload: {
+    staticDir: path.resolve(dirname, '../../../private/documents'),
+    mimeTypes: [...PRIVATE_DOCUMENT_MIME_TYPES],
+  },
+  timestamps: true,
+}
@@ -1,4 +1,5 @@
 import { generateCacheKey, productCaching } from '@/utilities/caching'
+import { getReorderPoint } from '@/utilities/demandForecast'
 import type { CollectionAfterReadHook } from 'payload'
 
 /**
@@ -6,7 +7,7 @@ import type { CollectionAfterReadHook } from 'payload'
  * This hook adds computed availability information to product data
  * Uses caching to improve performance for frequently accessed products
  * 
- * Simplified for 1:1 inventory schema
+ * Stock is summed across outlets
  */
 export const calculateProductAvailability: CollectionAfterReadHook = async ({
   doc,
@@ -51,13 +52,14 @@ export const calculateProductAvailability: CollectionAfterReadHook = async ({
       }
     }
 
-    // Get available stock from inventory (1:1 relationship)
+    // Get available stock from inventory, one record per outlet
     const inventoryResult = await req.payload.find({
       collection: 'inventory',
       where: {
         product: { equals: productId }
       },
-      limit: 1,
+      pagination: false,
+      depth: 0,
       req,
     })
 
@@ -65,10 +67,8 @@ export const calculateProductAvailability: CollectionAfterReadHook = async ({
     let lowStockThreshold = 10
 
     if (inventoryResult.docs.length > 0) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const inventory: any = inventoryResult.docs[0]
-      totalQuantity = inventory.quantity || 0
-      lowStockThreshold = inventory.low_stock_threshold || 10
+      totalQuantity = inventoryResult.docs.reduce((sum, inventory) => sum + (inventory.quantity || 0), 0)
+      lowStockThreshold = inventoryResult.docs.reduce((sum, inventory) => sum + getReorderPoint(inventory), 0)
     }
 
     // Determine stock level based on available quantity
@@ -1,3 +1,5 @@
 export { calculateProductAvailability } from './calculateProductAvailability'
+export { invalidateCatalogSearch, invalidateCatalogSearchOnDelete } from './invalidateCatalogSearch'
+export { validateBpomRegistration } from './validateBpomRegistration'
 export { validatePharmacyFields } from './validatePharmacyFields'
-
+export { validateUnitsOfMeasure } from './validateUnitsOfMeasure'
@@ -0,0 +1,18 @@
+import { invalidateCatalogSearchCache } from '@/utilities/catalogSearch'
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'payload'
+
+/**
+ * Hook to drop cached /catalog/search results when a product changes
+ */
+export const invalidateCatalogSearch: CollectionAfterChangeHook = ({ doc }) => {
+  invalidateCatalogSearchCache()
+  return doc
+}
+
+/**
+ * Hook to drop cached /catalog/search results when a product is deleted
+ */
+export const invalidateCatalogSearchOnDelete: CollectionAfterDeleteHook = ({ doc }) => {
+  invalidateCatalogSearchCache()
+  return doc
+}
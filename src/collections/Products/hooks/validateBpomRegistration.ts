@@ -0,0 +1,50 @@
+import type { Product } from '@/payload-types'
+import {
+  getBpomComplianceIssues,
+  normalizeBpomRegistrationNumber,
+  parseBpomRegistrationNumber,
+} from '@/utilities/bpomRegistration'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+const ISSUE_MESSAGES = {
+  missing: 'Medicines need a BPOM registration number before they can be published',
+  malformed: 'BPOM registration number is not valid (expected e.g. DKL1234567890A1, TR123456789, SD123456789)',
+  drug_class_mismatch: 'BPOM registration number does not match the drug class',
+} as const
+
+/**
+ * Hook to normalize the BPOM registration number and record what it encodes
+ * Products with a missing or invalid registration can be saved, but not published.
+ */
+export const validateBpomRegistration: CollectionBeforeChangeHook<Product> = async ({
+  data,
+  originalDoc,
+}) => {
+  if (!data) return data
+
+  if (data.bpom_registration_number !== undefined) {
+    const value = data.bpom_registration_number?.trim()
+    const registration = value ? parseBpomRegistrationNumber(value) : null
+
+    data.bpom_registration_number = value ? normalizeBpomRegistrationNumber(value) : null
+    data.bpom_category = registration?.category ?? null
+    data.bpom_origin = registration?.origin ?? null
+  }
+
+  const isPublished = data.is_published ?? originalDoc?.is_published
+  if (!isPublished) return data
+
+  const issues = getBpomComplianceIssues({
+    bpom_registration_number: data.bpom_registration_number ?? originalDoc?.bpom_registration_number,
+    drug_class: data.drug_class ?? originalDoc?.drug_class,
+    requires_prescription: data.requires_prescription ?? originalDoc?.requires_prescription,
+    generic_name: data.generic_name ?? originalDoc?.generic_name,
+  })
+
+  if (issues.length > 0) {
+    throw new APIError(issues.map((issue) => ISSUE_MESSAGES[issue]).join('\n'), 400, null, true)
+  }
+
+  return data
+}
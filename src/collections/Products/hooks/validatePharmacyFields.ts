@@ -1,52 +1,74 @@
+import type { Product } from '@/payload-types'
+import { normalizeIngredientName, PRESCRIPTION_DRUG_CLASSES, STRENGTH_PATTERN } from '@/utilities/productAttributes'
 import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
 
 /**
  * Validate pharmacy-specific fields for products
- * Ensures data integrity and business rule compliance
+ * Normalizes names and rejects the save when a business rule is broken:
+ * - strengths must follow standard notation (500mg, 120mg/5ml, 2.5%)
+ * - a generic name requires a dosage form
+ * - obat keras must be marked prescription only
  */
-export const validatePharmacyFields: CollectionBeforeChangeHook = async ({
+export const validatePharmacyFields: CollectionBeforeChangeHook<Product> = async ({
   data,
   operation,
+  originalDoc,
   req,
 }) => {
-  // Validate strength format if provided
-  if (data.strength) {
-    const strengthPattern = /^[\d.,]+\s*(mg|g|ml|l|%|units?|iu|mcg|μg)$/i
-    if (!strengthPattern.test(data.strength.trim())) {
-      req.payload.logger.warn(
-        `Product strength "${data.strength}" may not follow standard format (e.g., "500mg", "10ml", "2.5%")`
-      )
-    }
-  }
+  if (!data) return data
+
+  const errors: string[] = []
 
-  // Validate generic name format if provided
   if (data.generic_name) {
-    // Remove extra whitespace and ensure proper capitalization
-    data.generic_name = data.generic_name
-      .trim()
-      .split(' ')
-      .map((word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join(' ')
+    data.generic_name = normalizeIngredientName(data.generic_name)
   }
 
-  // Validate manufacturer name if provided
   if (data.manufacturer) {
     data.manufacturer = data.manufacturer.trim()
   }
 
-  // Business rule: If requires_prescription is true, log for audit
-  if (data.requires_prescription && operation === 'create') {
-    req.payload.logger.info(
-      `Creating prescription product: ${data.title} (Generic: ${data.generic_name || 'N/A'})`
-    )
+  if (data.strength) {
+    data.strength = data.strength.trim()
+    if (!STRENGTH_PATTERN.test(data.strength)) {
+      errors.push(`Strength "${data.strength}" must follow standard notation (e.g. "500mg", "120mg/5ml", "2.5%")`)
+    }
   }
 
-  // Ensure dosage_form is provided for pharmaceutical products
-  if (data.generic_name && !data.dosage_form) {
-    req.payload.logger.warn(
-      `Product "${data.title}" has generic name but no dosage form specified`
+  for (const ingredient of data.active_ingredients || []) {
+    if (ingredient.name) {
+      ingredient.name = normalizeIngredientName(ingredient.name)
+    }
+    if (ingredient.strength) {
+      ingredient.strength = ingredient.strength.trim()
+      if (!STRENGTH_PATTERN.test(ingredient.strength)) {
+        errors.push(`Strength "${ingredient.strength}" of active ingredient "${ingredient.name}" must follow standard notation`)
+      }
+    }
+  }
+
+  const genericName = data.generic_name ?? originalDoc?.generic_name
+  const dosageForm = data.dosage_form ?? originalDoc?.dosage_form
+  if (genericName && !dosageForm) {
+    errors.push('Dosage form is required when a generic name is set')
+  }
+
+  const drugClass = data.drug_class ?? originalDoc?.drug_class
+  const requiresPrescription = data.requires_prescription ?? originalDoc?.requires_prescription
+  if (drugClass && PRESCRIPTION_DRUG_CLASSES.includes(drugClass) && !requiresPrescription) {
+    errors.push('Obat keras must be marked as prescription only')
+  }
+
+  if (errors.length > 0) {
+    throw new APIError(errors.join('\n'), 400, null, true)
+  }
+
+  // Prescription products are logged for audit
+  if (requiresPrescription && operation === 'create') {
+    req.payload.logger.info(
+      `Creating prescription product: ${data.title} (Generic: ${genericName || 'N/A'})`
     )
   }
 
   return data
-}
\ No newline at end of file
+}
@@ -0,0 +1,68 @@
+import type { Product } from '@/payload-types'
+import { getBaseUnit } from '@/utilities/unitsOfMeasure'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Validate the product's units of measure
+ * - each conversion unit appears once and differs from the base unit
+ * - factors are whole numbers of the base unit
+ * - the base unit cannot change while stock is counted in it
+ */
+export const validateUnitsOfMeasure: CollectionBeforeChangeHook<Product> = async ({
+  data,
+  operation,
+  originalDoc,
+  req,
+}) => {
+  if (!data) return data
+
+  const errors: string[] = []
+  const baseUnit = getBaseUnit({ base_unit: data.base_unit ?? originalDoc?.base_unit })
+
+  if (data.unit_conversions) {
+    const seen = new Set<string>()
+    for (const conversion of data.unit_conversions) {
+      if (conversion.unit === baseUnit) {
+        errors.push(`"${conversion.unit}" is the base unit and cannot also be a conversion`)
+      } else if (seen.has(conversion.unit)) {
+        errors.push(`Unit "${conversion.unit}" is defined more than once`)
+      }
+      seen.add(conversion.unit)
+
+      if (!Number.isInteger(conversion.factor) || conversion.factor < 2) {
+        errors.push(`1 ${conversion.unit} must equal a whole number (2 or more) of ${baseUnit}`)
+      }
+    }
+  }
+
+  if (
+    operation === 'update' &&
+    originalDoc &&
+    data.base_unit &&
+    data.base_unit !== getBaseUnit(originalDoc)
+  ) {
+    const inventory = await req.payload.find({
+      collection: 'inventory',
+      where: {
+        and: [
+          { product: { equals: originalDoc.id } },
+          { quantity: { greater_than: 0 } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+    if (inventory.totalDocs > 0) {
+      errors.push('The base unit cannot change while the product has stock; stock is counted in it')
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new APIError(errors.join('\n'), 400, null, true)
+  }
+
+  return data
+}
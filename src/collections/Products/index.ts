@@ -1,9 +1,16 @@
 import { adminOnly } from '@/access/adminOnly'
-import { publicAccess } from '@/access/publicAccess'
+import { adminOrPublishedProduct } from '@/access/adminOrPublishedProduct'
+import { DOSAGE_FORM_OPTIONS, DRUG_CLASS_OPTIONS } from '@/utilities/productAttributes'
+import { DEFAULT_BASE_UNIT, UNIT_OF_MEASURE_OPTIONS } from '@/utilities/unitsOfMeasure'
 import { CollectionOverride } from '@payloadcms/plugin-ecommerce/types'
 
 import {
-  calculateProductAvailability
+  calculateProductAvailability,
+  invalidateCatalogSearch,
+  invalidateCatalogSearchOnDelete,
+  validateBpomRegistration,
+  validatePharmacyFields,
+  validateUnitsOfMeasure,
 } from './hooks'
 
 export const ProductsCollection: CollectionOverride = ({ defaultCollection }) => ({
@@ -13,7 +20,7 @@ export const ProductsCollection: CollectionOverride = ({ defaultCollection }) =>
   lockDocuments: false,
   admin: {
     ...defaultCollection?.admin,
-    defaultColumns: ['title', '_status'],
+    defaultColumns: ['title', 'is_published', 'bpom_registration_number'],
     group: 'Catalog',
     useAsTitle: 'title',
     pagination: {
@@ -23,7 +30,7 @@ export const ProductsCollection: CollectionOverride = ({ defaultCollection }) =>
   },
   access: {
     create: adminOnly,
-    read: publicAccess,
+    read: adminOrPublishedProduct,
     update: adminOnly,
     delete: adminOnly,
   },
@@ -71,6 +78,13 @@ export const ProductsCollection: CollectionOverride = ({ defaultCollection }) =>
               type: 'textarea',
               required: false,
             },
+            {
+              name: 'search_keywords',
+              type: 'textarea',
+              admin: {
+                description: 'Symptoms and other names customers search for, e.g. "demam, sakit kepala, panas"',
+              },
+            },
           ],
           label: 'Content',
         },
@@ -90,6 +104,267 @@ export const ProductsCollection: CollectionOverride = ({ defaultCollection }) =>
           ],
           label: 'Images',
         },
+        {
+          fields: [
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'generic_name',
+                  type: 'text',
+                  admin: {
+                    description: 'INN / generic name, e.g. Paracetamol',
+                    width: '50%',
+                  },
+                },
+                {
+                  name: 'strength',
+                  type: 'text',
+                  admin: {
+                    description: 'e.g. 500mg, 120mg/5ml, 2.5%',
+                    width: '50%',
+                  },
+                },
+              ],
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'dosage_form',
+                  type: 'select',
+                  options: DOSAGE_FORM_OPTIONS,
+                  admin: {
+                    description: 'Required when a generic name is set',
+                    width: '50%',
+                  },
+                },
+                {
+                  name: 'manufacturer',
+                  type: 'text',
+                  admin: {
+                    width: '50%',
+                  },
+                },
+              ],
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'drug_class',
+                  type: 'select',
+                  options: DRUG_CLASS_OPTIONS,
+                  index: true,
+                  admin: {
+                    description: 'Obat keras always requires a prescription',
+                    width: '50%',
+                  },
+                },
+                {
+                  name: 'bpom_registration_number',
+                  type: 'text',
+                  index: true,
+                  label: 'BPOM Registration Number',
+                  admin: {
+                    description: 'Nomor izin edar (NIE), e.g. DBL1234567890A1. Required to publish medicines.',
+                    width: '50%',
+                  },
+                },
+              ],
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'bpom_category',
+                  type: 'select',
+                  label: 'BPOM Category',
+                  options: [
+                    { label: 'Branded Drug', value: 'branded_drug' },
+                    { label: 'Generic Drug', value: 'generic_drug' },
+                    { label: 'Traditional Medicine', value: 'traditional' },
+                    { label: 'Health Supplement', value: 'supplement' },
+                  ],
+                  admin: {
+                    description: 'Parsed from the registration number',
+                    readOnly: true,
+                    width: '50%',
+                  },
+                },
+                {
+                  name: 'bpom_origin',
+                  type: 'select',
+                  label: 'BPOM Origin',
+                  options: [
+                    { label: 'Local', value: 'local' },
+                    { label: 'Import', value: 'import' },
+                    { label: 'License', value: 'license' },
+                    { label: 'Export', value: 'export' },
+                    { label: 'Special Access', value: 'special_access' },
+                  ],
+                  admin: {
+                    description: 'Parsed from the registration number',
+                    readOnly: true,
+                    width: '50%',
+                  },
+                },
+              ],
+            },
+            {
+              name: 'active_ingredients',
+              type: 'array',
+              dbName: 'products_active_ingredients',
+              admin: {
+                initCollapsed: true,
+              },
+              fields: [
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'name',
+                      type: 'text',
+                      required: true,
+                      admin: {
+                        width: '50%',
+                      },
+                    },
+                    {
+                      name: 'strength',
+                      type: 'text',
+                      admin: {
+                        description: 'e.g. 500mg',
+                        width: '50%',
+                      },
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              name: 'storage_conditions',
+              type: 'textarea',
+              admin: {
+                description: 'e.g. Simpan di bawah 30°C, terlindung dari cahaya',
+              },
+            },
+            {
+              name: 'contraindications',
+              type: 'textarea',
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'max_quantity_per_order',
+                  type: 'number',
+                  min: 1,
+                  admin: {
+                    description: 'Purchase limit per order. Leave empty for no limit.',
+                    width: '33%',
+                  },
+                },
+                {
+                  name: 'max_quantity_per_period',
+                  type: 'number',
+                  min: 1,
+                  admin: {
+                    description: 'Purchase limit per customer over the period',
+                    width: '33%',
+                  },
+                },
+                {
+                  name: 'purchase_limit_period_days',
+                  type: 'number',
+                  min: 1,
+                  admin: {
+                    description: 'Rolling period in days (default 30)',
+                    width: '33%',
+                  },
+                },
+              ],
+            },
+          ],
+          label: 'Pharmacy',
+        },
+        {
+          fields: [
+            {
+              name: 'base_unit',
+              type: 'select',
+              defaultValue: DEFAULT_BASE_UNIT,
+              options: UNIT_OF_MEASURE_OPTIONS,
+              admin: {
+                description: 'Unit inventory is counted in. Cannot change while the product has stock.',
+              },
+            },
+            {
+              name: 'unit_conversions',
+              type: 'array',
+              dbName: 'products_unit_conversions',
+              admin: {
+                description: 'Larger units, e.g. strip = 10 and box = 100 when the base unit is tablet',
+              },
+              fields: [
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'unit',
+                      type: 'select',
+                      required: true,
+                      options: UNIT_OF_MEASURE_OPTIONS,
+                      admin: {
+                        width: '50%',
+                      },
+                    },
+                    {
+                      name: 'factor',
+                      type: 'number',
+                      required: true,
+                      min: 2,
+                      admin: {
+                        description: 'Base units in one of this unit',
+                        step: 1,
+                        width: '50%',
+                      },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+          label: 'Units',
+        },
+        {
+          fields: [
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'default_supplier',
+                  type: 'relationship',
+                  relationTo: 'suppliers',
+                  admin: {
+                    description: 'Supplier for draft purchase orders generated from stock recommendations',
+                    width: '50%',
+                  },
+                },
+                {
+                  name: 'cost_price',
+                  type: 'number',
+                  min: 0,
+                  admin: {
+                    description: 'Latest purchase cost per base unit (IDR). Updated by goods receipt.',
+                    width: '50%',
+                  },
+                },
+              ],
+            },
+          ],
+          label: 'Purchasing',
+        },
         {
           fields: [
             ...defaultCollection.fields,
@@ -118,6 +393,28 @@ export const ProductsCollection: CollectionOverride = ({ defaultCollection }) =>
         position: 'sidebar',
       },
     },
+    {
+      name: 'is_published',
+      type: 'checkbox',
+      label: 'Published',
+      defaultValue: true,
+      index: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Only published products are listed in the store. Medicines need a valid BPOM registration number.',
+      },
+    },
+    {
+      name: 'requires_prescription',
+      type: 'checkbox',
+      label: 'Prescription Only (Obat Keras)',
+      defaultValue: false,
+      index: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Orders containing this product require a verified prescription (resep)',
+      },
+    },
   ],
   hooks: {
     beforeValidate: [
@@ -154,7 +451,12 @@ export const ProductsCollection: CollectionOverride = ({ defaultCollection }) =>
         }
         return data
       },
+      validatePharmacyFields,
+      validateUnitsOfMeasure,
+      validateBpomRegistration,
     ],
+    afterChange: [invalidateCatalogSearch],
+    afterDelete: [invalidateCatalogSearchOnDelete],
     afterRead: [calculateProductAvailability],
   },
 })
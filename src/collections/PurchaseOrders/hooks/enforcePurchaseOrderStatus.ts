@@ -0,0 +1,83 @@
+import type { PurchaseOrder } from '@/payload-types'
+import {
+  canTransitionPurchaseOrderStatus,
+  generatePurchaseOrderNumber,
+  RECEIPT_PURCHASE_ORDER_STATUSES,
+} from '@/utilities/purchaseOrders'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : null
+}
+
+/**
+ * Hook to enforce the purchase order state machine
+ *
+ * - new orders start as drafts and get a PO number
+ * - lines and the receiving outlet can only be edited while the order is a draft
+ * - partially_received/received are set by goods receipt only
+ *   (`context.purchaseOrderReceipt`, see receivePurchaseOrder)
+ * - sent_at, received_at and cancelled_at are stamped on transition
+ * - the total is recalculated from the lines
+ */
+export const enforcePurchaseOrderStatus: CollectionBeforeChangeHook<PurchaseOrder> = async ({
+  data,
+  operation,
+  originalDoc,
+  context,
+}) => {
+  if (!data) return data
+
+  const isReceipt = Boolean(context?.purchaseOrderReceipt)
+
+  if (operation === 'create') {
+    if (data.status && data.status !== 'draft') {
+      throw new APIError('Purchase orders are created as drafts', 400, null, true)
+    }
+    data.status = 'draft'
+    data.po_number = generatePurchaseOrderNumber()
+  } else {
+    data.po_number = originalDoc?.po_number
+
+    const from = originalDoc?.status || 'draft'
+    const to = data.status || from
+
+    if (data.items && from !== 'draft' && !isReceipt) {
+      throw new APIError('Lines can only be changed while the purchase order is a draft', 400, null, true)
+    }
+
+    if (data.outlet !== undefined && from !== 'draft' && relationId(data.outlet) !== relationId(originalDoc?.outlet)) {
+      throw new APIError('The receiving outlet can only be changed while the purchase order is a draft', 400, null, true)
+    }
+
+    if (to !== from) {
+      if (!canTransitionPurchaseOrderStatus(from, to)) {
+        throw new APIError(`Cannot change purchase order status from "${from}" to "${to}"`, 400, null, true)
+      }
+      if (RECEIPT_PURCHASE_ORDER_STATUSES.includes(to) && !isReceipt) {
+        throw new APIError('Record a goods receipt to mark goods as received', 400, null, true)
+      }
+
+      const now = new Date().toISOString()
+      if (to === 'sent') data.sent_at = now
+      if (to === 'received') data.received_at = now
+      if (to === 'cancelled') data.cancelled_at = now
+    }
+  }
+
+  // Received quantities are written by goods receipt only; drafts have none
+  if (data.items && !isReceipt) {
+    for (const item of data.items) {
+      item.received_quantity = 0
+    }
+  }
+
+  const items = data.items ?? originalDoc?.items
+  if (items) {
+    data.total_amount = items.reduce((sum, item) => sum + (item.quantity || 0) * (item.unit_cost || 0), 0)
+  }
+
+  return data
+}
@@ -0,0 +1 @@
+export { enforcePurchaseOrderStatus } from './enforcePurchaseOrderStatus'
@@ -0,0 +1,193 @@
+import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
+import { PURCHASE_ORDER_STATUS_OPTIONS } from '@/utilities/purchaseOrders'
+import { UNIT_OF_MEASURE_OPTIONS } from '@/utilities/unitsOfMeasure'
+import type { CollectionConfig } from 'payload'
+import { enforcePurchaseOrderStatus } from './hooks'
+
+/**
+ * Purchase Orders Collection - Stock ordered from suppliers
+ *
+ * Schema fields:
+ * - po_number (varchar, unique)
+ * - supplier_id (uuid, FK)
+ * - outlet_id (uuid, FK; receiving outlet, empty for the default outlet)
+ * - status (varchar: draft, sent, partially_received, received, cancelled)
+ * - expected_date, sent_at, received_at, cancelled_at (timestamptz)
+ * - total_amount (numeric), notes (text)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Lines live in purchase_order_items (product, quantity and unit_cost in the
+ * line's unit, received_quantity). Drafts are generated from stock
+ * recommendations and goods are received with
+ * POST /api/purchase-orders/:id/receive (src/utilities/purchaseOrders).
+ */
+export const PurchaseOrders: CollectionConfig = {
+  slug: 'purchase-orders',
+  dbName: 'purchase_orders',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'po_number',
+    defaultColumns: ['po_number', 'supplier', 'status', 'total_amount', 'expected_date', 'createdAt'],
+    group: 'Inventory',
+    description: 'Stock ordered from suppliers. draft → sent → received; goods receipt adds the stock to inventory.',
+    pagination: {
+      defaultLimit: 20,
+      limits: [10, 20, 50, 100],
+    },
+  },
+  access: {
+    create: inventoryAdminAccess,
+    read: inventoryAdminAccess,
+    update: inventoryAdminAccess,
+    delete: inventoryAdminAccess,
+  },
+  hooks: {
+    beforeChange: [enforcePurchaseOrderStatus],
+  },
+  fields: [
+    {
+      name: 'po_number',
+      type: 'text',
+      unique: true,
+      index: true,
+      admin: {
+        description: 'Assigned on create',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'supplier',
+      type: 'relationship',
+      relationTo: 'suppliers',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'outlet',
+      type: 'relationship',
+      relationTo: 'outlets',
+      admin: {
+        description: 'Outlet the goods are delivered to. Empty for the default outlet.',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'draft',
+      index: true,
+      options: PURCHASE_ORDER_STATUS_OPTIONS,
+      admin: {
+        description: 'Received statuses are set by goods receipt. Lines can only change while draft.',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'expected_date',
+      type: 'date',
+      admin: {
+        date: { pickerAppearance: 'dayOnly' },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'items',
+      type: 'array',
+      dbName: 'purchase_order_items',
+      required: true,
+      minRows: 1,
+      fields: [
+        {
+          name: 'product',
+          type: 'relationship',
+          relationTo: 'products',
+          required: true,
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'quantity',
+              type: 'number',
+              required: true,
+              min: 1,
+              admin: {
+                step: 1,
+                width: '25%',
+              },
+            },
+            {
+              name: 'unit',
+              type: 'select',
+              options: UNIT_OF_MEASURE_OPTIONS,
+              admin: {
+                description: 'Empty for the product\'s base unit',
+                width: '25%',
+              },
+            },
+            {
+              name: 'unit_cost',
+              type: 'number',
+              min: 0,
+              admin: {
+                description: 'Cost per unit (IDR)',
+                width: '25%',
+              },
+            },
+            {
+              name: 'received_quantity',
+              type: 'number',
+              defaultValue: 0,
+              admin: {
+                description: 'Received so far, in the line\'s unit',
+                readOnly: true,
+                width: '25%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'notes',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'total_amount',
+      type: 'number',
+      admin: {
+        description: 'Sum of quantity × unit cost',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+    },
+    {
+      name: 'sent_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'received_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'cancelled_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+  timestamps: true,
+}
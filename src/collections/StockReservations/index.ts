@@ -0,0 +1,154 @@
+import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Stock Reservations Collection - Stock held for checkouts awaiting payment
+ *
+ * Schema fields:
+ * - product_id (uuid, FK), inventory_id (uuid, FK)
+ * - transaction_id (uuid, FK payments), order_id (uuid, FK orders)
+ * - quantity (integer)
+ * - status (varchar: active, converted, fulfilled, released, expired)
+ * - expires_at, converted_at, fulfilled_at, released_at (timestamptz)
+ * - release_reason (text)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Rows are written by the payment flow only (src/utilities/stockReservations).
+ * Active, unexpired reservations and converted ones (paid orders that have not
+ * deducted their stock yet) are subtracted from inventory.quantity by
+ * checkStockAvailability.
+ */
+export const StockReservations: CollectionConfig = {
+  slug: 'stock-reservations',
+  dbName: 'stock_reservations',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'id',
+    defaultColumns: ['product', 'quantity', 'status', 'expires_at', 'transaction', 'createdAt'],
+    group: 'Inventory',
+    description: 'Stock held while customers complete payment. Converted on settlement and fulfilled when the order deducts its stock; released on expiry, failure or cancellation.',
+    pagination: {
+      defaultLimit: 50,
+      limits: [20, 50, 100],
+    },
+  },
+  access: {
+    // Reservations are created by the payment flow via Local API (bypasses access)
+    create: () => false,
+    read: inventoryAdminAccess,
+    update: () => false,
+    delete: () => false,
+  },
+  fields: [
+    {
+      name: 'product',
+      type: 'relationship',
+      relationTo: 'products',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'inventory',
+      type: 'relationship',
+      relationTo: 'inventory',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'transaction',
+      type: 'relationship',
+      relationTo: 'transactions',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'order',
+      type: 'relationship',
+      relationTo: 'orders',
+      index: true,
+      admin: {
+        description: 'Order created when the payment settled',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'quantity',
+      type: 'number',
+      required: true,
+      min: 1,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'active',
+      index: true,
+      options: [
+        { label: 'Active', value: 'active' },
+        { label: 'Converted', value: 'converted' },
+        { label: 'Fulfilled', value: 'fulfilled' },
+        { label: 'Released', value: 'released' },
+        { label: 'Expired', value: 'expired' },
+      ],
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'expires_at',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+        readOnly: true,
+      },
+    },
+    {
+      name: 'converted_at',
+      type: 'date',
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+        readOnly: true,
+        condition: (data) => Boolean(data?.converted_at),
+      },
+    },
+    {
+      name: 'fulfilled_at',
+      type: 'date',
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+        readOnly: true,
+        condition: (data) => Boolean(data?.fulfilled_at),
+      },
+    },
+    {
+      name: 'released_at',
+      type: 'date',
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+        readOnly: true,
+        condition: (data) => Boolean(data?.released_at),
+      },
+    },
+    {
+      name: 'release_reason',
+      type: 'text',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.released_at),
+      },
+    },
+  ],
+  timestamps: true,
+}
@@ -0,0 +1,49 @@
+import type { StockTake } from '@/payload-types'
+import type { CollectionBeforeChangeHook } from 'payload'
+
+/**
+ * Snapshot expected quantities and compute variances as counts are entered
+ *
+ * A line's expected quantity is the inventory quantity when it was counted,
+ * so stock sold during the count does not show up as a variance. Lines whose
+ * count did not change keep their snapshot.
+ */
+export const calculateStockTakeVariances: CollectionBeforeChangeHook<StockTake> = async ({
+  data,
+  originalDoc,
+  req,
+}) => {
+  if (!data?.lines) return data
+
+  const originalLines = new Map((originalDoc?.lines || []).map((line) => [line.id, line]))
+
+  for (const line of data.lines) {
+    const original = line.id ? originalLines.get(line.id) : undefined
+
+    if (line.counted_quantity == null) {
+      line.expected_quantity = original?.expected_quantity ?? line.expected_quantity
+      line.variance = null
+      continue
+    }
+
+    if (original && original.counted_quantity === line.counted_quantity) {
+      line.expected_quantity = original.expected_quantity
+      line.variance = original.variance
+      continue
+    }
+
+    const inventoryId = typeof line.inventory === 'object' ? line.inventory.id : line.inventory
+    const inventory = await req.payload.findByID({
+      collection: 'inventory',
+      id: inventoryId,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+
+    line.expected_quantity = inventory.quantity || 0
+    line.variance = line.counted_quantity - line.expected_quantity
+  }
+
+  return data
+}
@@ -0,0 +1,76 @@
+import type { StockTake } from '@/payload-types'
+import { canTransitionStockTakeStatus, generateStockTakeReference } from '@/utilities/stockTakes'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Hook to enforce the stock take workflow
+ *
+ * - new stock takes are open, scoped to a category or shelf, and get a reference
+ * - lines can only change while open
+ * - submitting requires every line to be counted
+ * - sending a submitted count back (open) requires a reason
+ * - approved is set by approveStockTake only (`context.stockTakeApproval`)
+ */
+export const enforceStockTakeWorkflow: CollectionBeforeChangeHook<StockTake> = async ({
+  data,
+  operation,
+  originalDoc,
+  req,
+  context,
+}) => {
+  if (!data) return data
+
+  const adminId = req.user?.collection === 'admins' ? req.user.id : undefined
+  const now = new Date().toISOString()
+
+  if (operation === 'create') {
+    if (!data.category && !data.shelf_location) {
+      throw new APIError('Choose a category or a shelf to count', 400, null, true)
+    }
+    data.status = 'open'
+    data.reference = generateStockTakeReference()
+    data.opened_by = adminId
+    data.opened_at = now
+    return data
+  }
+
+  data.reference = originalDoc?.reference
+
+  const from = originalDoc?.status || 'open'
+  const to = data.status || from
+
+  if (data.lines && from !== 'open') {
+    throw new APIError('Counts can only be changed while the stock take is open', 400, null, true)
+  }
+
+  if (to === from) return data
+
+  if (!canTransitionStockTakeStatus(from, to)) {
+    throw new APIError(`Cannot change stock take status from "${from}" to "${to}"`, 400, null, true)
+  }
+
+  if (to === 'approved' && !context?.stockTakeApproval) {
+    throw new APIError('Stock takes are approved through the approval action, which applies the adjustments', 400, null, true)
+  }
+
+  if (to === 'submitted') {
+    const lines = data.lines ?? originalDoc?.lines ?? []
+    const uncounted = lines.filter((line) => line.counted_quantity == null).length
+    if (uncounted > 0) {
+      throw new APIError(`${uncounted} line(s) have not been counted`, 400, null, true)
+    }
+    data.submitted_by = adminId
+    data.submitted_at = now
+  }
+
+  if (to === 'open') {
+    if (!data.review_notes?.trim()) {
+      throw new APIError('A reason is required to send a stock take back for recount', 400, null, true)
+    }
+    data.submitted_by = null
+    data.submitted_at = null
+  }
+
+  return data
+}
@@ -0,0 +1,3 @@
+export { calculateStockTakeVariances } from './calculateStockTakeVariances'
+export { enforceStockTakeWorkflow } from './enforceStockTakeWorkflow'
+export { populateStockTakeLines } from './populateStockTakeLines'
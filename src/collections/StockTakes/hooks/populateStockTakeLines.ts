@@ -0,0 +1,26 @@
+import type { StockTake } from '@/payload-types'
+import { buildStockTakeLines } from '@/utilities/stockTakes'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Create a line for every inventory record in the stock take's scope
+ */
+export const populateStockTakeLines: CollectionBeforeChangeHook<StockTake> = async ({
+  data,
+  operation,
+  req,
+}) => {
+  if (!data || operation !== 'create' || (data.lines && data.lines.length > 0)) return data
+
+  const categoryId = data.category && typeof data.category === 'object' ? data.category.id : data.category
+  const outletId = data.outlet && typeof data.outlet === 'object' ? data.outlet.id : data.outlet
+
+  data.lines = await buildStockTakeLines(req.payload, { categoryId, shelf: data.shelf_location, outletId }, req)
+
+  if (data.lines.length === 0) {
+    throw new APIError('No inventory found for this category or shelf at this outlet', 400, null, true)
+  }
+
+  return data
+}
@@ -0,0 +1,248 @@
+import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
+import { STOCK_TAKE_STATUS_OPTIONS } from '@/utilities/stockTakes'
+import type { CollectionConfig } from 'payload'
+import { calculateStockTakeVariances, enforceStockTakeWorkflow, populateStockTakeLines } from './hooks'
+
+/**
+ * Stock Takes Collection - Cycle counts with variance approval
+ *
+ * Schema fields:
+ * - reference (varchar, unique)
+ * - status (varchar: open, submitted, approved, cancelled)
+ * - category_id (uuid, FK), shelf_location (varchar), outlet_id (uuid, FK) - count scope
+ * - opened_by_id, submitted_by_id, approved_by_id (uuid, FK admins)
+ * - opened_at, submitted_at, approved_at (timestamptz)
+ * - notes, review_notes, approval_notes (text)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Lines live in stock_take_lines (inventory, product, expected_quantity,
+ * counted_quantity, variance, all in the product's base unit). Counts are
+ * entered here or with POST /api/stock-takes/:id/counts; approval applies the
+ * variances (src/utilities/stockTakes).
+ */
+export const StockTakes: CollectionConfig = {
+  slug: 'stock-takes',
+  dbName: 'stock_takes',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'reference',
+    defaultColumns: ['reference', 'outlet', 'category', 'shelf_location', 'status', 'opened_at'],
+    group: 'Inventory',
+    description: 'Cycle counts. open → submitted → approved by a second admin, which adjusts inventory.',
+    pagination: {
+      defaultLimit: 20,
+      limits: [10, 20, 50, 100],
+    },
+  },
+  access: {
+    create: inventoryAdminAccess,
+    read: inventoryAdminAccess,
+    update: inventoryAdminAccess,
+    delete: () => false,
+  },
+  hooks: {
+    beforeChange: [enforceStockTakeWorkflow, populateStockTakeLines, calculateStockTakeVariances],
+  },
+  fields: [
+    {
+      name: 'reference',
+      type: 'text',
+      unique: true,
+      index: true,
+      admin: {
+        description: 'Assigned on create',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'open',
+      index: true,
+      options: STOCK_TAKE_STATUS_OPTIONS,
+      admin: {
+        description: 'Submit when every line is counted. Approval is a separate action.',
+        position: 'sidebar',
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'category',
+          type: 'relationship',
+          relationTo: 'categories',
+          admin: {
+            description: 'Count every product in this category',
+            width: '50%',
+          },
+        },
+        {
+          name: 'shelf_location',
+          type: 'text',
+          admin: {
+            description: 'Count every product on this shelf',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'outlet',
+      type: 'relationship',
+      relationTo: 'outlets',
+      admin: {
+        description: 'Outlet being counted. Empty for the default outlet.',
+      },
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+    },
+    {
+      name: 'lines',
+      type: 'array',
+      dbName: 'stock_take_lines',
+      admin: {
+        description: 'Created from the scope when the count is opened. Quantities in the product\'s base unit.',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'product',
+              type: 'relationship',
+              relationTo: 'products',
+              required: true,
+              admin: {
+                readOnly: true,
+                width: '50%',
+              },
+            },
+            {
+              name: 'inventory',
+              type: 'relationship',
+              relationTo: 'inventory',
+              required: true,
+              admin: {
+                readOnly: true,
+                width: '50%',
+              },
+            },
+          ],
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'counted_quantity',
+              type: 'number',
+              min: 0,
+              admin: {
+                step: 1,
+                width: '33%',
+              },
+              validate: (value: number | null | undefined) => {
+                if (value != null && !Number.isInteger(value)) {
+                  return 'Counted quantity must be a whole number of base units'
+                }
+                return true
+              },
+            },
+            {
+              name: 'expected_quantity',
+              type: 'number',
+              admin: {
+                description: 'Inventory quantity when counted',
+                readOnly: true,
+                width: '33%',
+              },
+            },
+            {
+              name: 'variance',
+              type: 'number',
+              admin: {
+                description: 'Counted − expected',
+                readOnly: true,
+                width: '33%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'notes',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'review_notes',
+      type: 'textarea',
+      admin: {
+        description: 'Reason for sending the count back for recount',
+        condition: (data) => data?.status === 'submitted' || Boolean(data?.review_notes),
+      },
+    },
+    {
+      name: 'approval_notes',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+        condition: (data) => data?.status === 'approved',
+      },
+    },
+    {
+      name: 'opened_by',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'opened_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'submitted_by',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'submitted_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'approved_by',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'approved_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+  timestamps: true,
+}
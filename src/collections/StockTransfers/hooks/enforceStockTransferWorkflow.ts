@@ -0,0 +1,93 @@
+import type { StockTransfer } from '@/payload-types'
+import { canTransitionStockTransferStatus, generateStockTransferReference } from '@/utilities/stockTransfers'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : null
+}
+
+/**
+ * Hook to enforce the stock transfer workflow
+ *
+ * - new transfers are requested, need two different outlets, and get a reference
+ * - lines and outlets can only change while requested
+ * - in_transit and received are set by dispatchStockTransfer / receiveStockTransfer
+ *   only (`context.stockTransferDispatch`, `context.stockTransferReceipt`)
+ * - dispatched batches, received quantities and discrepancies are written by
+ *   those actions only
+ * - cancelled_at is stamped on cancellation
+ */
+export const enforceStockTransferWorkflow: CollectionBeforeChangeHook<StockTransfer> = async ({
+  data,
+  operation,
+  originalDoc,
+  req,
+  context,
+}) => {
+  if (!data) return data
+
+  const isSystemUpdate = Boolean(context?.stockTransferDispatch || context?.stockTransferReceipt)
+
+  if (operation === 'create') {
+    if (data.status && data.status !== 'requested') {
+      throw new APIError('Transfers are created as requests', 400, null, true)
+    }
+    data.status = 'requested'
+    data.reference = generateStockTransferReference()
+    data.requested_by = req.user?.collection === 'admins' ? req.user.id : undefined
+    data.requested_at = new Date().toISOString()
+  } else {
+    data.reference = originalDoc?.reference
+
+    const from = originalDoc?.status || 'requested'
+    const to = data.status || from
+
+    if (data.lines && from !== 'requested' && !isSystemUpdate) {
+      throw new APIError('Lines can only be changed while the transfer is requested', 400, null, true)
+    }
+
+    const outletChanged =
+      (data.source_outlet !== undefined && relationId(data.source_outlet) !== relationId(originalDoc?.source_outlet)) ||
+      (data.destination_outlet !== undefined &&
+        relationId(data.destination_outlet) !== relationId(originalDoc?.destination_outlet))
+    if (outletChanged && from !== 'requested') {
+      throw new APIError('Outlets can only be changed while the transfer is requested', 400, null, true)
+    }
+
+    if (to !== from) {
+      if (!canTransitionStockTransferStatus(from, to)) {
+        throw new APIError(`Cannot change transfer status from "${from}" to "${to}"`, 400, null, true)
+      }
+      if (to === 'in_transit' && !context?.stockTransferDispatch) {
+        throw new APIError('Transfers are put in transit through the dispatch action, which deducts the stock', 400, null, true)
+      }
+      if (to === 'received' && !context?.stockTransferReceipt) {
+        throw new APIError('Transfers are received through the receipt action, which adds the stock', 400, null, true)
+      }
+      if (to === 'cancelled') data.cancelled_at = new Date().toISOString()
+    }
+  }
+
+  const sourceId = relationId(data.source_outlet === undefined ? originalDoc?.source_outlet : data.source_outlet)
+  const destinationId = relationId(
+    data.destination_outlet === undefined ? originalDoc?.destination_outlet : data.destination_outlet
+  )
+  if (!sourceId || !destinationId) {
+    throw new APIError('Choose a source and a destination outlet', 400, null, true)
+  }
+  if (sourceId === destinationId) {
+    throw new APIError('Source and destination must be different outlets', 400, null, true)
+  }
+
+  if (data.lines && !isSystemUpdate) {
+    for (const line of data.lines) {
+      line.dispatched_batches = null
+      line.received_quantity = null
+      line.discrepancy = null
+    }
+  }
+
+  return data
+}
@@ -0,0 +1 @@
+export { enforceStockTransferWorkflow } from './enforceStockTransferWorkflow'
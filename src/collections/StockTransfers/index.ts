@@ -0,0 +1,266 @@
+import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
+import { STOCK_TRANSFER_STATUS_OPTIONS } from '@/utilities/stockTransfers'
+import type { CollectionConfig } from 'payload'
+import { enforceStockTransferWorkflow } from './hooks'
+
+/**
+ * Stock Transfers Collection - Stock moved between outlets
+ *
+ * Schema fields:
+ * - reference (varchar, unique)
+ * - status (varchar: requested, in_transit, received, cancelled)
+ * - source_outlet_id, destination_outlet_id (uuid, FK outlets)
+ * - has_discrepancy (boolean)
+ * - requested_by_id, dispatched_by_id, received_by_id (uuid, FK admins)
+ * - requested_at, dispatched_at, received_at, cancelled_at (timestamptz)
+ * - notes, dispatch_notes, receipt_notes (text)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Lines live in stock_transfer_lines (product, quantity, received_quantity,
+ * discrepancy, all in the product's base unit, plus the batches sent).
+ * Dispatch and receipt are actions (POST /api/stock-transfers/:id/dispatch,
+ * /receive) that move the stock (src/utilities/stockTransfers).
+ */
+export const StockTransfers: CollectionConfig = {
+  slug: 'stock-transfers',
+  dbName: 'stock_transfers',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'reference',
+    defaultColumns: ['reference', 'source_outlet', 'destination_outlet', 'status', 'has_discrepancy', 'requested_at'],
+    group: 'Inventory',
+    description: 'Stock moved between outlets. requested → in transit (stock leaves the source) → received.',
+    pagination: {
+      defaultLimit: 20,
+      limits: [10, 20, 50, 100],
+    },
+  },
+  access: {
+    create: inventoryAdminAccess,
+    read: inventoryAdminAccess,
+    update: inventoryAdminAccess,
+    delete: () => false,
+  },
+  hooks: {
+    beforeChange: [enforceStockTransferWorkflow],
+  },
+  fields: [
+    {
+      name: 'reference',
+      type: 'text',
+      unique: true,
+      index: true,
+      admin: {
+        description: 'Assigned on create',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'requested',
+      index: true,
+      options: STOCK_TRANSFER_STATUS_OPTIONS,
+      admin: {
+        description: 'In transit and received are set by the dispatch and receipt actions.',
+        position: 'sidebar',
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'source_outlet',
+          type: 'relationship',
+          relationTo: 'outlets',
+          index: true,
+          admin: {
+            description: 'Outlet the stock leaves',
+            width: '50%',
+          },
+        },
+        {
+          name: 'destination_outlet',
+          type: 'relationship',
+          relationTo: 'outlets',
+          index: true,
+          admin: {
+            description: 'Outlet the stock goes to',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+    },
+    {
+      name: 'lines',
+      type: 'array',
+      dbName: 'stock_transfer_lines',
+      minRows: 1,
+      admin: {
+        description: 'Quantities in the product\'s base unit. Editable while requested.',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'product',
+              type: 'relationship',
+              relationTo: 'products',
+              required: true,
+              admin: {
+                width: '50%',
+              },
+            },
+            {
+              name: 'quantity',
+              type: 'number',
+              required: true,
+              min: 1,
+              admin: {
+                step: 1,
+                width: '50%',
+              },
+              validate: (value: number | null | undefined) => {
+                if (value == null || !Number.isInteger(value) || value < 1) {
+                  return 'Quantity must be a positive whole number of base units'
+                }
+                return true
+              },
+            },
+          ],
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'received_quantity',
+              type: 'number',
+              admin: {
+                description: 'Set on receipt',
+                readOnly: true,
+                width: '50%',
+              },
+            },
+            {
+              name: 'discrepancy',
+              type: 'number',
+              admin: {
+                description: 'Received − dispatched',
+                readOnly: true,
+                width: '50%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'dispatched_batches',
+          type: 'json',
+          admin: {
+            description: 'Batches taken from the source outlet on dispatch',
+            readOnly: true,
+            condition: (_, siblingData) => Boolean(siblingData?.dispatched_batches),
+          },
+        },
+        {
+          name: 'notes',
+          type: 'text',
+          admin: {
+            description: 'Required on receipt when the received quantity differs',
+          },
+        },
+      ],
+    },
+    {
+      name: 'has_discrepancy',
+      type: 'checkbox',
+      defaultValue: false,
+      index: true,
+      admin: {
+        description: 'Set on receipt when any line arrived short or over',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'dispatch_notes',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.dispatch_notes),
+      },
+    },
+    {
+      name: 'receipt_notes',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+        condition: (data) => Boolean(data?.receipt_notes),
+      },
+    },
+    {
+      name: 'requested_by',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'requested_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'dispatched_by',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'dispatched_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'received_by',
+      type: 'relationship',
+      relationTo: 'admins',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'received_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'cancelled_at',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+  timestamps: true,
+}
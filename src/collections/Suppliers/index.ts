@@ -0,0 +1,131 @@
+import { inventoryAdminAccess } from '@/access/inventoryAdminAccess'
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Suppliers Collection - Distributors (PBF) the pharmacy buys stock from
+ *
+ * Schema fields:
+ * - name (varchar), code (varchar, unique)
+ * - contact_name, phone, email (varchar), address (text)
+ * - lead_time_days, payment_terms_days (integer)
+ * - is_active (boolean), notes (text)
+ * - created_at, updated_at (timestamptz)
+ *
+ * Products name a default supplier, used when draft purchase orders are
+ * generated from stock recommendations (src/utilities/purchaseOrders).
+ */
+export const Suppliers: CollectionConfig = {
+  slug: 'suppliers',
+  dbName: 'suppliers',
+  lockDocuments: false,
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'code', 'contact_name', 'phone', 'is_active'],
+    group: 'Inventory',
+    description: 'Distributors stock is purchased from.',
+    pagination: {
+      defaultLimit: 20,
+      limits: [10, 20, 50, 100],
+    },
+  },
+  access: {
+    create: inventoryAdminAccess,
+    read: inventoryAdminAccess,
+    update: inventoryAdminAccess,
+    delete: inventoryAdminAccess,
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          required: true,
+          index: true,
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'code',
+          type: 'text',
+          unique: true,
+          admin: {
+            description: 'Short supplier code, e.g. PBF-KF',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'contact_name',
+          type: 'text',
+          admin: {
+            width: '33%',
+          },
+        },
+        {
+          name: 'phone',
+          type: 'text',
+          admin: {
+            width: '33%',
+          },
+        },
+        {
+          name: 'email',
+          type: 'email',
+          admin: {
+            width: '33%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'address',
+      type: 'textarea',
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'lead_time_days',
+          type: 'number',
+          min: 0,
+          admin: {
+            description: 'Usual days from order to delivery',
+            step: 1,
+            width: '50%',
+          },
+        },
+        {
+          name: 'payment_terms_days',
+          type: 'number',
+          min: 0,
+          admin: {
+            description: 'Invoice due after this many days',
+            step: 1,
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+    },
+    {
+      name: 'is_active',
+      type: 'checkbox',
+      defaultValue: true,
+      index: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+}
@@ -0,0 +1,28 @@
+import { findOrCreateOrderForTransaction } from '@/payments/shared'
+import type { Transaction } from '@/payload-types'
+import type { CollectionAfterChangeHook } from 'payload'
+
+/**
+ * Hook to create the order once an admin approves a bank transfer
+ * Uses the same order creation path as the gateway confirmOrder handlers
+ * (order keyed by payment_reference, cart cleared once)
+ */
+export const confirmApprovedBankTransfer: CollectionAfterChangeHook<Transaction> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  if (operation !== 'update') return doc
+  if (doc.transfer_review_status !== 'approved' || previousDoc?.transfer_review_status === 'approved') {
+    return doc
+  }
+
+  const { order, created } = await findOrCreateOrderForTransaction({ req, transaction: doc })
+
+  if (created) {
+    req.payload.logger.info(`Transaction ${doc.id}: order ${order.id} created from approved bank transfer`)
+  }
+
+  return doc
+}
@@ -0,0 +1,3 @@
+export { confirmApprovedBankTransfer } from './confirmApprovedBankTransfer'
+export { reviewBankTransfer } from './reviewBankTransfer'
+export { releaseStockReservationsOnDelete, syncStockReservations } from './syncStockReservations'
@@ -0,0 +1,92 @@
+import { checkRole } from '@/access/utilities'
+import { BANK_TRANSFER_METHOD } from '@/payments/bank-transfer/types'
+import { buildTransactionStatusUpdate, shouldApplyPaymentStatus } from '@/payments/shared'
+import type { Transaction } from '@/payload-types'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Hook to run the manual bank transfer verification workflow
+ *
+ * - Moves a transfer to 'pending_review' when the customer uploads a proof
+ * - Applies the admin's decision: approval settles the payment (the order is then
+ *   created by confirmApprovedBankTransfer), rejection denies it
+ */
+export const reviewBankTransfer: CollectionBeforeChangeHook<Transaction> = async ({
+  data,
+  req,
+  operation,
+  originalDoc,
+}) => {
+  if (!data || operation !== 'update' || !originalDoc) return data
+  if ((data.paymentMethod ?? originalDoc.paymentMethod) !== BANK_TRANSFER_METHOD) return data
+
+  const { payload } = req
+  const previousReview = originalDoc.transfer_review_status
+
+  // A new proof puts the transfer in the review queue
+  const proofChanged = data.payment_proof !== undefined && data.payment_proof !== originalDoc.payment_proof
+  if (proofChanged && data.payment_proof && previousReview !== 'approved') {
+    data.payment_proof_uploaded_at = new Date().toISOString()
+    if (!data.transfer_review_status || data.transfer_review_status === previousReview) {
+      data.transfer_review_status = 'pending_review'
+    }
+  }
+
+  const isReviewDecision =
+    (data.transfer_review_status === 'approved' || data.transfer_review_status === 'rejected') &&
+    data.transfer_review_status !== previousReview
+
+  if (!isReviewDecision) {
+    return data
+  }
+
+  // A review decision is being made
+  if (!checkRole(['admin'], req.user)) {
+    throw new APIError('Only admins can verify bank transfers', 403, null, true)
+  }
+
+  const reviewer = req.user?.collection === 'admins' ? req.user.id : undefined
+
+  if (data.transfer_review_status === 'approved') {
+    const proof = data.payment_proof ?? originalDoc.payment_proof
+    if (!proof) {
+      throw new APIError('Cannot approve: no proof of payment has been uploaded', 400, null, true)
+    }
+
+    const update = buildTransactionStatusUpdate(originalDoc, {
+      status: 'settlement',
+      paymentType: 'bank_transfer',
+      response: {
+        verified_by: reviewer ?? null,
+        transfer_amount: originalDoc.transfer_amount ?? null,
+      },
+    })
+    if (!update) {
+      throw new APIError(`Transaction with status '${originalDoc.status}' cannot be approved`, 400, null, true)
+    }
+
+    Object.assign(data, update)
+    data.transfer_reviewed_by = reviewer
+    data.transfer_reviewed_at = new Date().toISOString()
+
+    payload.logger.info(`Transaction ${originalDoc.id}: bank transfer approved by ${reviewer ?? 'system'}`)
+  }
+
+  if (data.transfer_review_status === 'rejected') {
+    const reason = data.transfer_rejection_reason ?? originalDoc.transfer_rejection_reason
+    if (!reason?.trim()) {
+      throw new APIError('A rejection reason is required when rejecting a bank transfer', 400, null, true)
+    }
+
+    if (shouldApplyPaymentStatus(originalDoc.status, 'deny')) {
+      data.status = 'deny'
+    }
+    data.transfer_reviewed_by = reviewer
+    data.transfer_reviewed_at = new Date().toISOString()
+
+    payload.logger.info(`Transaction ${originalDoc.id}: bank transfer rejected by ${reviewer ?? 'system'}`)
+  }
+
+  return data
+}
@@ -0,0 +1,80 @@
+import { isPaidPaymentStatus } from '@/payments/shared'
+import type { Transaction } from '@/payload-types'
+import {
+  convertStockReservations,
+  extendStockReservations,
+  linkStockReservationsToOrder,
+  releaseStockReservations,
+} from '@/utilities/stockReservations'
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'payload'
+
+/**
+ * Payment statuses that end a checkout without a sale
+ */
+const FAILED_PAYMENT_STATUSES: readonly Transaction['status'][] = ['deny', 'cancel', 'expire', 'failure']
+
+/**
+ * How long a payment challenged by fraud detection keeps its stock while an
+ * admin reviews it
+ */
+const FRAUD_REVIEW_HOLD_HOURS = 72
+
+/**
+ * Hook to keep checkout stock reservations in step with the payment
+ *
+ * - settlement/capture converts the reservations (held for the paid order until
+ *   it deducts its stock, see settleStockReservations on Orders)
+ * - challenge extends them for FRAUD_REVIEW_HOLD_HOURS while the payment is reviewed
+ * - deny/cancel/expire/failure releases them
+ * - linking the order records it on the converted reservations
+ */
+export const syncStockReservations: CollectionAfterChangeHook<Transaction> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  if (operation !== 'update') return doc
+
+  const statusChanged = doc.status !== previousDoc?.status
+
+  if (statusChanged && isPaidPaymentStatus(doc.status)) {
+    const converted = await convertStockReservations(req, doc.id)
+    if (converted > 0) {
+      req.payload.logger.info(`Transaction ${doc.id}: converted ${converted} stock reservations`)
+    }
+  } else if (statusChanged && doc.status === 'challenge') {
+    const extended = await extendStockReservations(
+      req,
+      doc.id,
+      new Date(Date.now() + FRAUD_REVIEW_HOLD_HOURS * 60 * 60 * 1000)
+    )
+    if (extended > 0) {
+      req.payload.logger.info(`Transaction ${doc.id}: holding ${extended} stock reservations for fraud review`)
+    }
+  } else if (statusChanged && FAILED_PAYMENT_STATUSES.includes(doc.status)) {
+    const released = await releaseStockReservations(req, doc.id, `Payment ${doc.status}`)
+    if (released > 0) {
+      req.payload.logger.info(`Transaction ${doc.id}: released ${released} stock reservations (${doc.status})`)
+    }
+  }
+
+  const orderId = typeof doc.order === 'object' ? doc.order?.id : doc.order
+  const previousOrderId = typeof previousDoc?.order === 'object' ? previousDoc.order?.id : previousDoc?.order
+  if (orderId && orderId !== previousOrderId) {
+    await linkStockReservationsToOrder(req, doc.id, orderId)
+  }
+
+  return doc
+}
+
+/**
+ * Hook to release the reservations of a deleted transaction (failed payment initiation)
+ */
+export const releaseStockReservationsOnDelete: CollectionAfterDeleteHook<Transaction> = async ({
+  doc,
+  req,
+}) => {
+  await releaseStockReservations(req, doc.id, 'Transaction deleted')
+  return doc
+}
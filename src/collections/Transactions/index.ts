@@ -1,11 +1,24 @@
 import { adminOnly } from '@/access/adminOnly'
+import { adminOnlyFieldAccess } from '@/access/adminOnlyFieldAccess'
+import { BANK_TRANSFER_METHOD } from '@/payments/bank-transfer/types'
 import { CollectionOverride } from '@payloadcms/plugin-ecommerce/types'
 import type { Field } from 'payload'
+import {
+    confirmApprovedBankTransfer,
+    releaseStockReservationsOnDelete,
+    reviewBankTransfer,
+    syncStockReservations,
+} from './hooks'
 
 /**
  * Transactions collection - Strict schema match with Supabase 'payments' table.
- * DB columns: id, order_id, midtrans_*, amount, status, payment_method, paid_at,
- * expired_at, midtrans_response, created_at, updated_at
+ * DB columns: id, order_id, payment_reference, provider_*, midtrans_*, amount, status,
+ * payment_method, transfer_*, proof_upload_token_hash, payment_proof_id, paid_at, expired_at, refunded_amount, refunded_at, fraud_*,
+ * midtrans_response, created_at, updated_at
+ * Refund history lives in 'payments_refunds' (one row per Core API refund).
+ *
+ * provider_* fields are written by every payment adapter through the shared
+ * gateway layer (src/payments/shared); midtrans_* are kept for the mobile app.
  *
  * Plugin default includes billing_address_*, customer_id, customer_email, cart_id, currency
  * which don't exist in Supabase. We define only fields that map to existing columns.
@@ -15,10 +28,9 @@ const supabasePaymentsFields: Field[] = [
         name: 'order',
         type: 'relationship',
         relationTo: 'orders',
-        required: true,
         dbName: 'order_id',
         admin: {
-            description: 'Order this payment belongs to',
+            description: 'Order created from this payment (set once the payment settles)',
             position: 'sidebar',
         },
     },
@@ -38,12 +50,15 @@ const supabasePaymentsFields: Field[] = [
         dbName: 'status',
         options: [
             { label: 'Pending', value: 'pending' },
+            { label: 'Challenge (Fraud Review)', value: 'challenge' },
             { label: 'Settlement', value: 'settlement' },
             { label: 'Capture', value: 'capture' },
             { label: 'Deny', value: 'deny' },
             { label: 'Cancel', value: 'cancel' },
             { label: 'Expire', value: 'expire' },
             { label: 'Failure', value: 'failure' },
+            { label: 'Refund', value: 'refund' },
+            { label: 'Partial Refund', value: 'partial_refund' },
         ],
         admin: {
             position: 'sidebar',
@@ -54,7 +69,7 @@ const supabasePaymentsFields: Field[] = [
         type: 'text',
         dbName: 'payment_method',
         admin: {
-            description: 'Payment method (e.g. midtrans)',
+            description: 'Payment adapter used at checkout (midtrans, xendit, bank_transfer)',
             position: 'sidebar',
         },
     },
@@ -80,7 +95,7 @@ const supabasePaymentsFields: Field[] = [
                 relationTo: 'variants',
                 dbName: 'variant_id',
                 admin: {
-                    condition: () => false, // Hide if variants not used
+                    description: 'Pack size, when the product is sold in several',
                 },
             },
             {
@@ -90,8 +105,61 @@ const supabasePaymentsFields: Field[] = [
                 defaultValue: 1,
                 min: 1,
             },
+            {
+                name: 'price',
+                type: 'number',
+                admin: {
+                    description: 'Unit price at checkout, copied to the order line',
+                    readOnly: true,
+                },
+            },
+            {
+                name: 'units_per_pack',
+                type: 'number',
+                defaultValue: 1,
+                admin: {
+                    description: 'Stock units per pack at checkout, copied to the order line',
+                    readOnly: true,
+                },
+            },
         ],
     },
+    {
+        name: 'payment_reference',
+        type: 'text',
+        unique: true,
+        index: true,
+        admin: {
+            description: 'Provider reference for this payment (Midtrans order_id, Xendit external_id, bank transfer reference)',
+            readOnly: true,
+            position: 'sidebar',
+        },
+    },
+    {
+        name: 'provider_transaction_id',
+        type: 'text',
+        admin: {
+            readOnly: true,
+            position: 'sidebar',
+        },
+    },
+    {
+        name: 'provider_payment_type',
+        type: 'text',
+        admin: {
+            description: 'Channel used to pay (bank transfer, e-wallet, card, ...)',
+            readOnly: true,
+            position: 'sidebar',
+        },
+    },
+    {
+        name: 'provider_response',
+        type: 'json',
+        admin: {
+            description: 'Latest status payload received from the provider',
+            readOnly: true,
+        },
+    },
     {
         name: 'midtrans_order_id',
         type: 'text',
@@ -116,6 +184,150 @@ const supabasePaymentsFields: Field[] = [
             position: 'sidebar',
         },
     },
+    {
+        name: 'fraud_status',
+        type: 'select',
+        options: [
+            { label: 'Accept', value: 'accept' },
+            { label: 'Challenge', value: 'challenge' },
+            { label: 'Deny', value: 'deny' },
+        ],
+        admin: {
+            description: 'Midtrans fraud detection result for card captures',
+            readOnly: true,
+            position: 'sidebar',
+        },
+    },
+    {
+        name: 'fraud_reviewed_by',
+        type: 'relationship',
+        relationTo: 'admins',
+        admin: {
+            readOnly: true,
+            position: 'sidebar',
+            condition: (data) => Boolean(data?.fraud_reviewed_at),
+        },
+    },
+    {
+        name: 'fraud_reviewed_at',
+        type: 'date',
+        admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+            readOnly: true,
+            position: 'sidebar',
+            condition: (data) => Boolean(data?.fraud_reviewed_at),
+        },
+    },
+    {
+        name: 'fraud_review_note',
+        type: 'textarea',
+        admin: {
+            description: 'Reason recorded when a challenged payment was approved or denied',
+            readOnly: true,
+            condition: (data) => Boolean(data?.fraud_reviewed_at),
+        },
+    },
+    {
+        name: 'transfer_amount',
+        type: 'number',
+        admin: {
+            description: 'Exact amount the customer must transfer (order total plus unique code)',
+            readOnly: true,
+            position: 'sidebar',
+            condition: (data) => data?.paymentMethod === BANK_TRANSFER_METHOD,
+        },
+    },
+    {
+        name: 'transfer_review_status',
+        type: 'select',
+        options: [
+            { label: 'Awaiting Proof', value: 'awaiting_proof' },
+            { label: 'Pending Review', value: 'pending_review' },
+            { label: 'Approved', value: 'approved' },
+            { label: 'Rejected', value: 'rejected' },
+        ],
+        access: {
+            update: adminOnlyFieldAccess,
+        },
+        admin: {
+            description: 'Approve to settle the payment and create the order; rejection requires a reason',
+            position: 'sidebar',
+            condition: (data) => data?.paymentMethod === BANK_TRANSFER_METHOD,
+        },
+    },
+    {
+        name: 'transfer_deadline',
+        type: 'date',
+        admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+            description: 'Transfers still awaiting proof after this time are expired',
+            readOnly: true,
+            position: 'sidebar',
+            condition: (data) => data?.paymentMethod === BANK_TRANSFER_METHOD,
+        },
+    },
+    {
+        // Only the hash is stored; the token is returned once at checkout
+        name: 'proof_upload_token_hash',
+        type: 'text',
+        access: {
+            read: () => false,
+            update: () => false,
+        },
+        admin: {
+            hidden: true,
+        },
+    },
+    {
+        name: 'payment_proof',
+        type: 'upload',
+        relationTo: 'private-documents',
+        admin: {
+            description: 'Transfer receipt uploaded via POST /api/payments/bank_transfer/proof. Private: admins only.',
+            condition: (data) => data?.paymentMethod === BANK_TRANSFER_METHOD,
+        },
+    },
+    {
+        name: 'payment_proof_uploaded_at',
+        type: 'date',
+        admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+            readOnly: true,
+            position: 'sidebar',
+            condition: (data) => Boolean(data?.payment_proof_uploaded_at),
+        },
+    },
+    {
+        name: 'transfer_rejection_reason',
+        type: 'textarea',
+        access: {
+            update: adminOnlyFieldAccess,
+        },
+        admin: {
+            description: 'Shown to the customer when the transfer is rejected',
+            condition: (data) => data?.paymentMethod === BANK_TRANSFER_METHOD,
+        },
+    },
+    {
+        name: 'transfer_reviewed_by',
+        type: 'relationship',
+        relationTo: 'admins',
+        admin: {
+            readOnly: true,
+            position: 'sidebar',
+            condition: (data) => Boolean(data?.transfer_reviewed_at),
+        },
+    },
+    {
+        name: 'transfer_reviewed_at',
+        type: 'date',
+        admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+            readOnly: true,
+            position: 'sidebar',
+            condition: (data) => Boolean(data?.transfer_reviewed_at),
+        },
+    },
     {
         name: 'paid_at',
         type: 'date',
@@ -134,6 +346,72 @@ const supabasePaymentsFields: Field[] = [
             position: 'sidebar',
         },
     },
+    {
+        name: 'refunded_amount',
+        type: 'number',
+        defaultValue: 0,
+        admin: {
+            description: 'Total amount refunded through Midtrans',
+            readOnly: true,
+            position: 'sidebar',
+        },
+    },
+    {
+        name: 'refunded_at',
+        type: 'date',
+        admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+            description: 'Time of the most recent refund',
+            readOnly: true,
+            position: 'sidebar',
+        },
+    },
+    {
+        name: 'refunds',
+        type: 'array',
+        dbName: 'payments_refunds',
+        admin: {
+            initCollapsed: true,
+            description: 'Refunds issued via POST /api/payments/midtrans/refund',
+            readOnly: true,
+        },
+        fields: [
+            {
+                name: 'refund_key',
+                type: 'text',
+                required: true,
+            },
+            {
+                name: 'amount',
+                type: 'number',
+                required: true,
+            },
+            {
+                name: 'reason',
+                type: 'text',
+            },
+            {
+                name: 'midtrans_refund_id',
+                type: 'text',
+                admin: {
+                    description: 'refund_chargeback_id returned by Midtrans',
+                },
+            },
+            {
+                name: 'refunded_by',
+                type: 'relationship',
+                relationTo: 'admins',
+            },
+            {
+                name: 'refunded_at',
+                type: 'date',
+                required: true,
+                admin: {
+                    date: { pickerAppearance: 'dayAndTime' },
+                },
+            },
+        ],
+    },
     {
         name: 'midtrans_response',
         type: 'json',
@@ -145,8 +423,8 @@ const supabasePaymentsFields: Field[] = [
 ]
 
 /**
- * Transactions are created only by the payment flow (Midtrans initiate/webhook).
- * Midtrans adapter uses req.payload.create() without overrideAccess → bypasses access.
+ * Transactions are created only by the payment flow (adapter initiate/webhook).
+ * Adapters use req.payload.create() without overrideAccess → bypasses access.
  * Admin Create is blocked for data integrity; admin can still read/update for reconciliation.
  */
 const transactionsCreateAccess = () => false
@@ -160,13 +438,24 @@ export const TransactionsCollection: CollectionOverride = ({ defaultCollection }
         group: 'Payments',
         useAsTitle: 'id',
         defaultColumns: ['id', 'order', 'amount', 'status', 'createdAt'],
-        description: 'Transactions are created by the payment flow (Midtrans). Admin can read and update for reconciliation.',
+        description: 'Transactions are created by the payment flow (Midtrans, Xendit, bank transfer). Admin can read, update for reconciliation and verify bank transfers.',
     },
     access: {
         read: adminOnly,
-        create: transactionsCreateAccess, // Block manual create; Midtrans uses Local API (bypasses)
+        create: transactionsCreateAccess, // Block manual create; adapters use Local API (bypasses)
         update: adminOnly, // Allow status updates for reconciliation
         delete: adminOnly,
     },
+    hooks: {
+        ...defaultCollection.hooks,
+        beforeChange: [...(defaultCollection.hooks?.beforeChange || []), reviewBankTransfer],
+        // Reservations convert before the approved transfer creates its order
+        afterChange: [
+            ...(defaultCollection.hooks?.afterChange || []),
+            syncStockReservations,
+            confirmApprovedBankTransfer,
+        ],
+        afterDelete: [...(defaultCollection.hooks?.afterDelete || []), releaseStockReservationsOnDelete],
+    },
     fields: supabasePaymentsFields,
 })
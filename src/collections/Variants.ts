@@ -0,0 +1,89 @@
+import type { CollectionOverride } from '@payloadcms/plugin-ecommerce/types'
+import { getUnitFactor, UNIT_OF_MEASURE_OPTIONS } from '@/utilities/unitsOfMeasure'
+import type { Field } from 'payload'
+
+/**
+ * Variants override for Apotek E-commerce
+ * Pack sizes of a product (strip, box, bottle). Stock is kept on the product's
+ * Inventory record in its base unit; a variant consumes `units_per_pack` base
+ * units per pack (from the product's unit conversions when `unit` is set) and
+ * has its own price.
+ *
+ * The plugin's per-variant inventory field is hidden so stock has one source.
+ */
+export const VariantsCollectionOverride: CollectionOverride = ({ defaultCollection }) => ({
+    ...defaultCollection,
+    lockDocuments: false,
+    admin: {
+        ...defaultCollection?.admin,
+        group: 'Catalog',
+        defaultColumns: ['title', 'product', 'price', 'units_per_pack'],
+    },
+    fields: [
+        ...defaultCollection.fields.map((field): Field =>
+            'name' in field && field.name === 'inventory'
+                ? ({ ...field, admin: { ...field.admin, hidden: true } } as Field)
+                : field
+        ),
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'price',
+                    type: 'number',
+                    min: 0,
+                    admin: {
+                        description: 'Price per pack. Leave empty to use product price × units per pack.',
+                        width: '50%',
+                    },
+                },
+                {
+                    name: 'unit',
+                    type: 'select',
+                    options: UNIT_OF_MEASURE_OPTIONS,
+                    admin: {
+                        description: 'Unit this pack is sold in; sets units per pack from the product\'s conversions',
+                        width: '50%',
+                    },
+                },
+            ],
+        },
+        {
+            name: 'units_per_pack',
+            type: 'number',
+            required: true,
+            defaultValue: 1,
+            min: 1,
+            admin: {
+                description: 'Base units in one pack, e.g. 10 for a strip when stock is counted in tablets',
+            },
+        },
+    ],
+    hooks: {
+        ...defaultCollection?.hooks,
+        beforeChange: [
+            ...(defaultCollection?.hooks?.beforeChange || []),
+            ({ data }) => {
+                // Checkout validation in the plugin reads priceInUSD; keep it in step with price
+                if (data?.price != null) {
+                    data.priceInUSDEnabled = true
+                    data.priceInUSD = data.price
+                }
+                return data
+            },
+            async ({ data, originalDoc, req }) => {
+                // A variant sold in a named unit takes its pack size from the product
+                const unit = data?.unit ?? originalDoc?.unit
+                const product = data?.product ?? originalDoc?.product
+                if (!unit || !product) return data
+
+                const productDoc = typeof product === 'object'
+                    ? product
+                    : await req.payload.findByID({ collection: 'products', id: product, depth: 0, req, overrideAccess: true })
+
+                data.units_per_pack = getUnitFactor(productDoc, unit)
+                return data
+            },
+        ],
+    },
+})
@@ -8,18 +8,44 @@
  * @see https://payloadcms.com/docs/database/postgres#beforeSchemaInit
  */
 
+import type { SQL } from '@payloadcms/db-postgres/drizzle'
+import { sql } from '@payloadcms/db-postgres/drizzle'
 import {
     boolean,
+    customType,
+    index,
     integer,
     jsonb,
     numeric,
     pgTable,
     text,
+    unique,
     timestamp,
     uuid,
     varchar,
 } from '@payloadcms/db-postgres/drizzle/pg-core'
 
+// ============================================================================
+// CATALOG SEARCH
+// ============================================================================
+
+/**
+ * PostgreSQL full-text search document
+ */
+const tsvector = customType<{ data: string }>({
+    dataType: () => 'tsvector',
+})
+
+/**
+ * Text columns as normalizeSearchQuery sees them: lowercased, with dosages
+ * split ("500mg" → "500 mg"). Immutable, so usable in generated columns
+ */
+export const normalizedSearchText = (...columns: string[]): SQL =>
+    sql.raw(
+        `regexp_replace(regexp_replace(lower(${columns.map((column) => `coalesce(${column}, '')`).join(` || ' ' || `)}), ` +
+        `'([0-9])([a-z])', '\\1 \\2', 'g'), '([a-z])([0-9])', '\\1 \\2', 'g')`
+    )
+
 // ============================================================================
 // USERS & AUTH
 // ============================================================================
@@ -117,24 +143,94 @@ export const categories = pgTable('categories', {
     slug: varchar('slug', { length: 255 }),
     logoId: integer('logo_id'),
     logoUrl: text('logo_url'),
+    searchKeywords: text('search_keywords'),
+    maxQuantityPerOrder: integer('max_quantity_per_order'),
+    maxQuantityPerPeriod: integer('max_quantity_per_period'),
+    purchaseLimitPeriodDays: integer('purchase_limit_period_days'),
+    // Catalog search: category name and synonyms
+    searchVector: tsvector('search_vector').generatedAlwaysAs(
+        sql`to_tsvector('simple', ${normalizedSearchText('name', 'search_keywords')})`
+    ),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
-})
+}, (table) => [
+    index('idx_categories_search_vector').using('gin', table.searchVector),
+])
 
 /**
  * Products - Core product data
+ * search_vector is the weighted catalog search document (see catalogSearch);
+ * the trigram indexes serve typo matching on name and generic name (pg_trgm).
  */
 export const products = pgTable('products', {
     id: uuid('id').primaryKey(),
     name: text('name').notNull(),
     slug: varchar('slug', { length: 255 }),
     description: text('description'),
+    searchKeywords: text('search_keywords'),
     categoryId: uuid('category_id'),
     price: numeric('price', { precision: 12, scale: 2 }),
+    requiresPrescription: boolean('requires_prescription').default(false),
+    genericName: text('generic_name'),
+    strength: varchar('strength', { length: 50 }),
+    dosageForm: varchar('dosage_form', { length: 30 }),
+    manufacturer: text('manufacturer'),
+    drugClass: varchar('drug_class', { length: 30 }),
+    bpomRegistrationNumber: varchar('bpom_registration_number', { length: 30 }),
+    bpomCategory: varchar('bpom_category', { length: 30 }),
+    bpomOrigin: varchar('bpom_origin', { length: 20 }),
+    isPublished: boolean('is_published').default(true),
+    storageConditions: text('storage_conditions'),
+    contraindications: text('contraindications'),
+    maxQuantityPerOrder: integer('max_quantity_per_order'),
+    maxQuantityPerPeriod: integer('max_quantity_per_period'),
+    purchaseLimitPeriodDays: integer('purchase_limit_period_days'),
+    baseUnit: varchar('base_unit', { length: 20 }).default('pcs'),
+    defaultSupplierId: uuid('default_supplier_id'),
+    costPrice: numeric('cost_price', { precision: 12, scale: 2 }),
+    searchVector: tsvector('search_vector').generatedAlwaysAs(sql`
+        setweight(to_tsvector('simple', ${normalizedSearchText('name', 'generic_name', 'strength')}), 'A') ||
+        setweight(to_tsvector('indonesian', coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('simple', ${normalizedSearchText('search_keywords')}), 'B') ||
+        setweight(to_tsvector('simple', ${normalizedSearchText('manufacturer')}), 'C') ||
+        setweight(to_tsvector('indonesian', coalesce(description, '') || ' ' || coalesce(search_keywords, '')), 'D')
+    `),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => [
+    index('idx_products_search_vector').using('gin', table.searchVector),
+    index('idx_products_name_trgm').using('gin', sql`lower(${table.name}) gin_trgm_ops`),
+    index('idx_products_generic_name_trgm').using('gin', sql`lower(${table.genericName}) gin_trgm_ops`),
+])
+
+/**
+ * Product unit conversions - Array field for products (unit, factor in base units)
+ */
+export const productsUnitConversions = pgTable('products_unit_conversions', {
+    id: text('id').primaryKey(),
+    parentId: uuid('_parent_id').references(() => products.id, { onDelete: 'cascade' }),
+    order: integer('_order').notNull().default(0),
+    unit: varchar('unit', { length: 20 }).notNull(),
+    factor: integer('factor').notNull(),
 })
 
+/**
+ * Product active ingredients - Array field for products (name, strength)
+ */
+export const productsActiveIngredients = pgTable('products_active_ingredients', {
+    id: text('id').primaryKey(),
+    parentId: uuid('_parent_id').references(() => products.id, { onDelete: 'cascade' }),
+    order: integer('_order').notNull().default(0),
+    name: text('name').notNull(),
+    strength: varchar('strength', { length: 50 }),
+    // Catalog search: ingredient name and strength
+    searchVector: tsvector('search_vector').generatedAlwaysAs(
+        sql`to_tsvector('simple', ${normalizedSearchText('name', 'strength')})`
+    ),
+}, (table) => [
+    index('idx_products_active_ingredients_search_vector').using('gin', table.searchVector),
+])
+
 /**
  * Product images - Multiple images per product
  */
@@ -149,13 +245,138 @@ export const productImages = pgTable('product_images', {
 })
 
 /**
- * Inventory - Stock tracking
+ * Outlets - Pharmacy branches holding stock
+ */
+export const outlets = pgTable('outlets', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: varchar('name', { length: 255 }).notNull(),
+    code: varchar('code', { length: 50 }).unique(),
+    address: text('address'),
+    city: varchar('city', { length: 100 }),
+    postalCode: varchar('postal_code', { length: 10 }),
+    phone: varchar('phone', { length: 50 }),
+    isActive: boolean('is_active').default(true),
+    isDefault: boolean('is_default').default(false),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
+/**
+ * Outlet service areas - Array field for outlets (cities and postal code prefixes served)
+ */
+export const outletServiceAreas = pgTable('outlet_service_areas', {
+    id: text('id').primaryKey(),
+    parentId: uuid('_parent_id').references(() => outlets.id, { onDelete: 'cascade' }),
+    order: integer('_order').notNull().default(0),
+    city: varchar('city', { length: 100 }),
+    postalCodePrefix: varchar('postal_code_prefix', { length: 10 }),
+})
+
+/**
+ * Inventory - Stock tracking, one row per product per outlet
  */
 export const inventory = pgTable('inventory', {
     id: uuid('id').primaryKey(),
     productId: uuid('product_id').notNull(),
+    outletId: uuid('outlet_id'),
     quantity: numeric('quantity', { precision: 12, scale: 2 }).default(0),
     lowStockThreshold: numeric('low_stock_threshold', { precision: 12, scale: 2 }).default(10),
+    reorderPoint: integer('reorder_point'),
+    safetyStock: integer('safety_stock'),
+    averageDailyDemand: numeric('average_daily_demand', { precision: 12, scale: 2 }),
+    leadTimeDays: integer('lead_time_days'),
+    forecastUpdatedAt: timestamp('forecast_updated_at', { withTimezone: true }),
+    abcClass: varchar('abc_class', { length: 1 }),
+    xyzClass: varchar('xyz_class', { length: 1 }),
+    classifiedAt: timestamp('classified_at', { withTimezone: true }),
+    shelfLocation: varchar('shelf_location', { length: 50 }),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => [
+    // One record per product per outlet; a NULL outlet (no outlets set up) counts once too
+    unique('inventory_product_id_outlet_id_unique').on(table.productId, table.outletId).nullsNotDistinct(),
+])
+
+/**
+ * Inventory batches - Stock per batch/lot with expiry (quantities roll up into inventory)
+ */
+export const inventoryBatches = pgTable('inventory_batches', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    inventoryId: uuid('inventory_id'),
+    productId: uuid('product_id').notNull(),
+    outletId: uuid('outlet_id'),
+    batchNumber: varchar('batch_number', { length: 100 }).notNull(),
+    manufactureDate: timestamp('manufacture_date', { withTimezone: true }),
+    expiryDate: timestamp('expiry_date', { withTimezone: true }).notNull(),
+    quantity: integer('quantity').notNull().default(0),
+    receivedQuantity: integer('received_quantity'),
+    receivedUnit: varchar('received_unit', { length: 20 }),
+    unitCost: numeric('unit_cost', { precision: 12, scale: 2 }),
+    purchaseOrderId: uuid('purchase_order_id'),
+    supplierId: uuid('supplier_id'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
+/**
+ * Inventory movements - Append-only stock ledger (sum of quantity_change = inventory.quantity)
+ */
+export const inventoryMovements = pgTable('inventory_movements', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    inventoryId: uuid('inventory_id').notNull(),
+    productId: uuid('product_id').notNull(),
+    type: varchar('type', { length: 30 }).notNull(),
+    quantityChange: integer('quantity_change').notNull(),
+    quantityBefore: integer('quantity_before').notNull(),
+    quantityAfter: integer('quantity_after').notNull(),
+    actorId: uuid('actor_id'),
+    orderId: uuid('order_id'),
+    stockTransferId: uuid('stock_transfer_id'),
+    reason: text('reason'),
+    notes: text('notes'),
+    batchAllocations: jsonb('batch_allocations'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
+/**
+ * Private documents - Customer uploads readable by admins and the owner only
+ */
+export const privateDocuments = pgTable('private_documents', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    kind: varchar('kind', { length: 30 }).notNull(),
+    userId: uuid('user_id'),
+    orderId: uuid('order_id'),
+    transactionId: uuid('transaction_id'),
+    url: text('url'),
+    thumbnailURL: text('thumbnail_u_r_l'),
+    filename: varchar('filename', { length: 255 }).unique(),
+    mimeType: varchar('mime_type', { length: 100 }),
+    filesize: numeric('filesize'),
+    width: numeric('width'),
+    height: numeric('height'),
+    focalX: numeric('focal_x'),
+    focalY: numeric('focal_y'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
+/**
+ * Stock reservations - Stock held for checkouts awaiting payment
+ */
+export const stockReservations = pgTable('stock_reservations', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    productId: uuid('product_id').notNull(),
+    inventoryId: uuid('inventory_id'),
+    transactionId: uuid('transaction_id').notNull(),
+    orderId: uuid('order_id'),
+    quantity: integer('quantity').notNull(),
+    status: varchar('status', { length: 20 }).notNull().default('active'),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    convertedAt: timestamp('converted_at', { withTimezone: true }),
+    fulfilledAt: timestamp('fulfilled_at', { withTimezone: true }),
+    releasedAt: timestamp('released_at', { withTimezone: true }),
+    releaseReason: text('release_reason'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 })
 
@@ -172,11 +393,27 @@ export const orders = pgTable('orders', {
     customerId: uuid('customer_id'), // Payload ecommerce plugin compatibility
     orderedById: uuid('ordered_by_id'), // Sync with user_id via trigger
     addressId: uuid('address_id'),
+    outletId: uuid('outlet_id'),
     totalAmount: numeric('total_amount', { precision: 12, scale: 2 }),
     status: varchar('status', { length: 30 }).default('pending'),
+    stockDeducted: boolean('stock_deducted').default(false),
     shippingName: text('shipping_name'),
     shippingAddress: text('shipping_address'),
     shippingPhone: varchar('shipping_phone', { length: 20 }),
+    paymentReference: varchar('payment_reference', { length: 100 }).unique(),
+    paidAmount: numeric('paid_amount', { precision: 12, scale: 2 }),
+    hasPaymentMismatch: boolean('has_payment_mismatch').default(false),
+    prescriptionRequired: boolean('prescription_required').default(false),
+    prescriptionImageId: uuid('prescription_image_id'), // private_documents
+    prescriptionStatus: varchar('prescription_status', { length: 30 }),
+    prescriptionRejectionReason: text('prescription_rejection_reason'),
+    prescriptionReviewedById: uuid('prescription_reviewed_by_id'),
+    prescriptionReviewedAt: timestamp('prescription_reviewed_at', { withTimezone: true }),
+    purchaseLimitOverride: boolean('purchase_limit_override').default(false),
+    purchaseLimitOverrideReason: text('purchase_limit_override_reason'),
+    purchaseLimitOverrideById: uuid('purchase_limit_override_by_id'),
+    purchaseLimitOverrideAt: timestamp('purchase_limit_override_at', { withTimezone: true }),
+    hasInteractionWarnings: boolean('has_interaction_warnings').default(false),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 })
@@ -189,8 +426,167 @@ export const orderItems = pgTable('order_items', {
     parentId: uuid('_parent_id').references(() => orders.id, { onDelete: 'cascade' }),
     order: integer('_order').notNull().default(0),
     productId: uuid('product_id'),
+    variantId: uuid('variant_id'),
     price: numeric('price', { precision: 12, scale: 2 }),
     quantity: integer('quantity').default(1),
+    unitsPerPack: integer('units_per_pack').default(1),
+})
+
+/**
+ * Order interaction warnings - Array field for orders (type, severity, message)
+ */
+export const ordersInteractionWarnings = pgTable('orders_interaction_warnings', {
+    id: text('id').primaryKey(),
+    parentId: uuid('_parent_id').references(() => orders.id, { onDelete: 'cascade' }),
+    order: integer('_order').notNull().default(0),
+    type: varchar('type', { length: 30 }).notNull(),
+    severity: varchar('severity', { length: 20 }).notNull(),
+    message: text('message').notNull(),
+})
+
+/**
+ * Suppliers - Distributors stock is purchased from
+ */
+export const suppliers = pgTable('suppliers', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: varchar('name', { length: 255 }).notNull(),
+    code: varchar('code', { length: 50 }).unique(),
+    contactName: varchar('contact_name', { length: 255 }),
+    phone: varchar('phone', { length: 50 }),
+    email: varchar('email', { length: 255 }),
+    address: text('address'),
+    leadTimeDays: integer('lead_time_days'),
+    paymentTermsDays: integer('payment_terms_days'),
+    notes: text('notes'),
+    isActive: boolean('is_active').default(true),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
+/**
+ * Purchase orders - Stock ordered from suppliers
+ */
+export const purchaseOrders = pgTable('purchase_orders', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    poNumber: varchar('po_number', { length: 50 }).unique(),
+    supplierId: uuid('supplier_id').notNull(),
+    outletId: uuid('outlet_id'),
+    status: varchar('status', { length: 30 }).notNull().default('draft'),
+    expectedDate: timestamp('expected_date', { withTimezone: true }),
+    totalAmount: numeric('total_amount', { precision: 12, scale: 2 }),
+    notes: text('notes'),
+    sentAt: timestamp('sent_at', { withTimezone: true }),
+    receivedAt: timestamp('received_at', { withTimezone: true }),
+    cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
+/**
+ * Purchase order items - Array field for purchase orders
+ */
+export const purchaseOrderItems = pgTable('purchase_order_items', {
+    id: text('id').primaryKey(),
+    parentId: uuid('_parent_id').references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+    order: integer('_order').notNull().default(0),
+    productId: uuid('product_id').notNull(),
+    quantity: integer('quantity').notNull(),
+    unit: varchar('unit', { length: 20 }),
+    unitCost: numeric('unit_cost', { precision: 12, scale: 2 }),
+    receivedQuantity: integer('received_quantity').default(0),
+    notes: text('notes'),
+})
+
+/**
+ * Stock takes - Cycle counts with variance approval
+ */
+export const stockTakes = pgTable('stock_takes', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    reference: varchar('reference', { length: 50 }).unique(),
+    status: varchar('status', { length: 20 }).notNull().default('open'),
+    categoryId: uuid('category_id'),
+    shelfLocation: varchar('shelf_location', { length: 50 }),
+    outletId: uuid('outlet_id'),
+    notes: text('notes'),
+    reviewNotes: text('review_notes'),
+    approvalNotes: text('approval_notes'),
+    openedById: uuid('opened_by_id'),
+    openedAt: timestamp('opened_at', { withTimezone: true }),
+    submittedById: uuid('submitted_by_id'),
+    submittedAt: timestamp('submitted_at', { withTimezone: true }),
+    approvedById: uuid('approved_by_id'),
+    approvedAt: timestamp('approved_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
+/**
+ * Stock take lines - Array field for stock takes (quantities in base units)
+ */
+export const stockTakeLines = pgTable('stock_take_lines', {
+    id: text('id').primaryKey(),
+    parentId: uuid('_parent_id').references(() => stockTakes.id, { onDelete: 'cascade' }),
+    order: integer('_order').notNull().default(0),
+    productId: uuid('product_id').notNull(),
+    inventoryId: uuid('inventory_id').notNull(),
+    countedQuantity: integer('counted_quantity'),
+    expectedQuantity: integer('expected_quantity'),
+    variance: integer('variance'),
+    notes: text('notes'),
+})
+
+/**
+ * Stock transfers - Stock moved between outlets
+ */
+export const stockTransfers = pgTable('stock_transfers', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    reference: varchar('reference', { length: 50 }).unique(),
+    status: varchar('status', { length: 20 }).notNull().default('requested'),
+    sourceOutletId: uuid('source_outlet_id'),
+    destinationOutletId: uuid('destination_outlet_id'),
+    hasDiscrepancy: boolean('has_discrepancy').default(false),
+    notes: text('notes'),
+    dispatchNotes: text('dispatch_notes'),
+    receiptNotes: text('receipt_notes'),
+    requestedById: uuid('requested_by_id'),
+    requestedAt: timestamp('requested_at', { withTimezone: true }),
+    dispatchedById: uuid('dispatched_by_id'),
+    dispatchedAt: timestamp('dispatched_at', { withTimezone: true }),
+    receivedById: uuid('received_by_id'),
+    receivedAt: timestamp('received_at', { withTimezone: true }),
+    cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+})
+
+/**
+ * Stock transfer lines - Array field for stock transfers (quantities in base units)
+ */
+export const stockTransferLines = pgTable('stock_transfer_lines', {
+    id: text('id').primaryKey(),
+    parentId: uuid('_parent_id').references(() => stockTransfers.id, { onDelete: 'cascade' }),
+    order: integer('_order').notNull().default(0),
+    productId: uuid('product_id').notNull(),
+    quantity: integer('quantity').notNull(),
+    receivedQuantity: integer('received_quantity'),
+    discrepancy: integer('discrepancy'),
+    dispatchedBatches: jsonb('dispatched_batches'),
+    notes: text('notes'),
+})
+
+/**
+ * Drug interaction rules - Ingredient pairs checked at order time
+ */
+export const drugInteractions = pgTable('drug_interactions', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ingredientA: text('ingredient_a').notNull(),
+    ingredientB: text('ingredient_b').notNull(),
+    severity: varchar('severity', { length: 20 }).notNull().default('moderate'),
+    description: text('description').notNull(),
+    recommendation: text('recommendation'),
+    isActive: boolean('is_active').default(true),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 })
 
 /**
@@ -200,32 +596,52 @@ export const cartItems = pgTable('cart_items', {
     id: uuid('id').primaryKey(),
     userId: uuid('user_id').notNull(),
     productId: uuid('product_id').notNull(),
+    variantId: uuid('variant_id'),
     quantity: integer('quantity').default(1),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 })
 
 /**
- * Payment records - Midtrans integration
+ * Payment records - Provider-agnostic columns plus legacy midtrans_* columns
  */
 export const payments = pgTable('payments', {
     id: uuid('id').primaryKey().defaultRandom(),
-    orderId: uuid('order_id').notNull(),
+    orderId: uuid('order_id'), // Set once the paid order is created
+    paymentReference: varchar('payment_reference', { length: 100 }).unique(),
+    providerTransactionId: varchar('provider_transaction_id', { length: 100 }),
+    providerPaymentType: varchar('provider_payment_type', { length: 50 }),
+    providerResponse: jsonb('provider_response'),
     midtransOrderId: varchar('midtrans_order_id', { length: 100 }),
     midtransTransactionId: varchar('midtrans_transaction_id', { length: 100 }),
     midtransPaymentType: varchar('midtrans_payment_type', { length: 50 }),
     amount: numeric('amount', { precision: 12, scale: 2 }),
     status: varchar('status', { length: 30 }).default('pending'),
     paymentMethod: varchar('payment_method', { length: 50 }),
+    fraudStatus: varchar('fraud_status', { length: 20 }),
+    fraudReviewedById: uuid('fraud_reviewed_by_id'),
+    fraudReviewedAt: timestamp('fraud_reviewed_at', { withTimezone: true }),
+    fraudReviewNote: text('fraud_review_note'),
+    transferAmount: numeric('transfer_amount', { precision: 12, scale: 2 }), // Amount + unique code
+    transferReviewStatus: varchar('transfer_review_status', { length: 20 }),
+    transferDeadline: timestamp('transfer_deadline', { withTimezone: true }),
+    proofUploadTokenHash: varchar('proof_upload_token_hash', { length: 64 }), // sha256 hex
+    paymentProofId: uuid('payment_proof_id'), // private_documents
+    paymentProofUploadedAt: timestamp('payment_proof_uploaded_at', { withTimezone: true }),
+    transferRejectionReason: text('transfer_rejection_reason'),
+    transferReviewedById: uuid('transfer_reviewed_by_id'),
+    transferReviewedAt: timestamp('transfer_reviewed_at', { withTimezone: true }),
     paidAt: timestamp('paid_at', { withTimezone: true }),
     expiredAt: timestamp('expired_at', { withTimezone: true }),
+    refundedAmount: numeric('refunded_amount', { precision: 12, scale: 2 }).default('0'),
+    refundedAt: timestamp('refunded_at', { withTimezone: true }),
     midtransResponse: jsonb('midtrans_response'),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 })
 
 /**
- * Payment items - Array field for transactions (product, variant, quantity)
+ * Payment items - Array field for transactions (product, variant, quantity, price snapshot)
  */
 export const paymentsItems = pgTable('payments_items', {
     id: uuid('id').primaryKey().defaultRandom(),
@@ -234,6 +650,41 @@ export const paymentsItems = pgTable('payments_items', {
     productId: uuid('product_id'),
     variantId: uuid('variant_id'),
     quantity: integer('quantity').default(1),
+    price: numeric('price', { precision: 12, scale: 2 }), // Unit price at checkout
+    unitsPerPack: integer('units_per_pack').default(1), // Stock units per pack at checkout
+})
+
+/**
+ * Payment refunds - Array field for transactions (one row per Midtrans refund)
+ */
+export const paymentsRefunds = pgTable('payments_refunds', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    parentId: uuid('_parent_id').references(() => payments.id, { onDelete: 'cascade' }),
+    order: integer('_order').notNull().default(0),
+    refundKey: varchar('refund_key', { length: 100 }).notNull(),
+    amount: numeric('amount', { precision: 12, scale: 2 }).notNull(),
+    reason: text('reason'),
+    midtransRefundId: varchar('midtrans_refund_id', { length: 100 }),
+    refundedById: uuid('refunded_by_id'),
+    refundedAt: timestamp('refunded_at', { withTimezone: true }).notNull(),
+})
+
+/**
+ * Payment reconciliation reports - One row per Midtrans reconciliation run
+ */
+export const paymentReconciliations = pgTable('payment_reconciliations', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    checked: integer('checked').default(0),
+    updated: integer('updated').default(0),
+    expired: integer('expired').default(0),
+    unchanged: integer('unchanged').default(0),
+    failed: integer('failed').default(0),
+    ordersCreated: integer('orders_created').default(0),
+    results: jsonb('results'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 })
 
 // ============================================================================
@@ -259,13 +710,32 @@ export const supabaseSchemaHook = ({ schema }: { schema: any; adapter: any }) =>
             addresses,
             categories,
             products,
+            products_active_ingredients: productsActiveIngredients,
+            products_unit_conversions: productsUnitConversions,
             product_images: productImages,
+            outlets,
+            outlet_service_areas: outletServiceAreas,
             inventory,
+            inventory_batches: inventoryBatches,
+            inventory_movements: inventoryMovements,
+            stock_reservations: stockReservations,
+            private_documents: privateDocuments,
             orders,
             order_items: orderItems,
+            orders_interaction_warnings: ordersInteractionWarnings,
+            drug_interactions: drugInteractions,
+            suppliers,
+            purchase_orders: purchaseOrders,
+            purchase_order_items: purchaseOrderItems,
+            stock_takes: stockTakes,
+            stock_take_lines: stockTakeLines,
+            stock_transfers: stockTransfers,
+            stock_transfer_lines: stockTransferLines,
             cart_items: cartItems,
             payments,
             payments_items: paymentsItems,
+            payments_refunds: paymentsRefunds,
+            payment_reconciliations: paymentReconciliations,
             profiles_sessions: profilesSessions,
             admins,
             admins_sessions: adminsSessions,
@@ -0,0 +1,63 @@
+import { CATALOG_SEARCH_MAX_LIMIT, searchCatalog } from '@/utilities/catalogSearch'
+import type { Endpoint } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Catalog search endpoints
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Full-text product search for the storefront
+ * GET /api/catalog/search?q=paracetamol&category=<id>&page=1&limit=20
+ *
+ * Matches title, generic name, active ingredients, manufacturer, description,
+ * symptoms and category synonyms, tolerates typos and returns per-category
+ * facet counts. Public: only published products are searched.
+ */
+export const catalogSearch: Endpoint = {
+  path: '/catalog/search',
+  method: 'get',
+  handler: async (req) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : ''
+      const categoryId = typeof req.query.category === 'string' ? req.query.category : undefined
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 20
+
+      if (query.length < 2) {
+        throw new APIError('Search query must be at least 2 characters', 400)
+      }
+
+      if (categoryId && !UUID_PATTERN.test(categoryId)) {
+        throw new APIError('Invalid category ID', 400)
+      }
+
+      if (limit > CATALOG_SEARCH_MAX_LIMIT) {
+        throw new APIError(`Maximum ${CATALOG_SEARCH_MAX_LIMIT} results per page`, 400)
+      }
+
+      const result = await searchCatalog(req.payload, { query, categoryId, page, limit })
+
+      return Response.json({
+        success: true,
+        data: result,
+      })
+    } catch (error) {
+      req.payload.logger.error(`Catalog search error: ${error}`)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
+      return Response.json(
+        { success: false, error: 'Catalog search failed' },
+        { status: 500 }
+      )
+    }
+  },
+}
@@ -6,6 +6,7 @@
  */
 
 import { runDataIntegrityCheck } from '@/utilities/dataIntegrity'
+import { backfillOpeningBalances, inventoryMovementContext } from '@/utilities/inventoryMovements'
 import type { Endpoint } from 'payload'
 
 export const dataIntegrityCheckEndpoint: Endpoint = {
@@ -26,7 +27,7 @@ export const dataIntegrityCheckEndpoint: Endpoint = {
         checkProducts = true,
         checkOrders = true,
         checkAddresses = true,
-        // checkMovements disabled
+        checkMovements = true,
         detailed = false
       } = req.json ? await req.json() : {}
 
@@ -37,7 +38,7 @@ export const dataIntegrityCheckEndpoint: Endpoint = {
         checkProducts,
         checkOrders,
         checkAddresses,
-        checkMovements: false, // Force disable
+        checkMovements,
       })
 
       req.payload.logger.info(`Data integrity check completed. Found ${result.totalErrors} errors.`)
@@ -52,7 +53,7 @@ export const dataIntegrityCheckEndpoint: Endpoint = {
           productErrors: Object.keys(result.errors).filter(k => k.startsWith('product-')).length,
           orderErrors: Object.keys(result.errors).filter(k => k.startsWith('order-')).length,
           addressErrors: Object.keys(result.errors).filter(k => k.startsWith('address-')).length,
-          movementErrors: 0,
+          movementErrors: Object.keys(result.errors).filter(k => k.startsWith('movement-') || k.startsWith('ledger-')).length,
           systemErrors: Object.keys(result.errors).filter(k => k.startsWith('system')).length,
         },
         ...(detailed && { errors: result.errors }),
@@ -194,6 +195,7 @@ export const fixDataIssuesEndpoint: Endpoint = {
 
       const {
         fixNegativeInventory = false,
+        backfillLedger = false,
         dryRun = true
       } = req.json ? await req.json() : {}
 
@@ -221,9 +223,16 @@ export const fixDataIssuesEndpoint: Endpoint = {
                 data: {
                   quantity: 0,
                 },
-                context: { skipValidation: true },
+                context: inventoryMovementContext(
+                  {
+                    type: 'adjustment',
+                    reason: 'Data integrity fix: negative quantity reset',
+                    notes: `Previous quantity: ${inventory.quantity}`,
+                  },
+                  { skipValidation: true }
+                ),
+                req,
               })
-              // No audit log created
             }
 
             fixes.push(`Fixed negative inventory for ${inventory.id}: ${inventory.quantity} → 0`)
@@ -233,6 +242,19 @@ export const fixDataIssuesEndpoint: Endpoint = {
         }
       }
 
+      // Open the movement ledger of records created before it existed
+      if (backfillLedger) {
+        try {
+          const backfilled = await backfillOpeningBalances(req.payload, { dryRun, req })
+
+          for (const { inventoryId, openingBalance } of backfilled) {
+            fixes.push(`Recorded opening balance of ${openingBalance} for inventory ${inventoryId}`)
+          }
+        } catch (error) {
+          errors.push(`Error backfilling opening balances: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+      }
+
       req.payload.logger.info(`Data issue fixes completed. Applied ${fixes.length} fixes, encountered ${errors.length} errors.`)
 
       return Response.json({
@@ -11,6 +11,7 @@ import {
     invalidateProductCache,
     warmupCaches,
 } from './cache-management'
+import { catalogSearch } from './catalog-search'
 import {
     analyzeIndexes,
     enableStats,
@@ -20,14 +21,33 @@ import {
     vacuumDatabase,
 } from './database-optimization'
 import {
+    abcXyzReport,
+    bpomComplianceReport,
+    classifyAbcXyz,
     expiringProductsReport,
     financialReport,
     inventoryMovementsReport,
     inventoryStatusReport,
     inventoryStatusReportEndpoint,
     lowStockReport,
+    paymentReconciliationReport,
     salesReport,
 } from './inventory-reports'
+import { uploadPrescription } from './prescriptions'
+import {
+    generatePurchaseOrders,
+    receivePurchaseOrderGoods,
+} from './purchase-orders'
+import {
+    approveStockTakeEndpoint,
+    recordStockTakeCountsEndpoint,
+    stockTakeVarianceReport,
+} from './stock-takes'
+import {
+    dispatchStockTransferEndpoint,
+    receiveStockTransferEndpoint,
+    stockTransferSuggestions,
+} from './stock-transfers'
 import {
     checkBulkStock,
     checkProductStock,
@@ -57,6 +77,7 @@ export const pharmacyEndpoints = [
 
     // Inventory reporting endpoints
     lowStockReport,
+    bpomComplianceReport,
     expiringProductsReport,
     inventoryStatusReport,
     inventoryMovementsReport,
@@ -65,6 +86,29 @@ export const pharmacyEndpoints = [
     salesReport,
     inventoryStatusReportEndpoint,
     financialReport,
+    paymentReconciliationReport,
+    abcXyzReport,
+    classifyAbcXyz,
+
+    // Catalog search endpoints
+    catalogSearch,
+
+    // Prescription endpoints
+    uploadPrescription,
+
+    // Purchase order endpoints
+    generatePurchaseOrders,
+    receivePurchaseOrderGoods,
+
+    // Stock take endpoints
+    recordStockTakeCountsEndpoint,
+    approveStockTakeEndpoint,
+    stockTakeVarianceReport,
+
+    // Stock transfer endpoints
+    stockTransferSuggestions,
+    dispatchStockTransferEndpoint,
+    receiveStockTransferEndpoint,
 
     // Stock monitoring endpoints
     checkProductStock,
@@ -80,12 +124,16 @@ export const pharmacyEndpoints = [
 
 // Individual endpoint exports for direct use
 export {
+    abcXyzReport,
+    bpomComplianceReport,
+    classifyAbcXyz,
     expiringProductsReport,
     financialReport,
     inventoryMovementsReport,
     inventoryStatusReport,
     inventoryStatusReportEndpoint,
     lowStockReport,
+    paymentReconciliationReport,
     salesReport
 } from './inventory-reports'
 
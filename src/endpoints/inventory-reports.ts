@@ -1,6 +1,16 @@
+import { getBatchExpirySummary } from '@/utilities/inventoryBatches'
 import { getPharmacySystemStatus } from '@/utilities/pharmacy'
-import { generateFinancialReport, generateInventoryStatusReport, generateSalesReport } from '@/utilities/reportingUtilities'
+import {
+  abcXyzReportToCsv,
+  generateAbcXyzReport,
+  generateBpomComplianceReport,
+  generateFinancialReport,
+  generateInventoryMovementsReport,
+  generateInventoryStatusReport,
+  generateSalesReport,
+} from '@/utilities/reportingUtilities'
 import { getLowStockProducts } from '@/utilities/stockAvailability'
+import { getExpiringProducts } from '@/utilities/stockManagement'
 import type { Endpoint } from 'payload'
 import { APIError } from 'payload'
 
@@ -63,25 +73,109 @@ export const lowStockReport: Endpoint = {
 }
 
 /**
- * Get expiring products report - DEPRECATED / STUBBED
+ * Get BPOM registration compliance report
+ * GET /api/inventory/bpom-compliance
+ */
+export const bpomComplianceReport: Endpoint = {
+  path: '/inventory/bpom-compliance',
+  method: 'get',
+  handler: async (req) => {
+    try {
+      // Check authentication and admin role
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      if (req.user.role !== 'admin') {
+        throw new APIError('Admin access required', 403)
+      }
+
+      const includePublishedOnly = req.query.publishedOnly === 'true'
+
+      const report = await generateBpomComplianceReport(req.payload, { includePublishedOnly })
+
+      return Response.json({
+        success: true,
+        data: report,
+        meta: {
+          total: report.products.length,
+          generatedAt: report.generatedAt,
+        },
+      })
+    } catch (error) {
+      req.payload.logger.error('BPOM compliance report error: ' + error)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
+      return Response.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  },
+}
+
+/**
+ * Get expiring batches report
  * GET /api/inventory/expiring
  */
 export const expiringProductsReport: Endpoint = {
   path: '/inventory/expiring',
   method: 'get',
-  handler: async () => {
+  handler: async (req) => {
     try {
-      // Return empty result as expiry is disabled
+      // Check authentication and admin role
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      if (req.user.role !== 'admin') {
+        throw new APIError('Admin access required', 403)
+      }
+
+      // Parse query parameters
+      const days = parseInt(req.query.days as string) || 30
+      const includeExpired = req.query.includeExpired === 'true'
+      const categoryId = req.query.categoryId as string | undefined
+      const limit = parseInt(req.query.limit as string) || 100
+
+      const expiringProducts = await getExpiringProducts(req.payload, {
+        days,
+        includeExpired,
+        categoryId,
+        limit,
+      })
+
       return Response.json({
         success: true,
-        data: [],
+        data: expiringProducts,
+        summary: {
+          expiredCount: expiringProducts.filter(p => p.isExpired).length,
+          totalQuantity: expiringProducts.reduce((sum, p) => sum + p.quantity, 0),
+          totalValue: expiringProducts.reduce((sum, p) => sum + p.value, 0),
+        },
         meta: {
-          total: 0,
+          total: expiringProducts.length,
+          days,
+          limit,
           generatedAt: new Date().toISOString(),
-          message: "Expiry tracking disabled in simplified schema"
         },
       })
-    } catch (_error) {
+    } catch (error) {
+      req.payload.logger.error(`Expiring products report error: ${error}`)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
       return Response.json(
         { success: false, error: 'Internal server error' },
         { status: 500 }
@@ -113,25 +207,25 @@ export const inventoryStatusReport: Endpoint = {
 
       // Get additional inventory statistics
       const [
-        totalInventoryResult,
+        batchExpirySummary,
         lowStockResult,
       ] = await Promise.all([
-        // Total inventory items
-        req.payload.find({
-          collection: 'inventory',
-          limit: 1,
-        }),
+        // Batches with remaining stock, by expiry window
+        getBatchExpirySummary(req.payload),
 
         // Get sample of low stock items for details
         getLowStockProducts(req.payload, { limit: 10 }),
       ])
 
       const inventoryStats = {
-        totalBatches: totalInventoryResult.totalDocs, // "Batches" acts as "Items" now
-        activeBatches: totalInventoryResult.totalDocs, // Simplified assumption
-        expiredBatches: 0,
+        totalBatches: batchExpirySummary.totalBatches,
+        activeBatches: batchExpirySummary.activeBatches,
+        expiredBatches: batchExpirySummary.expiredBatches,
+        expiringIn30Days: batchExpirySummary.expiringIn30Days,
         lowStockItems: lowStockResult.length,
-        expirationRate: '0.00',
+        expirationRate: batchExpirySummary.totalBatches > 0
+          ? ((batchExpirySummary.expiredBatches / batchExpirySummary.totalBatches) * 100).toFixed(2)
+          : '0.00',
       }
 
       return Response.json({
@@ -164,29 +258,66 @@ export const inventoryStatusReport: Endpoint = {
 }
 
 /**
- * Get inventory movements report - DEPRECATED / STUBBED
- * GET /api/inventory/movements
+ * Get inventory movements report from the stock ledger
+ * GET /api/inventory/movements?type=&productId=&transferId=&startDate=&endDate=
  */
 export const inventoryMovementsReport: Endpoint = {
   path: '/inventory/movements',
   method: 'get',
-  handler: async () => {
-    // Return empty result as movements are disabled
-    return Response.json({
-      success: true,
-      data: [],
-      summary: {
-        totalMovements: 0,
-        movementTypes: {},
-        totalQuantityIn: 0,
-        totalQuantityOut: 0
-      },
-      meta: {
-        total: 0,
-        generatedAt: new Date().toISOString(),
-        message: "Inventory movements tracking disabled in simplified schema"
-      },
-    })
+  handler: async (req) => {
+    try {
+      // Check authentication and admin role
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      if (req.user.role !== 'admin') {
+        throw new APIError('Admin access required', 403)
+      }
+
+      // Parse query parameters
+      const startDate = req.query.startDate as string | undefined
+      const endDate = req.query.endDate as string | undefined
+      const type = req.query.type as string | undefined
+      const productId = req.query.productId as string | undefined
+      const stockTransferId = req.query.transferId as string | undefined
+      const limit = parseInt(req.query.limit as string) || 100
+
+      const report = await generateInventoryMovementsReport(req.payload, {
+        startDate,
+        endDate,
+        type,
+        productId,
+        stockTransferId,
+        limit,
+      })
+
+      return Response.json({
+        success: true,
+        data: report.movements,
+        summary: report.summary,
+        reconciliation: report.reconciliation,
+        meta: {
+          total: report.summary.totalMovements,
+          limit,
+          generatedAt: report.generatedAt,
+        },
+      })
+    } catch (error) {
+      req.payload.logger.error(`Inventory movements report error: ${error}`)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
+      return Response.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
   },
 }
 
@@ -358,4 +489,194 @@ export const financialReport: Endpoint = {
       )
     }
   },
-}
\ No newline at end of file
+}
+/**
+ * Get Midtrans payment reconciliation reports (latest first)
+ * GET /api/reports/payment-reconciliation
+ */
+export const paymentReconciliationReport: Endpoint = {
+  path: '/reports/payment-reconciliation',
+  method: 'get',
+  handler: async (req) => {
+    try {
+      // Check authentication and admin role
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      if (req.user.role !== 'admin') {
+        throw new APIError('Admin access required', 403)
+      }
+
+      // Parse query parameters
+      const limit = parseInt(req.query.limit as string) || 10
+      const startDate = req.query.startDate as string | undefined
+
+      const reports = await req.payload.find({
+        collection: 'payment-reconciliations',
+        where: startDate ? { started_at: { greater_than_equal: startDate } } : undefined,
+        sort: '-started_at',
+        limit,
+        depth: 0,
+        overrideAccess: true,
+      })
+
+      return Response.json({
+        success: true,
+        data: reports.docs,
+        meta: {
+          total: reports.totalDocs,
+          limit,
+          lastRunAt: reports.docs[0]?.started_at ?? null,
+          generatedAt: new Date().toISOString(),
+        },
+      })
+    } catch (error) {
+      req.payload.logger.error('Payment reconciliation report error: ' + error)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
+      return Response.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  },
+}
+
+/**
+ * ABC/XYZ classification of products over a period
+ * GET /api/reports/abc-xyz?startDate=&endDate=&bucketDays=&format=csv&view=products|matrix
+ *
+ * Read-only; POST /api/reports/abc-xyz/classify stores the classes on inventory.
+ */
+export const abcXyzReport: Endpoint = {
+  path: '/reports/abc-xyz',
+  method: 'get',
+  handler: async (req) => {
+    try {
+      // Check authentication and admin role
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      if (req.user.role !== 'admin') {
+        throw new APIError('Admin access required', 403)
+      }
+
+      // Parse query parameters
+      const startDate = req.query.startDate as string
+      const endDate = req.query.endDate as string
+      const bucketDays = parseInt(req.query.bucketDays as string) || undefined
+
+      if (!startDate || !endDate) {
+        throw new APIError('Start date and end date are required', 400)
+      }
+
+      const report = await generateAbcXyzReport(req.payload, { startDate, endDate, bucketDays, req })
+
+      if (req.query.format === 'csv') {
+        const view = req.query.view === 'matrix' ? 'matrix' : 'products'
+        const filename = `abc-xyz-${view}-${startDate.slice(0, 10)}-${endDate.slice(0, 10)}.csv`
+
+        return new Response(abcXyzReportToCsv(report, view), {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+          },
+        })
+      }
+
+      return Response.json({
+        success: true,
+        data: report,
+        meta: {
+          generatedAt: report.generatedAt,
+        },
+      })
+    } catch (error) {
+      req.payload.logger.error('ABC/XYZ report error: ' + error)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
+      return Response.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  },
+}
+
+/**
+ * Classify products and store the latest ABC/XYZ class on each inventory record
+ * POST /api/reports/abc-xyz/classify
+ * Body: { startDate, endDate, bucketDays? }
+ */
+export const classifyAbcXyz: Endpoint = {
+  path: '/reports/abc-xyz/classify',
+  method: 'post',
+  handler: async (req) => {
+    try {
+      // Check authentication and admin role
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      if (req.user.role !== 'admin') {
+        throw new APIError('Admin access required', 403)
+      }
+
+      let body: Record<string, unknown> = {}
+      try {
+        if (req.json) {
+          body = await req.json()
+        }
+      } catch {
+        // Ignore parsing errors, use empty object
+      }
+
+      const startDate = typeof body.startDate === 'string' ? body.startDate : undefined
+      const endDate = typeof body.endDate === 'string' ? body.endDate : undefined
+      const bucketDays = Number(body.bucketDays) || undefined
+
+      if (!startDate || !endDate) {
+        throw new APIError('Start date and end date are required', 400)
+      }
+
+      const report = await generateAbcXyzReport(req.payload, { startDate, endDate, bucketDays, store: true, req })
+
+      return Response.json({
+        success: true,
+        data: report,
+        meta: {
+          inventoryRecordsUpdated: report.summary.inventoryRecordsUpdated,
+          generatedAt: report.generatedAt,
+        },
+      })
+    } catch (error) {
+      req.payload.logger.error('ABC/XYZ classification error: ' + error)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
+      return Response.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  },
+}
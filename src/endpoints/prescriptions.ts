@@ -0,0 +1,91 @@
+import { storePrivateDocument } from '@/utilities/privateDocuments'
+import type { Endpoint } from 'payload'
+import { addDataAndFileToRequest, APIError } from 'payload'
+
+/**
+ * Prescription upload endpoint (the customer's photo or scan of their resep)
+ */
+
+/**
+ * Upload the prescription for one of the customer's own orders
+ * POST /api/orders/:id/prescription (multipart/form-data: file)
+ *
+ * The file is stored as a private document of the order's customer and
+ * attached to the order for pharmacist review. Admins may upload on a
+ * customer's behalf.
+ */
+export const uploadPrescription: Endpoint = {
+  path: '/orders/:id/prescription',
+  method: 'post',
+  handler: async (req) => {
+    try {
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      const { id } = req.routeParams || {}
+      if (!id || typeof id !== 'string') {
+        throw new APIError('Order ID is required', 400)
+      }
+
+      await addDataAndFileToRequest(req)
+
+      // Read with the caller's access: customers only find their own orders
+      const order = await req.payload.findByID({
+        collection: 'orders',
+        id,
+        depth: 0,
+        req,
+        overrideAccess: false,
+        disableErrors: true,
+      })
+
+      if (!order) {
+        throw new APIError('Order not found', 404)
+      }
+      if (!order.prescription_required) {
+        throw new APIError('This order does not need a prescription', 400)
+      }
+      if (order.prescription_status === 'approved') {
+        throw new APIError('The prescription for this order has already been approved', 400)
+      }
+      if (order.status === 'cancelled' || order.status === 'refunded') {
+        throw new APIError(`Cannot upload a prescription for a ${order.status} order`, 400)
+      }
+
+      const customerId = typeof order.orderedBy === 'object' ? order.orderedBy.id : order.orderedBy
+      const document = await storePrivateDocument(req, {
+        kind: 'prescription',
+        userId: customerId,
+        orderId: order.id,
+      })
+
+      await req.payload.update({
+        collection: 'orders',
+        id: order.id,
+        data: { prescription_image: document.id },
+        depth: 0,
+        req,
+        overrideAccess: true,
+      })
+
+      req.payload.logger.info(`Order ${order.id}: prescription uploaded (document ${document.id})`)
+
+      return Response.json({
+        success: true,
+        data: {
+          orderId: order.id,
+          documentId: document.id,
+          prescriptionStatus: order.prescription_status,
+        },
+      })
+    } catch (error) {
+      if (error instanceof APIError) {
+        return Response.json({ success: false, error: error.message }, { status: error.status })
+      }
+
+      req.payload.logger.error(`Prescription upload error for order ${req.routeParams?.id}: ${error}`)
+      return Response.json({ success: false, error: 'Unable to upload prescription' }, { status: 500 })
+    }
+  },
+}
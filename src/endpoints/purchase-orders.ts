@@ -0,0 +1,146 @@
+import { generateDraftPurchaseOrders, type GoodsReceiptLine, receivePurchaseOrder } from '@/utilities/purchaseOrders'
+import type { Endpoint } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Purchase order endpoints
+ */
+
+/**
+ * Generate draft purchase orders from stock optimization recommendations
+ * POST /api/purchase-orders/generate
+ * Body: { supplierId?, categoryId?, outletId?, limit? }
+ *
+ * One draft per default supplier and outlet, or drafts for `supplierId` only.
+ * Products without a supplier are returned as `unassigned`.
+ */
+export const generatePurchaseOrders: Endpoint = {
+  path: '/purchase-orders/generate',
+  method: 'post',
+  handler: async (req) => {
+    try {
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      if (req.user.role !== 'admin') {
+        throw new APIError('Admin access required', 403)
+      }
+
+      let body: Record<string, unknown> = {}
+      try {
+        if (req.json) {
+          body = await req.json()
+        }
+      } catch {
+        // Ignore parsing errors, use empty object
+      }
+
+      const result = await generateDraftPurchaseOrders(req.payload, {
+        supplierId: typeof body.supplierId === 'string' ? body.supplierId : undefined,
+        categoryId: typeof body.categoryId === 'string' ? body.categoryId : undefined,
+        outletId: typeof body.outletId === 'string' ? body.outletId : undefined,
+        limit: typeof body.limit === 'number' ? body.limit : undefined,
+        req,
+      })
+
+      return Response.json({
+        success: true,
+        data: result,
+        meta: {
+          purchaseOrdersCreated: result.purchaseOrders.length,
+          unassignedProducts: result.unassigned.length,
+          alreadyOrderedProducts: result.alreadyOrdered.length,
+        },
+      })
+    } catch (error) {
+      req.payload.logger.error(`Purchase order generation error: ${error}`)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
+      return Response.json(
+        { success: false, error: 'Unable to generate purchase orders' },
+        { status: 500 }
+      )
+    }
+  },
+}
+
+/**
+ * Record a goods receipt against a purchase order
+ * POST /api/purchase-orders/:id/receive
+ * Body: { lines: [{ itemId, quantity, batchNumber?, expiryDate?, manufactureDate?, unitCost? }] }
+ *
+ * Quantities are in each line's unit and are added to inventory in the
+ * product's base unit.
+ */
+export const receivePurchaseOrderGoods: Endpoint = {
+  path: '/purchase-orders/:id/receive',
+  method: 'post',
+  handler: async (req) => {
+    try {
+      if (!req.user) {
+        throw new APIError('Authentication required', 401)
+      }
+
+      if (req.user.role !== 'admin') {
+        throw new APIError('Admin access required', 403)
+      }
+
+      const { id } = req.routeParams || {}
+      if (!id || typeof id !== 'string') {
+        throw new APIError('Purchase order ID is required', 400)
+      }
+
+      let body: Record<string, unknown> = {}
+      try {
+        if (req.json) {
+          body = await req.json()
+        }
+      } catch {
+        // Ignore parsing errors, use empty object
+      }
+
+      if (!Array.isArray(body.lines) || body.lines.length === 0) {
+        throw new APIError('Lines array is required', 400)
+      }
+
+      const lines: GoodsReceiptLine[] = body.lines
+        .filter(line => line && typeof line === 'object' && typeof line.itemId === 'string')
+        .map(line => ({
+          itemId: line.itemId,
+          quantity: Number(line.quantity),
+          batchNumber: typeof line.batchNumber === 'string' ? line.batchNumber.trim() || undefined : undefined,
+          expiryDate: typeof line.expiryDate === 'string' ? line.expiryDate : undefined,
+          manufactureDate: typeof line.manufactureDate === 'string' ? line.manufactureDate : undefined,
+          unitCost: typeof line.unitCost === 'number' ? line.unitCost : undefined,
+        }))
+
+      const result = await receivePurchaseOrder(req.payload, req, id, lines)
+
+      return Response.json({
+        success: true,
+        data: result,
+      })
+    } catch (error) {
+      req.payload.logger.error(`Goods receipt error for purchase order ${req.routeParams?.id}: ${error}`)
+
+      if (error instanceof APIError) {
+        return Response.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      }
+
+      return Response.json(
+        { success: false, error: 'Unable to record goods receipt' },
+        { status: 500 }
+      )
+    }
+  },
+}
@@ -1,5 +1,10 @@
+import { getReorderPoint } from '@/utilities/demandForecast'
+import { checkDrugInteractions } from '@/utilities/drugInteractions'
+import { getBatchExpirySummary } from '@/utilities/inventoryBatches'
 import { validateProductAvailability } from '@/utilities/pharmacy'
-import { checkBulkStockAvailability, checkStockAvailability } from '@/utilities/stockAvailability'
+import { getVariantUnitsPerPack, loadItemVariants } from '@/utilities/productVariants'
+import { checkPurchaseLimits } from '@/utilities/purchaseLimits'
+import { checkBulkStockAvailability, checkStockAvailability, type StockAvailabilityResult } from '@/utilities/stockAvailability'
 import type { Endpoint } from 'payload'
 import { APIError } from 'payload'
 
@@ -9,7 +14,8 @@ import { APIError } from 'payload'
 
 /**
  * Check stock availability for a single product
- * GET /api/stock/check/:productId
+ * GET /api/stock/check/:productId?quantity=&unit=&outletId=
+ * Without outletId, stock is summed across outlets.
  */
 export const checkProductStock: Endpoint = {
   path: '/stock/check/:productId',
@@ -18,6 +24,8 @@ export const checkProductStock: Endpoint = {
     try {
       const { productId } = req.routeParams || {}
       const quantity = parseInt(req.query.quantity as string) || 1
+      const unit = typeof req.query.unit === 'string' ? req.query.unit : undefined
+      const outletId = typeof req.query.outletId === 'string' ? req.query.outletId : undefined
 
       if (!productId || typeof productId !== 'string') {
         throw new APIError('Product ID is required', 400)
@@ -33,17 +41,21 @@ export const checkProductStock: Endpoint = {
 
       if (isAuthenticated) {
         // Detailed stock information for authenticated users
-        const stockResult = await checkStockAvailability(req.payload, productId, quantity)
+        const stockResult = await checkStockAvailability(req.payload, productId, quantity, unit, { outletId })
 
         interface StockResponse {
           success: boolean
           data: {
             productId: string
+            outletId: string | null
             isAvailable: boolean
             availableStock: number
             requestedQuantity: number
+            baseUnit: string
+            requestedBaseQuantity: number
             totalStock?: number
             reservedStock?: number
+            outlets?: StockAvailabilityResult['outlets']
           }
         }
 
@@ -51,16 +63,20 @@ export const checkProductStock: Endpoint = {
           success: true,
           data: {
             productId,
+            outletId: stockResult.outletId,
             isAvailable: stockResult.isAvailable,
-            availableStock: stockResult.quantity,
+            availableStock: stockResult.availableQuantity,
             requestedQuantity: quantity,
+            baseUnit: stockResult.baseUnit,
+            requestedBaseQuantity: stockResult.requestedBaseQuantity,
           },
         }
 
         // Additional details for admin users
         if (isAdmin) {
           response.data.totalStock = stockResult.quantity
-          response.data.reservedStock = 0 // Removed reserved logic
+          response.data.reservedStock = stockResult.reservedQuantity
+          response.data.outlets = stockResult.outlets
         }
 
         return Response.json(response)
@@ -96,8 +112,10 @@ export const checkProductStock: Endpoint = {
 }
 
 /**
- * Bulk stock availability check
+ * Bulk stock availability check, with drug interaction warnings and purchase
+ * limit violations for the items
  * POST /api/stock/check-bulk
+ * Body: { items, outletId? } - without outletId, stock is summed across outlets
  */
 export const checkBulkStock: Endpoint = {
   path: '/stock/check-bulk',
@@ -133,6 +151,8 @@ export const checkBulkStock: Endpoint = {
         typeof (item.quantity || 1) === 'number'
       ).map(item => ({
         productId: item.productId || item.product_id,
+        variantId: item.variantId || item.variant_id,
+        unit: typeof item.unit === 'string' ? item.unit : undefined,
         quantity: item.quantity || 1,
       }))
 
@@ -144,11 +164,48 @@ export const checkBulkStock: Endpoint = {
         throw new APIError('Maximum 100 items allowed per request', 400)
       }
 
+      // Quantities of pack-size variants are checked in stock units; other
+      // items may name a unit of the product, converted to its base unit
+      const variants = await loadItemVariants(
+        req.payload,
+        validItems.map(item => ({ variant: item.variantId }))
+      )
+      const stockItems = validItems.map(item => item.variantId
+        ? {
+          productId: item.productId,
+          quantity: item.quantity * getVariantUnitsPerPack(variants.get(String(item.variantId))),
+        }
+        : { productId: item.productId, quantity: item.quantity, unit: item.unit })
+
       // Check bulk stock availability
-      const bulkResult = await checkBulkStockAvailability(req.payload, validItems)
+      const bulkResult = await checkBulkStockAvailability(req.payload, stockItems, {
+        outletId: typeof body.outletId === 'string' ? body.outletId : undefined,
+      })
 
       const isAdmin = req.user.role === 'admin'
 
+      // Customers are checked against their own history; admins may name a customer
+      const customerId = !isAdmin
+        ? req.user.id
+        : typeof body.customerId === 'string' || typeof body.customerId === 'number'
+          ? body.customerId
+          : undefined
+
+      const interactionWarnings = await checkDrugInteractions(req.payload, {
+        productIds: validItems.map(item => item.productId),
+        customerId,
+      })
+
+      const purchaseLimitViolations = await checkPurchaseLimits(req.payload, {
+        items: validItems.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          unitsPerPack: item.variantId ? getVariantUnitsPerPack(variants.get(String(item.variantId))) : undefined,
+          unit: item.variantId ? undefined : item.unit,
+        })),
+        customerId,
+      })
+
       interface BulkStockResponse {
         success: boolean
         data: {
@@ -157,6 +214,8 @@ export const checkBulkStock: Endpoint = {
           availableItems: number
           unavailableItems: number
           unavailableProducts: unknown[]
+          interactionWarnings: unknown[]
+          purchaseLimitViolations: unknown[]
           detailedResults?: unknown[]
         }
       }
@@ -169,6 +228,8 @@ export const checkBulkStock: Endpoint = {
           availableItems: validItems.length - bulkResult.unavailableProducts.length,
           unavailableItems: bulkResult.unavailableProducts.length,
           unavailableProducts: bulkResult.unavailableProducts,
+          interactionWarnings,
+          purchaseLimitViolations,
         },
       }
 
@@ -218,6 +279,7 @@ export const stockMonitor: Endpoint = {
       const [
         totalInventoryResult,
         lowStockResult,
+        batchExpirySummary,
       ] = await Promise.all([
         // Total inventory (items)
         req.payload.find({
@@ -233,6 +295,9 @@ export const stockMonitor: Endpoint = {
           // but generic Payload filtering might be complex with field references;
           // for now fetching all (up to limit) and filtering in code is safe for MVP scale.
         }),
+
+        // Batch expiry counts
+        getBatchExpirySummary(req.payload),
       ])
 
       // Calculate stock statistics
@@ -242,13 +307,13 @@ export const stockMonitor: Endpoint = {
       // Simplified analysis
       const lowStockItems = lowStockResult.docs.filter((inventory) => {
         const qty = inventory.quantity || 0
-        const threshold = inventory.low_stock_threshold || 0
+        const threshold = getReorderPoint(inventory)
         return qty <= threshold
       })
 
       lowStockItems.forEach((inventory) => {
         const qty = inventory.quantity || 0
-        const threshold = inventory.low_stock_threshold || 10 // default 10 if missing
+        const threshold = getReorderPoint(inventory)
         lowStockCount++
         if (qty <= threshold * 0.5) {
           criticalStockCount++
@@ -262,8 +327,8 @@ export const stockMonitor: Endpoint = {
           totalValue: "0.00", // Value calculation removed (no cost price)
           lowStockItems: lowStockCount,
           criticalStockItems: criticalStockCount,
-          expiredBatches: 0,
-          expiringSoonBatches: 0,
+          expiredBatches: batchExpirySummary.expiredBatches,
+          expiringSoonBatches: batchExpirySummary.expiringIn7Days,
         },
         recentActivity: {
           last24Hours: {},
@@ -293,6 +358,22 @@ export const stockMonitor: Endpoint = {
         })
       }
 
+      if (batchExpirySummary.expiredBatches > 0) {
+        monitoringData.alerts.push({
+          type: 'critical',
+          message: 'Expired batches still in stock',
+          count: batchExpirySummary.expiredBatches,
+        })
+      }
+
+      if (batchExpirySummary.expiringIn7Days > 0) {
+        monitoringData.alerts.push({
+          type: 'warning',
+          message: 'Batches expiring within 7 days',
+          count: batchExpirySummary.expiringIn7Days,
+        })
+      }
+
       return Response.json({
         success: true,
         data: monitoringData,
@@ -359,7 +440,8 @@ export const stockAlerts: Endpoint = {
 
       for (const inventory of inventoryResult.docs) {
         const available = inventory.quantity || 0
-        const minimum = inventory.low_stock_threshold || 10
+        // Forecast reorder point, else the static threshold
+        const minimum = getReorderPoint(inventory)
         const productName = typeof inventory.product === 'object' ? inventory.product.title : String(inventory.product)
         const productId = typeof inventory.product === 'object' ? inventory.product.id : inventory.product
 
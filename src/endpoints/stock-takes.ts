@@ -0,0 +1,170 @@
+import {
+  approveStockTake,
+  generateStockTakeVarianceReport,
+  parseStockTakeCsv,
+  recordStockTakeCounts,
+  type StockTakeCount,
+} from '@/utilities/stockTakes'
+import type { Endpoint, PayloadRequest } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Stock take (cycle count) endpoints
+ */
+
+/**
+ * Admin-only guard shared by the stock take endpoints; returns the route ID
+ */
+function requireAdminAndId(req: PayloadRequest): string {
+  if (!req.user) {
+    throw new APIError('Authentication required', 401)
+  }
+
+  if (req.user.role !== 'admin') {
+    throw new APIError('Admin access required', 403)
+  }
+
+  const { id } = req.routeParams || {}
+  if (!id || typeof id !== 'string') {
+    throw new APIError('Stock take ID is required', 400)
+  }
+
+  return id
+}
+
+async function readJsonBody(req: PayloadRequest): Promise<Record<string, unknown>> {
+  try {
+    if (req.json) {
+      return await req.json()
+    }
+  } catch {
+    // Ignore parsing errors, use empty object
+  }
+  return {}
+}
+
+function errorResponse(req: PayloadRequest, error: unknown, label: string, fallback: string): Response {
+  req.payload.logger.error(`${label} error for stock take ${req.routeParams?.id}: ${error}`)
+
+  if (error instanceof APIError) {
+    return Response.json(
+      { success: false, error: error.message },
+      { status: error.status }
+    )
+  }
+
+  return Response.json(
+    { success: false, error: fallback },
+    { status: 500 }
+  )
+}
+
+/**
+ * Enter counted quantities in bulk
+ * POST /api/stock-takes/:id/counts
+ * Body: { counts: [{ product, countedQuantity, unit?, notes? }] } or { csv }
+ *
+ * `product` is a product ID or slug. CSV columns: product, counted_quantity,
+ * unit (optional), notes (optional).
+ */
+export const recordStockTakeCountsEndpoint: Endpoint = {
+  path: '/stock-takes/:id/counts',
+  method: 'post',
+  handler: async (req) => {
+    try {
+      const id = requireAdminAndId(req)
+      const body = await readJsonBody(req)
+
+      let counts: StockTakeCount[]
+      if (typeof body.csv === 'string') {
+        counts = parseStockTakeCsv(body.csv)
+      } else if (Array.isArray(body.counts)) {
+        counts = body.counts
+          .filter(count => count && typeof count === 'object' && typeof count.product === 'string')
+          .map(count => ({
+            product: count.product,
+            countedQuantity: Number(count.countedQuantity),
+            unit: typeof count.unit === 'string' ? count.unit : undefined,
+            notes: typeof count.notes === 'string' ? count.notes : undefined,
+          }))
+      } else {
+        throw new APIError('Counts array or CSV is required', 400)
+      }
+
+      if (counts.some(count => !Number.isFinite(count.countedQuantity) || count.countedQuantity < 0)) {
+        throw new APIError('Counted quantities must be non-negative numbers', 400)
+      }
+
+      const stockTake = await recordStockTakeCounts(req.payload, req, id, counts)
+      const counted = (stockTake.lines || []).filter(line => line.counted_quantity != null).length
+
+      return Response.json({
+        success: true,
+        data: stockTake,
+        meta: {
+          recorded: counts.length,
+          countedLines: counted,
+          totalLines: stockTake.lines?.length || 0,
+        },
+      })
+    } catch (error) {
+      return errorResponse(req, error, 'Stock take counts', 'Unable to record counts')
+    }
+  },
+}
+
+/**
+ * Approve a submitted stock take and apply its variances to inventory
+ * POST /api/stock-takes/:id/approve
+ * Body: { notes? }
+ */
+export const approveStockTakeEndpoint: Endpoint = {
+  path: '/stock-takes/:id/approve',
+  method: 'post',
+  handler: async (req) => {
+    try {
+      const id = requireAdminAndId(req)
+      const body = await readJsonBody(req)
+
+      const result = await approveStockTake(req.payload, req, id, {
+        notes: typeof body.notes === 'string' ? body.notes : undefined,
+      })
+
+      return Response.json({
+        success: true,
+        data: result.stockTake,
+        report: result.report,
+      })
+    } catch (error) {
+      return errorResponse(req, error, 'Stock take approval', 'Unable to approve stock take')
+    }
+  },
+}
+
+/**
+ * Variance report for a stock take
+ * GET /api/stock-takes/:id/variance-report
+ */
+export const stockTakeVarianceReport: Endpoint = {
+  path: '/stock-takes/:id/variance-report',
+  method: 'get',
+  handler: async (req) => {
+    try {
+      const id = requireAdminAndId(req)
+
+      const stockTake = await req.payload.findByID({
+        collection: 'stock-takes',
+        id,
+        depth: 1,
+        req,
+      })
+
+      return Response.json({
+        success: true,
+        data: generateStockTakeVarianceReport(stockTake),
+      })
+    } catch (error) {
+      return errorResponse(req, error, 'Stock take variance report', 'Unable to generate variance report')
+    }
+  },
+}
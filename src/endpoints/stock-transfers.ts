@@ -0,0 +1,161 @@
+import {
+  dispatchStockTransfer,
+  receiveStockTransfer,
+  suggestStockTransfers,
+  type StockTransferReceiptLine,
+} from '@/utilities/stockTransfers'
+import type { Endpoint, PayloadRequest } from 'payload'
+import { APIError } from 'payload'
+
+/**
+ * Stock transfer endpoints (stock moved between outlets)
+ */
+
+function requireAdmin(req: PayloadRequest): void {
+  if (!req.user) {
+    throw new APIError('Authentication required', 401)
+  }
+
+  if (req.user.role !== 'admin') {
+    throw new APIError('Admin access required', 403)
+  }
+}
+
+/**
+ * Admin-only guard for the transfer actions; returns the route ID
+ */
+function requireAdminAndId(req: PayloadRequest): string {
+  requireAdmin(req)
+
+  const { id } = req.routeParams || {}
+  if (!id || typeof id !== 'string') {
+    throw new APIError('Transfer ID is required', 400)
+  }
+
+  return id
+}
+
+async function readJsonBody(req: PayloadRequest): Promise<Record<string, unknown>> {
+  try {
+    if (req.json) {
+      return await req.json()
+    }
+  } catch {
+    // Ignore parsing errors, use empty object
+  }
+  return {}
+}
+
+function errorResponse(req: PayloadRequest, error: unknown, label: string, fallback: string): Response {
+  req.payload.logger.error(`${label} error${req.routeParams?.id ? ` for transfer ${req.routeParams.id}` : ''}: ${error}`)
+
+  if (error instanceof APIError) {
+    return Response.json(
+      { success: false, error: error.message },
+      { status: error.status }
+    )
+  }
+
+  return Response.json(
+    { success: false, error: fallback },
+    { status: 500 }
+  )
+}
+
+/**
+ * Dispatch a requested transfer, deducting the stock from the source outlet
+ * POST /api/stock-transfers/:id/dispatch
+ * Body: { notes? }
+ */
+export const dispatchStockTransferEndpoint: Endpoint = {
+  path: '/stock-transfers/:id/dispatch',
+  method: 'post',
+  handler: async (req) => {
+    try {
+      const id = requireAdminAndId(req)
+      const body = await readJsonBody(req)
+
+      const transfer = await dispatchStockTransfer(req.payload, req, id, {
+        notes: typeof body.notes === 'string' ? body.notes : undefined,
+      })
+
+      return Response.json({ success: true, data: transfer })
+    } catch (error) {
+      return errorResponse(req, error, 'Stock transfer dispatch', 'Unable to dispatch transfer')
+    }
+  },
+}
+
+/**
+ * Receive a transfer at the destination outlet
+ * POST /api/stock-transfers/:id/receive
+ * Body: { lines?: [{ lineId, receivedQuantity?, notes? }], notes? }
+ *
+ * Lines not listed are received in full.
+ */
+export const receiveStockTransferEndpoint: Endpoint = {
+  path: '/stock-transfers/:id/receive',
+  method: 'post',
+  handler: async (req) => {
+    try {
+      const id = requireAdminAndId(req)
+      const body = await readJsonBody(req)
+
+      const lines: StockTransferReceiptLine[] = Array.isArray(body.lines)
+        ? body.lines
+          .filter(line => line && typeof line === 'object' && typeof line.lineId === 'string')
+          .map(line => ({
+            lineId: line.lineId,
+            receivedQuantity: line.receivedQuantity === undefined ? undefined : Number(line.receivedQuantity),
+            notes: typeof line.notes === 'string' ? line.notes : undefined,
+          }))
+        : []
+
+      const transfer = await receiveStockTransfer(req.payload, req, id, lines, {
+        notes: typeof body.notes === 'string' ? body.notes : undefined,
+      })
+
+      return Response.json({
+        success: true,
+        data: transfer,
+        meta: {
+          hasDiscrepancy: Boolean(transfer.has_discrepancy),
+          discrepancies: (transfer.lines || []).filter(line => line.discrepancy).length,
+        },
+      })
+    } catch (error) {
+      return errorResponse(req, error, 'Stock transfer receipt', 'Unable to receive transfer')
+    }
+  },
+}
+
+/**
+ * Suggested transfers from outlets with surplus to outlets running low
+ * GET /api/stock-transfers/suggestions?productId=
+ */
+export const stockTransferSuggestions: Endpoint = {
+  path: '/stock-transfers/suggestions',
+  method: 'get',
+  handler: async (req) => {
+    try {
+      requireAdmin(req)
+
+      const productId = req.query.productId as string | undefined
+      const suggestions = await suggestStockTransfers(req.payload, {
+        productIds: productId ? [productId] : undefined,
+        req,
+      })
+
+      return Response.json({
+        success: true,
+        data: suggestions,
+        meta: {
+          total: suggestions.length,
+          generatedAt: new Date().toISOString(),
+        },
+      })
+    } catch (error) {
+      return errorResponse(req, error, 'Stock transfer suggestions', 'Unable to suggest transfers')
+    }
+  },
+}
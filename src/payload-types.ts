@@ -71,8 +71,19 @@ export interface Config {
     users: User;
     'cart-items': CartItem;
     categories: Category;
+    'drug-interactions': DrugInteraction;
     media: Media;
     inventory: Inventory;
+    'inventory-batches': InventoryBatch;
+    'inventory-movements': InventoryMovement;
+    'stock-reservations': StockReservation;
+    'private-documents': PrivateDocument;
+    outlets: Outlet;
+    suppliers: Supplier;
+    'purchase-orders': PurchaseOrder;
+    'stock-takes': StockTake;
+    'stock-transfers': StockTransfer;
+    'payment-reconciliations': PaymentReconciliation;
     'product-images': ProductImage;
     addresses: Address;
     variants: Variant;
@@ -83,6 +94,7 @@ export interface Config {
     orders: Order;
     transactions: Transaction;
     'payload-kv': PayloadKv;
+    'payload-jobs': PayloadJob;
     'payload-locked-documents': PayloadLockedDocument;
     'payload-preferences': PayloadPreference;
     'payload-migrations': PayloadMigration;
@@ -106,8 +118,19 @@ export interface Config {
     users: UsersSelect<false> | UsersSelect<true>;
     'cart-items': CartItemsSelect<false> | CartItemsSelect<true>;
     categories: CategoriesSelect<false> | CategoriesSelect<true>;
+    'drug-interactions': DrugInteractionsSelect<false> | DrugInteractionsSelect<true>;
     media: MediaSelect<false> | MediaSelect<true>;
     inventory: InventorySelect<false> | InventorySelect<true>;
+    'inventory-batches': InventoryBatchesSelect<false> | InventoryBatchesSelect<true>;
+    'inventory-movements': InventoryMovementsSelect<false> | InventoryMovementsSelect<true>;
+    'stock-reservations': StockReservationsSelect<false> | StockReservationsSelect<true>;
+    'private-documents': PrivateDocumentsSelect<false> | PrivateDocumentsSelect<true>;
+    outlets: OutletsSelect<false> | OutletsSelect<true>;
+    suppliers: SuppliersSelect<false> | SuppliersSelect<true>;
+    'purchase-orders': PurchaseOrdersSelect<false> | PurchaseOrdersSelect<true>;
+    'stock-takes': StockTakesSelect<false> | StockTakesSelect<true>;
+    'stock-transfers': StockTransfersSelect<false> | StockTransfersSelect<true>;
+    'payment-reconciliations': PaymentReconciliationsSelect<false> | PaymentReconciliationsSelect<true>;
     'product-images': ProductImagesSelect<false> | ProductImagesSelect<true>;
     addresses: AddressesSelect<false> | AddressesSelect<true>;
     variants: VariantsSelect<false> | VariantsSelect<true>;
@@ -118,6 +141,7 @@ export interface Config {
     orders: OrdersSelect<false> | OrdersSelect<true>;
     transactions: TransactionsSelect<false> | TransactionsSelect<true>;
     'payload-kv': PayloadKvSelect<false> | PayloadKvSelect<true>;
+    'payload-jobs': PayloadJobsSelect<false> | PayloadJobsSelect<true>;
     'payload-locked-documents': PayloadLockedDocumentsSelect<false> | PayloadLockedDocumentsSelect<true>;
     'payload-preferences': PayloadPreferencesSelect<false> | PayloadPreferencesSelect<true>;
     'payload-migrations': PayloadMigrationsSelect<false> | PayloadMigrationsSelect<true>;
@@ -126,14 +150,27 @@ export interface Config {
     defaultIDType: string;
   };
   fallbackLocale: null;
-  globals: {};
-  globalsSelect: {};
+  globals: {
+    'payload-jobs-stats': PayloadJobsStat;
+  };
+  globalsSelect: {
+    'payload-jobs-stats': PayloadJobsStatsSelect<false> | PayloadJobsStatsSelect<true>;
+  };
   locale: null;
   user: Admin & {
     collection: 'admins';
   };
   jobs: {
-    tasks: unknown;
+    tasks: {
+      reconcileMidtransTransactions: TaskReconcileMidtransTransactions;
+      expireBankTransfers: TaskExpireBankTransfers;
+      expireStockReservations: TaskExpireStockReservations;
+      refreshReorderPoints: TaskRefreshReorderPoints;
+      inline: {
+        input: unknown;
+        output: unknown;
+      };
+    };
     workflows: unknown;
   };
   /**
@@ -265,14 +302,31 @@ export interface Order {
    * Total order amount
    */
   totalAmount: number;
-  status?: ('pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled') | null;
+  /**
+   * pending → paid → processing → shipped → delivered. Illegal transitions are rejected.
+   */
+  status?:
+    | ('pending' | 'paid' | 'prescription_review' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded')
+    | null;
+  /**
+   * Whether inventory is currently held for this order
+   */
+  stock_deducted?: boolean | null;
   items: {
     product: string | Product;
+    /**
+     * Pack size, when the product is sold in several
+     */
+    variant?: (string | null) | Variant;
     /**
      * Price at time of order
      */
     price: number;
     quantity: number;
+    /**
+     * Stock units per pack; filled from the variant
+     */
+    units_per_pack?: number | null;
     id?: string | null;
   }[];
   shipping_name: string;
@@ -282,6 +336,65 @@ export interface Order {
    * Linked address record
    */
   address?: (string | null) | Address;
+  /**
+   * Fulfilling outlet. Routed on create to the nearest outlet with every item in stock; empty means the default outlet.
+   */
+  outlet?: (string | null) | Outlet;
+  /**
+   * Provider reference of the payment this order was created from (one order per payment)
+   */
+  payment_reference?: string | null;
+  /**
+   * Amount the payment provider settled
+   */
+  paid_amount?: number | null;
+  /**
+   * Set when the order total differs from the paid amount. The order cannot be processed until an admin reconciles the payment and clears this flag.
+   */
+  has_payment_mismatch?: boolean | null;
+  /**
+   * Set automatically when the order contains prescription-only products
+   */
+  prescription_required?: boolean | null;
+  /**
+   * Photo of the prescription (resep) uploaded by the customer. Private: admins and the customer only.
+   */
+  prescription_image?: (string | null) | PrivateDocument;
+  /**
+   * Pharmacist decision. Approving releases a paid order to processing; rejecting cancels it.
+   */
+  prescription_status?: ('pending_review' | 'approved' | 'rejected') | null;
+  /**
+   * Shown to the customer when the prescription is rejected
+   */
+  prescription_rejection_reason?: string | null;
+  prescription_reviewed_by?: (string | null) | Admin;
+  prescription_reviewed_at?: string | null;
+  /**
+   * Allow this order to exceed product or category purchase limits
+   */
+  purchase_limit_override?: boolean | null;
+  /**
+   * Required when overriding, e.g. the doctor's instructions
+   */
+  purchase_limit_override_reason?: string | null;
+  purchase_limit_override_by?: (string | null) | Admin;
+  purchase_limit_override_at?: string | null;
+  /**
+   * Set automatically when the items trigger drug interaction warnings
+   */
+  has_interaction_warnings?: boolean | null;
+  /**
+   * Duplicate therapy and drug interactions with this order or the customer's recent orders. Review before processing.
+   */
+  interaction_warnings?:
+    | {
+        type: 'interaction' | 'duplicate_therapy';
+        severity: 'minor' | 'moderate' | 'major' | 'contraindicated';
+        message: string;
+        id?: string | null;
+      }[]
+    | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -298,6 +411,10 @@ export interface Product {
   name?: string | null;
   price: number;
   description?: string | null;
+  /**
+   * Symptoms and other names customers search for, e.g. "demam, sakit kepala, panas"
+   */
+  search_keywords?: string | null;
   /**
    * Daftar gambar produk. Klik baris untuk mengedit/hapus. Tombol + untuk menambah. Semua kelola di sini — tidak perlu pindah menu.
    */
@@ -306,6 +423,117 @@ export interface Product {
     hasNextPage?: boolean;
     totalDocs?: number;
   };
+  /**
+   * INN / generic name, e.g. Paracetamol
+   */
+  generic_name?: string | null;
+  /**
+   * e.g. 500mg, 120mg/5ml, 2.5%
+   */
+  strength?: string | null;
+  /**
+   * Required when a generic name is set
+   */
+  dosage_form?:
+    | (
+        | 'tablet'
+        | 'caplet'
+        | 'capsule'
+        | 'syrup'
+        | 'suspension'
+        | 'drops'
+        | 'injection'
+        | 'cream'
+        | 'ointment'
+        | 'gel'
+        | 'suppository'
+        | 'inhaler'
+        | 'powder'
+        | 'other'
+      )
+    | null;
+  manufacturer?: string | null;
+  /**
+   * Obat keras always requires a prescription
+   */
+  drug_class?: ('obat_bebas' | 'obat_bebas_terbatas' | 'obat_keras') | null;
+  /**
+   * Nomor izin edar (NIE), e.g. DBL1234567890A1. Required to publish medicines.
+   */
+  bpom_registration_number?: string | null;
+  /**
+   * Parsed from the registration number
+   */
+  bpom_category?: ('branded_drug' | 'generic_drug' | 'traditional' | 'supplement') | null;
+  /**
+   * Parsed from the registration number
+   */
+  bpom_origin?: ('local' | 'import' | 'license' | 'export' | 'special_access') | null;
+  active_ingredients?:
+    | {
+        name: string;
+        /**
+         * e.g. 500mg
+         */
+        strength?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * e.g. Simpan di bawah 30°C, terlindung dari cahaya
+   */
+  storage_conditions?: string | null;
+  contraindications?: string | null;
+  /**
+   * Purchase limit per order. Leave empty for no limit.
+   */
+  max_quantity_per_order?: number | null;
+  /**
+   * Purchase limit per customer over the period
+   */
+  max_quantity_per_period?: number | null;
+  /**
+   * Rolling period in days (default 30)
+   */
+  purchase_limit_period_days?: number | null;
+  /**
+   * Unit inventory is counted in. Cannot change while the product has stock.
+   */
+  base_unit?:
+    | ('tablet' | 'capsule' | 'strip' | 'blister' | 'box' | 'bottle' | 'sachet' | 'tube' | 'ampoule' | 'vial' | 'pcs')
+    | null;
+  /**
+   * Larger units, e.g. strip = 10 and box = 100 when the base unit is tablet
+   */
+  unit_conversions?:
+    | {
+        unit:
+          | 'tablet'
+          | 'capsule'
+          | 'strip'
+          | 'blister'
+          | 'box'
+          | 'bottle'
+          | 'sachet'
+          | 'tube'
+          | 'ampoule'
+          | 'vial'
+          | 'pcs';
+        /**
+         * Base units in one of this unit
+         */
+        factor: number;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Supplier for draft purchase orders generated from stock recommendations
+   */
+  default_supplier?: (string | null) | Supplier;
+  /**
+   * Latest purchase cost per base unit (IDR). Updated by goods receipt.
+   */
+  cost_price?: number | null;
   inventory?: number | null;
   enableVariants?: boolean | null;
   variantTypes?: (string | VariantType)[] | null;
@@ -318,6 +546,14 @@ export interface Product {
   priceInUSD?: number | null;
   category: string | Category;
   slug?: string | null;
+  /**
+   * Only published products are listed in the store. Medicines need a valid BPOM registration number.
+   */
+  is_published?: boolean | null;
+  /**
+   * Orders containing this product require a verified prescription (resep)
+   */
+  requires_prescription?: boolean | null;
   updatedAt: string;
   createdAt: string;
   deletedAt?: string | null;
@@ -384,6 +620,36 @@ export interface Media {
   focalX?: number | null;
   focalY?: number | null;
 }
+/**
+ * Distributors stock is purchased from.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "suppliers".
+ */
+export interface Supplier {
+  id: string;
+  name: string;
+  /**
+   * Short supplier code, e.g. PBF-KF
+   */
+  code?: string | null;
+  contact_name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  /**
+   * Usual days from order to delivery
+   */
+  lead_time_days?: number | null;
+  /**
+   * Invoice due after this many days
+   */
+  payment_terms_days?: number | null;
+  notes?: string | null;
+  is_active?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * Define variant types (e.g. Pack Size, Strength) for products with variants
  *
@@ -437,6 +703,20 @@ export interface Variant {
   inventory?: number | null;
   priceInUSDEnabled?: boolean | null;
   priceInUSD?: number | null;
+  /**
+   * Price per pack. Leave empty to use product price × units per pack.
+   */
+  price?: number | null;
+  /**
+   * Unit this pack is sold in; sets units per pack from the product's conversions
+   */
+  unit?:
+    | ('tablet' | 'capsule' | 'strip' | 'blister' | 'box' | 'bottle' | 'sachet' | 'tube' | 'ampoule' | 'vial' | 'pcs')
+    | null;
+  /**
+   * Base units in one pack, e.g. 10 for a strip when stock is counted in tablets
+   */
+  units_per_pack: number;
   updatedAt: string;
   createdAt: string;
   deletedAt?: string | null;
@@ -461,6 +741,22 @@ export interface Category {
    * Legacy: paste URL if not using upload. Auto-synced when logo is uploaded.
    */
   logo_url?: string | null;
+  /**
+   * Synonyms used by catalog search, e.g. "flu, pilek, batuk" for Cold & Flu
+   */
+  search_keywords?: string | null;
+  /**
+   * Combined purchase limit per order for all products in this category
+   */
+  max_quantity_per_order?: number | null;
+  /**
+   * Combined purchase limit per customer over the period
+   */
+  max_quantity_per_period?: number | null;
+  /**
+   * Rolling period in days (default 30)
+   */
+  purchase_limit_period_days?: number | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -505,72 +801,75 @@ export interface Address {
   createdAt: string;
 }
 /**
- * Cart items are created by customers via the app. Admin can view, update, and delete for support.
+ * Branches that hold stock. Orders are routed to the nearest outlet that can fulfil them.
  *
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "cart-items".
+ * via the `definition` "outlets".
  */
-export interface CartItem {
+export interface Outlet {
   id: string;
+  name: string;
   /**
-   * User who owns this cart item
+   * Short outlet code, e.g. JKT-01
    */
-  user: string | User;
-  product: string | Product;
+  code?: string | null;
+  address?: string | null;
+  city?: string | null;
+  postal_code?: string | null;
+  phone?: string | null;
   /**
-   * Quantity of the product
+   * Cities and postal code prefixes this outlet delivers to. A longer matching prefix wins.
    */
-  quantity: number;
+  service_areas?:
+    | {
+        city?: string | null;
+        /**
+         * e.g. 121 for postal codes 121xx
+         */
+        postal_code_prefix?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Inactive outlets receive no new orders
+   */
+  is_active?: boolean | null;
+  /**
+   * Main outlet. Inventory and orders without an outlet belong to it.
+   */
+  is_default?: boolean | null;
   updatedAt: string;
   createdAt: string;
 }
 /**
- * Stock management per product
+ * Prescriptions and transfer receipts uploaded by customers. Visible to admins and the customer only.
  *
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "inventory".
+ * via the `definition` "private-documents".
  */
-export interface Inventory {
+export interface PrivateDocument {
   id: string;
+  kind: 'prescription' | 'payment_proof';
   /**
-   * The product this inventory belongs to (1:1 relationship)
-   */
-  product: string | Product;
-  /**
-   * Current available quantity
-   */
-  quantity: number;
-  /**
-   * Minimum stock level before low stock alert
+   * Customer the document belongs to
    */
-  low_stock_threshold?: number | null;
-  updated_at?: string | null;
-}
-/**
- * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "carts".
- */
-export interface Cart {
-  id: string;
-  items?:
-    | {
-        product?: (string | null) | Product;
-        variant?: (string | null) | Variant;
-        quantity: number;
-        id?: string | null;
-      }[]
-    | null;
-  secret?: string | null;
-  customer?: (string | null) | User;
-  purchasedAt?: string | null;
-  status?: ('active' | 'purchased' | 'abandoned') | null;
-  subtotal?: number | null;
-  currency?: 'USD' | null;
+  user?: (string | null) | User;
+  order?: (string | null) | Order;
+  transaction?: (string | null) | Transaction;
   updatedAt: string;
   createdAt: string;
+  url?: string | null;
+  thumbnailURL?: string | null;
+  filename?: string | null;
+  mimeType?: string | null;
+  filesize?: number | null;
+  width?: number | null;
+  height?: number | null;
+  focalX?: number | null;
+  focalY?: number | null;
 }
 /**
- * Transactions are created by the payment flow (Midtrans). Admin can read and update for reconciliation.
+ * Transactions are created by the payment flow (Midtrans, Xendit, bank transfer). Admin can read, update for reconciliation and verify bank transfers.
  *
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "transactions".
@@ -578,16 +877,26 @@ export interface Cart {
 export interface Transaction {
   id: string;
   /**
-   * Order this payment belongs to
+   * Order created from this payment (set once the payment settles)
    */
-  order: string | Order;
+  order?: (string | null) | Order;
   /**
    * Payment amount
    */
   amount: number;
-  status: 'pending' | 'settlement' | 'capture' | 'deny' | 'cancel' | 'expire' | 'failure';
+  status:
+    | 'pending'
+    | 'challenge'
+    | 'settlement'
+    | 'capture'
+    | 'deny'
+    | 'cancel'
+    | 'expire'
+    | 'failure'
+    | 'refund'
+    | 'partial_refund';
   /**
-   * Payment method (e.g. midtrans)
+   * Payment adapter used at checkout (midtrans, xendit, bank_transfer)
    */
   paymentMethod?: string | null;
   /**
@@ -596,17 +905,35 @@ export interface Transaction {
   items?:
     | {
         product: string | Product;
+        /**
+         * Pack size, when the product is sold in several
+         */
         variant?: (string | null) | Variant;
         quantity: number;
+        /**
+         * Unit price at checkout, copied to the order line
+         */
+        price?: number | null;
+        /**
+         * Stock units per pack at checkout, copied to the order line
+         */
+        units_per_pack?: number | null;
         id?: string | null;
       }[]
     | null;
-  midtrans_order_id?: string | null;
-  midtrans_transaction_id?: string | null;
-  midtrans_payment_type?: string | null;
-  paid_at?: string | null;
-  expired_at?: string | null;
-  midtrans_response?:
+  /**
+   * Provider reference for this payment (Midtrans order_id, Xendit external_id, bank transfer reference)
+   */
+  payment_reference?: string | null;
+  provider_transaction_id?: string | null;
+  /**
+   * Channel used to pay (bank transfer, e-wallet, card, ...)
+   */
+  provider_payment_type?: string | null;
+  /**
+   * Latest status payload received from the provider
+   */
+  provider_response?:
     | {
         [k: string]: unknown;
       }
@@ -615,17 +942,71 @@ export interface Transaction {
     | number
     | boolean
     | null;
-  updatedAt: string;
-  createdAt: string;
-}
-/**
- * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "payload-kv".
- */
-export interface PayloadKv {
-  id: string;
-  key: string;
-  data:
+  midtrans_order_id?: string | null;
+  midtrans_transaction_id?: string | null;
+  midtrans_payment_type?: string | null;
+  /**
+   * Midtrans fraud detection result for card captures
+   */
+  fraud_status?: ('accept' | 'challenge' | 'deny') | null;
+  fraud_reviewed_by?: (string | null) | Admin;
+  fraud_reviewed_at?: string | null;
+  /**
+   * Reason recorded when a challenged payment was approved or denied
+   */
+  fraud_review_note?: string | null;
+  /**
+   * Exact amount the customer must transfer (order total plus unique code)
+   */
+  transfer_amount?: number | null;
+  /**
+   * Approve to settle the payment and create the order; rejection requires a reason
+   */
+  transfer_review_status?: ('awaiting_proof' | 'pending_review' | 'approved' | 'rejected') | null;
+  /**
+   * Transfers still awaiting proof after this time are expired
+   */
+  transfer_deadline?: string | null;
+  proof_upload_token_hash?: string | null;
+  /**
+   * Transfer receipt uploaded via POST /api/payments/bank_transfer/proof. Private: admins only.
+   */
+  payment_proof?: (string | null) | PrivateDocument;
+  payment_proof_uploaded_at?: string | null;
+  /**
+   * Shown to the customer when the transfer is rejected
+   */
+  transfer_rejection_reason?: string | null;
+  transfer_reviewed_by?: (string | null) | Admin;
+  transfer_reviewed_at?: string | null;
+  paid_at?: string | null;
+  expired_at?: string | null;
+  /**
+   * Total amount refunded through Midtrans
+   */
+  refunded_amount?: number | null;
+  /**
+   * Time of the most recent refund
+   */
+  refunded_at?: string | null;
+  /**
+   * Refunds issued via POST /api/payments/midtrans/refund
+   */
+  refunds?:
+    | {
+        refund_key: string;
+        amount: number;
+        reason?: string | null;
+        /**
+         * refund_chargeback_id returned by Midtrans
+         */
+        midtrans_refund_id?: string | null;
+        refunded_by?: (string | null) | Admin;
+        refunded_at: string;
+        id?: string | null;
+      }[]
+    | null;
+  midtrans_response?:
     | {
         [k: string]: unknown;
       }
@@ -634,27 +1015,646 @@ export interface PayloadKv {
     | number
     | boolean
     | null;
+  updatedAt: string;
+  createdAt: string;
 }
 /**
+ * Cart items are created by customers via the app. Admin can view, update, and delete for support.
+ *
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "payload-locked-documents".
+ * via the `definition` "cart-items".
  */
-export interface PayloadLockedDocument {
+export interface CartItem {
   id: string;
-  document?:
-    | ({
-        relationTo: 'variants';
-        value: string | Variant;
-      } | null)
-    | ({
-        relationTo: 'carts';
-        value: string | Cart;
-      } | null);
-  globalSlug?: string | null;
-  user: {
-    relationTo: 'admins';
-    value: string | Admin;
-  };
+  /**
+   * User who owns this cart item
+   */
+  user: string | User;
+  product: string | Product;
+  /**
+   * Pack size (strip, box, ...) when the product is sold in several
+   */
+  variant?: (string | null) | Variant;
+  /**
+   * Quantity of the product, in packs of the variant when set
+   */
+  quantity: number;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Ingredient pairs that interact. Matching orders are flagged for the pharmacist before fulfilment.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "drug-interactions".
+ */
+export interface DrugInteraction {
+  id: string;
+  /**
+   * Active ingredient name, e.g. Warfarin
+   */
+  ingredient_a: string;
+  /**
+   * Interacting ingredient, e.g. Ibuprofen
+   */
+  ingredient_b: string;
+  severity: 'minor' | 'moderate' | 'major' | 'contraindicated';
+  /**
+   * Shown to the pharmacist, e.g. "Increased bleeding risk"
+   */
+  description: string;
+  /**
+   * Suggested action, e.g. "Counsel the customer; consider paracetamol instead"
+   */
+  recommendation?: string | null;
+  is_active?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Stock management per product per outlet
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "inventory".
+ */
+export interface Inventory {
+  id: string;
+  /**
+   * The product this inventory belongs to (one record per outlet)
+   */
+  product: string | Product;
+  /**
+   * Outlet holding this stock. Empty means the default outlet.
+   */
+  outlet?: (string | null) | Outlet;
+  /**
+   * Current available quantity, in the product's base unit
+   */
+  quantity: number;
+  /**
+   * Minimum stock level before low stock alert. Used until a reorder point is forecast.
+   */
+  low_stock_threshold?: number | null;
+  /**
+   * Forecast from sales: lead time demand + safety stock
+   */
+  reorder_point?: number | null;
+  safety_stock?: number | null;
+  /**
+   * Moving average of daily sales, in base units
+   */
+  average_daily_demand?: number | null;
+  /**
+   * Supplier lead time used for the forecast
+   */
+  lead_time_days?: number | null;
+  forecast_updated_at?: string | null;
+  abc_class?: ('A' | 'B' | 'C') | null;
+  xyz_class?: ('X' | 'Y' | 'Z') | null;
+  /**
+   * Set by the ABC/XYZ classification report
+   */
+  classified_at?: string | null;
+  /**
+   * Shelf or bin the stock is kept on, e.g. A-03. Used to scope stock takes.
+   */
+  shelf_location?: string | null;
+  updated_at?: string | null;
+}
+/**
+ * Stock per batch/lot. Orders consume the earliest-expiring batch first.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "inventory-batches".
+ */
+export interface InventoryBatch {
+  id: string;
+  /**
+   * Product this batch belongs to
+   */
+  product: string | Product;
+  /**
+   * Outlet holding this batch. Empty means the default outlet.
+   */
+  outlet?: (string | null) | Outlet;
+  /**
+   * Resolved automatically from the product and outlet
+   */
+  inventory?: (string | null) | Inventory;
+  /**
+   * Batch/lot number printed on the packaging
+   */
+  batch_number: string;
+  manufacture_date?: string | null;
+  expiry_date: string;
+  /**
+   * Remaining units in this batch, in the product's base unit
+   */
+  quantity: number;
+  /**
+   * Quantity as received, in the unit below. Sets the batch quantity on create.
+   */
+  received_quantity?: number | null;
+  /**
+   * Unit received, e.g. box. Converted with the product's unit conversions.
+   */
+  received_unit?:
+    | ('tablet' | 'capsule' | 'strip' | 'blister' | 'box' | 'bottle' | 'sachet' | 'tube' | 'ampoule' | 'vial' | 'pcs')
+    | null;
+  /**
+   * Purchase cost per base unit (IDR), used for inventory valuation
+   */
+  unit_cost?: number | null;
+  /**
+   * Purchase order this batch was received on
+   */
+  purchase_order?: (string | null) | PurchaseOrder;
+  supplier?: (string | null) | Supplier;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Stock ordered from suppliers. draft → sent → received; goods receipt adds the stock to inventory.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "purchase-orders".
+ */
+export interface PurchaseOrder {
+  id: string;
+  /**
+   * Assigned on create
+   */
+  po_number?: string | null;
+  supplier: string | Supplier;
+  /**
+   * Outlet the goods are delivered to. Empty for the default outlet.
+   */
+  outlet?: (string | null) | Outlet;
+  /**
+   * Received statuses are set by goods receipt. Lines can only change while draft.
+   */
+  status?: ('draft' | 'sent' | 'partially_received' | 'received' | 'cancelled') | null;
+  expected_date?: string | null;
+  items: {
+    product: string | Product;
+    quantity: number;
+    /**
+     * Empty for the product's base unit
+     */
+    unit?:
+      | ('tablet' | 'capsule' | 'strip' | 'blister' | 'box' | 'bottle' | 'sachet' | 'tube' | 'ampoule' | 'vial' | 'pcs')
+      | null;
+    /**
+     * Cost per unit (IDR)
+     */
+    unit_cost?: number | null;
+    /**
+     * Received so far, in the line's unit
+     */
+    received_quantity?: number | null;
+    notes?: string | null;
+    id?: string | null;
+  }[];
+  /**
+   * Sum of quantity × unit cost
+   */
+  total_amount?: number | null;
+  notes?: string | null;
+  sent_at?: string | null;
+  received_at?: string | null;
+  cancelled_at?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Read-only stock ledger. Every inventory quantity change is recorded here.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "inventory-movements".
+ */
+export interface InventoryMovement {
+  id: string;
+  inventory: string | Inventory;
+  product: string | Product;
+  type:
+    | 'sale'
+    | 'cancellation_restore'
+    | 'adjustment'
+    | 'expiry'
+    | 'return'
+    | 'receipt'
+    | 'transfer_out'
+    | 'transfer_in';
+  /**
+   * Signed delta applied to inventory quantity
+   */
+  quantity_change: number;
+  quantity_before: number;
+  quantity_after: number;
+  /**
+   * Admin who made the change (empty for system/checkout changes)
+   */
+  actor?: (string | null) | Admin;
+  /**
+   * Order that caused this movement, if any
+   */
+  order?: (string | null) | Order;
+  /**
+   * Transfer between outlets that caused this movement, if any
+   */
+  stock_transfer?: (string | null) | StockTransfer;
+  reason?: string | null;
+  notes?: string | null;
+  /**
+   * Batches the units came from or went back to
+   */
+  batch_allocations?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Stock moved between outlets. requested → in transit (stock leaves the source) → received.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-transfers".
+ */
+export interface StockTransfer {
+  id: string;
+  /**
+   * Assigned on create
+   */
+  reference?: string | null;
+  /**
+   * In transit and received are set by the dispatch and receipt actions.
+   */
+  status?: ('requested' | 'in_transit' | 'received' | 'cancelled') | null;
+  /**
+   * Outlet the stock leaves
+   */
+  source_outlet?: (string | null) | Outlet;
+  /**
+   * Outlet the stock goes to
+   */
+  destination_outlet?: (string | null) | Outlet;
+  notes?: string | null;
+  /**
+   * Quantities in the product's base unit. Editable while requested.
+   */
+  lines?:
+    | {
+        product: string | Product;
+        quantity: number;
+        /**
+         * Set on receipt
+         */
+        received_quantity?: number | null;
+        /**
+         * Received − dispatched
+         */
+        discrepancy?: number | null;
+        /**
+         * Batches taken from the source outlet on dispatch
+         */
+        dispatched_batches?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        /**
+         * Required on receipt when the received quantity differs
+         */
+        notes?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Set on receipt when any line arrived short or over
+   */
+  has_discrepancy?: boolean | null;
+  dispatch_notes?: string | null;
+  receipt_notes?: string | null;
+  requested_by?: (string | null) | Admin;
+  requested_at?: string | null;
+  dispatched_by?: (string | null) | Admin;
+  dispatched_at?: string | null;
+  received_by?: (string | null) | Admin;
+  received_at?: string | null;
+  cancelled_at?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Stock held while customers complete payment. Converted on settlement and fulfilled when the order deducts its stock; released on expiry, failure or cancellation.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-reservations".
+ */
+export interface StockReservation {
+  id: string;
+  product: string | Product;
+  inventory?: (string | null) | Inventory;
+  transaction: string | Transaction;
+  /**
+   * Order created when the payment settled
+   */
+  order?: (string | null) | Order;
+  quantity: number;
+  status: 'active' | 'converted' | 'fulfilled' | 'released' | 'expired';
+  expires_at: string;
+  converted_at?: string | null;
+  fulfilled_at?: string | null;
+  released_at?: string | null;
+  release_reason?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Cycle counts. open → submitted → approved by a second admin, which adjusts inventory.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-takes".
+ */
+export interface StockTake {
+  id: string;
+  /**
+   * Assigned on create
+   */
+  reference?: string | null;
+  /**
+   * Submit when every line is counted. Approval is a separate action.
+   */
+  status?: ('open' | 'submitted' | 'approved' | 'cancelled') | null;
+  /**
+   * Count every product in this category
+   */
+  category?: (string | null) | Category;
+  /**
+   * Count every product on this shelf
+   */
+  shelf_location?: string | null;
+  /**
+   * Outlet being counted. Empty for the default outlet.
+   */
+  outlet?: (string | null) | Outlet;
+  notes?: string | null;
+  /**
+   * Created from the scope when the count is opened. Quantities in the product's base unit.
+   */
+  lines?:
+    | {
+        product: string | Product;
+        inventory: string | Inventory;
+        counted_quantity?: number | null;
+        /**
+         * Inventory quantity when counted
+         */
+        expected_quantity?: number | null;
+        /**
+         * Counted − expected
+         */
+        variance?: number | null;
+        notes?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Reason for sending the count back for recount
+   */
+  review_notes?: string | null;
+  approval_notes?: string | null;
+  opened_by?: (string | null) | Admin;
+  opened_at?: string | null;
+  submitted_by?: (string | null) | Admin;
+  submitted_at?: string | null;
+  approved_by?: (string | null) | Admin;
+  approved_at?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Results of the scheduled Midtrans status reconciliation.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payment-reconciliations".
+ */
+export interface PaymentReconciliation {
+  id: string;
+  started_at: string;
+  completed_at?: string | null;
+  /**
+   * Transactions whose status was checked with Midtrans
+   */
+  checked?: number | null;
+  /**
+   * Transactions whose status changed
+   */
+  updated?: number | null;
+  /**
+   * Abandoned transactions that were expired
+   */
+  expired?: number | null;
+  unchanged?: number | null;
+  /**
+   * Transactions that could not be checked (see results)
+   */
+  failed?: number | null;
+  /**
+   * Orders created for payments whose webhook was lost
+   */
+  orders_created?: number | null;
+  results?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "carts".
+ */
+export interface Cart {
+  id: string;
+  items?:
+    | {
+        product?: (string | null) | Product;
+        variant?: (string | null) | Variant;
+        quantity: number;
+        id?: string | null;
+      }[]
+    | null;
+  secret?: string | null;
+  customer?: (string | null) | User;
+  purchasedAt?: string | null;
+  status?: ('active' | 'purchased' | 'abandoned') | null;
+  subtotal?: number | null;
+  currency?: 'USD' | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-kv".
+ */
+export interface PayloadKv {
+  id: string;
+  key: string;
+  data:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs".
+ */
+export interface PayloadJob {
+  id: string;
+  /**
+   * Input data provided to the job
+   */
+  input?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  taskStatus?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  completedAt?: string | null;
+  totalTried?: number | null;
+  /**
+   * If hasError is true this job will not be retried
+   */
+  hasError?: boolean | null;
+  /**
+   * If hasError is true, this is the error that caused it
+   */
+  error?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Task execution log
+   */
+  log?:
+    | {
+        executedAt: string;
+        completedAt: string;
+        taskSlug:
+          | 'inline'
+          | 'reconcileMidtransTransactions'
+          | 'expireBankTransfers'
+          | 'expireStockReservations'
+          | 'refreshReorderPoints';
+        taskID: string;
+        input?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        output?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        state: 'failed' | 'succeeded';
+        error?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        id?: string | null;
+      }[]
+    | null;
+  taskSlug?:
+    | (
+        | 'inline'
+        | 'reconcileMidtransTransactions'
+        | 'expireBankTransfers'
+        | 'expireStockReservations'
+        | 'refreshReorderPoints'
+      )
+    | null;
+  queue?: string | null;
+  waitUntil?: string | null;
+  processing?: boolean | null;
+  meta?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-locked-documents".
+ */
+export interface PayloadLockedDocument {
+  id: string;
+  document?: {
+    relationTo: 'carts';
+    value: string | Cart;
+  } | null;
+  globalSlug?: string | null;
+  user: {
+    relationTo: 'admins';
+    value: string | Admin;
+  };
   updatedAt: string;
   createdAt: string;
 }
@@ -739,6 +1739,7 @@ export interface UsersSelect<T extends boolean = true> {
 export interface CartItemsSelect<T extends boolean = true> {
   user?: T;
   product?: T;
+  variant?: T;
   quantity?: T;
   updatedAt?: T;
   createdAt?: T;
@@ -752,6 +1753,24 @@ export interface CategoriesSelect<T extends boolean = true> {
   slug?: T;
   logo?: T;
   logo_url?: T;
+  search_keywords?: T;
+  max_quantity_per_order?: T;
+  max_quantity_per_period?: T;
+  purchase_limit_period_days?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "drug-interactions_select".
+ */
+export interface DrugInteractionsSelect<T extends boolean = true> {
+  ingredient_a?: T;
+  ingredient_b?: T;
+  severity?: T;
+  description?: T;
+  recommendation?: T;
+  is_active?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -780,10 +1799,254 @@ export interface MediaSelect<T extends boolean = true> {
  */
 export interface InventorySelect<T extends boolean = true> {
   product?: T;
+  outlet?: T;
   quantity?: T;
   low_stock_threshold?: T;
+  reorder_point?: T;
+  safety_stock?: T;
+  average_daily_demand?: T;
+  lead_time_days?: T;
+  forecast_updated_at?: T;
+  abc_class?: T;
+  xyz_class?: T;
+  classified_at?: T;
+  shelf_location?: T;
   updated_at?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "inventory-batches_select".
+ */
+export interface InventoryBatchesSelect<T extends boolean = true> {
+  product?: T;
+  outlet?: T;
+  inventory?: T;
+  batch_number?: T;
+  manufacture_date?: T;
+  expiry_date?: T;
+  quantity?: T;
+  received_quantity?: T;
+  received_unit?: T;
+  unit_cost?: T;
+  purchase_order?: T;
+  supplier?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "inventory-movements_select".
+ */
+export interface InventoryMovementsSelect<T extends boolean = true> {
+  inventory?: T;
+  product?: T;
+  type?: T;
+  quantity_change?: T;
+  quantity_before?: T;
+  quantity_after?: T;
+  actor?: T;
+  order?: T;
+  stock_transfer?: T;
+  reason?: T;
+  notes?: T;
+  batch_allocations?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-reservations_select".
+ */
+export interface StockReservationsSelect<T extends boolean = true> {
+  product?: T;
+  inventory?: T;
+  transaction?: T;
+  order?: T;
+  quantity?: T;
+  status?: T;
+  expires_at?: T;
+  converted_at?: T;
+  fulfilled_at?: T;
+  released_at?: T;
+  release_reason?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "private-documents_select".
+ */
+export interface PrivateDocumentsSelect<T extends boolean = true> {
+  kind?: T;
+  user?: T;
+  order?: T;
+  transaction?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  url?: T;
+  thumbnailURL?: T;
+  filename?: T;
+  mimeType?: T;
+  filesize?: T;
+  width?: T;
+  height?: T;
+  focalX?: T;
+  focalY?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "outlets_select".
+ */
+export interface OutletsSelect<T extends boolean = true> {
+  name?: T;
+  code?: T;
+  address?: T;
+  city?: T;
+  postal_code?: T;
+  phone?: T;
+  service_areas?:
+    | T
+    | {
+        city?: T;
+        postal_code_prefix?: T;
+        id?: T;
+      };
+  is_active?: T;
+  is_default?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "suppliers_select".
+ */
+export interface SuppliersSelect<T extends boolean = true> {
+  name?: T;
+  code?: T;
+  contact_name?: T;
+  phone?: T;
+  email?: T;
+  address?: T;
+  lead_time_days?: T;
+  payment_terms_days?: T;
+  notes?: T;
+  is_active?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "purchase-orders_select".
+ */
+export interface PurchaseOrdersSelect<T extends boolean = true> {
+  po_number?: T;
+  supplier?: T;
+  outlet?: T;
+  status?: T;
+  expected_date?: T;
+  items?:
+    | T
+    | {
+        product?: T;
+        quantity?: T;
+        unit?: T;
+        unit_cost?: T;
+        received_quantity?: T;
+        notes?: T;
+        id?: T;
+      };
+  total_amount?: T;
+  notes?: T;
+  sent_at?: T;
+  received_at?: T;
+  cancelled_at?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-takes_select".
+ */
+export interface StockTakesSelect<T extends boolean = true> {
+  reference?: T;
+  status?: T;
+  category?: T;
+  shelf_location?: T;
+  outlet?: T;
+  notes?: T;
+  lines?:
+    | T
+    | {
+        product?: T;
+        inventory?: T;
+        counted_quantity?: T;
+        expected_quantity?: T;
+        variance?: T;
+        notes?: T;
+        id?: T;
+      };
+  review_notes?: T;
+  approval_notes?: T;
+  opened_by?: T;
+  opened_at?: T;
+  submitted_by?: T;
+  submitted_at?: T;
+  approved_by?: T;
+  approved_at?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-transfers_select".
+ */
+export interface StockTransfersSelect<T extends boolean = true> {
+  reference?: T;
+  status?: T;
+  source_outlet?: T;
+  destination_outlet?: T;
+  notes?: T;
+  lines?:
+    | T
+    | {
+        product?: T;
+        quantity?: T;
+        received_quantity?: T;
+        discrepancy?: T;
+        dispatched_batches?: T;
+        notes?: T;
+        id?: T;
+      };
+  has_discrepancy?: T;
+  dispatch_notes?: T;
+  receipt_notes?: T;
+  requested_by?: T;
+  requested_at?: T;
+  dispatched_by?: T;
+  dispatched_at?: T;
+  received_by?: T;
+  received_at?: T;
+  cancelled_at?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payment-reconciliations_select".
+ */
+export interface PaymentReconciliationsSelect<T extends boolean = true> {
+  started_at?: T;
+  completed_at?: T;
+  checked?: T;
+  updated?: T;
+  expired?: T;
+  unchanged?: T;
+  failed?: T;
+  orders_created?: T;
+  results?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "product-images_select".
@@ -823,6 +2086,9 @@ export interface VariantsSelect<T extends boolean = true> {
   inventory?: T;
   priceInUSDEnabled?: T;
   priceInUSD?: T;
+  price?: T;
+  unit?: T;
+  units_per_pack?: T;
   updatedAt?: T;
   createdAt?: T;
   deletedAt?: T;
@@ -862,7 +2128,38 @@ export interface ProductsSelect<T extends boolean = true> {
   name?: T;
   price?: T;
   description?: T;
+  search_keywords?: T;
   images?: T;
+  generic_name?: T;
+  strength?: T;
+  dosage_form?: T;
+  manufacturer?: T;
+  drug_class?: T;
+  bpom_registration_number?: T;
+  bpom_category?: T;
+  bpom_origin?: T;
+  active_ingredients?:
+    | T
+    | {
+        name?: T;
+        strength?: T;
+        id?: T;
+      };
+  storage_conditions?: T;
+  contraindications?: T;
+  max_quantity_per_order?: T;
+  max_quantity_per_period?: T;
+  purchase_limit_period_days?: T;
+  base_unit?: T;
+  unit_conversions?:
+    | T
+    | {
+        unit?: T;
+        factor?: T;
+        id?: T;
+      };
+  default_supplier?: T;
+  cost_price?: T;
   inventory?: T;
   enableVariants?: T;
   variantTypes?: T;
@@ -871,6 +2168,8 @@ export interface ProductsSelect<T extends boolean = true> {
   priceInUSD?: T;
   category?: T;
   slug?: T;
+  is_published?: T;
+  requires_prescription?: T;
   updatedAt?: T;
   createdAt?: T;
   deletedAt?: T;
@@ -905,18 +2204,44 @@ export interface OrdersSelect<T extends boolean = true> {
   orderedBy?: T;
   totalAmount?: T;
   status?: T;
+  stock_deducted?: T;
   items?:
     | T
     | {
         product?: T;
+        variant?: T;
         price?: T;
         quantity?: T;
+        units_per_pack?: T;
         id?: T;
       };
   shipping_name?: T;
   shipping_address?: T;
   shipping_phone?: T;
   address?: T;
+  outlet?: T;
+  payment_reference?: T;
+  paid_amount?: T;
+  has_payment_mismatch?: T;
+  prescription_required?: T;
+  prescription_image?: T;
+  prescription_status?: T;
+  prescription_rejection_reason?: T;
+  prescription_reviewed_by?: T;
+  prescription_reviewed_at?: T;
+  purchase_limit_override?: T;
+  purchase_limit_override_reason?: T;
+  purchase_limit_override_by?: T;
+  purchase_limit_override_at?: T;
+  has_interaction_warnings?: T;
+  interaction_warnings?:
+    | T
+    | {
+        type?: T;
+        severity?: T;
+        message?: T;
+        id?: T;
+      };
   updatedAt?: T;
   createdAt?: T;
 }
@@ -935,13 +2260,45 @@ export interface TransactionsSelect<T extends boolean = true> {
         product?: T;
         variant?: T;
         quantity?: T;
+        price?: T;
+        units_per_pack?: T;
         id?: T;
       };
+  payment_reference?: T;
+  provider_transaction_id?: T;
+  provider_payment_type?: T;
+  provider_response?: T;
   midtrans_order_id?: T;
   midtrans_transaction_id?: T;
   midtrans_payment_type?: T;
+  fraud_status?: T;
+  fraud_reviewed_by?: T;
+  fraud_reviewed_at?: T;
+  fraud_review_note?: T;
+  transfer_amount?: T;
+  transfer_review_status?: T;
+  transfer_deadline?: T;
+  proof_upload_token_hash?: T;
+  payment_proof?: T;
+  payment_proof_uploaded_at?: T;
+  transfer_rejection_reason?: T;
+  transfer_reviewed_by?: T;
+  transfer_reviewed_at?: T;
   paid_at?: T;
   expired_at?: T;
+  refunded_amount?: T;
+  refunded_at?: T;
+  refunds?:
+    | T
+    | {
+        refund_key?: T;
+        amount?: T;
+        reason?: T;
+        midtrans_refund_id?: T;
+        refunded_by?: T;
+        refunded_at?: T;
+        id?: T;
+      };
   midtrans_response?: T;
   updatedAt?: T;
   createdAt?: T;
@@ -954,6 +2311,38 @@ export interface PayloadKvSelect<T extends boolean = true> {
   key?: T;
   data?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs_select".
+ */
+export interface PayloadJobsSelect<T extends boolean = true> {
+  input?: T;
+  taskStatus?: T;
+  completedAt?: T;
+  totalTried?: T;
+  hasError?: T;
+  error?: T;
+  log?:
+    | T
+    | {
+        executedAt?: T;
+        completedAt?: T;
+        taskSlug?: T;
+        taskID?: T;
+        input?: T;
+        output?: T;
+        state?: T;
+        error?: T;
+        id?: T;
+      };
+  taskSlug?: T;
+  queue?: T;
+  waitUntil?: T;
+  processing?: T;
+  meta?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents_select".
@@ -986,6 +2375,75 @@ export interface PayloadMigrationsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats".
+ */
+export interface PayloadJobsStat {
+  id: string;
+  stats?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats_select".
+ */
+export interface PayloadJobsStatsSelect<T extends boolean = true> {
+  stats?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskReconcileMidtransTransactions".
+ */
+export interface TaskReconcileMidtransTransactions {
+  input?: unknown;
+  output: {
+    reportId: string;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskExpireBankTransfers".
+ */
+export interface TaskExpireBankTransfers {
+  input?: unknown;
+  output: {
+    expired: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskExpireStockReservations".
+ */
+export interface TaskExpireStockReservations {
+  input?: unknown;
+  output: {
+    expired: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskRefreshReorderPoints".
+ */
+export interface TaskRefreshReorderPoints {
+  input?: unknown;
+  output: {
+    updated: number;
+    forecasted: number;
+  };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
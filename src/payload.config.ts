@@ -18,13 +18,28 @@ import { fileURLToPath } from 'url'
 import { Admins } from '@/collections/Admins'
 import { CartItems } from '@/collections/CartItems'
 import { Categories } from '@/collections/Categories'
+import { DrugInteractions } from '@/collections/DrugInteractions'
 import { Inventory } from '@/collections/Inventory'
+import { InventoryBatches } from '@/collections/InventoryBatches'
+import { InventoryMovements } from '@/collections/InventoryMovements'
 import { Media } from '@/collections/Media'
+import { Outlets } from '@/collections/Outlets'
+import { PaymentReconciliations } from '@/collections/PaymentReconciliations'
+import { PrivateDocuments } from '@/collections/PrivateDocuments'
+import { PurchaseOrders } from '@/collections/PurchaseOrders'
+import { StockReservations } from '@/collections/StockReservations'
+import { StockTakes } from '@/collections/StockTakes'
+import { StockTransfers } from '@/collections/StockTransfers'
+import { Suppliers } from '@/collections/Suppliers'
 
 import { ProductImages } from '@/collections/ProductImages'
 import { Users } from '@/collections/Users'
 import { supabaseSchemaHook } from '@/db/supabase-schema'
 import { pharmacyEndpoints } from '@/endpoints'
+import { expireBankTransfersTask } from '@/payments/bank-transfer'
+import { reconcileMidtransTransactionsTask } from '@/payments/midtrans'
+import { refreshReorderPointsTask } from '@/utilities/demandForecast'
+import { expireStockReservationsTask } from '@/utilities/stockReservations'
 import { plugins } from './plugins'
 
 const filename = fileURLToPath(import.meta.url)
@@ -53,7 +68,7 @@ export default buildConfig({
     },
   },
   lockDocuments: false,
-  collections: [Admins, Users, CartItems, Categories, Media, Inventory, ProductImages],
+  collections: [Admins, Users, CartItems, Categories, DrugInteractions, Media, Inventory, InventoryBatches, InventoryMovements, StockReservations, PrivateDocuments, Outlets, Suppliers, PurchaseOrders, StockTakes, StockTransfers, PaymentReconciliations, ProductImages],
   db: postgresAdapter({
     pool: {
       connectionString: process.env.DATABASE_URL || '',
@@ -101,6 +116,19 @@ export default buildConfig({
   }),
 
   endpoints: pharmacyEndpoints,
+  jobs: {
+    tasks: [
+      reconcileMidtransTransactionsTask,
+      expireBankTransfersTask,
+      expireStockReservationsTask,
+      refreshReorderPointsTask,
+    ],
+    // Queue scheduled tasks and run the 'payments' and 'inventory' queues (requires a long-running server)
+    autoRun: [
+      { cron: '* * * * *', queue: 'payments' },
+      { cron: '*/15 * * * *', queue: 'inventory' },
+    ],
+  },
   // globals: [Header, Footer], // Removed for Headless setup
   plugins,
   secret: process.env.PAYLOAD_SECRET || '',
@@ -0,0 +1,314 @@
+/**
+ * Bank Transfer Payment Adapter for Payload E-commerce Plugin
+ * 
+ * Manual transfer to the store's bank account. Checkout adds a unique code to
+ * the amount so admins can match the bank statement; the customer uploads a
+ * proof of payment and an admin approves or rejects it on the transaction
+ * (see collections/Transactions/hooks). Approval creates the order through the
+ * shared gateway layer, exactly like a settled Midtrans or Xendit payment.
+ */
+
+import { storePrivateDocument } from '@/utilities/privateDocuments'
+import type { PaymentAdapter } from '@payloadcms/plugin-ecommerce/types'
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import type { Endpoint, GroupField, PayloadRequest } from 'payload'
+import { addDataAndFileToRequest, APIError } from 'payload'
+import { isPaidPaymentStatus } from '../shared/status'
+import { createPendingTransaction, findOrCreateOrderForTransaction } from '../shared/transactions'
+import type { BankTransferAdapterConfig } from './types'
+import { BANK_TRANSFER_METHOD } from './types'
+
+function hashUploadToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Compare an upload token with the stored hash in constant time
+ */
+function isValidUploadToken(token: string, storedHash: string | null | undefined): boolean {
+    if (!storedHash) return false
+    const expected = Buffer.from(storedHash, 'hex')
+    const actual = Buffer.from(hashUploadToken(token), 'hex')
+    return expected.length === actual.length && timingSafeEqual(new Uint8Array(expected), new Uint8Array(actual))
+}
+
+/**
+ * Pick a unique code so no other open transfer has the same amount
+ */
+async function pickUniqueCode(
+    req: PayloadRequest,
+    baseAmount: number,
+    maxUniqueCode: number,
+    transactionsSlug: string
+): Promise<number> {
+    const open = await req.payload.find({
+        collection: transactionsSlug as 'transactions',
+        where: {
+            and: [
+                { paymentMethod: { equals: BANK_TRANSFER_METHOD } },
+                { status: { equals: 'pending' } },
+                { transfer_amount: { greater_than: baseAmount } },
+                { transfer_amount: { less_than_equal: baseAmount + maxUniqueCode } },
+            ],
+        },
+        limit: maxUniqueCode,
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    const used = new Set(open.docs.map((doc) => (doc.transfer_amount ?? 0) - baseAmount))
+    const available: number[] = []
+    for (let code = 1; code <= maxUniqueCode; code++) {
+        if (!used.has(code)) available.push(code)
+    }
+
+    if (available.length === 0) {
+        throw new Error('No unique transfer code available for this amount, please try again later')
+    }
+
+    return available[Math.floor(Math.random() * available.length)]
+}
+
+/**
+ * Create bank transfer payment adapter for Payload e-commerce plugin
+ * 
+ * @param config - Destination accounts and unique code range
+ * @returns PaymentAdapter object compatible with @payloadcms/plugin-ecommerce
+ */
+export function bankTransferAdapter(config: BankTransferAdapterConfig): PaymentAdapter {
+    const { accounts, maxUniqueCode = 999, paymentWindowHours = 24, label = 'Bank Transfer' } = config
+
+    // Validate required config
+    if (!accounts?.length) {
+        throw new Error('Bank transfer adapter requires at least one account')
+    }
+
+    /**
+     * Group field configuration (virtual, not stored in DB)
+     * Required by PaymentAdapter interface
+     */
+    const group: GroupField = {
+        name: 'bank_transfer_meta',
+        type: 'group',
+        virtual: true,
+        fields: [],
+        admin: {
+            hidden: true,
+        },
+    }
+
+    /**
+     * Proof of payment upload (multipart/form-data: file, transactionId, uploadToken)
+     * POST /api/payments/bank_transfer/proof
+     *
+     * The random upload token returned by initiatePayment authorises the
+     * upload, so guest checkouts can upload too. Receipts are stored as
+     * private documents, readable by admins only.
+     */
+    const proofEndpoint: Endpoint = {
+        path: '/proof',
+        method: 'post',
+        handler: async (req) => {
+            try {
+                await addDataAndFileToRequest(req)
+
+                const transactionId = req.data?.transactionId as string | undefined
+                const uploadToken = req.data?.uploadToken as string | undefined
+
+                if (!transactionId || !uploadToken) {
+                    throw new APIError('transactionId and uploadToken are required', 400)
+                }
+
+                const transaction = await req.payload.findByID({
+                    collection: 'transactions',
+                    id: transactionId,
+                    depth: 0,
+                    overrideAccess: true,
+                }).catch(() => null)
+
+                if (
+                    !transaction ||
+                    transaction.paymentMethod !== BANK_TRANSFER_METHOD ||
+                    !isValidUploadToken(uploadToken, transaction.proof_upload_token_hash)
+                ) {
+                    throw new APIError('Transaction not found', 404)
+                }
+
+                if (transaction.status !== 'pending') {
+                    throw new APIError(`Cannot upload proof for a transaction with status '${transaction.status}'`, 400)
+                }
+                if (transaction.transfer_deadline && new Date(transaction.transfer_deadline) < new Date()) {
+                    throw new APIError('The payment window for this transfer has closed', 400)
+                }
+
+                const proof = await storePrivateDocument(req, {
+                    kind: 'payment_proof',
+                    transactionId: transaction.id,
+                })
+
+                // reviewBankTransfer moves the transfer to pending_review
+                const updated = await req.payload.update({
+                    collection: 'transactions',
+                    id: transaction.id,
+                    data: {
+                        payment_proof: proof.id,
+                    },
+                    depth: 0,
+                    overrideAccess: true,
+                })
+
+                req.payload.logger.info(`[BankTransfer] Proof uploaded for transaction ${transaction.id} (document ${proof.id})`)
+
+                return Response.json({
+                    success: true,
+                    transactionId: updated.id,
+                    reviewStatus: updated.transfer_review_status,
+                })
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error'
+                const status = error instanceof APIError ? error.status : 500
+                if (status === 500) {
+                    req.payload.logger.error(`[BankTransfer] Proof upload error: ${message}`)
+                }
+                return Response.json({ success: false, error: message }, { status })
+            }
+        },
+    }
+
+    return {
+        /**
+         * Unique name identifier for this payment method
+         */
+        name: BANK_TRANSFER_METHOD,
+
+        /**
+         * Human-readable label
+         */
+        label,
+
+        /**
+         * Group field configuration
+         */
+        group,
+
+        /**
+         * Custom endpoints for this payment method
+         */
+        endpoints: [proofEndpoint],
+
+        /**
+         * Initiate payment - creates a pending transaction with a unique
+         * transfer amount and returns the transfer instructions
+         */
+        initiatePayment: async ({ data, req, transactionsSlug }) => {
+            const { cart, currency, billingAddress } = data
+            const slug = transactionsSlug || 'transactions'
+
+            const { transaction, grossAmount } = await createPendingTransaction({
+                req,
+                transactionsSlug: slug,
+                paymentMethod: BANK_TRANSFER_METHOD,
+                cart,
+                currency,
+                billingAddress,
+                holdMinutes: paymentWindowHours * 60,
+            })
+
+            try {
+                const baseAmount = Math.round(grossAmount)
+                const uniqueCode = await pickUniqueCode(req, baseAmount, maxUniqueCode, slug)
+                const transferAmount = baseAmount + uniqueCode
+
+                // Random reference the customer writes in the transfer note
+                const paymentReference = `BT-${randomBytes(5).toString('hex').toUpperCase()}`
+                // Returned once; only its hash is stored
+                const uploadToken = randomBytes(24).toString('base64url')
+
+                await req.payload.update({
+                    collection: slug as 'transactions',
+                    id: transaction.id,
+                    data: {
+                        payment_reference: paymentReference,
+                        provider_payment_type: BANK_TRANSFER_METHOD,
+                        transfer_amount: transferAmount,
+                        transfer_review_status: 'awaiting_proof',
+                        transfer_deadline: new Date(Date.now() + paymentWindowHours * 60 * 60 * 1000).toISOString(),
+                        proof_upload_token_hash: hashUploadToken(uploadToken),
+                    },
+                    overrideAccess: true,
+                })
+
+                req.payload.logger.info(`[BankTransfer] Payment initiated for transaction ${transaction.id}: reference=${paymentReference}, amount=${transferAmount}`)
+
+                return {
+                    message: 'Transfer the exact amount, then upload the proof of payment',
+                    transactionId: transaction.id,
+                    paymentReference,
+                    uploadToken,
+                    transferAmount,
+                    uniqueCode,
+                    accounts,
+                }
+            } catch (error) {
+                req.payload.logger.error(`[BankTransfer] Payment initiation error: ${error}`)
+
+                // Delete the pending transaction
+                await req.payload.delete({
+                    collection: slug as 'transactions',
+                    id: transaction.id,
+                    overrideAccess: true,
+                })
+
+                throw new Error(`Failed to initiate bank transfer: ${error instanceof Error ? error.message : 'Unknown error'}`)
+            }
+        },
+
+        /**
+         * Confirm order - returns the order once an admin has approved the
+         * transfer (approval normally creates it already)
+         */
+        confirmOrder: async ({ data, ordersSlug, req, transactionsSlug, cartsSlug }) => {
+            const transactionId = data.transactionId as string
+            if (!transactionId) {
+                throw new Error('Transaction ID is required to confirm order')
+            }
+
+            const transaction = await req.payload.findByID({
+                collection: (transactionsSlug || 'transactions') as 'transactions',
+                id: transactionId,
+                depth: 0,
+            })
+
+            if (transaction.paymentMethod !== BANK_TRANSFER_METHOD) {
+                throw new Error('Transaction is not a bank transfer')
+            }
+
+            if (!isPaidPaymentStatus(transaction.status)) {
+                if (transaction.transfer_review_status === 'rejected') {
+                    throw new Error(`Bank transfer was rejected: ${transaction.transfer_rejection_reason || 'no reason given'}`)
+                }
+                throw new Error('Bank transfer is awaiting verification')
+            }
+
+            const { order } = await findOrCreateOrderForTransaction({
+                req,
+                transaction,
+                ordersSlug,
+                transactionsSlug,
+                cartsSlug,
+            })
+
+            req.payload.logger.info(`[BankTransfer] Order confirmed: orderId=${order.id}, transactionId=${transactionId}`)
+
+            return {
+                message: 'Order confirmed',
+                orderID: String(order.id),
+                transactionID: String(transactionId)
+            }
+        },
+    }
+}
+
+// Export types for external use
+export type { BankTransferAdapterConfig } from './types'
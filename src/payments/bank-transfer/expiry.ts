@@ -0,0 +1,84 @@
+/**
+ * Bank Transfer Expiry
+ *
+ * Transfers with no proof of payment by their deadline are expired, which
+ * releases their stock reservations (see syncStockReservations). Transfers
+ * with a proof uploaded stay open for the admin's review.
+ */
+
+import type { PayloadRequest, TaskConfig } from 'payload'
+import { shouldApplyPaymentStatus } from '../shared/status'
+import { BANK_TRANSFER_METHOD } from './types'
+
+/**
+ * Expire bank transfers still awaiting proof after their deadline
+ * Returns the number of transfers expired; at most `limit` per call.
+ */
+export async function expireBankTransfers(
+    req: PayloadRequest,
+    options: { now?: Date; limit?: number } = {}
+): Promise<number> {
+    const { now = new Date(), limit = 100 } = options
+
+    const stale = await req.payload.find({
+        collection: 'transactions',
+        where: {
+            and: [
+                { paymentMethod: { equals: BANK_TRANSFER_METHOD } },
+                { status: { equals: 'pending' } },
+                { transfer_review_status: { equals: 'awaiting_proof' } },
+                { transfer_deadline: { less_than: now.toISOString() } },
+            ],
+        },
+        sort: 'transfer_deadline',
+        limit,
+        depth: 0,
+        req,
+        overrideAccess: true,
+    })
+
+    let expired = 0
+    for (const transaction of stale.docs) {
+        if (!shouldApplyPaymentStatus(transaction.status, 'expire')) continue
+
+        try {
+            await req.payload.update({
+                collection: 'transactions',
+                id: transaction.id,
+                data: {
+                    status: 'expire',
+                    expired_at: now.toISOString(),
+                },
+                depth: 0,
+                req,
+                overrideAccess: true,
+            })
+            expired++
+        } catch (error) {
+            req.payload.logger.error(`[BankTransfer] Failed to expire transaction ${transaction.id}: ${error}`)
+        }
+    }
+
+    return expired
+}
+
+/**
+ * Jobs-queue task expiring overdue bank transfers every 15 minutes on the 'payments' queue
+ */
+export const expireBankTransfersTask: TaskConfig<'expireBankTransfers'> = {
+    slug: 'expireBankTransfers',
+    label: 'Expire Bank Transfers',
+    schedule: [{ cron: '*/15 * * * *', queue: 'payments' }],
+    outputSchema: [
+        { name: 'expired', type: 'number', required: true },
+    ],
+    handler: async ({ req }) => {
+        const expired = await expireBankTransfers(req)
+
+        if (expired > 0) {
+            req.payload.logger.info(`[BankTransfer] Expired ${expired} transfers awaiting proof`)
+        }
+
+        return { output: { expired } }
+    },
+}
@@ -0,0 +1,10 @@
+/**
+ * Bank Transfer Payment Integration
+ * 
+ * Barrel export for the manual bank transfer adapter.
+ */
+
+export { bankTransferAdapter } from './adapter'
+export { expireBankTransfers, expireBankTransfersTask } from './expiry'
+export { BANK_TRANSFER_METHOD } from './types'
+export type { BankTransferAccount, BankTransferAdapterConfig, BankTransferReviewStatus } from './types'
@@ -0,0 +1,39 @@
+/**
+ * Bank Transfer Payment Adapter Types
+ * 
+ * TypeScript type definitions for manual bank transfers verified by admins.
+ */
+
+/**
+ * Destination account shown to the customer at checkout
+ */
+export interface BankTransferAccount {
+    /** Bank name, e.g. BCA, Mandiri, BNI */
+    bank: string
+    accountNumber: string
+    accountName: string
+}
+
+/**
+ * Bank transfer adapter configuration
+ */
+export interface BankTransferAdapterConfig {
+    /** Accounts the customer may transfer to */
+    accounts: BankTransferAccount[]
+    /** Highest unique code added to the amount (default 999) */
+    maxUniqueCode?: number
+    /** Hours the customer has to transfer; stock is reserved for the same time (default 24) */
+    paymentWindowHours?: number
+    /** Optional label for the payment method */
+    label?: string
+}
+
+/**
+ * Review states of a bank transfer on the Transactions collection
+ */
+export type BankTransferReviewStatus = 'awaiting_proof' | 'pending_review' | 'approved' | 'rejected'
+
+/**
+ * Payment method name; also the URL segment (/api/payments/bank_transfer/...)
+ */
+export const BANK_TRANSFER_METHOD = 'bank_transfer'
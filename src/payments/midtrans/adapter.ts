@@ -5,16 +5,21 @@
  * Follows the PaymentAdapter interface from @payloadcms/plugin-ecommerce.
  */
 
+import { checkRole } from '@/access/utilities'
+import { canTransitionOrderStatus } from '@/utilities/orderStatus'
 import type { PaymentAdapter } from '@payloadcms/plugin-ecommerce/types'
 import type { Endpoint, GroupField } from 'payload'
+import { APIError, commitTransaction, initTransaction, killTransaction } from 'payload'
+import { isPaidPaymentStatus } from '../shared/status'
+import { createPendingTransaction, findOrCreateOrderForTransaction, lockPaymentRow } from '../shared/transactions'
 import { createMidtransClient } from './client'
+import { buildMidtransTransactionUpdate, findTransactionByMidtransOrderId } from './transactions'
 import type {
     MidtransAdapterConfig,
-    MidtransItemDetail,
     MidtransNotification,
     MidtransSnapParams,
 } from './types'
-import { isFailedTransaction, isSuccessfulTransaction } from './types'
+import { isChallengedTransaction, isSuccessfulTransaction } from './types'
 
 /**
  * Create Midtrans payment adapter for Payload e-commerce plugin
@@ -23,7 +28,7 @@ import { isFailedTransaction, isSuccessfulTransaction } from './types'
  * @returns PaymentAdapter object compatible with @payloadcms/plugin-ecommerce
  */
 export function midtransAdapter(config: MidtransAdapterConfig): PaymentAdapter {
-    const { serverKey, clientKey, isProduction = false, label = 'Midtrans' } = config
+    const { serverKey, clientKey, isProduction = false, label = 'Midtrans', paymentWindowMinutes = 60 } = config
 
     // Validate required config
     if (!serverKey) {
@@ -79,50 +84,42 @@ export function midtransAdapter(config: MidtransAdapterConfig): PaymentAdapter {
                     )
                 }
 
-                const {
-                    order_id: midtransOrderId,
-                    transaction_id,
-                    transaction_status,
-                    payment_type,
-                } = notification
-
-                // Extract transaction ID from Midtrans order ID
-                // Format: TXN-{transactionId}-{timestamp}
-                const txnIdMatch = midtransOrderId.match(/^TXN-(.+)-\d+$/)
-                if (!txnIdMatch) {
-                    req.payload.logger.warn(`[Midtrans] Unexpected order ID format: ${midtransOrderId}`)
+                const { order_id: midtransOrderId } = notification
+
+                const transaction = await findTransactionByMidtransOrderId(req, midtransOrderId)
+                if (!transaction) {
+                    // Acknowledge so Midtrans stops retrying notifications we can never match
+                    req.payload.logger.warn(`[Midtrans] No transaction found for order ID: ${midtransOrderId}`)
+                    return Response.json({ success: true, ignored: true })
                 }
 
-                // Determine new status
-                let status: 'pending' | 'settlement' | 'failure' = 'pending'
-                if (isSuccessfulTransaction(transaction_status)) {
-                    status = 'settlement'
-                } else if (isFailedTransaction(transaction_status)) {
-                    status = 'failure'
+                let current = transaction
+                const update = buildMidtransTransactionUpdate(transaction, notification)
+                if (update) {
+                    current = await req.payload.update({
+                        collection: 'transactions',
+                        id: transaction.id,
+                        data: update,
+                        overrideAccess: true,
+                    })
+                    req.payload.logger.info(`[Midtrans] Transaction updated: ${transaction.id}, status=${current.status}`)
+                } else {
+                    req.payload.logger.info(`[Midtrans] Ignoring duplicate or stale notification for ${transaction.id}: ${notification.transaction_status} (current=${transaction.status})`)
                 }
 
-                // Update transaction in database
-                if (txnIdMatch?.[1]) {
-                    const transactionId = txnIdMatch[1]
-                    try {
-                        await req.payload.update({
-                            collection: 'transactions',
-                            id: transactionId,
-                            data: {
-                                status,
-                                midtrans_transaction_id: transaction_id,
-                                midtrans_payment_type: payment_type,
-                                // Cast to satisfy Record<string, unknown> constraint of generic JSON type
-                                midtrans_response: notification as unknown as Record<string, unknown>,
-                            },
-                        })
-                        req.payload.logger.info(`[Midtrans] Transaction updated: ${transactionId}, status=${status}`)
-                    } catch (updateError) {
-                        req.payload.logger.error(`[Midtrans] Failed to update transaction: ${updateError}`)
+                // Settled payments always end with exactly one order. Errors propagate
+                // as 500 so Midtrans retries the notification. Challenged captures get
+                // no order until approved via /fraud-review.
+                let orderId: string | null = null
+                if (isPaidPaymentStatus(current.status)) {
+                    const { order, created } = await findOrCreateOrderForTransaction({ req, transaction: current })
+                    orderId = order.id
+                    if (created) {
+                        req.payload.logger.info(`[Midtrans] Order created from webhook: orderId=${order.id}, transactionId=${transaction.id}`)
                     }
                 }
 
-                return Response.json({ success: true, status })
+                return Response.json({ success: true, status: current.status, applied: Boolean(update), orderId })
             } catch (error) {
                 req.payload.logger.error(`[Midtrans] Webhook error: ${error}`)
                 return Response.json(
@@ -133,6 +130,296 @@ export function midtransAdapter(config: MidtransAdapterConfig): PaymentAdapter {
         },
     }
 
+    /**
+     * Refund endpoint for settled Midtrans payments (admin only)
+     * POST /api/payments/midtrans/refund
+     * Body: { transactionId, amount?, reason }
+     *
+     * Omitting amount refunds the remaining balance. Once the payment is fully
+     * refunded the linked order moves to 'refunded', which releases its stock
+     * through restoreStockOnCancellation; an already cancelled order is left
+     * as it is. The order transition is checked before any money moves.
+     *
+     * The payment row stays locked from the balance check until the refund is
+     * recorded, so concurrent refunds cannot both spend the same balance. The
+     * refund key is the payment ID plus the refund's sequence number: a retry
+     * after a failed write sends the same key and Midtrans does not refund twice.
+     */
+    const refundEndpoint: Endpoint = {
+        path: '/refund',
+        method: 'post',
+        handler: async (req) => {
+            let shouldCommit = false
+
+            try {
+                if (!req.user) {
+                    throw new APIError('Authentication required', 401)
+                }
+
+                if (!checkRole(['admin'], req.user)) {
+                    throw new APIError('Admin access required', 403)
+                }
+
+                const body = await req.json?.() ?? {}
+                const { transactionId, amount, reason } = body as {
+                    transactionId?: string
+                    amount?: number
+                    reason?: string
+                }
+
+                if (!transactionId) {
+                    throw new APIError('transactionId is required', 400)
+                }
+
+                if (!reason?.trim()) {
+                    throw new APIError('A refund reason is required', 400)
+                }
+
+                shouldCommit = await initTransaction(req)
+                await lockPaymentRow(req, transactionId)
+
+                const transaction = await req.payload.findByID({
+                    collection: 'transactions',
+                    id: transactionId,
+                    depth: 0,
+                    req,
+                    overrideAccess: true,
+                })
+
+                if (transaction.paymentMethod && transaction.paymentMethod !== 'midtrans') {
+                    throw new APIError(`Transaction was not paid with Midtrans (${transaction.paymentMethod})`, 400)
+                }
+
+                if (!transaction.midtrans_order_id) {
+                    throw new APIError('Transaction has no Midtrans order ID', 400)
+                }
+
+                if (!['settlement', 'capture', 'partial_refund'].includes(transaction.status)) {
+                    throw new APIError(`Transaction with status '${transaction.status}' cannot be refunded`, 400)
+                }
+
+                const alreadyRefunded = transaction.refunded_amount || 0
+                const refundable = (transaction.amount || 0) - alreadyRefunded
+                const refundAmount = amount ?? refundable
+
+                if (!Number.isInteger(refundAmount) || refundAmount <= 0) {
+                    throw new APIError('Refund amount must be a positive whole number (IDR)', 400)
+                }
+
+                if (refundAmount > refundable) {
+                    throw new APIError(`Refund amount exceeds refundable balance (${refundable})`, 400)
+                }
+
+                const isFullRefund = alreadyRefunded + refundAmount >= (transaction.amount || 0)
+
+                // A full refund moves the order to 'refunded': check that before refunding
+                const orderId = typeof transaction.order === 'object' ? transaction.order?.id : transaction.order
+                const order = isFullRefund && orderId
+                    ? await req.payload.findByID({
+                        collection: 'orders',
+                        id: orderId,
+                        depth: 0,
+                        req,
+                        overrideAccess: true,
+                    })
+                    : null
+                // Cancelled orders have already released their stock and stay cancelled
+                const shouldRefundOrder = Boolean(order && order.status !== 'refunded' && order.status !== 'cancelled')
+                if (order && shouldRefundOrder && !canTransitionOrderStatus(order.status, 'refunded')) {
+                    throw new APIError(`Order with status '${order.status}' cannot be refunded`, 400)
+                }
+
+                const refundKey = `RFD-${transaction.id}-${(transaction.refunds?.length || 0) + 1}`
+                const refundResponse = await client.refundTransaction(transaction.midtrans_order_id, {
+                    refund_key: refundKey,
+                    amount: refundAmount,
+                    reason: reason.trim(),
+                })
+
+                const refundedAt = new Date().toISOString()
+                const totalRefunded = alreadyRefunded + refundAmount
+                const adminId = req.user.collection === 'admins' ? req.user.id : undefined
+
+                const updatedTransaction = await req.payload.update({
+                    collection: 'transactions',
+                    id: transaction.id,
+                    data: {
+                        status: isFullRefund ? 'refund' : 'partial_refund',
+                        refunded_amount: totalRefunded,
+                        refunded_at: refundedAt,
+                        refunds: [
+                            ...(transaction.refunds || []),
+                            {
+                                refund_key: refundKey,
+                                amount: refundAmount,
+                                reason: reason.trim(),
+                                midtrans_refund_id: refundResponse.refund_chargeback_id
+                                    ? String(refundResponse.refund_chargeback_id)
+                                    : undefined,
+                                refunded_by: adminId,
+                                refunded_at: refundedAt,
+                            },
+                        ],
+                        midtrans_response: refundResponse as unknown as Record<string, unknown>,
+                    },
+                    req,
+                    overrideAccess: true,
+                })
+
+                req.payload.logger.info(`[Midtrans] Refunded ${refundAmount} for transaction ${transaction.id} (key=${refundKey}, full=${isFullRefund})`)
+
+                // Full refund: move the order to 'refunded' so its stock is restored
+                let orderStatus = order?.status ?? undefined
+                if (order && shouldRefundOrder) {
+                    const refundedOrder = await req.payload.update({
+                        collection: 'orders',
+                        id: order.id,
+                        data: { status: 'refunded' },
+                        req,
+                        overrideAccess: true,
+                        context: {
+                            cancellationReason: `Order refund: ${reason.trim()}`,
+                        },
+                    })
+                    orderStatus = refundedOrder.status ?? undefined
+                }
+
+                if (shouldCommit) await commitTransaction(req)
+
+                return Response.json({
+                    success: true,
+                    data: {
+                        transactionId: updatedTransaction.id,
+                        status: updatedTransaction.status,
+                        refundKey,
+                        refundAmount,
+                        refundedAmount: totalRefunded,
+                        remainingAmount: (transaction.amount || 0) - totalRefunded,
+                        orderId: orderId ?? null,
+                        orderStatus: orderStatus ?? null,
+                    },
+                })
+            } catch (error) {
+                if (shouldCommit) await killTransaction(req)
+                req.payload.logger.error(`[Midtrans] Refund error: ${error}`)
+
+                if (error instanceof APIError) {
+                    return Response.json(
+                        { success: false, error: error.message },
+                        { status: error.status }
+                    )
+                }
+
+                return Response.json(
+                    { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+                    { status: 500 }
+                )
+            }
+        },
+    }
+
+    /**
+     * Fraud review endpoint for challenged card captures (admin only)
+     * POST /api/payments/midtrans/fraud-review
+     * Body: { transactionId, action: 'approve' | 'deny', note? }
+     *
+     * Challenged payments never produce an order and keep their stock held
+     * while under review; approving creates the order (exactly once, shared
+     * with the webhook) and denying leaves the payment denied, releasing the stock.
+     */
+    const fraudReviewEndpoint: Endpoint = {
+        path: '/fraud-review',
+        method: 'post',
+        handler: async (req) => {
+            try {
+                if (!req.user) {
+                    throw new APIError('Authentication required', 401)
+                }
+
+                if (!checkRole(['admin'], req.user)) {
+                    throw new APIError('Admin access required', 403)
+                }
+
+                const body = await req.json?.() ?? {}
+                const { transactionId, action, note } = body as {
+                    transactionId?: string
+                    action?: 'approve' | 'deny'
+                    note?: string
+                }
+
+                if (!transactionId) {
+                    throw new APIError('transactionId is required', 400)
+                }
+
+                if (action !== 'approve' && action !== 'deny') {
+                    throw new APIError("action must be 'approve' or 'deny'", 400)
+                }
+
+                const transaction = await req.payload.findByID({
+                    collection: 'transactions',
+                    id: transactionId,
+                    depth: 0,
+                    req,
+                    overrideAccess: true,
+                })
+
+                if (transaction.status !== 'challenge' || !transaction.midtrans_order_id) {
+                    throw new APIError(`Transaction with status '${transaction.status}' is not awaiting fraud review`, 400)
+                }
+
+                const response = action === 'approve'
+                    ? await client.approveTransaction(transaction.midtrans_order_id)
+                    : await client.denyTransaction(transaction.midtrans_order_id)
+
+                const updated = await req.payload.update({
+                    collection: 'transactions',
+                    id: transaction.id,
+                    data: {
+                        ...buildMidtransTransactionUpdate(transaction, response),
+                        fraud_reviewed_by: req.user.collection === 'admins' ? req.user.id : undefined,
+                        fraud_reviewed_at: new Date().toISOString(),
+                        fraud_review_note: note?.trim() || undefined,
+                    },
+                    depth: 0,
+                    req,
+                    overrideAccess: true,
+                })
+
+                req.payload.logger.info(`[Midtrans] Fraud review ${action} for transaction ${transaction.id}: status=${updated.status}`)
+
+                let orderId: string | null = null
+                if (isPaidPaymentStatus(updated.status)) {
+                    const { order } = await findOrCreateOrderForTransaction({ req, transaction: updated })
+                    orderId = order.id
+                }
+
+                return Response.json({
+                    success: true,
+                    data: {
+                        transactionId: updated.id,
+                        status: updated.status,
+                        fraudStatus: updated.fraud_status ?? null,
+                        orderId,
+                    },
+                })
+            } catch (error) {
+                req.payload.logger.error(`[Midtrans] Fraud review error: ${error}`)
+
+                if (error instanceof APIError) {
+                    return Response.json(
+                        { success: false, error: error.message },
+                        { status: error.status }
+                    )
+                }
+
+                return Response.json(
+                    { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
+                    { status: 500 }
+                )
+            }
+        },
+    }
+
     return {
         /**
          * Unique name identifier for this payment method
@@ -152,7 +439,7 @@ export function midtransAdapter(config: MidtransAdapterConfig): PaymentAdapter {
         /**
          * Custom endpoints for this payment method
          */
-        endpoints: [webhookEndpoint],
+        endpoints: [webhookEndpoint, refundEndpoint, fraudReviewEndpoint],
 
         /**
          * Initiate payment - creates Snap token for checkout
@@ -164,37 +451,15 @@ export function midtransAdapter(config: MidtransAdapterConfig): PaymentAdapter {
             // We'll store the transaction ID after creating it in Payload
             const timestamp = Date.now()
 
-            // Build item details from cart
-            const itemDetails: MidtransItemDetail[] = cart.items?.map((item) => {
-                const product = typeof item.product === 'object' ? item.product : null
-                const productData = product as { title?: string, name?: string, price?: number } | null
-                const title = productData?.title || productData?.name || 'Product'
-                const price = Math.round(productData?.price || 0)
-
-                return {
-                    id: String(typeof item.product === 'object' ? item.product?.id : item.product),
-                    name: title,
-                    price,
-                    quantity: item.quantity || 1,
-                }
-            }) || []
-
-            // Calculate total from cart
-            const grossAmount = cart.subtotal || itemDetails.reduce((sum, item) => sum + (item.price * item.quantity), 0)
-
             // Create transaction record in Payload first
-            const transaction = await req.payload.create({
-                collection: transactionsSlug as 'transactions',
-                data: {
-                    customer: cart.customer,
-                    paymentMethod: 'midtrans',
-                    status: 'pending',
-                    items: cart.items,
-                    currency: currency as 'USD',
-                    amount: grossAmount,
-                    billingAddress,
-                    // valid Transaction does not have shippingAddress in types
-                },
+            const { transaction, itemDetails, grossAmount } = await createPendingTransaction({
+                req,
+                transactionsSlug,
+                paymentMethod: 'midtrans',
+                cart,
+                currency,
+                billingAddress,
+                holdMinutes: paymentWindowMinutes,
             })
 
             // Midtrans order ID includes Payload transaction ID for webhook correlation
@@ -226,18 +491,23 @@ export function midtransAdapter(config: MidtransAdapterConfig): PaymentAdapter {
                 credit_card: {
                     secure: true,
                 },
+                // Match the stock reservation so an unpaid Snap order expires with its hold
+                expiry: {
+                    unit: 'minute',
+                    duration: paymentWindowMinutes,
+                },
             }
 
             try {
                 // Create Snap transaction
                 const snapResponse = await client.createTransaction(snapParams)
 
-                // Update transaction with Midtrans data
                 // Update transaction with Midtrans data
                 await req.payload.update({
                     collection: transactionsSlug as 'transactions',
                     id: transaction.id,
                     data: {
+                        payment_reference: midtransOrderId,
                         midtrans_order_id: midtransOrderId,
                         midtrans_response: {
                             snap_token: snapResponse.token,
@@ -295,86 +565,46 @@ export function midtransAdapter(config: MidtransAdapterConfig): PaymentAdapter {
 
             // Verify payment status with Midtrans
             const midtransOrderId = transaction.midtrans_order_id
-            if (midtransOrderId) {
-                try {
-                    const status = await client.getTransactionStatus(midtransOrderId)
+            if (!midtransOrderId) {
+                throw new Error('Transaction has no Midtrans order ID')
+            }
 
-                    if (!isSuccessfulTransaction(status.transaction_status)) {
-                        throw new Error(`Payment not successful. Status: ${status.transaction_status}`)
-                    }
+            let current = transaction
+            try {
+                const status = await client.getTransactionStatus(midtransOrderId)
+
+                if (isChallengedTransaction(status.transaction_status, status.fraud_status)) {
+                    throw new Error('Payment is under fraud review')
+                }
 
-                    // Update transaction with latest status
-                    // Update transaction with latest status
-                    await req.payload.update({
+                if (!isSuccessfulTransaction(status.transaction_status, status.fraud_status)) {
+                    throw new Error(`Payment not successful. Status: ${status.transaction_status}`)
+                }
+
+                // Update transaction with latest status (no-op if the webhook got there first)
+                const update = buildMidtransTransactionUpdate(transaction, status)
+                if (update) {
+                    current = await req.payload.update({
                         collection: (transactionsSlug || 'transactions') as 'transactions',
                         id: transactionId,
-                        data: {
-                            status: 'settlement',
-                            midtrans_transaction_id: status.transaction_id,
-                            midtrans_payment_type: status.payment_type,
-                            midtrans_response: status as unknown as Record<string, unknown>,
-                        },
+                        data: update,
+                        depth: 0,
                     })
-                } catch (statusError) {
-                    req.payload.logger.error(`[Midtrans] Failed to verify payment status: ${statusError}`)
-                    throw new Error('Failed to verify payment status with Midtrans')
                 }
+            } catch (statusError) {
+                req.payload.logger.error(`[Midtrans] Failed to verify payment status: ${statusError}`)
+                throw new Error('Failed to verify payment status with Midtrans')
             }
 
-            const billing = transaction.billingAddress
-            const shippingName = billing ? `${billing.firstName || ''} ${billing.lastName || ''}`.trim() : 'Unknown'
-            const shippingAddress = billing ? `${billing.addressLine1 || ''} ${billing.city || ''} ${billing.postalCode || ''}`.trim() : 'Unknown'
-            const shippingPhone = billing?.phone || ''
-
-            const customerId = typeof transaction.customer === 'object' ? transaction.customer?.id : transaction.customer
-
-            // Create the order
-            const order = await req.payload.create({
-                collection: (ordersSlug || 'orders') as 'orders',
-                data: {
-                    orderedBy: customerId || '',
-                    items: transaction.items?.map(item => {
-                        const productId = typeof item.product === 'object' ? item.product?.id : item.product
-                        return {
-                            product: productId as string,
-                            price: 0,
-                            quantity: item.quantity,
-                        }
-                    }) || [],
-                    total: transaction.amount || 0,
-                    shipping_name: shippingName || 'Customer',
-                    shipping_address: shippingAddress || 'Address not provided',
-                    shipping_phone: shippingPhone || '0000000000',
-                    status: 'processing',
-                },
+            // Returns the order already created by the webhook, if any
+            const { order } = await findOrCreateOrderForTransaction({
+                req,
+                transaction: current,
+                ordersSlug,
+                transactionsSlug,
+                cartsSlug,
             })
 
-            // Clear the customer's cart if cart exists
-            if (customerId && cartsSlug) {
-                try {
-                    const carts = await req.payload.find({
-                        collection: cartsSlug as 'carts',
-                        where: {
-                            customer: { equals: customerId },
-                        },
-                        limit: 1,
-                    })
-
-                    if (carts.docs.length > 0) {
-                        await req.payload.update({
-                            collection: cartsSlug as 'carts',
-                            id: carts.docs[0].id,
-                            data: {
-                                items: [],
-                                subtotal: 0,
-                            },
-                        })
-                    }
-                } catch (cartError) {
-                    req.payload.logger.warn(`[Midtrans] Failed to clear cart: ${cartError}`)
-                }
-            }
-
             req.payload.logger.info(`[Midtrans] Order confirmed: orderId=${order.id}, transactionId=${transactionId}`)
 
             return {
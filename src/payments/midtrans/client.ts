@@ -8,6 +8,8 @@ import crypto from 'crypto'
 import type {
     MidtransAdapterConfig,
     MidtransNotification,
+    MidtransRefundParams,
+    MidtransRefundResponse,
     MidtransSnapParams,
     MidtransSnapResponse,
 } from './types'
@@ -143,19 +145,48 @@ export class MidtransClient {
     }
 
     /**
-     * Refund a successful transaction
+     * Approve a capture challenged by fraud detection
      * 
-     * @param orderId - Order ID to refund
-     * @param amount - Amount to refund (optional, full refund if not provided)
-     * @param reason - Reason for refund
+     * @param orderId - Midtrans order ID to approve
+     * @returns Promise with the updated transaction status
      */
-    async refundTransaction(orderId: string, amount?: number, reason?: string): Promise<void> {
+    async approveTransaction(orderId: string): Promise<MidtransNotification> {
         try {
-            const params: Record<string, unknown> = {}
-            if (amount) params.refund_amount = amount
-            if (reason) params.reason = reason
+            const response = await this.coreApi.transaction.approve(orderId)
+            return response as MidtransNotification
+        } catch (error) {
+            console.error('[Midtrans] Failed to approve transaction:', error)
+            throw new Error(`Midtrans approval failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+    }
 
-            await this.coreApi.transaction.refund(orderId, params)
+    /**
+     * Deny a capture challenged by fraud detection
+     * 
+     * @param orderId - Midtrans order ID to deny
+     * @returns Promise with the updated transaction status
+     */
+    async denyTransaction(orderId: string): Promise<MidtransNotification> {
+        try {
+            const response = await this.coreApi.transaction.deny(orderId)
+            return response as MidtransNotification
+        } catch (error) {
+            console.error('[Midtrans] Failed to deny transaction:', error)
+            throw new Error(`Midtrans denial failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+    }
+
+    /**
+     * Refund a settled transaction (full or partial)
+     * 
+     * @param orderId - Midtrans order ID to refund
+     * @param params - Refund key, amount (full refund if not provided) and reason
+     * @returns Promise with the Core API refund response
+     */
+    async refundTransaction(orderId: string, params: MidtransRefundParams): Promise<MidtransRefundResponse> {
+        try {
+            const response = await this.coreApi.transaction.refund(orderId, params)
+            return response as MidtransRefundResponse
         } catch (error) {
             console.error('[Midtrans] Failed to refund transaction:', error)
             throw new Error(`Midtrans refund failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
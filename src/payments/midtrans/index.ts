@@ -6,8 +6,13 @@
 
 export { midtransAdapter } from './adapter'
 export { MidtransClient, createMidtransClient } from './client'
+export { reconcileMidtransTransactions, reconcileMidtransTransactionsTask } from './reconciliation'
+export type { ReconciliationOptions, ReconciliationReport, ReconciliationResult } from './reconciliation'
 export {
-    MIDTRANS_STATUS_MAP, isFailedTransaction, isPendingTransaction, isSuccessfulTransaction
+    MIDTRANS_STATUS_MAP, isChallengedTransaction, isFailedTransaction, isPendingTransaction, isRefundedTransaction, isSuccessfulTransaction,
+    toPaymentTransactionStatus
+} from './types'
+export type {
+    MidtransAdapterConfig, MidtransNotification, MidtransRefundParams, MidtransRefundResponse
 } from './types'
-export type { MidtransAdapterConfig, MidtransNotification } from './types'
 
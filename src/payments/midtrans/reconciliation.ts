@@ -0,0 +1,216 @@
+/**
+ * Midtrans Payment Reconciliation
+ *
+ * Revisits transactions still waiting on Midtrans (lost webhooks, abandoned
+ * Snap popups), applies the same status mapping as the webhook and records a
+ * report in the `payment-reconciliations` collection.
+ */
+
+import type { PaymentReconciliation, Transaction } from '@/payload-types'
+import type { PayloadRequest, TaskConfig } from 'payload'
+import { isPaidPaymentStatus, shouldApplyPaymentStatus } from '../shared/status'
+import { findOrCreateOrderForTransaction } from '../shared/transactions'
+import type { MidtransClient } from './client'
+import { createMidtransClient } from './client'
+import { buildMidtransTransactionUpdate } from './transactions'
+
+export interface ReconciliationOptions {
+    /** Leave transactions younger than this to the webhook (default 15 minutes) */
+    minAgeMinutes?: number
+    /** Expire transactions still pending after this many hours (default 24) */
+    expireAfterHours?: number
+    /** Maximum transactions checked per run (default 100) */
+    limit?: number
+}
+
+export interface ReconciliationResult {
+    transactionId: string
+    midtransOrderId: string | null
+    previousStatus: string
+    status: string
+    action: 'updated' | 'expired' | 'unchanged' | 'failed'
+    orderId?: string
+    error?: string
+}
+
+/**
+ * Stored reconciliation report, with its per-transaction results typed
+ */
+export interface ReconciliationReport extends Omit<PaymentReconciliation, 'results'> {
+    results: ReconciliationResult[]
+}
+
+/**
+ * Midtrans answers 404 for Snap orders where the customer never picked a payment method
+ */
+function isTransactionNotFoundError(error: unknown): boolean {
+    return error instanceof Error && /\b404\b/.test(error.message)
+}
+
+/**
+ * Reconcile a single transaction against Midtrans
+ */
+async function reconcileTransaction(
+    req: PayloadRequest,
+    client: MidtransClient,
+    transaction: Transaction,
+    expireBefore: Date
+): Promise<ReconciliationResult> {
+    const result: ReconciliationResult = {
+        transactionId: transaction.id,
+        midtransOrderId: transaction.midtrans_order_id ?? null,
+        previousStatus: transaction.status,
+        status: transaction.status,
+        action: 'unchanged',
+    }
+
+    const isAbandoned = new Date(transaction.createdAt) < expireBefore
+
+    const expire = async () => {
+        if (!shouldApplyPaymentStatus(transaction.status, 'expire')) return
+        const updated = await req.payload.update({
+            collection: 'transactions',
+            id: transaction.id,
+            data: {
+                status: 'expire',
+                expired_at: new Date().toISOString(),
+            },
+            depth: 0,
+            overrideAccess: true,
+        })
+        result.status = updated.status
+        result.action = 'expired'
+    }
+
+    try {
+        // Snap token was never created
+        if (!transaction.midtrans_order_id) {
+            if (isAbandoned) await expire()
+            return result
+        }
+
+        let status
+        try {
+            status = await client.getTransactionStatus(transaction.midtrans_order_id)
+        } catch (statusError) {
+            if (isAbandoned && isTransactionNotFoundError(statusError)) {
+                await expire()
+                return result
+            }
+            throw statusError
+        }
+
+        // Still pending at Midtrans well past the payment window: expire it there too
+        if (status.transaction_status === 'pending' && isAbandoned) {
+            await client.expireTransaction(transaction.midtrans_order_id)
+            await expire()
+            return result
+        }
+
+        const update = buildMidtransTransactionUpdate(transaction, status)
+        let current = transaction
+        if (update) {
+            current = await req.payload.update({
+                collection: 'transactions',
+                id: transaction.id,
+                data: update,
+                depth: 0,
+                overrideAccess: true,
+            })
+            result.status = current.status
+            result.action = 'updated'
+        }
+
+        // Same as the webhook: settled payments end with exactly one order
+        if (isPaidPaymentStatus(current.status)) {
+            const { order, created } = await findOrCreateOrderForTransaction({ req, transaction: current })
+            if (created) result.orderId = order.id
+        }
+    } catch (error) {
+        result.action = 'failed'
+        result.error = error instanceof Error ? error.message : 'Unknown error'
+    }
+
+    return result
+}
+
+/**
+ * Check pending and challenged Midtrans transactions and write a reconciliation report
+ */
+export async function reconcileMidtransTransactions(
+    req: PayloadRequest,
+    client: MidtransClient,
+    options: ReconciliationOptions = {}
+): Promise<ReconciliationReport> {
+    const { minAgeMinutes = 15, expireAfterHours = 24, limit = 100 } = options
+    const startedAt = new Date()
+    const checkBefore = new Date(startedAt.getTime() - minAgeMinutes * 60 * 1000)
+    const expireBefore = new Date(startedAt.getTime() - expireAfterHours * 60 * 60 * 1000)
+
+    const transactions = await req.payload.find({
+        collection: 'transactions',
+        where: {
+            and: [
+                { status: { in: ['pending', 'challenge'] } },
+                { paymentMethod: { equals: 'midtrans' } },
+                { createdAt: { less_than: checkBefore.toISOString() } },
+            ],
+        },
+        sort: 'createdAt',
+        limit,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    const results: ReconciliationResult[] = []
+    for (const transaction of transactions.docs) {
+        results.push(await reconcileTransaction(req, client, transaction, expireBefore))
+    }
+
+    const count = (action: ReconciliationResult['action']) => results.filter((r) => r.action === action).length
+
+    const report = await req.payload.create({
+        collection: 'payment-reconciliations',
+        data: {
+            started_at: startedAt.toISOString(),
+            completed_at: new Date().toISOString(),
+            checked: results.length,
+            updated: count('updated'),
+            expired: count('expired'),
+            unchanged: count('unchanged'),
+            failed: count('failed'),
+            orders_created: results.filter((r) => r.orderId).length,
+            results: results as unknown as Record<string, unknown>[],
+        },
+        overrideAccess: true,
+    })
+
+    req.payload.logger.info(
+        `[Midtrans] Reconciliation checked ${report.checked} transactions: ${report.updated} updated, ${report.expired} expired, ${report.failed} failed`
+    )
+
+    return { ...report, results }
+}
+
+/**
+ * Jobs-queue task running the reconciliation every 15 minutes on the 'payments' queue
+ */
+export const reconcileMidtransTransactionsTask: TaskConfig<'reconcileMidtransTransactions'> = {
+    slug: 'reconcileMidtransTransactions',
+    label: 'Reconcile Midtrans Transactions',
+    schedule: [{ cron: '*/15 * * * *', queue: 'payments' }],
+    outputSchema: [
+        { name: 'reportId', type: 'text', required: true },
+    ],
+    handler: async ({ req }) => {
+        const client = createMidtransClient({
+            serverKey: process.env.MIDTRANS_SERVER_KEY!,
+            clientKey: process.env.MIDTRANS_CLIENT_KEY!,
+            isProduction: process.env.MIDTRANS_IS_PRODUCTION === 'true',
+        })
+
+        const report = await reconcileMidtransTransactions(req, client)
+
+        return { output: { reportId: report.id } }
+    },
+}
@@ -0,0 +1,102 @@
+/**
+ * Midtrans Transaction Helpers
+ *
+ * Maps Midtrans notifications onto the shared payment layer. Used by the
+ * webhook, confirmOrder, fraud review and the reconciliation job.
+ */
+
+import type { Transaction } from '@/payload-types'
+import type { PayloadRequest } from 'payload'
+import { buildTransactionStatusUpdate, findTransactionByPaymentReference } from '../shared/transactions'
+import type { PaymentStatusUpdate } from '../shared/types'
+import type { MidtransNotification } from './types'
+import { toPaymentTransactionStatus } from './types'
+
+/**
+ * Convert a Midtrans timestamp ("YYYY-MM-DD HH:mm:ss", Asia/Jakarta) to ISO
+ */
+export function parseMidtransTime(value?: string): string {
+    if (!value) return new Date().toISOString()
+    const parsed = new Date(`${value.replace(' ', 'T')}+07:00`)
+    return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString()
+}
+
+/**
+ * Find the Payload transaction for a Midtrans order ID
+ * Falls back to the legacy midtrans_order_id column and to the transaction ID
+ * embedded in the order ID (TXN-{transactionId}-{timestamp})
+ */
+export async function findTransactionByMidtransOrderId(
+    req: PayloadRequest,
+    midtransOrderId: string,
+    transactionsSlug = 'transactions'
+): Promise<Transaction | null> {
+    const byReference = await findTransactionByPaymentReference(req, midtransOrderId, transactionsSlug)
+    if (byReference) return byReference
+
+    const result = await req.payload.find({
+        collection: transactionsSlug as 'transactions',
+        where: { midtrans_order_id: { equals: midtransOrderId } },
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    if (result.docs[0]) return result.docs[0]
+
+    const txnIdMatch = midtransOrderId.match(/^TXN-(.+)-\d+$/)
+    if (!txnIdMatch?.[1]) return null
+
+    try {
+        return await req.payload.findByID({
+            collection: transactionsSlug as 'transactions',
+            id: txnIdMatch[1],
+            depth: 0,
+            overrideAccess: true,
+        })
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Normalize a Midtrans notification or status response for the shared layer
+ */
+export function toPaymentStatusUpdate(notification: MidtransNotification): PaymentStatusUpdate {
+    const { transaction_status, fraud_status } = notification
+    const status = toPaymentTransactionStatus(transaction_status, fraud_status)
+
+    return {
+        status,
+        providerTransactionId: notification.transaction_id,
+        paymentType: notification.payment_type,
+        fraudStatus: fraud_status,
+        paidAt: parseMidtransTime(notification.settlement_time || notification.transaction_time),
+        expiredAt: status === 'expire' ? parseMidtransTime(notification.expiry_time) : undefined,
+        // Cast to satisfy Record<string, unknown> constraint of generic JSON type
+        response: notification as unknown as Record<string, unknown>,
+    }
+}
+
+/**
+ * Build the transaction update for a Midtrans status, or null if the status is
+ * a duplicate or arrived out of order
+ *
+ * The midtrans_* columns are still written because the mobile app reads them.
+ */
+export function buildMidtransTransactionUpdate(
+    transaction: Transaction,
+    notification: MidtransNotification
+): Partial<Transaction> | null {
+    const update = buildTransactionStatusUpdate(transaction, toPaymentStatusUpdate(notification))
+    if (!update) return null
+
+    return {
+        ...update,
+        // Backfill for transactions created before payment_reference existed
+        ...(!transaction.payment_reference && { payment_reference: notification.order_id }),
+        midtrans_transaction_id: notification.transaction_id,
+        midtrans_payment_type: notification.payment_type,
+        midtrans_response: update.provider_response,
+    }
+}
@@ -4,6 +4,8 @@
  * TypeScript type definitions for Midtrans Snap API integration.
  */
 
+import type { PaymentTransactionStatus } from '../shared/types'
+
 /**
  * Midtrans adapter configuration
  */
@@ -16,6 +18,8 @@ export interface MidtransAdapterConfig {
     isProduction?: boolean
     /** Custom label for the payment method */
     label?: string
+    /** Snap payment window in minutes; stock is reserved for the same time (default 60) */
+    paymentWindowMinutes?: number
 }
 
 /**
@@ -128,6 +132,7 @@ export interface MidtransNotification {
     status_code: string
     signature_key: string
     settlement_time?: string
+    expiry_time?: string
     payment_type: string
     order_id: string
     merchant_id: string
@@ -149,6 +154,35 @@ export interface MidtransNotification {
     bank?: string
 }
 
+/**
+ * Core API refund request parameters
+ */
+export interface MidtransRefundParams {
+    /** Merchant-generated key, makes retried refund requests idempotent */
+    refund_key: string
+    /** Amount to refund (full remaining amount if omitted) */
+    amount?: number
+    reason?: string
+}
+
+/**
+ * Core API refund response
+ */
+export interface MidtransRefundResponse {
+    status_code: string
+    status_message: string
+    transaction_id: string
+    order_id: string
+    gross_amount: string
+    currency: string
+    payment_type: string
+    transaction_time: string
+    transaction_status: MidtransTransactionStatus
+    refund_chargeback_id?: number
+    refund_amount: string
+    refund_key: string
+}
+
 /**
  * Payment status mapping for internal use
  */
@@ -167,11 +201,26 @@ export const MIDTRANS_STATUS_MAP: Record<MidtransTransactionStatus, string> = {
 
 /**
  * Determine if transaction is considered successful
+ * A card capture only counts once the fraud detection system has accepted it
  */
-export function isSuccessfulTransaction(status: MidtransTransactionStatus): boolean {
+export function isSuccessfulTransaction(
+    status: MidtransTransactionStatus,
+    fraudStatus?: MidtransFraudStatus
+): boolean {
+    if (status === 'capture' && fraudStatus && fraudStatus !== 'accept') return false
     return ['capture', 'settlement'].includes(status)
 }
 
+/**
+ * Determine if a capture was flagged by fraud detection and awaits merchant review
+ */
+export function isChallengedTransaction(
+    status: MidtransTransactionStatus,
+    fraudStatus?: MidtransFraudStatus
+): boolean {
+    return status === 'capture' && fraudStatus === 'challenge'
+}
+
 /**
  * Determine if transaction is pending
  */
@@ -185,3 +234,23 @@ export function isPendingTransaction(status: MidtransTransactionStatus): boolean
 export function isFailedTransaction(status: MidtransTransactionStatus): boolean {
     return ['deny', 'cancel', 'expire', 'failure'].includes(status)
 }
+
+/**
+ * Determine if transaction has been fully or partially refunded
+ */
+export function isRefundedTransaction(status: MidtransTransactionStatus): boolean {
+    return ['refund', 'partial_refund'].includes(status)
+}
+
+/**
+ * Map a Midtrans status onto the Transactions status select
+ * Challenged captures are held for review; fraud-denied captures are denied
+ */
+export function toPaymentTransactionStatus(
+    status: MidtransTransactionStatus,
+    fraudStatus?: MidtransFraudStatus
+): PaymentTransactionStatus {
+    if (isChallengedTransaction(status, fraudStatus)) return 'challenge'
+    if (status === 'capture' && fraudStatus === 'deny') return 'deny'
+    return status === 'authorize' ? 'pending' : status
+}
@@ -0,0 +1,16 @@
+/**
+ * Shared Payment Gateway Layer
+ *
+ * Barrel export for provider-agnostic payment helpers.
+ */
+
+export { isPaidPaymentStatus, shouldApplyPaymentStatus } from './status'
+export {
+    buildTransactionStatusUpdate,
+    createPendingTransaction,
+    findOrCreateOrderForTransaction,
+    findTransactionByPaymentReference,
+    lockPaymentRow,
+} from './transactions'
+export type { PaymentItemDetail } from './transactions'
+export type { PaymentStatusUpdate, PaymentTransactionStatus } from './types'
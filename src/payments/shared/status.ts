@@ -0,0 +1,39 @@
+/**
+ * Payment Status Rules
+ *
+ * Provider notifications can arrive duplicated or out of order, so a status is
+ * only applied when it ranks above the stored one.
+ */
+
+import type { PaymentTransactionStatus } from './types'
+
+const PAYMENT_STATUS_PRECEDENCE: Record<PaymentTransactionStatus, number> = {
+    pending: 0,
+    challenge: 1,
+    deny: 2,
+    cancel: 2,
+    expire: 2,
+    failure: 2,
+    capture: 3,
+    settlement: 4,
+    partial_refund: 5,
+    refund: 6,
+}
+
+/**
+ * Determine if an incoming status should replace the stored transaction status
+ */
+export function shouldApplyPaymentStatus(
+    current: PaymentTransactionStatus | null | undefined,
+    incoming: PaymentTransactionStatus
+): boolean {
+    return PAYMENT_STATUS_PRECEDENCE[incoming] > PAYMENT_STATUS_PRECEDENCE[current ?? 'pending']
+}
+
+/**
+ * Determine if a transaction status means the customer has paid
+ * Paid transactions always end with exactly one order
+ */
+export function isPaidPaymentStatus(status: PaymentTransactionStatus | null | undefined): boolean {
+    return status === 'settlement' || status === 'capture'
+}
@@ -0,0 +1,394 @@
+/**
+ * Shared Payment Transaction Helpers
+ *
+ * Used by every payment adapter (webhooks, confirmOrder, admin reviews and
+ * reconciliation) so all providers create transactions the same way, apply
+ * the same status rules and create at most one order per payment.
+ */
+
+import type { Order, Product, Transaction } from '@/payload-types'
+import { calculateOrderItemsTotal } from '@/utilities/orderProcessing'
+import { loadItemVariants, resolveVariantPricing } from '@/utilities/productVariants'
+import { checkPurchaseLimits, PurchaseLimitError } from '@/utilities/purchaseLimits'
+import { reserveStockForTransaction } from '@/utilities/stockReservations'
+import type { PaymentAdapter } from '@payloadcms/plugin-ecommerce/types'
+import { sql } from '@payloadcms/db-postgres'
+import type { PayloadRequest } from 'payload'
+import { commitTransaction, initTransaction, killTransaction } from 'payload'
+import { isPaidPaymentStatus, shouldApplyPaymentStatus } from './status'
+import type { PaymentStatusUpdate } from './types'
+
+/**
+ * Line item derived from a cart, in the shape gateways expect
+ */
+export interface PaymentItemDetail {
+    id: string
+    name: string
+    price: number
+    quantity: number
+}
+
+type CheckoutData = Parameters<PaymentAdapter['initiatePayment']>[0]['data']
+
+/**
+ * Create the pending transaction for a checkout and reserve its stock
+ * Gateways call this from initiatePayment before contacting the provider.
+ * `holdMinutes` should match the provider's payment window; if stock is short
+ * the transaction is removed and InsufficientStockError is thrown.
+ * Throws PurchaseLimitError before anything is created if the cart exceeds a
+ * product or category purchase limit.
+ */
+export async function createPendingTransaction({
+    req,
+    transactionsSlug = 'transactions',
+    paymentMethod,
+    cart,
+    currency,
+    billingAddress,
+    holdMinutes,
+}: {
+    req: PayloadRequest
+    transactionsSlug?: string
+    paymentMethod: string
+    cart: CheckoutData['cart']
+    currency: CheckoutData['currency']
+    billingAddress?: CheckoutData['billingAddress']
+    holdMinutes: number
+}): Promise<{ transaction: Transaction; itemDetails: PaymentItemDetail[]; grossAmount: number }> {
+    // Cart items may hold product IDs only; load those products for their price
+    const unpopulatedIds = (cart.items || [])
+        .filter((item) => typeof item.product !== 'object')
+        .map((item) => item.product as string)
+    const loadedProducts = unpopulatedIds.length > 0
+        ? (await req.payload.find({
+            collection: 'products',
+            where: { id: { in: unpopulatedIds } },
+            pagination: false,
+            depth: 0,
+            req,
+            overrideAccess: true,
+        })).docs
+        : []
+
+    // Pack-size variants carry their own price and stock factor
+    const variants = await loadItemVariants(req.payload, cart.items || [], req)
+
+    // Build item details from cart
+    const lines = cart.items?.map((item) => {
+        const product = typeof item.product === 'object'
+            ? item.product
+            : loadedProducts.find((loaded) => loaded.id === item.product) ?? null
+        const variantId = typeof item.variant === 'object' ? item.variant?.id : item.variant
+        const variant = variantId ? variants.get(String(variantId)) ?? null : null
+        const { name, price, unitsPerPack } = resolveVariantPricing(product as Product | null, variant)
+
+        return {
+            detail: {
+                id: String(product ? product.id : item.product),
+                name,
+                price,
+                quantity: item.quantity || 1,
+            },
+            variant: variant?.id,
+            unitsPerPack,
+        }
+    }) || []
+    const itemDetails: PaymentItemDetail[] = lines.map((line) => line.detail)
+
+    // Charge exactly the sum of the line prices so gateways and orders agree
+    const grossAmount = itemDetails.reduce((sum, item) => sum + (item.price * item.quantity), 0)
+
+    const limitViolations = await checkPurchaseLimits(req.payload, {
+        items: lines.map((line) => ({
+            productId: line.detail.id,
+            quantity: line.detail.quantity,
+            unitsPerPack: line.unitsPerPack,
+        })),
+        customerId: typeof cart.customer === 'object' ? cart.customer?.id : cart.customer,
+        req,
+    })
+    if (limitViolations.length > 0) {
+        throw new PurchaseLimitError(limitViolations)
+    }
+
+    const transaction = await req.payload.create({
+        collection: transactionsSlug as 'transactions',
+        data: {
+            customer: cart.customer,
+            paymentMethod,
+            status: 'pending',
+            // Snapshot the unit price of every line at checkout
+            items: lines.map((line) => ({
+                product: line.detail.id,
+                variant: line.variant,
+                quantity: line.detail.quantity,
+                price: line.detail.price,
+                units_per_pack: line.unitsPerPack,
+            })),
+            currency: currency as 'USD',
+            amount: grossAmount,
+            billingAddress,
+            // valid Transaction does not have shippingAddress in types
+        },
+        req,
+    })
+
+    try {
+        await reserveStockForTransaction({
+            req,
+            transaction,
+            expiresAt: new Date(Date.now() + holdMinutes * 60 * 1000),
+        })
+    } catch (reservationError) {
+        await req.payload.delete({
+            collection: transactionsSlug as 'transactions',
+            id: transaction.id,
+            req,
+            overrideAccess: true,
+        })
+        throw reservationError
+    }
+
+    return { transaction, itemDetails, grossAmount }
+}
+
+/**
+ * Find a transaction by its provider reference (Midtrans order_id, Xendit external_id)
+ */
+export async function findTransactionByPaymentReference(
+    req: PayloadRequest,
+    reference: string,
+    transactionsSlug = 'transactions'
+): Promise<Transaction | null> {
+    const result = await req.payload.find({
+        collection: transactionsSlug as 'transactions',
+        where: { payment_reference: { equals: reference } },
+        limit: 1,
+        depth: 0,
+        req,
+        overrideAccess: true,
+    })
+
+    return result.docs[0] ?? null
+}
+
+/**
+ * Build the transaction update for a normalized provider status, or null if the
+ * status is a duplicate or arrived out of order. Sets paid_at/expired_at the
+ * first time the payment is paid or expires.
+ */
+export function buildTransactionStatusUpdate(
+    transaction: Transaction,
+    update: PaymentStatusUpdate
+): Partial<Transaction> | null {
+    if (!shouldApplyPaymentStatus(transaction.status, update.status)) {
+        return null
+    }
+
+    return {
+        status: update.status,
+        ...(update.providerTransactionId && { provider_transaction_id: update.providerTransactionId }),
+        ...(update.paymentType && { provider_payment_type: update.paymentType }),
+        ...(update.fraudStatus && { fraud_status: update.fraudStatus }),
+        provider_response: update.response,
+        ...(isPaidPaymentStatus(update.status) && !transaction.paid_at && {
+            paid_at: update.paidAt || new Date().toISOString(),
+        }),
+        ...(update.status === 'expire' && !transaction.expired_at && {
+            expired_at: update.expiredAt || new Date().toISOString(),
+        }),
+    }
+}
+
+/**
+ * Order lines for a transaction, priced from the checkout snapshot
+ * Transactions created before price snapshots existed fall back to the
+ * product's current price.
+ */
+async function snapshotOrderItems(
+    req: PayloadRequest,
+    transaction: Transaction
+): Promise<Array<{ product: string; variant?: string | null; price: number; quantity: number; units_per_pack: number }>> {
+    const items = transaction.items || []
+
+    const missingPriceIds = items
+        .filter((item) => item.price == null)
+        .map((item) => (typeof item.product === 'object' ? item.product.id : item.product))
+    const products = missingPriceIds.length > 0
+        ? (await req.payload.find({
+            collection: 'products',
+            where: { id: { in: missingPriceIds } },
+            pagination: false,
+            depth: 0,
+            req,
+            overrideAccess: true,
+        })).docs
+        : []
+
+    return items.map((item) => {
+        const productId = typeof item.product === 'object' ? item.product.id : item.product
+        const price = item.price ?? products.find((product) => product.id === productId)?.price ?? 0
+
+        return {
+            product: productId,
+            variant: typeof item.variant === 'object' ? item.variant?.id : item.variant,
+            price: Math.round(price),
+            quantity: item.quantity,
+            units_per_pack: item.units_per_pack || 1,
+        }
+    })
+}
+
+/**
+ * Lock a payment row until the request's transaction ends
+ * Callers that act on a payment once (creating its order, refunding it) take
+ * this lock first, so concurrent webhooks, confirmations and admin actions on
+ * the same payment run one at a time.
+ */
+export async function lockPaymentRow(req: PayloadRequest, transactionId: string | number): Promise<void> {
+    const { db } = req.payload
+    const session = req.transactionID ? db.sessions?.[await req.transactionID]?.db : undefined
+    const drizzle = (session as typeof db.drizzle | undefined) ?? db.drizzle
+
+    await drizzle.execute(sql`SELECT id FROM payments WHERE id = ${transactionId} FOR UPDATE`)
+}
+
+/**
+ * Find the order created for a paid transaction, creating it on first call
+ *
+ * Orders are keyed by the unique `payment_reference`, so webhooks, confirmOrder
+ * and admin actions may all call this for the same payment (in any order, any
+ * number of times) and exactly one order is created: the payment row is locked
+ * before the existing order is looked up, so concurrent callers take turns.
+ * Runs inside the caller's transaction when `req` carries one (e.g. from a
+ * collection hook), else in its own.
+ * An order whose lines do not add up to the paid amount is flagged with
+ * `has_payment_mismatch` and cannot be processed until an admin clears it.
+ */
+export async function findOrCreateOrderForTransaction({
+    req,
+    transaction,
+    ordersSlug = 'orders',
+    transactionsSlug = 'transactions',
+    cartsSlug = 'carts',
+}: {
+    req: PayloadRequest
+    transaction: Transaction
+    ordersSlug?: string
+    transactionsSlug?: string
+    cartsSlug?: string
+}): Promise<{ order: Order; created: boolean }> {
+    const paymentReference = transaction.payment_reference
+    if (!paymentReference) {
+        throw new Error(`Transaction ${transaction.id} has no payment reference`)
+    }
+
+    const findExistingOrder = async (): Promise<Order | null> => {
+        const existing = await req.payload.find({
+            collection: ordersSlug as 'orders',
+            where: { payment_reference: { equals: paymentReference } },
+            limit: 1,
+            depth: 0,
+            req,
+            overrideAccess: true,
+        })
+        return existing.docs[0] ?? null
+    }
+
+    const customerId = typeof transaction.customer === 'object' ? transaction.customer?.id : transaction.customer
+
+    let order: Order | null = null
+    let created = false
+    const shouldCommit = await initTransaction(req)
+
+    try {
+        await lockPaymentRow(req, transaction.id)
+
+        order = await findExistingOrder()
+
+        if (!order) {
+            const items = await snapshotOrderItems(req, transaction)
+            const totalAmount = calculateOrderItemsTotal(items)
+
+            // The order total must match what the gateway settled; a mismatched
+            // order is still created (the customer has paid) but held for review
+            const hasPaymentMismatch = totalAmount !== transaction.amount
+            if (hasPaymentMismatch) {
+                req.payload.logger.error(
+                    `[Payments] Transaction ${transaction.id}: order lines total ${totalAmount} does not match paid amount ${transaction.amount}, order flagged for review`
+                )
+            }
+
+            const billing = transaction.billingAddress
+            const shippingName = billing ? `${billing.firstName || ''} ${billing.lastName || ''}`.trim() : 'Unknown'
+            const shippingAddress = billing ? `${billing.addressLine1 || ''} ${billing.city || ''} ${billing.postalCode || ''}`.trim() : 'Unknown'
+            const shippingPhone = billing?.phone || ''
+
+            order = await req.payload.create({
+                collection: ordersSlug as 'orders',
+                data: {
+                    orderedBy: customerId || '',
+                    items,
+                    totalAmount,
+                    shipping_name: shippingName || 'Customer',
+                    shipping_address: shippingAddress || 'Address not provided',
+                    shipping_phone: shippingPhone || '0000000000',
+                    payment_reference: paymentReference,
+                    paid_amount: transaction.amount,
+                    has_payment_mismatch: hasPaymentMismatch,
+                    status: 'paid',
+                },
+                req,
+            })
+            created = true
+        }
+
+        // Link the payment to its order so refunds can reach it
+        const linkedOrderId = typeof transaction.order === 'object' ? transaction.order?.id : transaction.order
+        if (linkedOrderId !== order.id) {
+            await req.payload.update({
+                collection: transactionsSlug as 'transactions',
+                id: transaction.id,
+                data: {
+                    order: order.id,
+                },
+                req,
+                overrideAccess: true,
+            })
+        }
+
+        if (shouldCommit) await commitTransaction(req)
+    } catch (error) {
+        if (shouldCommit) await killTransaction(req)
+        throw error
+    }
+
+    // Clear the customer's cart once, when the order is first created. Runs
+    // without `req`: a failed cart write must not roll back the order.
+    if (created && customerId) {
+        try {
+            const carts = await req.payload.find({
+                collection: cartsSlug as 'carts',
+                where: {
+                    customer: { equals: customerId },
+                },
+                limit: 1,
+            })
+
+            if (carts.docs.length > 0) {
+                await req.payload.update({
+                    collection: cartsSlug as 'carts',
+                    id: carts.docs[0].id,
+                    data: {
+                        items: [],
+                        subtotal: 0,
+                    },
+                })
+            }
+        } catch (cartError) {
+            req.payload.logger.warn(`[Payments] Failed to clear cart: ${cartError}`)
+        }
+    }
+
+    return { order, created }
+}
@@ -0,0 +1,41 @@
+/**
+ * Shared Payment Gateway Types
+ *
+ * Provider-agnostic types used by every PaymentAdapter. Each gateway maps its
+ * own status values onto `PaymentTransactionStatus` so the Transactions
+ * collection, orders and reports never depend on a specific provider.
+ */
+
+/**
+ * Statuses stored on the Transactions collection
+ */
+export type PaymentTransactionStatus =
+    | 'pending'
+    | 'challenge'
+    | 'settlement'
+    | 'capture'
+    | 'deny'
+    | 'cancel'
+    | 'expire'
+    | 'failure'
+    | 'refund'
+    | 'partial_refund'
+
+/**
+ * A provider status normalized for the Transactions collection
+ */
+export interface PaymentStatusUpdate {
+    status: PaymentTransactionStatus
+    /** Provider-side ID of the payment (Midtrans transaction_id, Xendit invoice id) */
+    providerTransactionId?: string
+    /** Channel used to pay (bank_transfer, gopay, EWALLET, ...) */
+    paymentType?: string
+    /** Fraud detection result, for providers that report one */
+    fraudStatus?: 'accept' | 'challenge' | 'deny'
+    /** Time the provider reports the payment as paid (ISO) */
+    paidAt?: string
+    /** Time the provider reports the payment as expired (ISO) */
+    expiredAt?: string
+    /** Raw provider payload, stored for auditing */
+    response: Record<string, unknown>
+}
@@ -0,0 +1,295 @@
+/**
+ * Xendit Payment Adapter for Payload E-commerce Plugin
+ * 
+ * Payment adapter implementing the Xendit Invoice API (hosted checkout page
+ * supporting VA, e-wallets, QRIS, retail outlets and cards). Built on the
+ * shared gateway layer so it creates orders exactly like the Midtrans adapter.
+ */
+
+import type { PaymentAdapter } from '@payloadcms/plugin-ecommerce/types'
+import type { Endpoint, GroupField } from 'payload'
+import { isPaidPaymentStatus } from '../shared/status'
+import {
+    buildTransactionStatusUpdate,
+    createPendingTransaction,
+    findOrCreateOrderForTransaction,
+    findTransactionByPaymentReference,
+} from '../shared/transactions'
+import type { PaymentStatusUpdate } from '../shared/types'
+import { createXenditClient } from './client'
+import type { XenditAdapterConfig, XenditInvoice, XenditInvoiceCallback } from './types'
+import { XENDIT_STATUS_MAP } from './types'
+
+/**
+ * Normalize a Xendit invoice or callback for the shared layer
+ */
+function toPaymentStatusUpdate(invoice: XenditInvoice | XenditInvoiceCallback): PaymentStatusUpdate {
+    return {
+        status: XENDIT_STATUS_MAP[invoice.status] ?? 'pending',
+        providerTransactionId: invoice.id,
+        paymentType: invoice.payment_channel || invoice.payment_method,
+        paidAt: invoice.paid_at,
+        expiredAt: invoice.status === 'EXPIRED' ? invoice.updated : undefined,
+        response: invoice as unknown as Record<string, unknown>,
+    }
+}
+
+/**
+ * Create Xendit payment adapter for Payload e-commerce plugin
+ * 
+ * @param config - Xendit configuration
+ * @returns PaymentAdapter object compatible with @payloadcms/plugin-ecommerce
+ */
+export function xenditAdapter(config: XenditAdapterConfig): PaymentAdapter {
+    const { secretKey, callbackToken, invoiceDuration = 24 * 60 * 60, label = 'Xendit' } = config
+
+    // Validate required config
+    if (!secretKey) {
+        throw new Error('Xendit adapter requires secretKey')
+    }
+    if (!callbackToken) {
+        throw new Error('Xendit adapter requires callbackToken')
+    }
+
+    const client = createXenditClient({ secretKey, callbackToken })
+
+    /**
+     * Group field configuration (virtual, not stored in DB)
+     * Required by PaymentAdapter interface
+     */
+    const group: GroupField = {
+        name: 'xendit_meta',
+        type: 'group',
+        virtual: true,
+        fields: [],
+        admin: {
+            hidden: true,
+        },
+    }
+
+    /**
+     * Webhook endpoint for Xendit invoice callbacks
+     * POST /api/payments/xendit/webhook
+     */
+    const webhookEndpoint: Endpoint = {
+        path: '/webhook',
+        method: 'post',
+        handler: async (req) => {
+            try {
+                if (!client.verifyCallbackToken(req.headers.get('x-callback-token'))) {
+                    req.payload.logger.error('[Xendit] Invalid callback token')
+                    return Response.json(
+                        { error: 'Invalid callback token' },
+                        { status: 401 }
+                    )
+                }
+
+                const callback = (await req.json?.() ?? {}) as XenditInvoiceCallback
+
+                req.payload.logger.info(`[Xendit] Webhook received: external_id=${callback.external_id}, status=${callback.status}`)
+
+                const transaction = await findTransactionByPaymentReference(req, callback.external_id)
+                if (!transaction) {
+                    // Acknowledge so Xendit stops retrying callbacks we can never match
+                    req.payload.logger.warn(`[Xendit] No transaction found for external ID: ${callback.external_id}`)
+                    return Response.json({ success: true, ignored: true })
+                }
+
+                let current = transaction
+                const update = buildTransactionStatusUpdate(transaction, toPaymentStatusUpdate(callback))
+                if (update) {
+                    current = await req.payload.update({
+                        collection: 'transactions',
+                        id: transaction.id,
+                        data: update,
+                        overrideAccess: true,
+                    })
+                    req.payload.logger.info(`[Xendit] Transaction updated: ${transaction.id}, status=${current.status}`)
+                }
+
+                // Paid invoices always end with exactly one order. Errors propagate
+                // as 500 so Xendit retries the callback.
+                let orderId: string | null = null
+                if (isPaidPaymentStatus(current.status)) {
+                    const { order } = await findOrCreateOrderForTransaction({ req, transaction: current })
+                    orderId = order.id
+                }
+
+                return Response.json({ success: true, status: current.status, applied: Boolean(update), orderId })
+            } catch (error) {
+                req.payload.logger.error(`[Xendit] Webhook error: ${error}`)
+                return Response.json(
+                    { error: 'Internal server error' },
+                    { status: 500 }
+                )
+            }
+        },
+    }
+
+    return {
+        /**
+         * Unique name identifier for this payment method
+         */
+        name: 'xendit',
+
+        /**
+         * Human-readable label
+         */
+        label,
+
+        /**
+         * Group field configuration
+         */
+        group,
+
+        /**
+         * Custom endpoints for this payment method
+         */
+        endpoints: [webhookEndpoint],
+
+        /**
+         * Initiate payment - creates a Xendit invoice for checkout
+         */
+        initiatePayment: async ({ data, req, transactionsSlug }) => {
+            const { cart, currency, customerEmail, billingAddress } = data
+
+            const { transaction, itemDetails, grossAmount } = await createPendingTransaction({
+                req,
+                transactionsSlug,
+                paymentMethod: 'xendit',
+                cart,
+                currency,
+                billingAddress,
+                holdMinutes: Math.ceil(invoiceDuration / 60),
+            })
+
+            // External ID includes Payload transaction ID for webhook correlation
+            const externalId = `XND-${transaction.id}-${Date.now()}`
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const billing = billingAddress as any
+
+            try {
+                const invoice = await client.createInvoice({
+                    external_id: externalId,
+                    amount: Math.round(grossAmount),
+                    currency: 'IDR',
+                    description: `Order payment ${transaction.id}`,
+                    payer_email: customerEmail || undefined,
+                    invoice_duration: invoiceDuration,
+                    items: itemDetails.map((item) => ({
+                        name: item.name,
+                        quantity: item.quantity,
+                        price: item.price,
+                        reference_id: item.id,
+                    })),
+                    customer: {
+                        given_names: billing?.firstName || undefined,
+                        surname: billing?.lastName || undefined,
+                        email: customerEmail || undefined,
+                        mobile_number: billing?.phone || undefined,
+                    },
+                    success_redirect_url: `${process.env.NEXT_PUBLIC_SERVER_URL || ''}/checkout/success?transaction_id=${transaction.id}`,
+                    failure_redirect_url: `${process.env.NEXT_PUBLIC_SERVER_URL || ''}/checkout/error?transaction_id=${transaction.id}`,
+                })
+
+                await req.payload.update({
+                    collection: transactionsSlug as 'transactions',
+                    id: transaction.id,
+                    data: {
+                        payment_reference: externalId,
+                        provider_transaction_id: invoice.id,
+                        provider_response: {
+                            invoice_url: invoice.invoice_url,
+                            expiry_date: invoice.expiry_date,
+                        },
+                    },
+                })
+
+                req.payload.logger.info(`[Xendit] Payment initiated for transaction ${transaction.id}: externalId=${externalId}, invoiceId=${invoice.id}`)
+
+                return {
+                    message: 'Payment initiated successfully',
+                    transactionId: transaction.id,
+                    invoiceUrl: invoice.invoice_url,
+                    expiresAt: invoice.expiry_date,
+                    externalId,
+                }
+            } catch (error) {
+                req.payload.logger.error(`[Xendit] Payment initiation error: ${error}`)
+
+                // Delete the pending transaction
+                await req.payload.delete({
+                    collection: transactionsSlug as 'transactions',
+                    id: transaction.id,
+                })
+
+                throw new Error(`Failed to initiate Xendit payment: ${error instanceof Error ? error.message : 'Unknown error'}`)
+            }
+        },
+
+        /**
+         * Confirm order - returns the order for a paid invoice, creating it if
+         * the webhook has not arrived yet
+         */
+        confirmOrder: async ({ data, ordersSlug, req, transactionsSlug, cartsSlug }) => {
+            const transactionId = data.transactionId as string
+            if (!transactionId) {
+                throw new Error('Transaction ID is required to confirm order')
+            }
+
+            const transaction = await req.payload.findByID({
+                collection: (transactionsSlug || 'transactions') as 'transactions',
+                id: transactionId,
+                depth: 0,
+            })
+
+            if (!transaction.provider_transaction_id) {
+                throw new Error('Transaction has no Xendit invoice')
+            }
+
+            let current = transaction
+            try {
+                const invoice = await client.getInvoice(transaction.provider_transaction_id)
+                const statusUpdate = toPaymentStatusUpdate(invoice)
+
+                if (!isPaidPaymentStatus(statusUpdate.status)) {
+                    throw new Error(`Payment not successful. Status: ${invoice.status}`)
+                }
+
+                // No-op if the webhook got there first
+                const update = buildTransactionStatusUpdate(transaction, statusUpdate)
+                if (update) {
+                    current = await req.payload.update({
+                        collection: (transactionsSlug || 'transactions') as 'transactions',
+                        id: transactionId,
+                        data: update,
+                        depth: 0,
+                    })
+                }
+            } catch (statusError) {
+                req.payload.logger.error(`[Xendit] Failed to verify payment status: ${statusError}`)
+                throw new Error('Failed to verify payment status with Xendit')
+            }
+
+            const { order } = await findOrCreateOrderForTransaction({
+                req,
+                transaction: current,
+                ordersSlug,
+                transactionsSlug,
+                cartsSlug,
+            })
+
+            req.payload.logger.info(`[Xendit] Order confirmed: orderId=${order.id}, transactionId=${transactionId}`)
+
+            return {
+                message: 'Order confirmed',
+                orderID: String(order.id),
+                transactionID: String(transactionId)
+            }
+        },
+    }
+}
+
+// Export types for external use
+export type { XenditAdapterConfig, XenditInvoiceCallback } from './types'
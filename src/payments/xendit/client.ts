@@ -0,0 +1,123 @@
+/**
+ * Xendit API Client
+ * 
+ * Minimal wrapper for the Xendit Invoice API (no official SDK dependency).
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import type {
+    XenditAdapterConfig,
+    XenditCreateInvoiceParams,
+    XenditInvoice,
+} from './types'
+
+const XENDIT_API_URL = 'https://api.xendit.co'
+
+/**
+ * Xendit client instance for the Invoice API
+ */
+export class XenditClient {
+    private authHeader: string
+    private callbackToken: string
+
+    constructor(config: Pick<XenditAdapterConfig, 'secretKey' | 'callbackToken'>) {
+        const { secretKey, callbackToken } = config
+
+        // Basic auth with the secret key as username and an empty password
+        this.authHeader = `Basic ${Buffer.from(`${secretKey}:`).toString('base64')}`
+        this.callbackToken = callbackToken
+    }
+
+    /**
+     * Send a request to the Xendit API
+     */
+    private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+        const response = await fetch(`${XENDIT_API_URL}${path}`, {
+            ...init,
+            headers: {
+                Authorization: this.authHeader,
+                'Content-Type': 'application/json',
+                ...init.headers,
+            },
+        })
+
+        const body = await response.json().catch(() => ({}))
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${body.message || body.error_code || response.statusText}`)
+        }
+
+        return body as T
+    }
+
+    /**
+     * Create an invoice (hosted checkout page)
+     * 
+     * @param params - Invoice parameters
+     * @returns Promise with the created invoice
+     */
+    async createInvoice(params: XenditCreateInvoiceParams): Promise<XenditInvoice> {
+        try {
+            return await this.request<XenditInvoice>('/v2/invoices', {
+                method: 'POST',
+                body: JSON.stringify(params),
+            })
+        } catch (error) {
+            console.error('[Xendit] Failed to create invoice:', error)
+            throw new Error(`Xendit invoice creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+    }
+
+    /**
+     * Get an invoice by ID
+     * 
+     * @param invoiceId - Xendit invoice ID
+     * @returns Promise with the invoice
+     */
+    async getInvoice(invoiceId: string): Promise<XenditInvoice> {
+        try {
+            return await this.request<XenditInvoice>(`/v2/invoices/${encodeURIComponent(invoiceId)}`)
+        } catch (error) {
+            console.error('[Xendit] Failed to get invoice:', error)
+            throw new Error(`Xendit invoice lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+    }
+
+    /**
+     * Expire an unpaid invoice
+     * 
+     * @param invoiceId - Xendit invoice ID
+     * @returns Promise with the expired invoice
+     */
+    async expireInvoice(invoiceId: string): Promise<XenditInvoice> {
+        try {
+            return await this.request<XenditInvoice>(`/invoices/${encodeURIComponent(invoiceId)}/expire!`, {
+                method: 'POST',
+            })
+        } catch (error) {
+            console.error('[Xendit] Failed to expire invoice:', error)
+            throw new Error(`Xendit invoice expiration failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        }
+    }
+
+    /**
+     * Verify the x-callback-token header sent with webhook callbacks
+     * Compares SHA-256 digests in constant time, so neither the token's
+     * contents nor its length leak through timing.
+     * 
+     * @param token - Header value from the callback request
+     * @returns boolean indicating if the callback is from Xendit
+     */
+    verifyCallbackToken(token: string | null | undefined): boolean {
+        if (!token || !this.callbackToken) return false
+        const expected = createHash('sha256').update(this.callbackToken).digest()
+        const actual = createHash('sha256').update(token).digest()
+        return timingSafeEqual(new Uint8Array(expected), new Uint8Array(actual))
+    }
+}
+
+/**
+ * Create a new Xendit client instance
+ */
+export function createXenditClient(config: Pick<XenditAdapterConfig, 'secretKey' | 'callbackToken'>): XenditClient {
+    return new XenditClient(config)
+}
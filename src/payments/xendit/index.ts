@@ -0,0 +1,10 @@
+/**
+ * Xendit Payment Integration
+ * 
+ * Barrel export for Xendit payment adapter.
+ */
+
+export { xenditAdapter } from './adapter'
+export { XenditClient, createXenditClient } from './client'
+export { XENDIT_STATUS_MAP } from './types'
+export type { XenditAdapterConfig, XenditInvoice, XenditInvoiceCallback, XenditInvoiceStatus } from './types'
@@ -0,0 +1,111 @@
+/**
+ * Xendit Payment Adapter Types
+ * 
+ * TypeScript type definitions for the Xendit Invoice API integration.
+ */
+
+import type { PaymentTransactionStatus } from '../shared/types'
+
+/**
+ * Xendit adapter configuration
+ */
+export interface XenditAdapterConfig {
+    /** Xendit secret API key - used for server-side API calls */
+    secretKey: string
+    /** Callback verification token - sent by Xendit in the x-callback-token header */
+    callbackToken: string
+    /** Invoice expiry in seconds (default 24 hours) */
+    invoiceDuration?: number
+    /** Optional label for the payment method */
+    label?: string
+}
+
+/**
+ * Invoice status values
+ */
+export type XenditInvoiceStatus = 'PENDING' | 'PAID' | 'SETTLED' | 'EXPIRED'
+
+/**
+ * Invoice line item
+ */
+export interface XenditInvoiceItem {
+    name: string
+    quantity: number
+    price: number
+    reference_id?: string
+}
+
+/**
+ * Parameters for creating an invoice
+ */
+export interface XenditCreateInvoiceParams {
+    external_id: string
+    amount: number
+    currency?: 'IDR'
+    description?: string
+    payer_email?: string
+    invoice_duration?: number
+    items?: XenditInvoiceItem[]
+    customer?: {
+        given_names?: string
+        surname?: string
+        email?: string
+        mobile_number?: string
+    }
+    success_redirect_url?: string
+    failure_redirect_url?: string
+}
+
+/**
+ * Invoice resource returned by the Invoice API
+ */
+export interface XenditInvoice {
+    id: string
+    external_id: string
+    user_id?: string
+    status: XenditInvoiceStatus
+    merchant_name?: string
+    amount: number
+    paid_amount?: number
+    payer_email?: string
+    description?: string
+    invoice_url: string
+    expiry_date: string
+    currency: string
+    created: string
+    updated: string
+    paid_at?: string
+    payment_method?: string
+    payment_channel?: string
+}
+
+/**
+ * Invoice callback payload sent to the webhook
+ */
+export interface XenditInvoiceCallback {
+    id: string
+    external_id: string
+    user_id?: string
+    status: XenditInvoiceStatus
+    amount: number
+    paid_amount?: number
+    payer_email?: string
+    description?: string
+    currency?: string
+    created?: string
+    updated: string
+    paid_at?: string
+    payment_method?: string
+    payment_channel?: string
+    payment_destination?: string
+}
+
+/**
+ * Invoice status mapping onto the Transactions status select
+ */
+export const XENDIT_STATUS_MAP: Record<XenditInvoiceStatus, PaymentTransactionStatus> = {
+    PENDING: 'pending',
+    PAID: 'settlement',
+    SETTLED: 'settlement',
+    EXPIRED: 'expire',
+}
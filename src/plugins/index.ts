@@ -4,6 +4,8 @@ import { s3Storage } from '@payloadcms/storage-s3'
 import { Plugin } from 'payload'
 
 import { midtransAdapter } from '@/payments/midtrans'
+import { bankTransferAdapter } from '@/payments/bank-transfer'
+import { xenditAdapter } from '@/payments/xendit'
 
 import { adminOnlyFieldAccess } from '@/access/adminOnlyFieldAccess'
 import { fixPreferencesAccess } from '@/plugins/fixPreferencesAccess'
@@ -16,6 +18,7 @@ import { OrdersCollection } from '@/collections/Orders'
 import { ProductsCollection } from '@/collections/Products'
 import { TransactionsCollection } from '@/collections/Transactions'
 import { VariantOptionsCollectionOverride } from '@/collections/VariantOptions'
+import { VariantsCollectionOverride } from '@/collections/Variants'
 import { VariantTypesCollectionOverride } from '@/collections/VariantTypes'
 
 
@@ -42,6 +45,25 @@ export const plugins: Plugin[] = [
       forcePathStyle: true,
     },
   }),
+  // Private bucket for customer documents (prescriptions); files are only
+  // served through Payload, which applies the collection's read access
+  s3Storage({
+    enabled: Boolean(process.env.S3_ENDPOINT && process.env.S3_ACCESS_KEY_ID && process.env.S3_PRIVATE_BUCKET),
+    collections: {
+      'private-documents': true,
+    },
+    acl: 'private',
+    bucket: process.env.S3_PRIVATE_BUCKET || 'private-documents',
+    config: {
+      credentials: {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      },
+      region: process.env.S3_REGION || 'auto',
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: true,
+    },
+  }),
   ecommercePlugin({
     access: {
       adminOnlyFieldAccess,
@@ -60,6 +82,29 @@ export const plugins: Plugin[] = [
           clientKey: process.env.MIDTRANS_CLIENT_KEY!,
           isProduction: process.env.MIDTRANS_IS_PRODUCTION === 'true',
         }),
+        // Optional second gateway; checkout picks one via /api/payments/{midtrans|xendit|bank_transfer}/initiate
+        ...(process.env.XENDIT_SECRET_KEY
+          ? [
+              xenditAdapter({
+                secretKey: process.env.XENDIT_SECRET_KEY,
+                callbackToken: process.env.XENDIT_CALLBACK_TOKEN!,
+              }),
+            ]
+          : []),
+        // Manual bank transfer verified by admins from the proof of payment
+        ...(process.env.BANK_TRANSFER_ACCOUNT_NUMBER
+          ? [
+              bankTransferAdapter({
+                accounts: [
+                  {
+                    bank: process.env.BANK_TRANSFER_BANK_NAME || 'BCA',
+                    accountNumber: process.env.BANK_TRANSFER_ACCOUNT_NUMBER,
+                    accountName: process.env.BANK_TRANSFER_ACCOUNT_NAME || '',
+                  },
+                ],
+              }),
+            ]
+          : []),
       ],
     },
     transactions: {
@@ -70,6 +115,7 @@ export const plugins: Plugin[] = [
       variants: {
         variantOptionsCollectionOverride: VariantOptionsCollectionOverride,
         variantTypesCollectionOverride: VariantTypesCollectionOverride,
+        variantsCollectionOverride: VariantsCollectionOverride,
       },
     },
     orders: {
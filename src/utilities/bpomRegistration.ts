@@ -0,0 +1,152 @@
+/**
+ * BPOM Registration Numbers
+ *
+ * Parses Indonesian marketing authorization numbers (Nomor Izin Edar) issued
+ * by BPOM. Supported formats:
+ * - Drugs: [D|G][B|T|K|N|P][L|I|E|X] + 10 digits + letter + digit (DKL1234567890A1)
+ *   D = branded, G = generic; B/T/K = obat bebas/bebas terbatas/keras,
+ *   N/P = narkotika/psikotropika; L = local, I = import, E = export, X = special access
+ * - Traditional medicines: TR (local), TI (import), TL (license) + 9 digits
+ * - Health supplements: SD (local), SI (import), SL (license) + 9 digits
+ *
+ * Numbers are compared after stripping "POM"/"NIE", spaces and dashes.
+ */
+
+import type { Product } from '@/payload-types'
+import type { DrugClass } from './productAttributes'
+
+export const BPOM_CATEGORIES = ['branded_drug', 'generic_drug', 'traditional', 'supplement'] as const
+
+export type BpomCategory = (typeof BPOM_CATEGORIES)[number]
+
+export const BPOM_ORIGINS = ['local', 'import', 'license', 'export', 'special_access'] as const
+
+export type BpomOrigin = (typeof BPOM_ORIGINS)[number]
+
+export interface BpomRegistration {
+  /** Normalized number, e.g. DKL1234567890A1 */
+  number: string
+  prefix: string
+  category: BpomCategory
+  origin: BpomOrigin
+  /** Drug marking encoded in drug registrations (null for narkotika/psikotropika and non-drugs) */
+  drugClass: DrugClass | null
+  /** Narkotika or psikotropika registration */
+  controlledSubstance: boolean
+}
+
+export type BpomComplianceIssue = 'missing' | 'malformed' | 'drug_class_mismatch'
+
+const DRUG_PATTERN = /^([DG])([BTKNP])([LIEX])\d{10}[A-Z]\d$/
+const TRADITIONAL_PATTERN = /^(T[RIL])\d{9}$/
+const SUPPLEMENT_PATTERN = /^(S[DIL])\d{9}$/
+
+const ORIGIN_BY_LETTER: Record<string, BpomOrigin> = {
+  L: 'local',
+  I: 'import',
+  E: 'export',
+  X: 'special_access',
+}
+
+const SHORT_ORIGIN_BY_LETTER: Record<string, BpomOrigin> = {
+  R: 'local',
+  D: 'local',
+  I: 'import',
+  L: 'license',
+}
+
+const DRUG_CLASS_BY_LETTER: Record<string, DrugClass | null> = {
+  B: 'obat_bebas',
+  T: 'obat_bebas_terbatas',
+  K: 'obat_keras',
+  N: null,
+  P: null,
+}
+
+/**
+ * Strip "POM"/"NIE" labels, spaces and dashes and uppercase
+ */
+export function normalizeBpomRegistrationNumber(value: string): string {
+  return value
+    .toUpperCase()
+    .trim()
+    .replace(/^((NIE|POM)[\s.:]*)+/, '')
+    .replace(/[\s.-]/g, '')
+}
+
+/**
+ * Parse a registration number, or return null if it is malformed
+ */
+export function parseBpomRegistrationNumber(value: string): BpomRegistration | null {
+  const number = normalizeBpomRegistrationNumber(value)
+
+  const drug = DRUG_PATTERN.exec(number)
+  if (drug) {
+    const [, brand, marking, origin] = drug
+    return {
+      number,
+      prefix: `${brand}${marking}${origin}`,
+      category: brand === 'G' ? 'generic_drug' : 'branded_drug',
+      origin: ORIGIN_BY_LETTER[origin],
+      drugClass: DRUG_CLASS_BY_LETTER[marking],
+      controlledSubstance: marking === 'N' || marking === 'P',
+    }
+  }
+
+  const traditional = TRADITIONAL_PATTERN.exec(number)
+  if (traditional) {
+    return {
+      number,
+      prefix: traditional[1],
+      category: 'traditional',
+      origin: SHORT_ORIGIN_BY_LETTER[traditional[1][1]],
+      drugClass: null,
+      controlledSubstance: false,
+    }
+  }
+
+  const supplement = SUPPLEMENT_PATTERN.exec(number)
+  if (supplement) {
+    return {
+      number,
+      prefix: supplement[1],
+      category: 'supplement',
+      origin: SHORT_ORIGIN_BY_LETTER[supplement[1][1]],
+      drugClass: null,
+      controlledSubstance: false,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Medicines must carry a registration number before they can be published
+ */
+export function requiresBpomRegistration(
+  product: Pick<Product, 'drug_class' | 'requires_prescription' | 'generic_name'>
+): boolean {
+  return Boolean(product.drug_class || product.requires_prescription || product.generic_name)
+}
+
+/**
+ * Compliance problems with a product's registration, empty when compliant
+ */
+export function getBpomComplianceIssues(
+  product: Pick<Product, 'bpom_registration_number' | 'drug_class' | 'requires_prescription' | 'generic_name'>
+): BpomComplianceIssue[] {
+  if (!product.bpom_registration_number) {
+    return requiresBpomRegistration(product) ? ['missing'] : []
+  }
+
+  const registration = parseBpomRegistrationNumber(product.bpom_registration_number)
+  if (!registration) {
+    return ['malformed']
+  }
+
+  if (registration.drugClass && product.drug_class && registration.drugClass !== product.drug_class) {
+    return ['drug_class_mismatch']
+  }
+
+  return []
+}
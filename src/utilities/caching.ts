@@ -342,6 +342,7 @@ export const stockCaching = {
    */
   invalidateProduct: (productId: string): void => {
     stockCache.delete(`stock:${productId}`)
+    stockCache.invalidatePattern(`^stock-availability:${productId}:`)
   },
 
   /**
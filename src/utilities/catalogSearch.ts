@@ -0,0 +1,279 @@
+/**
+ * Catalog Search
+ *
+ * PostgreSQL full-text search over published products for the storefront:
+ * - tsvector over title, generic name, active ingredients, manufacturer,
+ *   description, search keywords (symptoms) and category name/synonyms
+ * - prefix matching on the 'simple' config plus Indonesian stemming, so
+ *   "obat batuk" and "batuknya" both reach "Obat Batuk Anak"
+ * - typo tolerance through pg_trgm word similarity on title and generic name
+ * - relevance ranking, pagination and per-category facet counts
+ *
+ * The search documents are generated tsvector columns (search_vector) on
+ * products, active ingredients and categories, with GIN indexes, and the
+ * trigram indexes cover lower(name) and lower(generic_name); all are declared
+ * in db/supabase-schema and created by migration, never at request time.
+ * Documents and queries normalize dosages the same way ("500mg" → "500 mg").
+ *
+ * Results are cached through queryCaching and invalidated when products or
+ * categories change.
+ */
+
+import type { Product } from '@/payload-types'
+import { sql } from '@payloadcms/db-postgres'
+import type { Payload } from 'payload'
+import { generateCacheKey, queryCaching } from './caching'
+
+export const CATALOG_SEARCH_MAX_LIMIT = 50
+
+/**
+ * Minimum pg_trgm word similarity for a typo match
+ */
+const TRIGRAM_THRESHOLD = 0.4
+
+const CACHE_PREFIX = 'catalog-search'
+
+export interface CatalogSearchParams {
+  query: string
+  categoryId?: string
+  page?: number
+  limit?: number
+}
+
+export interface CatalogSearchHit {
+  id: string
+  title: string
+  slug?: string | null
+  price: number
+  generic_name?: string | null
+  manufacturer?: string | null
+  dosage_form?: string | null
+  requires_prescription?: boolean | null
+  category?: string | null
+  rank: number
+}
+
+export interface CatalogSearchFacet {
+  categoryId: string
+  name: string
+  count: number
+}
+
+export interface CatalogSearchResult {
+  query: string
+  docs: CatalogSearchHit[]
+  totalDocs: number
+  page: number
+  limit: number
+  totalPages: number
+  facets: { categories: CatalogSearchFacet[] }
+}
+
+/**
+ * Normalize a search query for matching
+ * Lowercases, strips diacritics and punctuation, and splits dosages such as
+ * "500mg" into "500 mg" so they match however the product was entered.
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .slice(0, 100)
+}
+
+let trigramSupport: Promise<boolean> | null = null
+
+/**
+ * Check once per process whether the pg_trgm extension is installed
+ * Resolves false when it is missing; search then runs without typo tolerance.
+ */
+async function hasTrigramSupport(payload: Payload): Promise<boolean> {
+  if (!trigramSupport) {
+    trigramSupport = (async () => {
+      try {
+        const result = await payload.db.drizzle.execute(sql`SELECT 1 FROM pg_extension WHERE extname = 'pg_trgm'`)
+        if ((result.rows || []).length > 0) return true
+        payload.logger.warn('Catalog search: typo tolerance disabled, pg_trgm is not installed')
+      } catch (error) {
+        payload.logger.warn(`Catalog search: typo tolerance disabled: ${String(error)}`)
+      }
+      return false
+    })()
+  }
+  return trigramSupport
+}
+
+/**
+ * Search published products
+ */
+export async function searchCatalog(
+  payload: Payload,
+  params: CatalogSearchParams
+): Promise<CatalogSearchResult> {
+  const query = normalizeSearchQuery(params.query)
+  const page = Math.max(1, Math.floor(params.page || 1))
+  const limit = Math.min(CATALOG_SEARCH_MAX_LIMIT, Math.max(1, Math.floor(params.limit || 20)))
+  const categoryId = params.categoryId || null
+
+  const emptyResult: CatalogSearchResult = {
+    query,
+    docs: [],
+    totalDocs: 0,
+    page,
+    limit,
+    totalPages: 0,
+    facets: { categories: [] },
+  }
+  if (!query) return emptyResult
+
+  const cacheKey = generateCacheKey(CACHE_PREFIX, { query, categoryId, page, limit })
+
+  return queryCaching.getOrExecuteQuery(cacheKey, async () => {
+    const trigram = await hasTrigramSupport(payload)
+
+    // Every term as a prefix; terms are [a-z0-9] only after normalization
+    const prefixQuery = query.split(' ').map((term) => `${term}:*`).join(' & ')
+
+    // `<%` is word_similarity above pg_trgm.word_similarity_threshold and can
+    // use the trigram indexes, whose expressions these match exactly
+    const trigramCandidates = trigram
+      ? sql`
+        UNION
+        SELECT p.id FROM products p
+        WHERE ${query} <% lower(p.name) OR ${query} <% lower(p.generic_name)
+      `
+      : sql``
+
+    const similarity = trigram
+      ? sql`greatest(
+          word_similarity(${query}, lower(coalesce(p.name, ''))),
+          word_similarity(${query}, lower(coalesce(p.generic_name, '')))
+        )`
+      : sql`0`
+
+    // Candidates come from index lookups only; ranking touches just those rows
+    const matches = sql`
+      WITH search AS (
+        SELECT to_tsquery('simple', ${prefixQuery}) || plainto_tsquery('indonesian', ${query}) AS q
+      ),
+      candidates AS (
+        SELECT p.id FROM products p, search WHERE p.search_vector @@ search.q
+        UNION
+        SELECT i._parent_id FROM products_active_ingredients i, search WHERE i.search_vector @@ search.q
+        UNION
+        SELECT p.id FROM products p
+        JOIN categories c ON c.id = p.category_id, search
+        WHERE c.search_vector @@ search.q
+        ${trigramCandidates}
+      ),
+      ranked AS (
+        SELECT
+          p.id,
+          p.category_id,
+          c.name AS category_name,
+          ts_rank_cd(p.search_vector, search.q, 32)
+            + coalesce(ts_rank_cd(setweight(c.search_vector, 'B'), search.q, 32), 0)
+            + coalesce(ai.rank, 0)
+            + ${similarity} * 0.5 AS rank
+        FROM candidates
+        JOIN products p ON p.id = candidates.id
+        LEFT JOIN categories c ON c.id = p.category_id
+        CROSS JOIN search
+        LEFT JOIN LATERAL (
+          SELECT max(ts_rank_cd(setweight(i.search_vector, 'A'), search.q, 32)) AS rank
+          FROM products_active_ingredients i
+          WHERE i._parent_id = p.id
+        ) ai ON true
+        WHERE p.is_published = true
+      )
+    `
+
+    const { hitsResult, facetsResult } = await payload.db.drizzle.transaction(async (tx) => {
+      if (trigram) {
+        await tx.execute(sql`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(TRIGRAM_THRESHOLD)}, true)`)
+      }
+
+      const hits = await tx.execute(sql`
+        ${matches}
+        SELECT id, rank, count(*) OVER () AS total
+        FROM ranked
+        WHERE ${categoryId}::uuid IS NULL OR category_id = ${categoryId}::uuid
+        ORDER BY rank DESC, id
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      `)
+
+      // Facets ignore the category filter so the app can switch categories
+      const facets = await tx.execute(sql`
+        ${matches}
+        SELECT category_id, category_name, count(*) AS count
+        FROM ranked
+        WHERE category_id IS NOT NULL
+        GROUP BY category_id, category_name
+        ORDER BY count DESC, category_name
+      `)
+
+      return { hitsResult: hits, facetsResult: facets }
+    })
+
+    const hitRows = (hitsResult.rows || []) as Array<{ id: string; rank: number | string; total: number | string }>
+    const totalDocs = hitRows.length > 0 ? Number(hitRows[0].total) : 0
+    const rankById = new Map(hitRows.map((row) => [String(row.id), Number(row.rank)]))
+
+    const products = rankById.size > 0
+      ? await payload.find({
+        collection: 'products',
+        where: { id: { in: Array.from(rankById.keys()) } },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+      })
+      : { docs: [] as Product[] }
+
+    const docs = products.docs
+      .map((product): CatalogSearchHit => ({
+        id: product.id,
+        title: product.title,
+        slug: product.slug,
+        price: product.price,
+        generic_name: product.generic_name,
+        manufacturer: product.manufacturer,
+        dosage_form: product.dosage_form,
+        requires_prescription: product.requires_prescription,
+        category: typeof product.category === 'object' ? product.category?.id : product.category,
+        rank: rankById.get(product.id) || 0,
+      }))
+      .sort((a, b) => b.rank - a.rank || a.id.localeCompare(b.id))
+
+    const facetRows = (facetsResult.rows || []) as Array<{
+      category_id: string
+      category_name: string | null
+      count: number | string
+    }>
+
+    return {
+      ...emptyResult,
+      docs,
+      totalDocs,
+      totalPages: Math.ceil(totalDocs / limit),
+      facets: {
+        categories: facetRows.map((row) => ({
+          categoryId: String(row.category_id),
+          name: row.category_name || '',
+          count: Number(row.count),
+        })),
+      },
+    }
+  }) as Promise<CatalogSearchResult>
+}
+
+/**
+ * Drop cached search results after catalog changes
+ */
+export function invalidateCatalogSearchCache(): void {
+  queryCaching.invalidatePattern(`^${CACHE_PREFIX}:`)
+}
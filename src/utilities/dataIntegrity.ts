@@ -4,7 +4,151 @@
  * Provides validation and consistency checking functions for pharmacy data
  */
 
-import type { Payload } from 'payload';
+import type { Address, Inventory, InventoryMovement, Order } from '@/payload-types';
+import type { CollectionSlug, DataFromCollectionSlug, Payload } from 'payload';
+import { getInventoryLedgerBalance } from './inventoryMovements';
+import { calculateOrderItemsTotal } from './orderProcessing';
+import { getOutletId } from './outlets';
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : null
+}
+
+/** Page size used when scanning whole collections */
+const INTEGRITY_CHECK_PAGE_SIZE = 500
+
+/**
+ * Call `onPage` with every document of a collection, one page at a time
+ */
+async function forEachPage<TSlug extends CollectionSlug>(
+  payload: Payload,
+  collection: TSlug,
+  onPage: (docs: DataFromCollectionSlug<TSlug>[]) => void | Promise<void>
+): Promise<void> {
+  let page = 1
+  let hasNextPage = true
+
+  while (hasNextPage) {
+    const result = await payload.find({
+      collection,
+      depth: 0,
+      limit: INTEGRITY_CHECK_PAGE_SIZE,
+      page,
+      sort: 'id',
+    })
+    await onPage(result.docs as DataFromCollectionSlug<TSlug>[])
+    hasNextPage = result.hasNextPage
+    page++
+  }
+}
+
+function checkInventoryQuantities(inventory: Inventory): string[] {
+  const errors: string[] = []
+
+  // Check non-negative quantities
+  if ((inventory.quantity || 0) < 0) {
+    errors.push(`Quantity cannot be negative: ${inventory.quantity}`)
+  }
+
+  // Check minimum stock level is reasonable (low_stock_threshold)
+  if (inventory.low_stock_threshold != null && inventory.low_stock_threshold < 0) {
+    errors.push(`Low stock threshold cannot be negative: ${inventory.low_stock_threshold}`)
+  }
+
+  return errors
+}
+
+function checkOrderIntegrity(order: Order): string[] {
+  const errors: string[] = []
+
+  // Validate order has items
+  if (!order.items || order.items.length === 0) {
+    errors.push('Order must have at least one item')
+  }
+
+  // Validate total matches the line price snapshots
+  const itemsTotal = calculateOrderItemsTotal(order.items)
+  if (order.items?.length && order.totalAmount !== itemsTotal) {
+    errors.push(`Order total ${order.totalAmount} does not match line items total ${itemsTotal}`)
+  }
+
+  // Validate addresses exist
+  if (!order.shipping_address) {
+    errors.push('Order must have a shipping address')
+  }
+
+  // Validate user exists
+  if (!order.orderedBy) {
+    errors.push('Order must have a user (orderedBy)')
+  }
+
+  return errors
+}
+
+function checkAddressIntegrity(address: Address): string[] {
+  const errors: string[] = []
+
+  // Validate required fields
+  if (!address.user) errors.push('Address missing required field: user')
+  if (!address.label) errors.push('Address missing required field: label')
+  if (!address.recipient_name) errors.push('Address missing required field: recipient_name')
+  if (!address.phone) errors.push('Address missing required field: phone')
+  if (!address.address_line) errors.push('Address missing required field: address_line')
+  if (!address.city) errors.push('Address missing required field: city')
+  if (!address.postal_code) errors.push('Address missing required field: postal_code')
+
+  return errors
+}
+
+function checkInventoryMovement(movement: InventoryMovement): string[] {
+  const errors: string[] = []
+
+  if (!movement.inventory) errors.push('Movement missing required field: inventory')
+  if (!movement.product) errors.push('Movement missing required field: product')
+
+  if (movement.quantity_change === 0) {
+    errors.push('Movement quantity change cannot be zero')
+  }
+
+  if (movement.quantity_before + movement.quantity_change !== movement.quantity_after) {
+    errors.push(
+      `Movement quantities inconsistent: ${movement.quantity_before} + ${movement.quantity_change} ≠ ${movement.quantity_after}`
+    )
+  }
+
+  if (['sale', 'cancellation_restore'].includes(movement.type) && !movement.order) {
+    errors.push(`Movement of type "${movement.type}" must reference an order`)
+  }
+
+  return errors
+}
+
+/**
+ * Errors for products with more than one inventory record at an outlet
+ * One record per outlet; unassigned records share the default outlet's slot
+ */
+function checkOutletUniqueness(productId: string | number, inventoryRecords: Inventory[]): string[] {
+  const errors: string[] = []
+  const outletCounts = new Map<string, number>()
+
+  for (const inventory of inventoryRecords) {
+    const outletId = getOutletId(inventory.outlet) || 'default'
+    outletCounts.set(outletId, (outletCounts.get(outletId) || 0) + 1)
+  }
+  for (const [outletId, count] of outletCounts) {
+    if (count > 1) {
+      errors.push(`Multiple inventory records found for product ${productId} at outlet ${outletId} - Violation of per-outlet constraint`)
+    }
+  }
+
+  return errors
+}
+
+function ledgerBalanceError(quantity: number, balance: number, movementCount: number): string | null {
+  if (balance === quantity) return null
+  return `Inventory quantity ${quantity} does not match ledger balance ${balance} (${movementCount} movements)`
+}
 
 /**
  * Validates that inventory quantities are consistent
@@ -26,15 +170,7 @@ export async function validateInventoryQuantities(
       return { valid: false, errors }
     }
 
-    // Check non-negative quantities
-    if ((inventory.quantity || 0) < 0) {
-      errors.push(`Quantity cannot be negative: ${inventory.quantity}`)
-    }
-
-    // Check minimum stock level is reasonable (low_stock_threshold)
-    if (inventory.low_stock_threshold != null && inventory.low_stock_threshold < 0) {
-      errors.push(`Low stock threshold cannot be negative: ${inventory.low_stock_threshold}`)
-    }
+    errors.push(...checkInventoryQuantities(inventory))
 
     return { valid: errors.length === 0, errors }
   } catch (error) {
@@ -70,12 +206,11 @@ export async function validateProductInventoryConsistency(
       where: {
         product: { equals: productId },
       },
-      limit: 1000,
+      pagination: false,
+      depth: 0,
     })
 
-    if (inventoryRecords.docs.length > 1) {
-      errors.push(`Multiple inventory records found for product ${productId} - Violation of 1:1 constraint`)
-    }
+    errors.push(...checkOutletUniqueness(productId, inventoryRecords.docs))
 
     // Calculate total available stock
     const calculatedStock = inventoryRecords.docs.reduce(
@@ -112,20 +247,7 @@ export async function validateOrderIntegrity(
       return { valid: false, errors }
     }
 
-    // Validate order has items
-    if (!order.items || order.items.length === 0) {
-      errors.push('Order must have at least one item')
-    }
-
-    // Validate addresses exist
-    if (!order.shipping_address) {
-      errors.push('Order must have a shipping address')
-    }
-
-    // Validate user exists
-    if (!order.orderedBy) {
-      errors.push('Order must have a user (orderedBy)')
-    }
+    errors.push(...checkOrderIntegrity(order))
 
     return { valid: errors.length === 0, errors }
   } catch (error) {
@@ -155,14 +277,7 @@ export async function validateAddressIntegrity(
       return { valid: false, errors }
     }
 
-    // Validate required fields
-    if (!address.user) errors.push('Address missing required field: user')
-    if (!address.label) errors.push('Address missing required field: label')
-    if (!address.recipient_name) errors.push('Address missing required field: recipient_name')
-    if (!address.phone) errors.push('Address missing required field: phone')
-    if (!address.address_line) errors.push('Address missing required field: address_line')
-    if (!address.city) errors.push('Address missing required field: city')
-    if (!address.postal_code) errors.push('Address missing required field: postal_code')
+    errors.push(...checkAddressIntegrity(address))
 
     return { valid: errors.length === 0, errors }
   } catch (error) {
@@ -173,14 +288,66 @@ export async function validateAddressIntegrity(
 
 /**
  * Validates inventory movement audit trail integrity
- * DEPRECATED - InventoryMovements collection removed
+ * Ensures the movement's before/after quantities agree with its delta
  */
 export const validateInventoryMovementIntegrity = async (
-  _payload: Payload,
-  _movementId: string | number
+  payload: Payload,
+  movementId: string | number
 ): Promise<{ valid: boolean; errors: string[] }> => {
-  // Stub
-  return { valid: true, errors: [] }
+  const errors: string[] = []
+
+  try {
+    const movement = await payload.findByID({
+      collection: 'inventory-movements',
+      id: movementId,
+      depth: 0,
+    })
+
+    if (!movement) {
+      errors.push(`Inventory movement ${movementId} not found`)
+      return { valid: false, errors }
+    }
+
+    errors.push(...checkInventoryMovement(movement))
+
+    return { valid: errors.length === 0, errors }
+  } catch (error) {
+    errors.push(`Error validating inventory movement: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    return { valid: false, errors }
+  }
+}
+
+/**
+ * Validates that an inventory record's quantity matches its movement ledger
+ * The sum of all quantity changes must equal the current quantity
+ */
+export async function validateInventoryLedgerBalance(
+  payload: Payload,
+  inventoryId: string | number
+): Promise<{ valid: boolean; errors: string[]; ledgerBalance?: number }> {
+  const errors: string[] = []
+
+  try {
+    const inventory = await payload.findByID({
+      collection: 'inventory',
+      id: inventoryId,
+      depth: 0,
+    })
+
+    if (!inventory) {
+      errors.push(`Inventory record ${inventoryId} not found`)
+      return { valid: false, errors }
+    }
+
+    const { balance, movementCount } = await getInventoryLedgerBalance(payload, inventoryId)
+    const ledgerError = ledgerBalanceError(inventory.quantity || 0, balance, movementCount)
+    if (ledgerError) errors.push(ledgerError)
+
+    return { valid: errors.length === 0, errors, ledgerBalance: balance }
+  } catch (error) {
+    errors.push(`Error validating inventory ledger: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    return { valid: false, errors }
+  }
 }
 
 /**
@@ -206,74 +373,76 @@ export async function runDataIntegrityCheck(
     checkProducts = true,
     checkOrders = true,
     checkAddresses = true,
+    checkMovements = true,
   } = options
 
   const allErrors: Record<string, string[]> = {}
   let totalErrors = 0
 
-  try {
-    // Check inventory
-    if (checkInventory) {
-      const inventoryRecords = await payload.find({
-        collection: 'inventory',
-        limit: 1000,
-      })
+  const record = (key: string, errors: string[]) => {
+    if (errors.length === 0) return
+    allErrors[key] = [...(allErrors[key] || []), ...errors]
+    totalErrors += errors.length
+  }
 
-      for (const inventory of inventoryRecords.docs) {
-        const result = await validateInventoryQuantities(payload, inventory.id)
-        if (!result.valid) {
-          allErrors[`inventory-${inventory.id}`] = result.errors
-          totalErrors += result.errors.length
+  try {
+    // Every collection is read page by page and checked in memory
+    if (checkInventory || checkProducts) {
+      const inventoryByProduct = new Map<string, Inventory[]>()
+
+      await forEachPage(payload, 'inventory', (docs) => {
+        for (const inventory of docs) {
+          if (checkInventory) {
+            record(`inventory-${inventory.id}`, checkInventoryQuantities(inventory))
+          }
+          const productId = relationId(inventory.product)
+          if (checkProducts && productId) {
+            inventoryByProduct.set(productId, [...(inventoryByProduct.get(productId) || []), inventory])
+          }
         }
-      }
-    }
-
-    // Check products
-    if (checkProducts) {
-      const products = await payload.find({
-        collection: 'products',
-        limit: 1000,
       })
 
-      for (const product of products.docs) {
-        const result = await validateProductInventoryConsistency(payload, product.id)
-        if (!result.valid) {
-          allErrors[`product-${product.id}`] = result.errors
-          totalErrors += result.errors.length
-        }
+      for (const [productId, inventoryRecords] of inventoryByProduct) {
+        record(`product-${productId}`, checkOutletUniqueness(productId, inventoryRecords))
       }
     }
 
-    // Check orders
     if (checkOrders) {
-      const orders = await payload.find({
-        collection: 'orders',
-        limit: 1000,
+      await forEachPage(payload, 'orders', (docs) => {
+        for (const order of docs) record(`order-${order.id}`, checkOrderIntegrity(order))
       })
-
-      for (const order of orders.docs) {
-        const result = await validateOrderIntegrity(payload, order.id)
-        if (!result.valid) {
-          allErrors[`order-${order.id}`] = result.errors
-          totalErrors += result.errors.length
-        }
-      }
     }
 
-    // Check addresses
     if (checkAddresses) {
-      const addresses = await payload.find({
-        collection: 'addresses',
-        limit: 1000,
+      await forEachPage(payload, 'addresses', (docs) => {
+        for (const address of docs) record(`address-${address.id}`, checkAddressIntegrity(address))
       })
+    }
 
-      for (const address of addresses.docs) {
-        const result = await validateAddressIntegrity(payload, address.id)
-        if (!result.valid) {
-          allErrors[`address-${address.id}`] = result.errors
-          totalErrors += result.errors.length
+    // Check movement ledger: each movement, then each record's balance
+    if (checkMovements) {
+      const ledger = new Map<string, { balance: number; movementCount: number }>()
+
+      await forEachPage(payload, 'inventory-movements', (docs) => {
+        for (const movement of docs) {
+          record(`movement-${movement.id}`, checkInventoryMovement(movement))
+
+          const inventoryId = relationId(movement.inventory)
+          if (!inventoryId) continue
+          const entry = ledger.get(inventoryId) || { balance: 0, movementCount: 0 }
+          entry.balance += movement.quantity_change || 0
+          entry.movementCount++
+          ledger.set(inventoryId, entry)
         }
-      }
+      })
+
+      await forEachPage(payload, 'inventory', (docs) => {
+        for (const inventory of docs) {
+          const { balance, movementCount } = ledger.get(String(inventory.id)) || { balance: 0, movementCount: 0 }
+          const ledgerError = ledgerBalanceError(inventory.quantity || 0, balance, movementCount)
+          if (ledgerError) record(`ledger-${inventory.id}`, [ledgerError])
+        }
+      })
     }
 
     return {
@@ -0,0 +1,269 @@
+/**
+ * Demand Forecasting for reorder points
+ *
+ * Reorder points are computed per inventory record from its outlet's sales in
+ * `orders` (REVENUE_ORDER_STATUSES, quantities in the product's base unit):
+ *
+ * - level: moving average of daily sales over the last FORECAST_WINDOW_DAYS
+ * - seasonality: day-of-week factors from the last FORECAST_HISTORY_DAYS
+ *   (weekend and weekday demand differ at most outlets)
+ * - lead time demand: the level times each weekday's factor over the lead
+ *   time of the product's default supplier (DEFAULT_LEAD_TIME_DAYS without one)
+ * - safety stock: z × σ(daily sales) × √lead time, for a ~95% service level
+ *
+ * reorder point = ⌈lead time demand + safety stock⌉
+ *
+ * Records without sales in the history keep their static low_stock_threshold.
+ * refreshReorderPointsTask recomputes every record daily.
+ */
+
+import type { Inventory, Product, Supplier } from '@/payload-types'
+import type { Payload, PayloadRequest, TaskConfig } from 'payload'
+import { REVENUE_ORDER_STATUSES } from './orderStatus'
+import { getDefaultOutlet } from './outlets'
+import { getItemBaseQuantity } from './productVariants'
+
+/** Days of sales history used for seasonality and variability */
+export const FORECAST_HISTORY_DAYS = 56
+
+/** Days in the moving average of daily demand */
+export const FORECAST_WINDOW_DAYS = 28
+
+/** Lead time for products without a supplier lead time */
+export const DEFAULT_LEAD_TIME_DAYS = 7
+
+/** z-score for a 95% cycle service level */
+export const SERVICE_LEVEL_Z = 1.65
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface DemandForecast {
+  /** Moving average of daily sales, in base units */
+  averageDailyDemand: number
+  /** Standard deviation of daily sales */
+  demandStdDev: number
+  /** Demand relative to the average, Sunday (0) to Saturday (6) */
+  weekdayFactors: number[]
+  leadTimeDays: number
+  leadTimeDemand: number
+  safetyStock: number
+  reorderPoint: number
+}
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : null
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+
+/**
+ * Start of the UTC day of a date
+ */
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Reorder point from a series of daily sales
+ *
+ * `dailySales` is oldest first and ends the day before `asOf`; weekday factors
+ * are matched to the calendar from there.
+ */
+export function forecastReorderPoint(
+  dailySales: number[],
+  options: { asOf?: Date; leadTimeDays?: number; serviceLevelZ?: number } = {}
+): DemandForecast {
+  const { leadTimeDays = DEFAULT_LEAD_TIME_DAYS, serviceLevelZ = SERVICE_LEVEL_Z } = options
+  const asOf = startOfDay(options.asOf ?? new Date())
+  const firstDay = new Date(asOf.getTime() - dailySales.length * DAY_MS)
+
+  const level = mean(dailySales.slice(-FORECAST_WINDOW_DAYS))
+  const historyMean = mean(dailySales)
+
+  const byWeekday: number[][] = Array.from({ length: 7 }, () => [])
+  dailySales.forEach((quantity, index) => {
+    byWeekday[(firstDay.getUTCDay() + index) % 7].push(quantity)
+  })
+  // Weekdays without history (less than a week of data) count as average
+  const weekdayFactors = byWeekday.map((sales) =>
+    historyMean > 0 && sales.length > 0 ? mean(sales) / historyMean : 1
+  )
+
+  let leadTimeDemand = 0
+  for (let day = 0; day < leadTimeDays; day++) {
+    leadTimeDemand += level * weekdayFactors[(asOf.getUTCDay() + day) % 7]
+  }
+
+  const variance = mean(dailySales.map((quantity) => (quantity - historyMean) ** 2))
+  const demandStdDev = Math.sqrt(variance)
+  const safetyStock = Math.ceil(serviceLevelZ * demandStdDev * Math.sqrt(leadTimeDays))
+
+  // Rounded first so floating point noise cannot add a unit
+  const expectedDemand = round2(leadTimeDemand)
+
+  return {
+    averageDailyDemand: round2(level),
+    demandStdDev: round2(demandStdDev),
+    weekdayFactors: weekdayFactors.map(round2),
+    leadTimeDays,
+    leadTimeDemand: expectedDemand,
+    safetyStock,
+    reorderPoint: Math.ceil(expectedDemand + safetyStock),
+  }
+}
+
+/**
+ * Level at which an inventory record counts as low: its forecast reorder
+ * point when one has been computed, else its static low stock threshold
+ */
+export function getReorderPoint(inventory: Pick<Inventory, 'reorder_point' | 'low_stock_threshold'>): number {
+  return inventory.reorder_point ?? inventory.low_stock_threshold ?? 10
+}
+
+/**
+ * Daily sales per product per outlet, keyed `${productId}:${outletId}`
+ * Each series has one entry per day (oldest first) ending the day before `asOf`.
+ * Orders without an outlet count at the default outlet.
+ */
+export async function getDailySales(
+  payload: Payload,
+  options: { asOf?: Date; days?: number; req?: PayloadRequest } = {}
+): Promise<Map<string, number[]>> {
+  const { days = FORECAST_HISTORY_DAYS, req } = options
+  const asOf = startOfDay(options.asOf ?? new Date())
+  const from = new Date(asOf.getTime() - days * DAY_MS)
+  const defaultOutletId = (await getDefaultOutlet(payload, req))?.id || null
+
+  const orders = await payload.find({
+    collection: 'orders',
+    where: {
+      and: [
+        { status: { in: [...REVENUE_ORDER_STATUSES] } },
+        { createdAt: { greater_than_equal: from.toISOString() } },
+        { createdAt: { less_than: asOf.toISOString() } },
+      ],
+    },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  const sales = new Map<string, number[]>()
+
+  for (const order of orders.docs) {
+    const day = Math.floor((new Date(order.createdAt).getTime() - from.getTime()) / DAY_MS)
+    if (day < 0 || day >= days) continue
+
+    const outletId = relationId(order.outlet) || defaultOutletId
+    for (const item of order.items || []) {
+      const productId = relationId(item.product)
+      if (!productId) continue
+
+      const key = `${productId}:${outletId}`
+      const series = sales.get(key) || new Array<number>(days).fill(0)
+      series[day] += getItemBaseQuantity(item)
+      sales.set(key, series)
+    }
+  }
+
+  return sales
+}
+
+/**
+ * Recompute the reorder point of every inventory record (or those of the
+ * given products) from recent sales
+ */
+export async function refreshReorderPoints(
+  payload: Payload,
+  options: { asOf?: Date; productIds?: string[]; req?: PayloadRequest } = {}
+): Promise<{ updated: number; forecasted: number; static: number }> {
+  const { asOf = new Date(), req } = options
+  const defaultOutletId = (await getDefaultOutlet(payload, req))?.id || null
+  const sales = await getDailySales(payload, { asOf, req })
+
+  const inventory = await payload.find({
+    collection: 'inventory',
+    where: options.productIds ? { product: { in: options.productIds } } : {},
+    pagination: false,
+    depth: 2,
+    req,
+    overrideAccess: true,
+  })
+
+  const result = { updated: 0, forecasted: 0, static: 0 }
+  const updatedAt = new Date().toISOString()
+
+  for (const record of inventory.docs) {
+    const product = typeof record.product === 'object' ? (record.product as Product) : null
+    const productId = relationId(record.product)
+    const outletId = relationId(record.outlet) || defaultOutletId
+    const series = sales.get(`${productId}:${outletId}`)
+
+    let data: Partial<Inventory>
+    if (series && series.some((quantity) => quantity > 0)) {
+      const supplier = product && typeof product.default_supplier === 'object'
+        ? (product.default_supplier as Supplier | null)
+        : null
+      const forecast = forecastReorderPoint(series, {
+        asOf,
+        leadTimeDays: supplier?.lead_time_days || DEFAULT_LEAD_TIME_DAYS,
+      })
+
+      data = {
+        reorder_point: forecast.reorderPoint,
+        safety_stock: forecast.safetyStock,
+        average_daily_demand: forecast.averageDailyDemand,
+        lead_time_days: forecast.leadTimeDays,
+        forecast_updated_at: updatedAt,
+      }
+      result.forecasted++
+    } else {
+      // No sales history: fall back to the static threshold
+      data = {
+        reorder_point: null,
+        safety_stock: null,
+        average_daily_demand: 0,
+        lead_time_days: null,
+        forecast_updated_at: updatedAt,
+      }
+      result.static++
+    }
+
+    await payload.update({
+      collection: 'inventory',
+      id: record.id,
+      data,
+      req,
+      overrideAccess: true,
+      context: { skipCartUpdates: true },
+    })
+    result.updated++
+  }
+
+  return result
+}
+
+/**
+ * Jobs-queue task refreshing reorder points daily on the 'inventory' queue
+ */
+export const refreshReorderPointsTask: TaskConfig<'refreshReorderPoints'> = {
+  slug: 'refreshReorderPoints',
+  label: 'Refresh Reorder Points',
+  schedule: [{ cron: '0 2 * * *', queue: 'inventory' }],
+  outputSchema: [
+    { name: 'updated', type: 'number', required: true },
+    { name: 'forecasted', type: 'number', required: true },
+  ],
+  handler: async ({ req }) => {
+    const { updated, forecasted } = await refreshReorderPoints(req.payload, { req })
+
+    req.payload.logger.info(`[Stock] Refreshed reorder points for ${updated} inventory records (${forecasted} forecast)`)
+
+    return { output: { updated, forecasted } }
+  },
+}
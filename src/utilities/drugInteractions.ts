@@ -0,0 +1,196 @@
+/**
+ * Drug Interaction Checks
+ *
+ * Compares the active ingredients of an order's products with each other and
+ * with the customer's recent orders:
+ * - duplicate therapy: the same ingredient in two different products
+ * - interaction: an active `drug-interactions` rule matches two products
+ *
+ * Warnings never block an order; pharmacists review them before fulfilment.
+ */
+
+import type { Product } from '@/payload-types'
+import type { Payload, PayloadRequest } from 'payload'
+import { REVENUE_ORDER_STATUSES } from './orderStatus'
+
+export const DRUG_INTERACTION_SEVERITIES = ['minor', 'moderate', 'major', 'contraindicated'] as const
+
+export type DrugInteractionSeverity = (typeof DRUG_INTERACTION_SEVERITIES)[number]
+
+export const DRUG_INTERACTION_SEVERITY_OPTIONS: Array<{ label: string; value: DrugInteractionSeverity }> = [
+  { label: 'Minor', value: 'minor' },
+  { label: 'Moderate', value: 'moderate' },
+  { label: 'Major', value: 'major' },
+  { label: 'Contraindicated', value: 'contraindicated' },
+]
+
+export interface DrugInteractionWarning {
+  type: 'interaction' | 'duplicate_therapy'
+  severity: DrugInteractionSeverity
+  ingredients: string[]
+  /** Product titles involved */
+  products: string[]
+  /** One of the products comes from a recent order rather than this one */
+  fromHistory: boolean
+  message: string
+}
+
+interface IngredientSource {
+  productId: string
+  title: string
+  fromHistory: boolean
+}
+
+/**
+ * Active ingredient names of a product, falling back to its generic name
+ */
+export function getProductIngredients(
+  product: Pick<Product, 'active_ingredients' | 'generic_name'>
+): string[] {
+  const names = (product.active_ingredients || []).map((ingredient) => ingredient.name).filter(Boolean)
+  if (names.length > 0) return Array.from(new Set(names))
+  return product.generic_name ? [product.generic_name] : []
+}
+
+const describeProducts = (sources: IngredientSource[]): string =>
+  sources.map((source) => `"${source.title}"${source.fromHistory ? ' (recent order)' : ''}`).join(', ')
+
+/**
+ * Check products for duplicate therapy and known ingredient interactions
+ */
+export async function checkDrugInteractions(
+  payload: Payload,
+  options: {
+    productIds: Array<string | number>
+    /** Include this customer's recent orders */
+    customerId?: string | number | null
+    /** Leave out the order being checked from the history */
+    excludeOrderId?: string | number
+    historyDays?: number
+    req?: PayloadRequest
+  }
+): Promise<DrugInteractionWarning[]> {
+  const { productIds, customerId, excludeOrderId, historyDays = 30, req } = options
+  if (productIds.length === 0) return []
+
+  const uniqueIds = Array.from(new Set(productIds.map(String)))
+
+  const productsResult = await payload.find({
+    collection: 'products',
+    where: { id: { in: uniqueIds } },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  // Ingredient → products containing it
+  const sourcesByIngredient = new Map<string, IngredientSource[]>()
+  const addSource = (product: Product, fromHistory: boolean) => {
+    for (const ingredient of getProductIngredients(product)) {
+      const sources = sourcesByIngredient.get(ingredient) || []
+      if (sources.some((source) => source.productId === product.id)) continue
+      sources.push({ productId: product.id, title: product.title, fromHistory })
+      sourcesByIngredient.set(ingredient, sources)
+    }
+  }
+
+  for (const product of productsResult.docs) {
+    addSource(product, false)
+  }
+
+  if (customerId) {
+    const since = new Date(Date.now() - historyDays * 24 * 60 * 60 * 1000)
+    const recentOrders = await payload.find({
+      collection: 'orders',
+      where: {
+        and: [
+          { orderedBy: { equals: customerId } },
+          { status: { in: [...REVENUE_ORDER_STATUSES] } },
+          { createdAt: { greater_than_equal: since.toISOString() } },
+          ...(excludeOrderId ? [{ id: { not_equals: excludeOrderId } }] : []),
+        ],
+      },
+      sort: '-createdAt',
+      limit: 20,
+      depth: 1,
+      req,
+      overrideAccess: true,
+    })
+
+    for (const order of recentOrders.docs) {
+      for (const item of order.items || []) {
+        const product = typeof item.product === 'object' ? item.product : null
+        if (product && !uniqueIds.includes(product.id)) {
+          addSource(product, true)
+        }
+      }
+    }
+  }
+
+  const warnings: DrugInteractionWarning[] = []
+
+  // Duplicate therapy: same ingredient in two products, at least one in this order
+  for (const [ingredient, sources] of sourcesByIngredient) {
+    if (sources.length < 2 || sources.every((source) => source.fromHistory)) continue
+
+    const fromHistory = sources.some((source) => source.fromHistory)
+    warnings.push({
+      type: 'duplicate_therapy',
+      severity: 'moderate',
+      ingredients: [ingredient],
+      products: sources.map((source) => source.title),
+      fromHistory,
+      message: `Duplicate therapy: ${ingredient} in ${describeProducts(sources)}`,
+    })
+  }
+
+  const ingredients = Array.from(sourcesByIngredient.keys())
+  if (ingredients.length < 2) return warnings
+
+  const rules = await payload.find({
+    collection: 'drug-interactions',
+    where: {
+      and: [
+        { is_active: { equals: true } },
+        { ingredient_a: { in: ingredients } },
+        { ingredient_b: { in: ingredients } },
+      ],
+    },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  for (const rule of rules.docs) {
+    const sourcesA = sourcesByIngredient.get(rule.ingredient_a) || []
+    const sourcesB = sourcesByIngredient.get(rule.ingredient_b) || []
+
+    // Pairs of different products with at least one from this order
+    const pairs = sourcesA.flatMap((a) =>
+      sourcesB
+        .filter((b) => b.productId !== a.productId && !(a.fromHistory && b.fromHistory))
+        .map((b) => [a, b] as const)
+    )
+    if (pairs.length === 0) continue
+
+    const involvedA = sourcesA.filter((a) => pairs.some(([pairA]) => pairA === a))
+    const involvedB = sourcesB.filter((b) => pairs.some(([, pairB]) => pairB === b))
+    const severityLabel = rule.severity.charAt(0).toUpperCase() + rule.severity.slice(1)
+
+    warnings.push({
+      type: 'interaction',
+      severity: rule.severity,
+      ingredients: [rule.ingredient_a, rule.ingredient_b],
+      products: [...involvedA, ...involvedB].map((source) => source.title),
+      fromHistory: pairs.some(([a, b]) => a.fromHistory || b.fromHistory),
+      message:
+        `${severityLabel} interaction: ${rule.ingredient_a} (${describeProducts(involvedA)}) + ` +
+        `${rule.ingredient_b} (${describeProducts(involvedB)}): ${rule.description}` +
+        (rule.recommendation ? ` Recommendation: ${rule.recommendation}` : ''),
+    })
+  }
+
+  return warnings
+}
@@ -0,0 +1,311 @@
+/**
+ * Inventory Batch Utilities
+ *
+ * Batches hold stock per batch/lot with expiry dates. Order deduction consumes
+ * batches FEFO (first-expiry-first-out), skipping expired batches; expired
+ * units are excluded from sellable stock until written off. Callers update
+ * inventory.quantity themselves, so batch writes here set `skipInventorySync`.
+ * Batches belong to one outlet's inventory record; pass `inventoryId` to keep
+ * consumption at that outlet. The batches a sale took are recorded on its
+ * ledger movement, and a cancellation returns units to exactly those batches.
+ */
+
+import type { Inventory } from '@/payload-types'
+import type { Payload, PayloadRequest, Where } from 'payload'
+import { APIError } from 'payload'
+import { getOrderInventoryMovements, withScopedContext } from './inventoryMovements'
+
+export interface BatchAllocation {
+  batchId: string | number
+  batchNumber: string
+  expiryDate: string
+  quantity: number
+}
+
+export interface BatchExpirySummary {
+  totalBatches: number
+  activeBatches: number
+  expiredBatches: number
+  expiringIn7Days: number
+  expiringIn30Days: number
+  expiringIn90Days: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Units in expired batches, per inventory record
+ * Expired units stay in inventory.quantity until written off but cannot be
+ * sold, so availability checks subtract them.
+ */
+export async function getExpiredBatchQuantities(
+  payload: Payload,
+  inventoryIds: Array<string | number>,
+  req?: PayloadRequest
+): Promise<Map<string, number>> {
+  const expired = new Map<string, number>()
+  if (inventoryIds.length === 0) return expired
+
+  const batches = await payload.find({
+    collection: 'inventory-batches',
+    where: {
+      and: [
+        { inventory: { in: inventoryIds } },
+        { quantity: { greater_than: 0 } },
+        { expiry_date: { less_than_equal: new Date().toISOString() } },
+      ],
+    },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  for (const batch of batches.docs) {
+    const inventoryId = String(
+      typeof batch.inventory === 'object' && batch.inventory !== null ? batch.inventory.id : batch.inventory
+    )
+    expired.set(inventoryId, (expired.get(inventoryId) || 0) + (batch.quantity || 0))
+  }
+
+  return expired
+}
+
+/**
+ * Sellable units of an inventory record: its quantity less expired batch units
+ */
+export async function getSellableQuantity(
+  payload: Payload,
+  inventory: Pick<Inventory, 'id' | 'quantity'>,
+  req?: PayloadRequest
+): Promise<number> {
+  const expired = await getExpiredBatchQuantities(payload, [inventory.id], req)
+  return Math.max(0, (inventory.quantity || 0) - (expired.get(String(inventory.id)) || 0))
+}
+
+/**
+ * Deduct quantity from a product's batches, earliest expiry first
+ * Any quantity not covered by unexpired batches is returned as `unallocated`
+ * (unbatched legacy stock). With `inventoryId`, that record's unbatched stock
+ * (quantity less all batch units) must cover it, or nothing is deducted and
+ * an APIError is thrown: expired batch units are never sold.
+ */
+export async function consumeBatchesFEFO(
+  payload: Payload,
+  req: PayloadRequest | undefined,
+  productId: string | number,
+  quantity: number,
+  options: { inventoryId?: string | number } = {}
+): Promise<{ allocations: BatchAllocation[]; unallocated: number }> {
+  const allocations: BatchAllocation[] = []
+  let remaining = quantity
+
+  if (remaining <= 0) return { allocations, unallocated: 0 }
+
+  const stockedBatches = await payload.find({
+    collection: 'inventory-batches',
+    where: {
+      and: [
+        { product: { equals: productId } },
+        ...(options.inventoryId ? [{ inventory: { equals: options.inventoryId } }] : []),
+        { quantity: { greater_than: 0 } },
+      ],
+    },
+    sort: 'expiry_date',
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+  const now = Date.now()
+  const unexpiredBatches = stockedBatches.docs.filter((batch) => new Date(batch.expiry_date).getTime() > now)
+
+  if (options.inventoryId) {
+    const inventory = await payload.findByID({
+      collection: 'inventory',
+      id: options.inventoryId,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+    const batched = stockedBatches.docs.reduce((sum, batch) => sum + (batch.quantity || 0), 0)
+    const unexpired = unexpiredBatches.reduce((sum, batch) => sum + (batch.quantity || 0), 0)
+    const unbatched = Math.max(0, (inventory.quantity || 0) - batched)
+
+    if (unexpired + unbatched < quantity) {
+      throw new APIError(
+        `Insufficient unexpired stock for product ${productId}: requested ${quantity}, available ${unexpired + unbatched}`,
+        400,
+        null,
+        true
+      )
+    }
+  }
+
+  for (const batch of unexpiredBatches) {
+    if (remaining <= 0) break
+
+    const available = batch.quantity || 0
+    const take = Math.min(available, remaining)
+
+    await withScopedContext(req, () =>
+      payload.update({
+        collection: 'inventory-batches',
+        id: batch.id,
+        data: { quantity: available - take },
+        req,
+        overrideAccess: true,
+        context: { skipInventorySync: true },
+      })
+    )
+
+    allocations.push({
+      batchId: batch.id,
+      batchNumber: batch.batch_number,
+      expiryDate: batch.expiry_date,
+      quantity: take,
+    })
+    remaining -= take
+  }
+
+  return { allocations, unallocated: remaining }
+}
+
+/**
+ * Batches an order took from an inventory record and has not yet returned
+ * (sale movements' allocations less those of its cancellation restores)
+ */
+export async function getOutstandingOrderBatches(
+  payload: Payload,
+  req: PayloadRequest | undefined,
+  orderId: string | number,
+  inventoryId: string | number
+): Promise<BatchAllocation[]> {
+  const movements = await getOrderInventoryMovements(payload, orderId, undefined, req)
+  const outstanding = new Map<string, BatchAllocation>()
+
+  for (const movement of movements) {
+    const movementInventoryId = typeof movement.inventory === 'object' ? movement.inventory.id : movement.inventory
+    if (String(movementInventoryId) !== String(inventoryId)) continue
+
+    const sign = movement.type === 'sale' ? 1 : movement.type === 'cancellation_restore' ? -1 : 0
+    if (sign === 0) continue
+
+    for (const allocation of (movement.batch_allocations as BatchAllocation[] | null) || []) {
+      const key = String(allocation.batchId)
+      const entry = outstanding.get(key) || { ...allocation, quantity: 0 }
+      entry.quantity += sign * allocation.quantity
+      outstanding.set(key, entry)
+    }
+  }
+
+  return [...outstanding.values()].filter((allocation) => allocation.quantity > 0)
+}
+
+/**
+ * Return an order's units to the batches it took them from
+ * Units beyond the recorded allocations (unbatched stock, or sales recorded
+ * before allocations were kept) are returned as `unallocated`.
+ */
+export async function restoreOrderBatchStock(
+  payload: Payload,
+  req: PayloadRequest | undefined,
+  orderId: string | number,
+  inventoryId: string | number,
+  quantity: number
+): Promise<{ allocations: BatchAllocation[]; unallocated: number }> {
+  const allocations: BatchAllocation[] = []
+  let remaining = quantity
+
+  if (remaining <= 0) return { allocations, unallocated: 0 }
+
+  // Latest expiry first: the reverse of FEFO consumption
+  const outstanding = (await getOutstandingOrderBatches(payload, req, orderId, inventoryId))
+    .sort((a, b) => b.expiryDate.localeCompare(a.expiryDate))
+
+  for (const allocation of outstanding) {
+    if (remaining <= 0) break
+
+    const batch = await payload.findByID({
+      collection: 'inventory-batches',
+      id: allocation.batchId,
+      depth: 0,
+      req,
+      overrideAccess: true,
+      disableErrors: true,
+    })
+    if (!batch) continue
+
+    const give = Math.min(allocation.quantity, remaining)
+
+    await withScopedContext(req, () =>
+      payload.update({
+        collection: 'inventory-batches',
+        id: batch.id,
+        data: { quantity: (batch.quantity || 0) + give },
+        req,
+        overrideAccess: true,
+        context: { skipInventorySync: true },
+      })
+    )
+
+    allocations.push({ ...allocation, quantity: give })
+    remaining -= give
+  }
+
+  return { allocations, unallocated: remaining }
+}
+
+/**
+ * Summarise batch allocations for movement ledger notes
+ */
+export function describeBatchAllocations(allocations: BatchAllocation[]): string | undefined {
+  if (allocations.length === 0) return undefined
+  return `Batches: ${allocations.map(a => `${a.batchNumber} ×${a.quantity}`).join(', ')}`
+}
+
+/**
+ * Count batches with remaining stock by expiry window
+ */
+export async function getBatchExpirySummary(payload: Payload): Promise<BatchExpirySummary> {
+  const now = Date.now()
+  const inStock: Where = { quantity: { greater_than: 0 } }
+
+  const countExpiringBefore = async (days: number) => {
+    const result = await payload.count({
+      collection: 'inventory-batches',
+      where: {
+        and: [
+          inStock,
+          { expiry_date: { greater_than: new Date(now).toISOString() } },
+          { expiry_date: { less_than_equal: new Date(now + days * DAY_MS).toISOString() } },
+        ],
+      },
+      overrideAccess: true,
+    })
+    return result.totalDocs
+  }
+
+  const [totalResult, expiredResult, expiringIn7Days, expiringIn30Days, expiringIn90Days] = await Promise.all([
+    payload.count({ collection: 'inventory-batches', where: inStock, overrideAccess: true }),
+    payload.count({
+      collection: 'inventory-batches',
+      where: {
+        and: [inStock, { expiry_date: { less_than_equal: new Date(now).toISOString() } }],
+      },
+      overrideAccess: true,
+    }),
+    countExpiringBefore(7),
+    countExpiringBefore(30),
+    countExpiringBefore(90),
+  ])
+
+  return {
+    totalBatches: totalResult.totalDocs,
+    activeBatches: totalResult.totalDocs - expiredResult.totalDocs,
+    expiredBatches: expiredResult.totalDocs,
+    expiringIn7Days,
+    expiringIn30Days,
+    expiringIn90Days,
+  }
+}
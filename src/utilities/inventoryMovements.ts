@@ -0,0 +1,298 @@
+/**
+ * Inventory Movement Ledger Utilities
+ *
+ * Every change to `inventory.quantity` is recorded as an immutable row in the
+ * `inventory-movements` collection. Stock utilities describe *why* a quantity
+ * changes by passing an `inventoryMovement` entry in the request context; the
+ * Inventory hooks then persist the movement with before/after quantities.
+ */
+
+import type { InventoryMovement } from '@/payload-types'
+import { sql } from '@payloadcms/db-postgres'
+import type { Payload, PayloadRequest, RequestContext } from 'payload'
+import type { BatchAllocation } from './inventoryBatches'
+
+export const INVENTORY_MOVEMENT_TYPES = [
+  'sale',
+  'cancellation_restore',
+  'adjustment',
+  'expiry',
+  'return',
+  'receipt',
+  'transfer_out',
+  'transfer_in',
+] as const
+
+export type InventoryMovementType = (typeof INVENTORY_MOVEMENT_TYPES)[number]
+
+/**
+ * Movement metadata passed through `context.inventoryMovement` on inventory updates
+ */
+export interface InventoryMovementContext {
+  type: InventoryMovementType
+  reason?: string
+  notes?: string
+  orderId?: string | number
+  transferId?: string | number
+  /** Batches the change took from or returned to */
+  batchAllocations?: BatchAllocation[]
+}
+
+/**
+ * Build the request context for an inventory update that should be recorded in the ledger
+ */
+export function inventoryMovementContext(
+  movement: InventoryMovementContext,
+  context: RequestContext = {}
+): RequestContext {
+  return {
+    ...context,
+    inventoryMovement: movement,
+  }
+}
+
+/**
+ * Run a Local API operation whose `context` must not outlive it
+ *
+ * Payload merges an operation's context into `req.context`, so flags such as
+ * `inventoryMovement` or `skipInventorySync` would otherwise apply to every
+ * later operation on the same request.
+ */
+export async function withScopedContext<T>(
+  req: PayloadRequest | undefined,
+  operation: () => Promise<T>
+): Promise<T> {
+  const context = req?.context
+  try {
+    return await operation()
+  } finally {
+    if (req) req.context = context ?? {}
+  }
+}
+
+/**
+ * Read movement metadata from a hook context, if any was provided
+ */
+export function getInventoryMovementContext(
+  context: RequestContext | undefined
+): InventoryMovementContext | null {
+  const movement = context?.inventoryMovement as InventoryMovementContext | undefined
+  if (!movement || !INVENTORY_MOVEMENT_TYPES.includes(movement.type)) {
+    return null
+  }
+  return movement
+}
+
+/**
+ * Persist a single inventory movement
+ * Actor is recorded only for admin panel users (customers never move stock directly)
+ */
+export async function createInventoryMovement(
+  payload: Payload,
+  req: PayloadRequest | undefined,
+  movement: InventoryMovementContext & {
+    inventoryId: string | number
+    productId: string | number
+    quantityBefore: number
+    quantityAfter: number
+  }
+): Promise<InventoryMovement> {
+  const user = req?.user as { id?: string; collection?: string } | null | undefined
+  const actorId = user?.collection === 'admins' ? user.id : undefined
+
+  return payload.create({
+    collection: 'inventory-movements',
+    data: {
+      inventory: String(movement.inventoryId),
+      product: String(movement.productId),
+      type: movement.type,
+      quantity_change: movement.quantityAfter - movement.quantityBefore,
+      quantity_before: movement.quantityBefore,
+      quantity_after: movement.quantityAfter,
+      actor: actorId,
+      order: movement.orderId ? String(movement.orderId) : undefined,
+      stock_transfer: movement.transferId ? String(movement.transferId) : undefined,
+      reason: movement.reason,
+      notes: movement.notes,
+      batch_allocations: movement.batchAllocations?.length ? movement.batchAllocations : undefined,
+    },
+    req,
+    overrideAccess: true,
+  })
+}
+
+/**
+ * Get the most recent movement recorded for an inventory record
+ */
+export async function getLatestInventoryMovement(
+  payload: Payload,
+  inventoryId: string | number,
+  req?: PayloadRequest
+): Promise<InventoryMovement | null> {
+  const result = await payload.find({
+    collection: 'inventory-movements',
+    where: { inventory: { equals: inventoryId } },
+    sort: '-createdAt',
+    limit: 1,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  return result.docs[0] ?? null
+}
+
+/**
+ * Sum all ledger deltas for an inventory record
+ * A consistent ledger sums to the current `inventory.quantity`
+ */
+export async function getInventoryLedgerBalance(
+  payload: Payload,
+  inventoryId: string | number
+): Promise<{ balance: number; movementCount: number }> {
+  const balances = await getInventoryLedgerBalances(payload, [inventoryId])
+  return balances.get(String(inventoryId)) || { balance: 0, movementCount: 0 }
+}
+
+/**
+ * Ledger balances of several inventory records, summed in one grouped query
+ * Records without movements are absent from the map.
+ */
+export async function getInventoryLedgerBalances(
+  payload: Payload,
+  inventoryIds: Array<string | number>
+): Promise<Map<string, { balance: number; movementCount: number }>> {
+  const balances = new Map<string, { balance: number; movementCount: number }>()
+  if (inventoryIds.length === 0) return balances
+
+  const result = await payload.db.drizzle.execute(sql`
+    SELECT inventory_id, COALESCE(SUM(quantity_change), 0) AS balance, COUNT(*) AS movement_count
+    FROM inventory_movements
+    WHERE inventory_id IN (${sql.join(inventoryIds.map((id) => sql`${id}`), sql`, `)})
+    GROUP BY inventory_id
+  `)
+
+  const rows = (result.rows || []) as Array<{
+    inventory_id: string
+    balance: string | number
+    movement_count: string | number
+  }>
+  for (const row of rows) {
+    balances.set(String(row.inventory_id), {
+      balance: Number(row.balance),
+      movementCount: Number(row.movement_count),
+    })
+  }
+
+  return balances
+}
+
+/**
+ * Reason recorded on the adjustment that opens a record's ledger
+ */
+export const OPENING_BALANCE_REASON = 'Opening balance'
+
+/**
+ * Write an opening `adjustment` for inventory records whose stock predates the ledger
+ *
+ * A record's opening balance is the quantity before its first movement, or its
+ * current quantity when it has none. Records that already balance, or already
+ * have an opening entry, are left alone, so the backfill can be re-run.
+ */
+export async function backfillOpeningBalances(
+  payload: Payload,
+  options: { dryRun?: boolean; req?: PayloadRequest } = {}
+): Promise<Array<{ inventoryId: string; openingBalance: number }>> {
+  const { dryRun = false, req } = options
+  const ledger = new Map<string, { balance: number; firstQuantityBefore: number; hasOpening: boolean }>()
+
+  const movements = await payload.find({
+    collection: 'inventory-movements',
+    sort: 'createdAt',
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  for (const movement of movements.docs) {
+    const inventoryId = typeof movement.inventory === 'object' ? movement.inventory.id : movement.inventory
+    const entry = ledger.get(inventoryId) || {
+      balance: 0,
+      firstQuantityBefore: movement.quantity_before,
+      hasOpening: false,
+    }
+    entry.balance += movement.quantity_change || 0
+    entry.hasOpening ||= movement.reason === OPENING_BALANCE_REASON
+    ledger.set(inventoryId, entry)
+  }
+
+  const backfilled: Array<{ inventoryId: string; openingBalance: number }> = []
+  let page = 1
+  let hasNextPage = true
+
+  while (hasNextPage) {
+    const inventory = await payload.find({
+      collection: 'inventory',
+      sort: 'id',
+      limit: 500,
+      page,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+
+    for (const record of inventory.docs) {
+      const entry = ledger.get(record.id)
+      if (entry?.hasOpening || (entry?.balance ?? 0) === (record.quantity || 0)) continue
+
+      const openingBalance = entry ? entry.firstQuantityBefore : record.quantity || 0
+      if (openingBalance === 0) continue
+
+      if (!dryRun) {
+        await createInventoryMovement(payload, req, {
+          type: 'adjustment',
+          reason: OPENING_BALANCE_REASON,
+          notes: 'Stock on hand before the movement ledger',
+          inventoryId: record.id,
+          productId: typeof record.product === 'object' ? record.product.id : record.product,
+          quantityBefore: 0,
+          quantityAfter: openingBalance,
+        })
+      }
+      backfilled.push({ inventoryId: record.id, openingBalance })
+    }
+
+    hasNextPage = inventory.hasNextPage
+    page++
+  }
+
+  return backfilled
+}
+
+/**
+ * Get the movements recorded for an order, optionally filtered by type
+ */
+export async function getOrderInventoryMovements(
+  payload: Payload,
+  orderId: string | number,
+  type?: InventoryMovementType,
+  req?: PayloadRequest
+): Promise<InventoryMovement[]> {
+  const result = await payload.find({
+    collection: 'inventory-movements',
+    where: {
+      and: [
+        { order: { equals: orderId } },
+        ...(type ? [{ type: { equals: type } }] : []),
+      ],
+    },
+    sort: 'createdAt',
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  return result.docs
+}
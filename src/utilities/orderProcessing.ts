@@ -1,10 +1,24 @@
+import type { InventoryMovement } from '@/payload-types'
 import type { Payload } from 'payload'
+import { getOrderInventoryMovements } from './inventoryMovements'
+import { canTransitionOrderStatus } from './orderStatus'
+import { getOrderOutletId } from './outlets'
+import { getItemBaseQuantity } from './productVariants'
 import { checkBulkStockAvailability } from './stockAvailability'
 
 /**
  * Order processing utilities
  */
 
+/**
+ * Sum of an order's line price snapshots (price × quantity)
+ */
+export function calculateOrderItemsTotal(
+  items: Array<{ price?: number | null; quantity?: number | null }> | null | undefined
+): number {
+  return (items || []).reduce((sum, item) => sum + (item.price || 0) * (item.quantity || 0), 0)
+}
+
 export interface OrderValidationResult {
   isValid: boolean
   errors: string[]
@@ -22,7 +36,7 @@ export interface OrderProcessingResult {
   success: boolean
   orderId: string | number
   message: string
-  stockMovements?: unknown[]
+  stockMovements?: InventoryMovement[]
   errors?: string[]
 }
 
@@ -66,16 +80,17 @@ export async function validateOrder(
           productId: typeof item.product === 'object' && item.product !== null
             ? (typeof item.product.id === 'string' ? item.product.id : String(item.product.id))
             : String(item.product),
-          quantity: item.quantity || 0,
+          quantity: getItemBaseQuantity(item),
           productName: typeof item.product === 'object' && item.product !== null
             ? (item.product.title || String(item.product.id))
             : String(item.product),
         }))
 
-      // Check stock availability for all items
+      // Check stock availability for all items at the fulfilling outlet
       const stockCheck = await checkBulkStockAvailability(
         payload,
-        itemsToCheck.map(item => ({ productId: item.productId, quantity: item.quantity }))
+        itemsToCheck.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        { outletId: await getOrderOutletId(payload, order) }
       )
 
       // Process stock check results
@@ -87,13 +102,13 @@ export async function validateOrder(
           productId: item.productId,
           productName: item.productName,
           requestedQuantity: item.quantity,
-          availableQuantity: stockResult.quantity,
+          availableQuantity: stockResult.availableQuantity,
           isAvailable: stockResult.isAvailable,
         })
 
         if (!stockResult.isAvailable) {
           errors.push(
-            `Insufficient stock for "${item.productName}": requested ${item.quantity}, available ${stockResult.quantity}`
+            `Insufficient stock for "${item.productName}": requested ${item.quantity}, available ${stockResult.availableQuantity}`
           )
         }
 
@@ -106,6 +121,11 @@ export async function validateOrder(
       }
     }
 
+    // Drug interaction warnings are surfaced, never blocking
+    for (const warning of order.interaction_warnings || []) {
+      warnings.push(warning.message)
+    }
+
     // Validate addresses
     if (!order.shipping_address) {
       errors.push('Shipping address is required')
@@ -117,7 +137,7 @@ export async function validateOrder(
     }
 
     // Validate totals
-    if (!order.total || order.total <= 0) {
+    if (!order.totalAmount || order.totalAmount <= 0) {
       errors.push('Order total must be greater than zero')
     }
 
@@ -143,6 +163,7 @@ export async function validateOrder(
 
 /**
  * Process order confirmation with stock allocation
+ * Moves the order to processing; the Orders hooks validate and deduct stock
  */
 export async function processOrderConfirmation(
   payload: Payload,
@@ -165,7 +186,7 @@ export async function processOrderConfirmation(
     const order = await payload.findByID({
       collection: 'orders',
       id: orderId,
-      depth: 1,
+      depth: 0,
     })
 
     if (!order) {
@@ -177,49 +198,25 @@ export async function processOrderConfirmation(
       }
     }
 
-    // Process each item in the order
-    for (const item of order.items || []) {
-      if (item && typeof item === 'object' && 'product' in item && 'quantity' in item) {
-        const productId = typeof item.product === 'object' && item.product !== null
-          ? (typeof item.product.id === 'string' ? item.product.id : String(item.product.id))
-          : String(item.product)
-        const quantityToDeduct = item.quantity || 0
-
-        if (productId && quantityToDeduct > 0) {
-          // Find single inventory record
-          const inventoryResult = await payload.find({
-            collection: 'inventory',
-            where: {
-              product: { equals: productId },
-            },
-            limit: 1,
-          })
-
-          if (inventoryResult.docs.length > 0) {
-            const inventory = inventoryResult.docs[0]
-            const currentQty = inventory.quantity || 0
-            const newQuantity = currentQty - quantityToDeduct
-
-            if (newQuantity >= 0) {
-              await payload.update({
-                collection: 'inventory',
-                id: inventory.id,
-                data: {
-                  quantity: newQuantity
-                },
-                overrideAccess: true,
-                context: { skipHooks: true }
-              })
-            } else {
-              payload.logger.error(`Processing Error: Insufficient stock for product ${productId} during confirmation`)
-              // In real world, we'd abort all changes, but here we process what we can or should have failed validation earlier
-            }
-          }
-        }
+    if (!canTransitionOrderStatus(order.status, 'processing')) {
+      return {
+        success: false,
+        orderId,
+        message: `Cannot process order with status: ${order.status}`,
+        errors: [`Order status "${order.status}" does not allow processing`],
       }
     }
 
-    // Update order status to confirmed
+    if (order.has_payment_mismatch) {
+      return {
+        success: false,
+        orderId,
+        message: 'Order total does not match the paid amount',
+        errors: ['Reconcile the payment mismatch before processing this order'],
+      }
+    }
+
+    // Update order status - stock is deducted by the Orders hooks
     await payload.update({
       collection: 'orders',
       id: orderId,
@@ -227,14 +224,13 @@ export async function processOrderConfirmation(
         status: 'processing',
       },
       overrideAccess: true,
-      context: { skipStockValidation: true },
     })
 
     return {
       success: true,
       orderId,
       message: `Order confirmed successfully`,
-      stockMovements: [],
+      stockMovements: await getOrderInventoryMovements(payload, orderId, 'sale'),
     }
   } catch (error) {
     payload.logger.error(
@@ -252,11 +248,12 @@ export async function processOrderConfirmation(
 
 /**
  * Cancel an order and restore stock
+ * Stock held by the order is restored by the Orders hooks
  */
 export async function cancelOrder(
   payload: Payload,
   orderId: string | number,
-  _reason?: string,
+  reason = 'Order cancellation',
   _userId?: string | number
 ): Promise<OrderProcessingResult> {
   try {
@@ -264,7 +261,7 @@ export async function cancelOrder(
     const order = await payload.findByID({
       collection: 'orders',
       id: orderId,
-      depth: 1,
+      depth: 0,
     })
 
     if (!order) {
@@ -277,7 +274,7 @@ export async function cancelOrder(
     }
 
     // Check if order can be cancelled
-    if (!['pending', 'confirmed', 'processing'].includes(order.status || '')) {
+    if (!canTransitionOrderStatus(order.status, 'cancelled')) {
       return {
         success: false,
         orderId,
@@ -286,36 +283,6 @@ export async function cancelOrder(
       }
     }
 
-    // Restore stock based on order items
-    if (order.items) {
-      for (const item of order.items) {
-        const productId = typeof item.product === 'object' && item.product !== null ? item.product.id : item.product
-        const quantityToRestore = item.quantity || 0
-
-        if (quantityToRestore > 0) {
-          // Find inventory
-          const inventoryResult = await payload.find({
-            collection: 'inventory',
-            where: { product: { equals: productId } },
-            limit: 1
-          })
-
-          if (inventoryResult.docs.length > 0) {
-            const inventory = inventoryResult.docs[0]
-            const newQuantity = (inventory.quantity || 0) + quantityToRestore
-
-            await payload.update({
-              collection: 'inventory',
-              id: inventory.id,
-              data: { quantity: newQuantity },
-              overrideAccess: true,
-              context: { skipHooks: true }
-            })
-          }
-        }
-      }
-    }
-
     // Update order status to cancelled
     await payload.update({
       collection: 'orders',
@@ -324,13 +291,14 @@ export async function cancelOrder(
         status: 'cancelled',
       },
       overrideAccess: true,
+      context: { cancellationReason: reason },
     })
 
     return {
       success: true,
       orderId,
       message: `Order cancelled successfully`,
-      stockMovements: [], // None to return
+      stockMovements: await getOrderInventoryMovements(payload, orderId, 'cancellation_restore'),
     }
   } catch (error) {
     payload.logger.error(
@@ -358,7 +326,7 @@ export async function getOrderProcessingStatus(
   currentStatus: string
   canBeCancelled: boolean
   canBeProcessed: boolean
-  stockMovements: unknown[]
+  stockMovements: InventoryMovement[]
   validationResult: OrderValidationResult
 }> {
   try {
@@ -375,14 +343,16 @@ export async function getOrderProcessingStatus(
     // Get validation result
     const validationResult = await validateOrder(payload, orderId)
 
-    // stockMovements effectively unused/empty now
-    const stockMovements: unknown[] = []
+    const stockMovements = await getOrderInventoryMovements(payload, orderId)
 
     return {
       orderId,
       currentStatus: order.status || 'unknown',
-      canBeCancelled: ['pending', 'confirmed', 'processing'].includes(order.status || ''),
-      canBeProcessed: (order.status as string) === 'pending' && validationResult.isValid,
+      canBeCancelled: canTransitionOrderStatus(order.status, 'cancelled'),
+      canBeProcessed:
+        canTransitionOrderStatus(order.status, 'processing') &&
+        !order.has_payment_mismatch &&
+        validationResult.isValid,
       stockMovements,
       validationResult,
     }
@@ -0,0 +1,78 @@
+/**
+ * Order Status State Machine
+ *
+ * pending → paid → processing → shipped → delivered
+ * Prescription orders pass through prescription_review between paid and processing.
+ * Orders can be cancelled before shipping and refunded once paid.
+ *
+ * Stock is deducted when an order enters processing and restored when it is
+ * cancelled or refunded before shipping. `order.stock_deducted` records whether
+ * stock is currently held so each happens exactly once.
+ */
+
+export const ORDER_STATUSES = [
+  'pending',
+  'paid',
+  'prescription_review',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'refunded',
+] as const
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number]
+
+/**
+ * Statuses an order may be created with
+ * Only admins (and payment code, with overrideAccess) can set the status: a
+ * customer's order is always created pending.
+ */
+export const INITIAL_ORDER_STATUSES: readonly OrderStatus[] = ['pending', 'paid', 'prescription_review']
+
+/**
+ * Allowed transitions per status (terminal statuses have none)
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['prescription_review', 'processing', 'cancelled', 'refunded'],
+  prescription_review: ['processing', 'cancelled', 'refunded'],
+  processing: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+}
+
+/**
+ * Statuses in which goods have left the pharmacy (stock is not restored on refund)
+ */
+export const SHIPPED_ORDER_STATUSES: readonly OrderStatus[] = ['shipped', 'delivered']
+
+/**
+ * Statuses counted as a completed sale in reports
+ */
+export const REVENUE_ORDER_STATUSES: readonly OrderStatus[] = [
+  'paid',
+  'prescription_review',
+  'processing',
+  'shipped',
+  'delivered',
+]
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Check whether an order may move from one status to another
+ * Orders without a status are treated as pending
+ */
+export function canTransitionOrderStatus(
+  from: string | null | undefined,
+  to: string
+): boolean {
+  const current = from || 'pending'
+  if (!isOrderStatus(current) || !isOrderStatus(to)) return false
+  return ORDER_STATUS_TRANSITIONS[current].includes(to)
+}
@@ -0,0 +1,299 @@
+/**
+ * Outlet Utilities
+ *
+ * Inventory is kept per product per outlet. Records without an outlet belong
+ * to the default outlet (or are the only stock of a single-outlet setup), so
+ * lookups for the default outlet include them.
+ *
+ * New orders are routed to the nearest active outlet that has every item in
+ * stock. "Nearest" is judged from the delivery address: a postal code prefix
+ * in the outlet's service area first (longer prefix wins), then a matching
+ * city, then the numeric distance between postal codes, which follow delivery
+ * regions in Indonesia.
+ */
+
+import type { Inventory, Outlet } from '@/payload-types'
+import type { Payload, PayloadRequest, Where } from 'payload'
+
+export interface OutletAddress {
+  city?: string | null
+  postalCode?: string | null
+}
+
+export interface RankedOutlet {
+  outlet: Outlet
+  /** 0 = postal prefix in service area, 1 = same city, 2 = other */
+  matchLevel: 0 | 1 | 2
+  /** Length of the matching service area postal prefix */
+  prefixLength: number
+  /** |outlet postal code − address postal code|, null when either is unknown */
+  postalDistance: number | null
+}
+
+export interface OutletRoutingItem {
+  productId: string
+  /** In the product's base unit */
+  quantity: number
+}
+
+export interface OutletRoutingResult {
+  /** Nearest outlet with every item in stock, null when none has */
+  outlet: Outlet | null
+  /** Active outlets, nearest first, with whether each can fulfil the order */
+  candidates: Array<RankedOutlet & { canFulfil: boolean; shortItems: string[] }>
+}
+
+const relationId = (value: unknown): string | null => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : null
+}
+
+const normalizeCity = (city: string | null | undefined): string =>
+  (city || '').trim().toLowerCase().replace(/^(kota|kabupaten|kab\.)\s+/, '')
+
+const normalizePostalCode = (postalCode: string | null | undefined): string =>
+  (postalCode || '').replace(/\D/g, '')
+
+/**
+ * Outlet ID of a relationship value (ID or populated document)
+ */
+export function getOutletId(outlet: unknown): string | null {
+  return relationId(outlet)
+}
+
+/**
+ * The active default outlet, if one is configured
+ */
+export async function getDefaultOutlet(payload: Payload, req?: PayloadRequest): Promise<Outlet | null> {
+  const result = await payload.find({
+    collection: 'outlets',
+    where: {
+      and: [
+        { is_default: { equals: true } },
+        { is_active: { equals: true } },
+      ],
+    },
+    limit: 1,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  return result.docs[0] || null
+}
+
+/**
+ * Outlet an order is fulfilled from: its routed outlet, else the default outlet
+ * Null only in a single-outlet setup without outlets.
+ */
+export async function getOrderOutletId(
+  payload: Payload,
+  order: { outlet?: unknown },
+  req?: PayloadRequest
+): Promise<string | null> {
+  return relationId(order.outlet) || (await getDefaultOutlet(payload, req))?.id || null
+}
+
+/**
+ * Where clause for the inventory held at an outlet
+ * Records without an outlet count as the default outlet's.
+ */
+export function outletInventoryWhere(
+  outletId: string | null | undefined,
+  defaultOutletId: string | null | undefined
+): Where {
+  if (!outletId) return { outlet: { exists: false } }
+  if (outletId !== defaultOutletId) return { outlet: { equals: outletId } }
+
+  return {
+    or: [
+      { outlet: { equals: outletId } },
+      { outlet: { exists: false } },
+    ],
+  }
+}
+
+/**
+ * Inventory record of a product at an outlet
+ * Without `outletId` the default outlet's record is returned.
+ */
+export async function findInventoryRecord(
+  payload: Payload,
+  productId: string | number,
+  options: { outletId?: string | null; req?: PayloadRequest; depth?: number } = {}
+): Promise<Inventory | null> {
+  const { req, depth = 0 } = options
+  const defaultOutlet = await getDefaultOutlet(payload, req)
+  const outletId = options.outletId || defaultOutlet?.id || null
+
+  const result = await payload.find({
+    collection: 'inventory',
+    where: {
+      and: [
+        { product: { equals: productId } },
+        outletInventoryWhere(outletId, defaultOutlet?.id),
+      ],
+    },
+    limit: 2,
+    depth,
+    req,
+    overrideAccess: true,
+  })
+
+  // Prefer the record assigned to the outlet over a legacy unassigned one
+  return result.docs.find((record) => relationId(record.outlet) === outletId) || result.docs[0] || null
+}
+
+/**
+ * Every inventory record of a product, one per outlet
+ */
+export async function findProductInventory(
+  payload: Payload,
+  productId: string | number,
+  options: { req?: PayloadRequest; depth?: number } = {}
+): Promise<Inventory[]> {
+  const result = await payload.find({
+    collection: 'inventory',
+    where: { product: { equals: productId } },
+    pagination: false,
+    depth: options.depth ?? 0,
+    req: options.req,
+    overrideAccess: true,
+  })
+
+  return result.docs
+}
+
+/**
+ * Order active outlets by distance from a delivery address, nearest first
+ * The default outlet breaks ties, then the outlet name.
+ */
+export function rankOutletsForAddress(outlets: Outlet[], address: OutletAddress): RankedOutlet[] {
+  const city = normalizeCity(address.city)
+  const postalCode = normalizePostalCode(address.postalCode)
+
+  return outlets
+    .filter((outlet) => outlet.is_active !== false)
+    .map((outlet): RankedOutlet => {
+      const areas = outlet.service_areas || []
+
+      const prefixLength = postalCode
+        ? Math.max(
+          0,
+          ...areas
+            .map((area) => normalizePostalCode(area.postal_code_prefix))
+            .filter((prefix) => prefix && postalCode.startsWith(prefix))
+            .map((prefix) => prefix.length)
+        )
+        : 0
+
+      const cityMatch = Boolean(city) && [outlet.city, ...areas.map((area) => area.city)]
+        .some((candidate) => normalizeCity(candidate) === city)
+
+      const outletPostalCode = normalizePostalCode(outlet.postal_code)
+      const postalDistance = postalCode && outletPostalCode
+        ? Math.abs(Number(outletPostalCode) - Number(postalCode))
+        : null
+
+      return {
+        outlet,
+        matchLevel: prefixLength > 0 ? 0 : cityMatch ? 1 : 2,
+        prefixLength,
+        postalDistance,
+      }
+    })
+    .sort((a, b) =>
+      a.matchLevel - b.matchLevel ||
+      b.prefixLength - a.prefixLength ||
+      (a.postalDistance ?? Infinity) - (b.postalDistance ?? Infinity) ||
+      Number(Boolean(b.outlet.is_default)) - Number(Boolean(a.outlet.is_default)) ||
+      a.outlet.name.localeCompare(b.outlet.name)
+    )
+}
+
+/**
+ * Stock of the given products at each outlet, keyed by outlet ID then product ID
+ * Unassigned records are counted at the default outlet.
+ */
+export async function getOutletStockLevels(
+  payload: Payload,
+  productIds: string[],
+  options: { defaultOutletId?: string | null; req?: PayloadRequest } = {}
+): Promise<Map<string, Map<string, number>>> {
+  const levels = new Map<string, Map<string, number>>()
+  if (productIds.length === 0) return levels
+
+  const inventory = await payload.find({
+    collection: 'inventory',
+    where: { product: { in: productIds } },
+    pagination: false,
+    depth: 0,
+    req: options.req,
+    overrideAccess: true,
+  })
+
+  for (const record of inventory.docs) {
+    const outletId = relationId(record.outlet) || options.defaultOutletId
+    const productId = relationId(record.product)
+    if (!outletId || !productId) continue
+
+    const stock = levels.get(outletId) || new Map<string, number>()
+    stock.set(productId, (stock.get(productId) || 0) + (record.quantity || 0))
+    levels.set(outletId, stock)
+  }
+
+  return levels
+}
+
+/**
+ * Pick the nearest active outlet able to fulfil every item from its own stock
+ */
+export async function findFulfilmentOutlet(
+  payload: Payload,
+  {
+    items,
+    address,
+    req,
+  }: {
+    items: OutletRoutingItem[]
+    address: OutletAddress
+    req?: PayloadRequest
+  }
+): Promise<OutletRoutingResult> {
+  const outlets = await payload.find({
+    collection: 'outlets',
+    where: { is_active: { equals: true } },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  if (outlets.docs.length === 0) {
+    return { outlet: null, candidates: [] }
+  }
+
+  // Same product may appear once per variant; route on the combined quantity
+  const required = new Map<string, number>()
+  for (const item of items) {
+    if (!item.productId || item.quantity <= 0) continue
+    required.set(item.productId, (required.get(item.productId) || 0) + item.quantity)
+  }
+
+  const defaultOutletId = outlets.docs.find((outlet) => outlet.is_default)?.id
+  const stockLevels = await getOutletStockLevels(payload, [...required.keys()], { defaultOutletId, req })
+
+  const candidates = rankOutletsForAddress(outlets.docs, address).map((ranked) => {
+    const stock = stockLevels.get(ranked.outlet.id)
+    const shortItems = [...required]
+      .filter(([productId, quantity]) => (stock?.get(productId) || 0) < quantity)
+      .map(([productId]) => productId)
+
+    return { ...ranked, canFulfil: shortItems.length === 0, shortItems }
+  })
+
+  return {
+    outlet: candidates.find((candidate) => candidate.canFulfil)?.outlet || null,
+    candidates,
+  }
+}
@@ -5,7 +5,7 @@
 
 // Stock availability utilities
 export {
-  checkBulkStockAvailability, checkStockAvailability, type StockAvailabilityResult
+  checkBulkStockAvailability, checkStockAvailability, type OutletStockLevel, type StockAvailabilityResult
 } from './stockAvailability'
 
 // Order processing utilities
@@ -14,6 +14,14 @@ export {
   getOrderProcessingStatus, processOrderConfirmation, validateOrder, type OrderProcessingResult, type OrderValidationResult
 } from './orderProcessing'
 
+// Order status state machine
+export {
+  canTransitionOrderStatus,
+  ORDER_STATUS_TRANSITIONS,
+  ORDER_STATUSES,
+  type OrderStatus
+} from './orderStatus'
+
 // Stock management utilities
 export {
   calculateInventoryValuation,
@@ -28,19 +36,144 @@ export {
 
 // Reporting utilities
 export {
+  abcXyzReportToCsv,
+  generateAbcXyzReport,
+  generateBpomComplianceReport,
   generateFinancialReport,
+  generateInventoryMovementsReport,
   generateInventoryStatusReport,
   generateSalesReport,
+  type AbcXyzReport,
+  type BpomComplianceReport,
   type FinancialReport,
+  type InventoryMovementsReport,
   type InventoryStatusReport,
   type SalesReport
 } from './reportingUtilities'
 
+// Inventory batch utilities
+export {
+  consumeBatchesFEFO,
+  getBatchExpirySummary,
+  getExpiredBatchQuantities,
+  getOutstandingOrderBatches,
+  getSellableQuantity,
+  restoreOrderBatchStock,
+  type BatchAllocation,
+  type BatchExpirySummary
+} from './inventoryBatches'
+
+// Inventory movement ledger utilities
+export {
+  backfillOpeningBalances,
+  getInventoryLedgerBalance,
+  getInventoryLedgerBalances,
+  getLatestInventoryMovement,
+  INVENTORY_MOVEMENT_TYPES,
+  inventoryMovementContext,
+  OPENING_BALANCE_REASON,
+  withScopedContext,
+  type InventoryMovementContext,
+  type InventoryMovementType
+} from './inventoryMovements'
+
+// Pharmaceutical product attributes
+export {
+  DOSAGE_FORMS,
+  DRUG_CLASSES,
+  normalizeIngredientName,
+  PRESCRIPTION_DRUG_CLASSES,
+  STRENGTH_PATTERN,
+  type DosageForm,
+  type DrugClass
+} from './productAttributes'
+
+// BPOM registration numbers
+export {
+  getBpomComplianceIssues,
+  normalizeBpomRegistrationNumber,
+  parseBpomRegistrationNumber,
+  requiresBpomRegistration,
+  type BpomCategory,
+  type BpomComplianceIssue,
+  type BpomOrigin,
+  type BpomRegistration
+} from './bpomRegistration'
+
+// Drug interaction and duplicate-therapy checks
+export {
+  checkDrugInteractions,
+  DRUG_INTERACTION_SEVERITIES,
+  getProductIngredients,
+  type DrugInteractionSeverity,
+  type DrugInteractionWarning
+} from './drugInteractions'
+
+// Per-product and per-category purchase limits
+export {
+  checkPurchaseLimits,
+  hasPurchaseLimit,
+  PurchaseLimitError,
+  type PurchaseLimitItem,
+  type PurchaseLimitViolation
+} from './purchaseLimits'
+
+// Pack-size variants
+export {
+  getItemBaseQuantity,
+  getVariantUnitsPerPack,
+  resolveVariantPricing
+} from './productVariants'
+
+// Catalog full-text search
+export {
+  normalizeSearchQuery,
+  searchCatalog,
+  type CatalogSearchResult
+} from './catalogSearch'
+
+// Units of measure (base unit and conversions)
+export {
+  describeQuantity,
+  getBaseUnit,
+  getUnitFactor,
+  toBaseQuantity,
+  UnitConversionError
+} from './unitsOfMeasure'
+
+// Supplier purchase orders and goods receipt
+export {
+  canTransitionPurchaseOrderStatus,
+  generateDraftPurchaseOrders,
+  receivePurchaseOrder,
+  type GoodsReceiptLine
+} from './purchaseOrders'
+
+// Stock takes (cycle counts)
+export {
+  approveStockTake,
+  generateStockTakeVarianceReport,
+  parseStockTakeCsv,
+  recordStockTakeCounts,
+  type StockTakeVarianceReport
+} from './stockTakes'
+
+// Multi-outlet inventory and order routing
+export {
+  findFulfilmentOutlet,
+  findInventoryRecord,
+  getDefaultOutlet,
+  rankOutletsForAddress,
+  type OutletRoutingResult
+} from './outlets'
+
 /**
  * Comprehensive pharmacy utilities for common operations
  */
 
 import type { Payload } from 'payload'
+import { getReorderPoint } from './demandForecast'
+import { getBatchExpirySummary } from './inventoryBatches'
 import { checkStockAvailability } from './stockAvailability'
 
 /**
@@ -67,6 +200,7 @@ export async function getPharmacySystemStatus(payload: Payload): Promise<{
       lowStockResult,
       pendingOrdersResult,
       processingOrdersResult,
+      batchExpirySummary,
     ] = await Promise.all([
       // Total active products
       payload.find({
@@ -96,14 +230,15 @@ export async function getPharmacySystemStatus(payload: Payload): Promise<{
         where: { status: { equals: 'processing' } },
         limit: 1,
       }),
+
+      // Batch expiry counts
+      getBatchExpirySummary(payload),
     ])
 
     // Calculate low stock count
     let lowStockCount = 0
     for (const inventory of lowStockResult.docs) {
-      const quantity = (inventory.quantity || 0)
-      const threshold = (inventory.low_stock_threshold || 10)
-      if (quantity <= threshold) {
+      if ((inventory.quantity || 0) <= getReorderPoint(inventory)) {
         lowStockCount++
       }
     }
@@ -111,7 +246,7 @@ export async function getPharmacySystemStatus(payload: Payload): Promise<{
     const stockStatus = {
       totalProducts: totalProductsResult.totalDocs,
       lowStockProducts: lowStockCount,
-      expiredBatches: 0, // Expiry removed
+      expiredBatches: batchExpirySummary.expiredBatches,
     }
 
     const orderStatus = {
@@ -123,7 +258,7 @@ export async function getPharmacySystemStatus(payload: Payload): Promise<{
     let systemHealth: 'healthy' | 'warning' | 'critical' = 'healthy'
 
     // Adjusted thresholds
-    if (stockStatus.lowStockProducts > 10 || orderStatus.pendingOrders > 10) {
+    if (stockStatus.lowStockProducts > 10 || orderStatus.pendingOrders > 10 || stockStatus.expiredBatches > 0) {
       systemHealth = 'warning'
     }
 
@@ -188,16 +323,16 @@ export async function validateProductAvailability(
 
     let message = 'Available'
     if (!stockResult.isAvailable) {
-      message = stockResult.quantity === 0
+      message = stockResult.availableQuantity === 0
         ? 'Out of stock'
-        : `Only ${stockResult.quantity} available`
-    } else if (stockResult.quantity < quantity * 2) {
+        : `Only ${stockResult.availableQuantity} available`
+    } else if (stockResult.availableQuantity < quantity * 2) {
       message = 'Limited stock available'
     }
 
     return {
       isAvailable: stockResult.isAvailable,
-      availableQuantity: stockResult.quantity,
+      availableQuantity: stockResult.availableQuantity,
       message,
     }
   } catch (error) {
@@ -211,4 +346,19 @@ export async function validateProductAvailability(
       message: 'Unable to check availability',
     }
   }
-}
\ No newline at end of file
+}
+// Stock transfers between outlets
+export {
+  dispatchStockTransfer,
+  receiveStockTransfer,
+  suggestStockTransfers,
+  type StockTransferSuggestion
+} from './stockTransfers'
+
+// Demand forecasting for reorder points
+export {
+  forecastReorderPoint,
+  getReorderPoint,
+  refreshReorderPoints,
+  type DemandForecast
+} from './demandForecast'
@@ -0,0 +1,62 @@
+/**
+ * Private Document Utilities
+ *
+ * Customer uploads with personal, medical or financial content (prescriptions,
+ * bank transfer receipts) are kept in the `private-documents` collection,
+ * readable by admins and the owning customer only. Uploads are stored here on
+ * behalf of the customer after the calling endpoint has checked they own the
+ * order or hold the transaction's upload token.
+ */
+
+import type { PrivateDocument } from '@/payload-types'
+import type { PayloadRequest } from 'payload'
+import { APIError } from 'payload'
+
+export const PRIVATE_DOCUMENT_KINDS = ['prescription', 'payment_proof'] as const
+
+export type PrivateDocumentKind = (typeof PRIVATE_DOCUMENT_KINDS)[number]
+
+export const PRIVATE_DOCUMENT_KIND_OPTIONS: Array<{ label: string; value: PrivateDocumentKind }> = [
+  { label: 'Prescription', value: 'prescription' },
+  { label: 'Proof of Payment', value: 'payment_proof' },
+]
+
+/** Photos or scans of a document */
+export const PRIVATE_DOCUMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'] as const
+
+/**
+ * Store an uploaded file as a private document of a customer
+ * Throws a 400 APIError when the file is missing or not an accepted type.
+ */
+export async function storePrivateDocument(
+  req: PayloadRequest,
+  options: {
+    kind: PrivateDocumentKind
+    /** Owning customer; guest uploads are readable by admins only */
+    userId?: string | null
+    orderId?: string
+    transactionId?: string
+  }
+): Promise<PrivateDocument> {
+  const file = req.file
+
+  if (!file) {
+    throw new APIError('A file is required', 400)
+  }
+  if (!(PRIVATE_DOCUMENT_MIME_TYPES as readonly string[]).includes(file.mimetype)) {
+    throw new APIError('The file must be a JPEG, PNG, WebP image or a PDF', 400)
+  }
+
+  return req.payload.create({
+    collection: 'private-documents',
+    data: {
+      kind: options.kind,
+      user: options.userId,
+      order: options.orderId,
+      transaction: options.transactionId,
+    },
+    file,
+    req,
+    overrideAccess: true,
+  })
+}
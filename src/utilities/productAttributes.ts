@@ -0,0 +1,75 @@
+/**
+ * Pharmaceutical Product Attributes
+ *
+ * Controlled vocabularies for the Pharmacy tab on Products. Drug classes follow
+ * the Indonesian BPOM marking scheme: obat bebas (green circle), obat bebas
+ * terbatas (blue circle) and obat keras (red circle with K, prescription only).
+ */
+
+export const DRUG_CLASSES = ['obat_bebas', 'obat_bebas_terbatas', 'obat_keras'] as const
+
+export type DrugClass = (typeof DRUG_CLASSES)[number]
+
+export const DRUG_CLASS_OPTIONS: Array<{ label: string; value: DrugClass }> = [
+  { label: 'Obat Bebas', value: 'obat_bebas' },
+  { label: 'Obat Bebas Terbatas', value: 'obat_bebas_terbatas' },
+  { label: 'Obat Keras (Prescription Only)', value: 'obat_keras' },
+]
+
+/**
+ * Drug classes that may only be sold against a prescription
+ */
+export const PRESCRIPTION_DRUG_CLASSES: readonly DrugClass[] = ['obat_keras']
+
+export const DOSAGE_FORMS = [
+  'tablet',
+  'caplet',
+  'capsule',
+  'syrup',
+  'suspension',
+  'drops',
+  'injection',
+  'cream',
+  'ointment',
+  'gel',
+  'suppository',
+  'inhaler',
+  'powder',
+  'other',
+] as const
+
+export type DosageForm = (typeof DOSAGE_FORMS)[number]
+
+export const DOSAGE_FORM_OPTIONS: Array<{ label: string; value: DosageForm }> = [
+  { label: 'Tablet', value: 'tablet' },
+  { label: 'Caplet (Kaplet)', value: 'caplet' },
+  { label: 'Capsule (Kapsul)', value: 'capsule' },
+  { label: 'Syrup (Sirup)', value: 'syrup' },
+  { label: 'Suspension (Suspensi)', value: 'suspension' },
+  { label: 'Drops (Tetes)', value: 'drops' },
+  { label: 'Injection (Injeksi)', value: 'injection' },
+  { label: 'Cream (Krim)', value: 'cream' },
+  { label: 'Ointment (Salep)', value: 'ointment' },
+  { label: 'Gel', value: 'gel' },
+  { label: 'Suppository (Supositoria)', value: 'suppository' },
+  { label: 'Inhaler', value: 'inhaler' },
+  { label: 'Powder (Serbuk)', value: 'powder' },
+  { label: 'Other', value: 'other' },
+]
+
+/**
+ * Strength notation: amount and unit, optionally per volume (500mg, 2.5%, 120mg/5ml)
+ */
+export const STRENGTH_PATTERN = /^[\d.,]+\s*(mg|g|ml|l|%|units?|iu|mcg|μg)(\s*\/\s*[\d.,]*\s*(mg|g|ml|l))?$/i
+
+/**
+ * Canonical form of a generic or ingredient name ("  paracetamol " → "Paracetamol")
+ * Ingredient names are stored this way so interaction rules match exactly.
+ */
+export function normalizeIngredientName(value: string): string {
+  return value
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ')
+}
@@ -0,0 +1,102 @@
+/**
+ * Product Variants (pack sizes)
+ *
+ * A product may be sold in several pack sizes (strip, box, bottle) through
+ * the ecommerce plugin's variants. Inventory is kept per product, counted
+ * in the product's base unit; each variant has its own price and
+ * `units_per_pack`, the number of base units one pack consumes (taken from
+ * the product's unit conversions when the variant names a unit).
+ *
+ * Transaction and order lines snapshot `units_per_pack` at checkout so stock
+ * is deducted and restored with the same factor even if the variant changes.
+ */
+
+import type { Product, Variant } from '@/payload-types'
+import type { Payload, PayloadRequest } from 'payload'
+
+/**
+ * Stock units consumed by one pack of a variant (1 without a variant)
+ */
+export const getVariantUnitsPerPack = (
+  variant: Pick<Variant, 'units_per_pack'> | null | undefined
+): number => Math.max(1, Math.floor(variant?.units_per_pack || 1))
+
+/**
+ * Stock units a line consumes: packs × units per pack
+ */
+export const getItemBaseQuantity = (item: {
+  quantity?: number | null
+  units_per_pack?: number | null
+}): number => (item.quantity || 0) * Math.max(1, item.units_per_pack || 1)
+
+/**
+ * Unit price and display name of a line, from its variant when set
+ * Variants without their own price are priced as product price × pack size.
+ */
+export function resolveVariantPricing(
+  product: Pick<Product, 'title' | 'price'> | null,
+  variant: Pick<Variant, 'title' | 'price' | 'units_per_pack'> | null
+): { name: string; price: number; unitsPerPack: number } {
+  const title = product?.title || 'Product'
+  if (!variant) {
+    return { name: title, price: Math.round(product?.price || 0), unitsPerPack: 1 }
+  }
+
+  const unitsPerPack = getVariantUnitsPerPack(variant)
+  return {
+    name: variant.title ? `${title} - ${variant.title}` : title,
+    price: Math.round(variant.price ?? (product?.price || 0) * unitsPerPack),
+    unitsPerPack,
+  }
+}
+
+const relationId = (value: unknown): string | undefined => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : undefined
+}
+
+/**
+ * Load the variants referenced by items, keyed by ID
+ * Populated variants are used as-is; IDs are fetched in one query.
+ */
+export async function loadItemVariants(
+  payload: Payload,
+  items: Array<{ variant?: unknown }>,
+  req?: PayloadRequest
+): Promise<Map<string, Variant>> {
+  const variants = new Map<string, Variant>()
+  const missingIds: string[] = []
+
+  for (const item of items) {
+    if (item.variant && typeof item.variant === 'object') {
+      const variant = item.variant as Variant
+      variants.set(String(variant.id), variant)
+    } else {
+      const id = relationId(item.variant)
+      if (id) missingIds.push(id)
+    }
+  }
+
+  const toLoad = missingIds.filter((id) => !variants.has(id))
+  if (toLoad.length > 0) {
+    const result = await payload.find({
+      collection: 'variants',
+      where: { id: { in: toLoad } },
+      pagination: false,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+    for (const variant of result.docs) {
+      variants.set(String(variant.id), variant)
+    }
+  }
+
+  return variants
+}
+
+/**
+ * Check that a variant belongs to the product it is sold with
+ */
+export const variantBelongsToProduct = (variant: Pick<Variant, 'product'>, productId: string): boolean =>
+  relationId(variant.product) === productId
@@ -0,0 +1,258 @@
+/**
+ * Purchase Limits
+ *
+ * Restricted medicines (pseudoephedrine, certain antibiotics) may be capped
+ * per customer. Limits are set on a product or on its category:
+ * - max_quantity_per_order: units in one cart / order
+ * - max_quantity_per_period: units over the last purchase_limit_period_days
+ *
+ * Units are the product's base (stock) unit: a box of 10 strips counts as 10
+ * towards a strip limit, however the line was sold.
+ *
+ * A product limit applies to that product alone. A category limit applies to
+ * the combined quantity of every product in the category.
+ */
+
+import type { Category, Product } from '@/payload-types'
+import type { Payload, PayloadRequest } from 'payload'
+import { APIError } from 'payload'
+import { getItemBaseQuantity } from './productVariants'
+import { toBaseQuantity } from './unitsOfMeasure'
+
+export const DEFAULT_PURCHASE_LIMIT_PERIOD_DAYS = 30
+
+/**
+ * Orders that never count towards the rolling period
+ */
+const EXCLUDED_ORDER_STATUSES = ['cancelled', 'refunded']
+
+type PurchaseLimitSource = Pick<
+  Product | Category,
+  'max_quantity_per_order' | 'max_quantity_per_period' | 'purchase_limit_period_days'
+>
+
+export interface PurchaseLimitViolation {
+  scope: 'product' | 'category'
+  /** Product or category ID */
+  id: string
+  name: string
+  kind: 'per_order' | 'per_period'
+  limit: number
+  requested: number
+  /** Units already bought in the period (per_period only) */
+  alreadyPurchased: number
+  periodDays?: number
+  message: string
+}
+
+export class PurchaseLimitError extends APIError {
+  violations: PurchaseLimitViolation[]
+
+  constructor(violations: PurchaseLimitViolation[]) {
+    super(violations.map((violation) => violation.message).join('\n'), 400, { violations }, true)
+    this.name = 'PurchaseLimitError'
+    this.violations = violations
+  }
+}
+
+export const hasPurchaseLimit = (source: PurchaseLimitSource | null | undefined): boolean =>
+  Boolean(source && (source.max_quantity_per_order || source.max_quantity_per_period))
+
+const relationId = (value: unknown): string | undefined => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : undefined
+}
+
+interface LimitedGroup {
+  scope: PurchaseLimitViolation['scope']
+  id: string
+  name: string
+  limits: PurchaseLimitSource
+  productIds: Set<string>
+  requested: number
+}
+
+/**
+ * A cart or order line to check
+ * `quantity` is in packs of `unitsPerPack` base units (pack-size variants) or
+ * in `unit` of the product; plain lines are already in base units.
+ */
+export interface PurchaseLimitItem {
+  productId: string | number
+  quantity: number
+  unitsPerPack?: number | null
+  unit?: string | null
+}
+
+/**
+ * Check quantities against product and category purchase limits
+ * `items` is the full cart or order; the rolling period also counts the
+ * customer's other orders (excluding `excludeOrderId`).
+ */
+export async function checkPurchaseLimits(
+  payload: Payload,
+  options: {
+    items: PurchaseLimitItem[]
+    customerId?: string | number | null
+    excludeOrderId?: string | number
+    req?: PayloadRequest
+  }
+): Promise<PurchaseLimitViolation[]> {
+  const { items, customerId, excludeOrderId, req } = options
+  if (items.length === 0) return []
+
+  const products = await payload.find({
+    collection: 'products',
+    where: { id: { in: Array.from(new Set(items.map((item) => String(item.productId)))) } },
+    pagination: false,
+    depth: 1,
+    req,
+    overrideAccess: true,
+  })
+
+  const quantityByProduct = new Map<string, number>()
+  for (const item of items) {
+    const productId = String(item.productId)
+    const product = products.docs.find((doc) => doc.id === productId)
+    const packs = getItemBaseQuantity({ quantity: item.quantity, units_per_pack: item.unitsPerPack })
+    const quantity = item.unit ? toBaseQuantity(product, packs, item.unit) : packs
+    quantityByProduct.set(productId, (quantityByProduct.get(productId) || 0) + quantity)
+  }
+
+  const groups = new Map<string, LimitedGroup>()
+  for (const product of products.docs) {
+    const requested = quantityByProduct.get(product.id) || 0
+
+    if (hasPurchaseLimit(product)) {
+      groups.set(`product:${product.id}`, {
+        scope: 'product',
+        id: product.id,
+        name: product.title,
+        limits: product,
+        productIds: new Set([product.id]),
+        requested,
+      })
+    }
+
+    const category = typeof product.category === 'object' ? product.category : null
+    if (category && hasPurchaseLimit(category)) {
+      const key = `category:${category.id}`
+      const group = groups.get(key) || {
+        scope: 'category',
+        id: String(category.id),
+        name: category.name,
+        limits: category,
+        productIds: new Set<string>(),
+        requested: 0,
+      }
+      group.productIds.add(product.id)
+      group.requested += requested
+      groups.set(key, group)
+    }
+  }
+
+  if (groups.size === 0) return []
+
+  const violations: PurchaseLimitViolation[] = []
+  const historyCache = new Map<number, Map<string, number>>()
+
+  for (const group of groups.values()) {
+    const { max_quantity_per_order: perOrder, max_quantity_per_period: perPeriod } = group.limits
+    const label = group.scope === 'category' ? `products in "${group.name}"` : `"${group.name}"`
+
+    if (perOrder && group.requested > perOrder) {
+      violations.push({
+        scope: group.scope,
+        id: group.id,
+        name: group.name,
+        kind: 'per_order',
+        limit: perOrder,
+        requested: group.requested,
+        alreadyPurchased: 0,
+        message: `You can buy at most ${perOrder} of ${label} per order (requested ${group.requested})`,
+      })
+      continue
+    }
+
+    if (!perPeriod || !customerId) continue
+
+    const periodDays = group.limits.purchase_limit_period_days || DEFAULT_PURCHASE_LIMIT_PERIOD_DAYS
+    if (!historyCache.has(periodDays)) {
+      historyCache.set(
+        periodDays,
+        await getPurchasedQuantities(payload, { customerId, periodDays, excludeOrderId, req })
+      )
+    }
+    const history = historyCache.get(periodDays)!
+    const alreadyPurchased = Array.from(group.productIds).reduce(
+      (sum, productId) => sum + (history.get(productId) || 0),
+      0
+    )
+
+    if (alreadyPurchased + group.requested > perPeriod) {
+      const remaining = Math.max(0, perPeriod - alreadyPurchased)
+      violations.push({
+        scope: group.scope,
+        id: group.id,
+        name: group.name,
+        kind: 'per_period',
+        limit: perPeriod,
+        requested: group.requested,
+        alreadyPurchased,
+        periodDays,
+        message:
+          `You can buy at most ${perPeriod} of ${label} every ${periodDays} days; ` +
+          `${alreadyPurchased} already purchased, ${remaining} remaining (requested ${group.requested})`,
+      })
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Base units per product the customer ordered in the last `periodDays`
+ */
+async function getPurchasedQuantities(
+  payload: Payload,
+  {
+    customerId,
+    periodDays,
+    excludeOrderId,
+    req,
+  }: {
+    customerId: string | number
+    periodDays: number
+    excludeOrderId?: string | number
+    req?: PayloadRequest
+  }
+): Promise<Map<string, number>> {
+  const since = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000)
+
+  const orders = await payload.find({
+    collection: 'orders',
+    where: {
+      and: [
+        { orderedBy: { equals: customerId } },
+        { status: { not_in: EXCLUDED_ORDER_STATUSES } },
+        { createdAt: { greater_than_equal: since.toISOString() } },
+        ...(excludeOrderId ? [{ id: { not_equals: excludeOrderId } }] : []),
+      ],
+    },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  const quantities = new Map<string, number>()
+  for (const order of orders.docs) {
+    for (const item of order.items || []) {
+      const productId = relationId(item.product)
+      if (!productId) continue
+      quantities.set(productId, (quantities.get(productId) || 0) + getItemBaseQuantity(item))
+    }
+  }
+
+  return quantities
+}
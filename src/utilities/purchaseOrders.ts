@@ -0,0 +1,477 @@
+/**
+ * Purchase Orders
+ *
+ * Replenishment from suppliers:
+ * draft → sent → partially_received → received
+ * Drafts and open orders can be cancelled; received and cancelled are final.
+ *
+ * Drafts are generated from generateStockOptimizationRecommendations. Goods
+ * receipt converts the received quantity to the product's base unit, adds it
+ * to inventory (as a batch when batch number and expiry are given) and records
+ * the cost price per base unit for valuation. Each purchase order delivers
+ * to one outlet (the default outlet when empty).
+ */
+
+import type { Product, PurchaseOrder } from '@/payload-types'
+import type { Payload, PayloadRequest } from 'payload'
+import { APIError } from 'payload'
+import { inventoryMovementContext, withScopedContext } from './inventoryMovements'
+import { findInventoryRecord, getDefaultOutlet } from './outlets'
+import { generateStockOptimizationRecommendations, type StockOptimizationRecommendation } from './stockManagement'
+import { getProductUnits, getUnitFactor, toBaseQuantity } from './unitsOfMeasure'
+
+export const PURCHASE_ORDER_STATUSES = [
+  'draft',
+  'sent',
+  'partially_received',
+  'received',
+  'cancelled',
+] as const
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number]
+
+export const PURCHASE_ORDER_STATUS_OPTIONS: Array<{ label: string; value: PurchaseOrderStatus }> = [
+  { label: 'Draft', value: 'draft' },
+  { label: 'Sent', value: 'sent' },
+  { label: 'Partially Received', value: 'partially_received' },
+  { label: 'Received', value: 'received' },
+  { label: 'Cancelled', value: 'cancelled' },
+]
+
+/**
+ * Allowed transitions per status (terminal statuses have none)
+ */
+export const PURCHASE_ORDER_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, readonly PurchaseOrderStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['received', 'cancelled'],
+  received: [],
+  cancelled: [],
+}
+
+/**
+ * Statuses set only by goods receipt, never by editing the order
+ */
+export const RECEIPT_PURCHASE_ORDER_STATUSES: readonly PurchaseOrderStatus[] = ['partially_received', 'received']
+
+/**
+ * Statuses with goods still to arrive
+ */
+export const OPEN_PURCHASE_ORDER_STATUSES: readonly PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received']
+
+export function isPurchaseOrderStatus(value: unknown): value is PurchaseOrderStatus {
+  return typeof value === 'string' && (PURCHASE_ORDER_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Check whether a purchase order may move from one status to another
+ */
+export function canTransitionPurchaseOrderStatus(
+  from: string | null | undefined,
+  to: string
+): boolean {
+  const current = from || 'draft'
+  if (!isPurchaseOrderStatus(current) || !isPurchaseOrderStatus(to)) return false
+  return PURCHASE_ORDER_STATUS_TRANSITIONS[current].includes(to)
+}
+
+/**
+ * Generate a purchase order number, e.g. PO-20260118-K3F9Q
+ */
+export function generatePurchaseOrderNumber(date: Date = new Date()): string {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, '')
+  const suffix = Math.random().toString(36).slice(2, 7).toUpperCase().padEnd(5, '0')
+  return `PO-${day}-${suffix}`
+}
+
+type PurchaseOrderItem = NonNullable<PurchaseOrder['items']>[number]
+
+/**
+ * Quantity of a line not yet received, in the line's unit
+ */
+export const getOutstandingQuantity = (item: Pick<PurchaseOrderItem, 'quantity' | 'received_quantity'>): number =>
+  Math.max(0, (item.quantity || 0) - (item.received_quantity || 0))
+
+const relationId = (value: unknown): string | undefined => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : undefined
+}
+
+/**
+ * Base units still to arrive on open purchase orders, keyed by product and
+ * receiving outlet (see outstandingKey)
+ */
+async function getOutstandingBaseQuantities(
+  payload: Payload,
+  defaultOutletId: string | null,
+  req?: PayloadRequest
+): Promise<Map<string, number>> {
+  const openOrders = await payload.find({
+    collection: 'purchase-orders',
+    where: { status: { in: OPEN_PURCHASE_ORDER_STATUSES } },
+    pagination: false,
+    depth: 1,
+    req,
+    overrideAccess: true,
+  })
+
+  const outstanding = new Map<string, number>()
+  for (const order of openOrders.docs) {
+    const outletId = relationId(order.outlet) || defaultOutletId
+    for (const item of order.items || []) {
+      const product = typeof item.product === 'object' ? item.product : null
+      const productId = relationId(item.product)
+      if (!productId) continue
+      const key = outstandingKey(productId, outletId)
+      const baseQuantity = getOutstandingQuantity(item) * getUnitFactor(product, item.unit)
+      outstanding.set(key, (outstanding.get(key) || 0) + baseQuantity)
+    }
+  }
+
+  return outstanding
+}
+
+const outstandingKey = (productId: string, outletId: string | null | undefined): string =>
+  `${productId}:${outletId || ''}`
+
+export interface GenerateDraftPurchaseOrdersResult {
+  purchaseOrders: PurchaseOrder[]
+  /** Recommendations for products without a supplier */
+  unassigned: StockOptimizationRecommendation[]
+  /** Recommendations already covered by open purchase orders */
+  alreadyOrdered: StockOptimizationRecommendation[]
+}
+
+/**
+ * Create draft purchase orders from stock optimization recommendations
+ *
+ * One draft per supplier and outlet, from each product's default supplier;
+ * with `supplierId`, drafts for that supplier only, covering its products and
+ * products without a default supplier. Quantities still outstanding on open
+ * purchase orders to the same outlet are subtracted, and lines are ordered in
+ * the product's largest unit, rounded up.
+ */
+export async function generateDraftPurchaseOrders(
+  payload: Payload,
+  options: {
+    supplierId?: string
+    categoryId?: string
+    outletId?: string
+    limit?: number
+    req?: PayloadRequest
+  } = {}
+): Promise<GenerateDraftPurchaseOrdersResult> {
+  const { supplierId, categoryId, outletId, limit, req } = options
+  const result: GenerateDraftPurchaseOrdersResult = { purchaseOrders: [], unassigned: [], alreadyOrdered: [] }
+
+  const recommendations = await generateStockOptimizationRecommendations(payload, { limit, categoryId, outletId })
+  if (recommendations.length === 0) return result
+
+  const products = await payload.find({
+    collection: 'products',
+    where: { id: { in: recommendations.map((recommendation) => String(recommendation.productId)) } },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+  const productsById = new Map(products.docs.map((product) => [product.id, product]))
+  const defaultOutletId = (await getDefaultOutlet(payload, req))?.id || null
+  const outstanding = await getOutstandingBaseQuantities(payload, defaultOutletId, req)
+
+  const drafts = new Map<string, { supplier: string; outlet: string | null; items: NonNullable<PurchaseOrder['items']> }>()
+
+  for (const recommendation of recommendations) {
+    const product = productsById.get(String(recommendation.productId))
+    if (!product) continue
+
+    const defaultSupplier = relationId(product.default_supplier)
+    if (supplierId && defaultSupplier && defaultSupplier !== supplierId) continue
+
+    const supplier = supplierId || defaultSupplier
+    if (!supplier) {
+      result.unassigned.push(recommendation)
+      continue
+    }
+
+    const outlet = recommendation.outletId || defaultOutletId
+    const needed = recommendation.recommendedOrderQuantity - (outstanding.get(outstandingKey(product.id, outlet)) || 0)
+    if (needed <= 0) {
+      result.alreadyOrdered.push(recommendation)
+      continue
+    }
+
+    const line = buildPurchaseOrderLine(product, needed, recommendation.reason)
+    const key = `${supplier}:${outlet || ''}`
+    const draft = drafts.get(key) || { supplier, outlet, items: [] }
+    draft.items.push(line)
+    drafts.set(key, draft)
+  }
+
+  for (const { supplier, outlet, items } of drafts.values()) {
+    const purchaseOrder = await payload.create({
+      collection: 'purchase-orders',
+      data: {
+        supplier,
+        outlet,
+        status: 'draft',
+        items,
+        notes: 'Generated from stock optimization recommendations',
+      },
+      req,
+      overrideAccess: true,
+    })
+    result.purchaseOrders.push(purchaseOrder)
+  }
+
+  return result
+}
+
+/**
+ * A purchase order line for `baseQuantity` in the product's largest unit
+ */
+function buildPurchaseOrderLine(
+  product: Product,
+  baseQuantity: number,
+  notes?: string
+): PurchaseOrderItem {
+  const [{ unit, factor }] = getProductUnits(product)
+
+  return {
+    product: product.id,
+    quantity: Math.ceil(baseQuantity / factor),
+    unit: factor > 1 ? (unit as PurchaseOrderItem['unit']) : null,
+    unit_cost: product.cost_price != null ? product.cost_price * factor : null,
+    notes,
+  }
+}
+
+export interface GoodsReceiptLine {
+  /** Purchase order line ID */
+  itemId: string
+  /** Quantity received, in the line's unit */
+  quantity: number
+  batchNumber?: string
+  expiryDate?: string
+  manufactureDate?: string
+  /** Cost per line unit, when different from the ordered cost */
+  unitCost?: number
+}
+
+export interface GoodsReceiptResult {
+  purchaseOrder: PurchaseOrder
+  receipts: Array<{
+    itemId: string
+    productId: string
+    quantity: number
+    unit: string | null
+    baseQuantity: number
+    /** Cost per base unit recorded for valuation */
+    baseUnitCost: number | null
+    batchId?: string
+  }>
+}
+
+/**
+ * Receive goods against a sent purchase order
+ *
+ * Every line is validated before any stock moves: receipts may not exceed
+ * the quantity still outstanding. Lines with a batch number and expiry date
+ * become inventory batches (which roll up into inventory); other lines are
+ * added to inventory as unbatched stock. Both are recorded in the movement
+ * ledger as receipts.
+ */
+export async function receivePurchaseOrder(
+  payload: Payload,
+  req: PayloadRequest,
+  purchaseOrderId: string,
+  lines: GoodsReceiptLine[]
+): Promise<GoodsReceiptResult> {
+  if (req.user?.role !== 'admin') {
+    throw new APIError('Only administrators can receive goods', 403, null, true)
+  }
+
+  if (lines.length === 0) {
+    throw new APIError('At least one receipt line is required', 400, null, true)
+  }
+
+  const purchaseOrder = await payload.findByID({
+    collection: 'purchase-orders',
+    id: purchaseOrderId,
+    depth: 1,
+    req,
+    overrideAccess: true,
+  })
+
+  if (purchaseOrder.status !== 'sent' && purchaseOrder.status !== 'partially_received') {
+    throw new APIError(
+      `Goods can only be received on a sent purchase order (status: ${purchaseOrder.status})`,
+      400,
+      null,
+      true
+    )
+  }
+
+  const items = purchaseOrder.items || []
+  const receivedByItem = new Map<string, number>()
+  const errors: string[] = []
+
+  for (const line of lines) {
+    const item = items.find((entry) => entry.id === line.itemId)
+    if (!item) {
+      errors.push(`Line ${line.itemId} is not on this purchase order`)
+      continue
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      errors.push(`Received quantity for line ${line.itemId} must be a positive whole number`)
+      continue
+    }
+    if (Boolean(line.batchNumber) !== Boolean(line.expiryDate)) {
+      errors.push(`Line ${line.itemId} needs both a batch number and an expiry date, or neither`)
+    }
+
+    const total = (receivedByItem.get(line.itemId) || 0) + line.quantity
+    if (total > getOutstandingQuantity(item)) {
+      const product = typeof item.product === 'object' ? item.product.title : item.product
+      errors.push(
+        `Cannot receive ${total} ${item.unit || 'units'} of ${product}; ${getOutstandingQuantity(item)} outstanding`
+      )
+    }
+    receivedByItem.set(line.itemId, total)
+  }
+
+  if (errors.length > 0) {
+    throw new APIError(errors.join('\n'), 400, null, true)
+  }
+
+  const reason = `Purchase order ${purchaseOrder.po_number}`
+  const supplierId = relationId(purchaseOrder.supplier)
+  const outletId = relationId(purchaseOrder.outlet)
+  const receipts: GoodsReceiptResult['receipts'] = []
+
+  for (const line of lines) {
+    const item = items.find((entry) => entry.id === line.itemId)!
+    const product = item.product as Product
+    const baseQuantity = toBaseQuantity(product, line.quantity, item.unit)
+    const unitCost = line.unitCost ?? item.unit_cost
+    const baseUnitCost = unitCost != null
+      ? Math.round((unitCost / getUnitFactor(product, item.unit)) * 100) / 100
+      : null
+
+    const inventoryId = await ensureInventory(payload, req, product.id, outletId)
+    let batchId: string | undefined
+
+    if (line.batchNumber && line.expiryDate) {
+      const { batchNumber, expiryDate } = line
+      const batch = await withScopedContext(req, () =>
+        payload.create({
+          collection: 'inventory-batches',
+          data: {
+            product: product.id,
+            outlet: outletId,
+            batch_number: batchNumber,
+            expiry_date: expiryDate,
+            manufacture_date: line.manufactureDate,
+            quantity: baseQuantity,
+            received_quantity: line.quantity,
+            received_unit: item.unit,
+            unit_cost: baseUnitCost,
+            purchase_order: purchaseOrder.id,
+            supplier: supplierId,
+          },
+          req,
+          overrideAccess: true,
+          context: inventoryMovementContext({ type: 'receipt', reason }),
+        })
+      )
+      batchId = batch.id
+    } else {
+      const inventory = await payload.findByID({
+        collection: 'inventory',
+        id: inventoryId,
+        depth: 0,
+        req,
+        overrideAccess: true,
+      })
+      await withScopedContext(req, () =>
+        payload.update({
+          collection: 'inventory',
+          id: inventoryId,
+          data: { quantity: (inventory.quantity || 0) + baseQuantity },
+          req,
+          overrideAccess: true,
+          context: inventoryMovementContext({ type: 'receipt', reason, notes: 'Unbatched receipt' }),
+        })
+      )
+    }
+
+    if (baseUnitCost != null && baseUnitCost !== product.cost_price) {
+      await payload.update({
+        collection: 'products',
+        id: product.id,
+        data: { cost_price: baseUnitCost },
+        req,
+        overrideAccess: true,
+      })
+    }
+
+    receipts.push({
+      itemId: line.itemId,
+      productId: product.id,
+      quantity: line.quantity,
+      unit: item.unit ?? null,
+      baseQuantity,
+      baseUnitCost,
+      batchId,
+    })
+  }
+
+  const updatedItems = items.map((item) => ({
+    ...item,
+    product: relationId(item.product)!,
+    received_quantity: (item.received_quantity || 0) + (receivedByItem.get(item.id!) || 0),
+  }))
+  const fullyReceived = updatedItems.every((item) => getOutstandingQuantity(item) === 0)
+
+  const updatedOrder = await withScopedContext(req, () =>
+    payload.update({
+      collection: 'purchase-orders',
+      id: purchaseOrder.id,
+      data: {
+        items: updatedItems,
+        status: fullyReceived ? 'received' : 'partially_received',
+      },
+      req,
+      overrideAccess: true,
+      context: { purchaseOrderReceipt: true },
+    })
+  )
+
+  payload.logger.info(
+    `Goods received for ${purchaseOrder.po_number}: ${receipts.length} line(s), status ${updatedOrder.status}`
+  )
+
+  return { purchaseOrder: updatedOrder, receipts }
+}
+
+/**
+ * Inventory record of a product at an outlet, created empty for the first
+ * receipt there
+ */
+async function ensureInventory(
+  payload: Payload,
+  req: PayloadRequest,
+  productId: string,
+  outletId?: string | null
+): Promise<string> {
+  const existing = await findInventoryRecord(payload, productId, { outletId, req })
+  if (existing) return existing.id
+
+  const created = await payload.create({
+    collection: 'inventory',
+    data: { product: productId, outlet: outletId, quantity: 0 },
+    req,
+    overrideAccess: true,
+  })
+  return created.id
+}
@@ -1,11 +1,22 @@
 /**
  * Reporting Utilities
  * 
- * Simplified for MVP schema - 1:1 inventory, no expiry, no unit_cost
+ * Inventory per product per outlet; expiry and unit cost come from inventory batches
  */
 
-import type { Product } from '@/payload-types'
-import type { Payload, Where } from 'payload'
+import type { InventoryMovement, Product } from '@/payload-types'
+import type { Payload, PayloadRequest, Where } from 'payload'
+import { APIError } from 'payload'
+import { getBpomComplianceIssues, type BpomComplianceIssue } from './bpomRegistration'
+import { getReorderPoint } from './demandForecast'
+import { getBatchExpirySummary } from './inventoryBatches'
+import { getInventoryLedgerBalances } from './inventoryMovements'
+import { calculateOrderItemsTotal } from './orderProcessing'
+import { REVENUE_ORDER_STATUSES } from './orderStatus'
+import { getOutletId } from './outlets'
+import { getItemBaseQuantity } from './productVariants'
+import { calculateInventoryValuation } from './stockManagement'
+import { getBaseUnit } from './unitsOfMeasure'
 
 export interface SalesReport {
   period: {
@@ -47,7 +58,7 @@ export interface SalesReport {
 export interface InventoryStatusReport {
   summary: {
     totalProducts: number
-    totalBatches: number // Is now just total inventory items
+    totalBatches: number // Batches with remaining stock
     totalValue: number
     availableValue: number
     expiredValue: number
@@ -99,6 +110,95 @@ export interface FinancialReport {
   generatedAt: string
 }
 
+export interface BpomComplianceReport {
+  summary: {
+    totalProducts: number
+    compliantProducts: number
+    missingRegistration: number
+    malformedRegistration: number
+    drugClassMismatch: number
+  }
+  products: Array<{
+    productId: string
+    productName: string
+    bpomRegistrationNumber: string | null
+    drugClass: string | null
+    isPublished: boolean
+    issues: BpomComplianceIssue[]
+  }>
+  generatedAt: string
+}
+
+export interface InventoryMovementsReport {
+  movements: InventoryMovement[]
+  summary: {
+    totalMovements: number
+    movementTypes: Record<string, number>
+    totalQuantityIn: number
+    totalQuantityOut: number
+  }
+  reconciliation: Array<{
+    inventoryId: string | number
+    productId: string | number
+    /** Null for inventory recorded without an outlet */
+    outletId: string | null
+    /** Unit quantity, ledgerBalance and difference are counted in */
+    baseUnit: string
+    quantity: number
+    ledgerBalance: number
+    difference: number
+  }>
+  generatedAt: string
+}
+
+export type AbcClass = 'A' | 'B' | 'C'
+
+export type XyzClass = 'X' | 'Y' | 'Z'
+
+/**
+ * Cumulative revenue share closing classes A and B; the rest is C
+ */
+export const ABC_THRESHOLDS = { A: 0.8, B: 0.95 } as const
+
+/**
+ * Coefficient of variation of periodic demand closing classes X and Y; the rest is Z
+ */
+export const XYZ_THRESHOLDS = { X: 0.5, Y: 1 } as const
+
+export interface AbcXyzReport {
+  period: {
+    startDate: string
+    endDate: string
+    /** Length of the demand buckets the variability is measured over */
+    bucketDays: number
+    buckets: number
+  }
+  summary: {
+    totalProducts: number
+    totalRevenue: number
+    /** Inventory records the classes were stored on (0 unless stored) */
+    inventoryRecordsUpdated: number
+  }
+  /** Product count and revenue per class, e.g. matrix.A.X */
+  matrix: Record<AbcClass, Record<XyzClass, { products: number; revenue: number }>>
+  products: Array<{
+    productId: string
+    productName: string
+    revenue: number
+    revenueShare: number
+    cumulativeShare: number
+    /** Units sold, in the product's base unit */
+    quantitySold: number
+    /** Demand per bucket, oldest first */
+    demand: number[]
+    /** Null without any demand in the period */
+    coefficientOfVariation: number | null
+    abcClass: AbcClass
+    xyzClass: XyzClass
+  }>
+  generatedAt: string
+}
+
 /**
  * Generate comprehensive sales report for specified period
  */
@@ -120,7 +220,7 @@ export async function generateSalesReport(
       and: [
         { createdAt: { greater_than_equal: startDate } },
         { createdAt: { less_than_equal: endDate } },
-        { status: { in: ['confirmed', 'processing', 'shipped', 'delivered'] } },
+        { status: { in: [...REVENUE_ORDER_STATUSES] } },
       ],
     }
 
@@ -160,7 +260,9 @@ export async function generateSalesReport(
 
     // Process each order
     for (const order of ordersResult.docs) {
-      const orderRevenue = order.total || 0
+      // Revenue comes from the line price snapshots; orders written before
+      // snapshots existed (all lines priced 0) fall back to their total
+      const orderRevenue = calculateOrderItemsTotal(order.items) || order.totalAmount || 0
       const orderDate = new Date(order.createdAt).toISOString().split('T')[0]
 
       totalRevenue += orderRevenue
@@ -179,8 +281,7 @@ export async function generateSalesReport(
           }
 
           const quantity = item.quantity || 0
-          // Price snapshot missing in current schema types, using 0 for now or fetch from product if needed
-          const itemRevenue = 0 // (item.price || 0) * quantity
+          const itemRevenue = (item.price || 0) * quantity
 
           totalQuantitySold += quantity
 
@@ -331,8 +432,17 @@ export async function generateInventoryStatusReport(
     let outOfStockProducts = 0
 
     const stockLevels = { adequate: 0, low: 0, critical: 0, outOfStock: 0 }
-    // Legacy metrics zeroed out
-    const expiryAnalysis = { expiredBatches: 0, expiringIn7Days: 0, expiringIn30Days: 0, expiringIn90Days: 0 }
+
+    const [batchExpirySummary, valuation] = await Promise.all([
+      getBatchExpirySummary(payload),
+      calculateInventoryValuation(payload),
+    ])
+    const expiryAnalysis = {
+      expiredBatches: batchExpirySummary.expiredBatches,
+      expiringIn7Days: batchExpirySummary.expiringIn7Days,
+      expiringIn30Days: batchExpirySummary.expiringIn30Days,
+      expiringIn90Days: batchExpirySummary.expiringIn90Days,
+    }
 
     const categoryMap = new Map<string, {
       categoryId: string | number
@@ -356,8 +466,7 @@ export async function generateInventoryStatusReport(
       }
 
       const currentQuantity = inventory.quantity || 0
-      const minimumLevel = inventory.low_stock_threshold || 10
-      // No unit cost or expiry in new schema
+      const minimumLevel = getReorderPoint(inventory)
 
       // Determine stock level
       if (currentQuantity === 0) {
@@ -399,11 +508,11 @@ export async function generateInventoryStatusReport(
     return {
       summary: {
         totalProducts: inventoryResult.docs.length,
-        totalBatches: inventoryResult.docs.length,
-        totalValue: 0, // No cost info
-        availableValue: 0,
-        expiredValue: 0,
-        expiringValue: 0,
+        totalBatches: batchExpirySummary.totalBatches,
+        totalValue: valuation.totalValue,
+        availableValue: valuation.availableValue,
+        expiredValue: valuation.expiredValue,
+        expiringValue: valuation.expiringValue,
         lowStockProducts,
         outOfStockProducts,
       },
@@ -467,4 +576,412 @@ export async function generateFinancialReport(
     },
     generatedAt: new Date().toISOString()
   }
-}
\ No newline at end of file
+}
+
+/** Inventory records reconciled against the ledger per query */
+const RECONCILIATION_PAGE_SIZE = 500
+
+/**
+ * Generate inventory movements report from the stock ledger
+ * Includes reconciliation of every inventory record's quantity against its
+ * ledger balance
+ */
+export async function generateInventoryMovementsReport(
+  payload: Payload,
+  options: {
+    startDate?: string
+    endDate?: string
+    type?: string
+    productId?: string | number
+    stockTransferId?: string | number
+    limit?: number
+  } = {}
+): Promise<InventoryMovementsReport> {
+  const { startDate, endDate, type, productId, stockTransferId, limit = 100 } = options
+
+  const conditions: Where[] = []
+  if (startDate) conditions.push({ createdAt: { greater_than_equal: startDate } })
+  if (endDate) conditions.push({ createdAt: { less_than_equal: endDate } })
+  if (type) conditions.push({ type: { equals: type } })
+  if (productId) conditions.push({ product: { equals: productId } })
+  if (stockTransferId) conditions.push({ stock_transfer: { equals: stockTransferId } })
+
+  const movementsResult = await payload.find({
+    collection: 'inventory-movements',
+    where: conditions.length > 0 ? { and: conditions } : {},
+    sort: '-createdAt',
+    depth: 1,
+    limit,
+  })
+
+  const movementTypes: Record<string, number> = {}
+  let totalQuantityIn = 0
+  let totalQuantityOut = 0
+
+  for (const movement of movementsResult.docs) {
+    movementTypes[movement.type] = (movementTypes[movement.type] || 0) + 1
+
+    if (movement.quantity_change > 0) {
+      totalQuantityIn += movement.quantity_change
+    } else {
+      totalQuantityOut += Math.abs(movement.quantity_change)
+    }
+  }
+
+  // Reconcile inventory quantities against the ledger, a page of records at a time
+  const reconciliation: InventoryMovementsReport['reconciliation'] = []
+  let page = 1
+  let hasNextPage = true
+
+  while (hasNextPage) {
+    const inventoryResult = await payload.find({
+      collection: 'inventory',
+      where: productId ? { product: { equals: productId } } : {},
+      depth: 1,
+      limit: RECONCILIATION_PAGE_SIZE,
+      page,
+      sort: 'id',
+    })
+    const balances = await getInventoryLedgerBalances(
+      payload,
+      inventoryResult.docs.map((inventory) => inventory.id)
+    )
+
+    for (const inventory of inventoryResult.docs) {
+      const balance = balances.get(String(inventory.id))?.balance ?? 0
+      const quantity = inventory.quantity || 0
+
+      if (balance !== quantity) {
+        reconciliation.push({
+          inventoryId: inventory.id,
+          productId: typeof inventory.product === 'object' ? inventory.product.id : inventory.product,
+          outletId: getOutletId(inventory.outlet),
+          baseUnit: getBaseUnit(typeof inventory.product === 'object' ? inventory.product : null),
+          quantity,
+          ledgerBalance: balance,
+          difference: quantity - balance,
+        })
+      }
+    }
+
+    hasNextPage = inventoryResult.hasNextPage
+    page++
+  }
+
+  return {
+    movements: movementsResult.docs,
+    summary: {
+      totalMovements: movementsResult.totalDocs,
+      movementTypes,
+      totalQuantityIn,
+      totalQuantityOut,
+    },
+    reconciliation,
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Generate BPOM compliance report
+ * Lists products whose registration number is missing (medicines only),
+ * malformed, or encodes a different drug class than the product
+ */
+export async function generateBpomComplianceReport(
+  payload: Payload,
+  options: { includePublishedOnly?: boolean } = {}
+): Promise<BpomComplianceReport> {
+  const { includePublishedOnly = false } = options
+
+  const productsResult = await payload.find({
+    collection: 'products',
+    where: includePublishedOnly ? { is_published: { equals: true } } : {},
+    depth: 0,
+    limit: 10000,
+    overrideAccess: true,
+  })
+
+  const products: BpomComplianceReport['products'] = []
+  const issueCounts: Record<BpomComplianceIssue, number> = {
+    missing: 0,
+    malformed: 0,
+    drug_class_mismatch: 0,
+  }
+
+  for (const product of productsResult.docs) {
+    const issues = getBpomComplianceIssues(product)
+    if (issues.length === 0) continue
+
+    for (const issue of issues) {
+      issueCounts[issue]++
+    }
+
+    products.push({
+      productId: product.id,
+      productName: product.title,
+      bpomRegistrationNumber: product.bpom_registration_number ?? null,
+      drugClass: product.drug_class ?? null,
+      isPublished: Boolean(product.is_published),
+      issues,
+    })
+  }
+
+  return {
+    summary: {
+      totalProducts: productsResult.docs.length,
+      compliantProducts: productsResult.docs.length - products.length,
+      missingRegistration: issueCounts.missing,
+      malformedRegistration: issueCounts.malformed,
+      drugClassMismatch: issueCounts.drug_class_mismatch,
+    },
+    products: products.sort((a, b) => a.productName.localeCompare(b.productName)),
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Classify products by revenue contribution (ABC) and demand variability (XYZ)
+ *
+ * ABC ranks products by revenue from order items in the period: the products
+ * making up the first 80% of revenue are A, the next 15% B, the rest C. XYZ
+ * uses the coefficient of variation of units sold per bucket (weekly by
+ * default): up to 0.5 is X (steady), up to 1 Y, above Z. Products with
+ * inventory but no sales in the period are CZ.
+ *
+ * With `store`, the classes are written to every inventory record of each
+ * product (the classification is chain-wide) for filtering in the admin list.
+ */
+export async function generateAbcXyzReport(
+  payload: Payload,
+  options: {
+    startDate: string
+    endDate: string
+    bucketDays?: number
+    store?: boolean
+    req?: PayloadRequest
+  }
+): Promise<AbcXyzReport> {
+  const { startDate, endDate, bucketDays = 7, store = false, req } = options
+
+  const start = new Date(startDate).getTime()
+  const end = new Date(endDate).getTime()
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    throw new APIError('End date must be after start date', 400, null, true)
+  }
+  const buckets = Math.max(1, Math.ceil((end - start) / (bucketDays * 24 * 60 * 60 * 1000)))
+
+  const ordersResult = await payload.find({
+    collection: 'orders',
+    where: {
+      and: [
+        { createdAt: { greater_than_equal: startDate } },
+        { createdAt: { less_than_equal: endDate } },
+        { status: { in: [...REVENUE_ORDER_STATUSES] } },
+      ],
+    },
+    depth: 0,
+    pagination: false,
+    req,
+    overrideAccess: true,
+  })
+
+  const sales = new Map<string, { revenue: number; quantitySold: number; demand: number[] }>()
+
+  for (const order of ordersResult.docs) {
+    const bucket = Math.min(
+      buckets - 1,
+      Math.floor((new Date(order.createdAt).getTime() - start) / (bucketDays * 24 * 60 * 60 * 1000))
+    )
+
+    for (const item of order.items || []) {
+      const productId = typeof item.product === 'object' ? item.product?.id : item.product
+      if (!productId) continue
+
+      const entry = sales.get(String(productId)) || {
+        revenue: 0,
+        quantitySold: 0,
+        demand: new Array<number>(buckets).fill(0),
+      }
+      const quantity = getItemBaseQuantity(item)
+      entry.revenue += (item.price || 0) * (item.quantity || 0)
+      entry.quantitySold += quantity
+      entry.demand[bucket] += quantity
+      sales.set(String(productId), entry)
+    }
+  }
+
+  // Stocked products without sales are classified too
+  const inventoryResult = await payload.find({
+    collection: 'inventory',
+    depth: 0,
+    pagination: false,
+    req,
+    overrideAccess: true,
+  })
+  for (const inventory of inventoryResult.docs) {
+    const productId = typeof inventory.product === 'object' ? inventory.product.id : inventory.product
+    if (!sales.has(String(productId))) {
+      sales.set(String(productId), { revenue: 0, quantitySold: 0, demand: new Array<number>(buckets).fill(0) })
+    }
+  }
+
+  const productsResult = await payload.find({
+    collection: 'products',
+    where: { id: { in: [...sales.keys()] } },
+    depth: 0,
+    pagination: false,
+    req,
+    overrideAccess: true,
+  })
+  const productNames = new Map(productsResult.docs.map(product => [String(product.id), product.title]))
+
+  const totalRevenue = [...sales.values()].reduce((sum, entry) => sum + entry.revenue, 0)
+  const matrix = {} as AbcXyzReport['matrix']
+  for (const abc of ['A', 'B', 'C'] as const) {
+    matrix[abc] = {
+      X: { products: 0, revenue: 0 },
+      Y: { products: 0, revenue: 0 },
+      Z: { products: 0, revenue: 0 },
+    }
+  }
+
+  let cumulativeRevenue = 0
+  const products = [...sales.entries()]
+    .sort(([, a], [, b]) => b.revenue - a.revenue)
+    .map(([productId, entry]) => {
+      // Class by the share reached before this product, so the top seller is always A
+      const shareBefore = totalRevenue > 0 ? cumulativeRevenue / totalRevenue : 1
+      cumulativeRevenue += entry.revenue
+      const abcClass: AbcClass = entry.revenue <= 0
+        ? 'C'
+        : shareBefore < ABC_THRESHOLDS.A ? 'A' : shareBefore < ABC_THRESHOLDS.B ? 'B' : 'C'
+
+      const mean = entry.quantitySold / buckets
+      const variance = entry.demand.reduce((sum, quantity) => sum + (quantity - mean) ** 2, 0) / buckets
+      const coefficientOfVariation = mean > 0 ? Math.round((Math.sqrt(variance) / mean) * 100) / 100 : null
+      const xyzClass: XyzClass = coefficientOfVariation === null
+        ? 'Z'
+        : coefficientOfVariation <= XYZ_THRESHOLDS.X ? 'X' : coefficientOfVariation <= XYZ_THRESHOLDS.Y ? 'Y' : 'Z'
+
+      matrix[abcClass][xyzClass].products++
+      matrix[abcClass][xyzClass].revenue += entry.revenue
+
+      return {
+        productId,
+        productName: productNames.get(productId) || 'Unknown Product',
+        revenue: Math.round(entry.revenue * 100) / 100,
+        revenueShare: totalRevenue > 0 ? Math.round((entry.revenue / totalRevenue) * 10000) / 10000 : 0,
+        cumulativeShare: totalRevenue > 0 ? Math.round((cumulativeRevenue / totalRevenue) * 10000) / 10000 : 0,
+        quantitySold: entry.quantitySold,
+        demand: entry.demand,
+        coefficientOfVariation,
+        abcClass,
+        xyzClass,
+      }
+    })
+
+  for (const row of Object.values(matrix)) {
+    for (const cell of Object.values(row)) {
+      cell.revenue = Math.round(cell.revenue * 100) / 100
+    }
+  }
+
+  let inventoryRecordsUpdated = 0
+  if (store) {
+    const classes = new Map(products.map(product => [product.productId, product]))
+    const classifiedAt = new Date().toISOString()
+
+    for (const inventory of inventoryResult.docs) {
+      const productId = typeof inventory.product === 'object' ? inventory.product.id : inventory.product
+      const product = classes.get(String(productId))
+      if (!product) continue
+
+      await payload.update({
+        collection: 'inventory',
+        id: inventory.id,
+        data: {
+          abc_class: product.abcClass,
+          xyz_class: product.xyzClass,
+          classified_at: classifiedAt,
+        },
+        req,
+        overrideAccess: true,
+        context: { skipCartUpdates: true },
+      })
+      inventoryRecordsUpdated++
+    }
+  }
+
+  return {
+    period: { startDate, endDate, bucketDays, buckets },
+    summary: {
+      totalProducts: products.length,
+      totalRevenue: Math.round(totalRevenue * 100) / 100,
+      inventoryRecordsUpdated,
+    },
+    matrix,
+    products,
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or line break
+ * Text starting with a formula character (e.g. a product named "=HYPERLINK(…)")
+ * is prefixed with `'` so spreadsheets show it instead of evaluating it.
+ */
+function toCsvCell(value: string | number | null): string {
+  let text = value === null ? '' : String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * ABC/XYZ report as CSV
+ * `products`: one row per product with its classes; `matrix`: the 3×3 grid of
+ * product counts and revenue per class.
+ */
+export function abcXyzReportToCsv(report: AbcXyzReport, view: 'products' | 'matrix' = 'products'): string {
+  const rows: Array<Array<string | number | null>> = []
+
+  if (view === 'matrix') {
+    rows.push(['abc_class', 'x_products', 'x_revenue', 'y_products', 'y_revenue', 'z_products', 'z_revenue'])
+    for (const abc of ['A', 'B', 'C'] as const) {
+      const row = report.matrix[abc]
+      rows.push([
+        abc,
+        row.X.products, row.X.revenue,
+        row.Y.products, row.Y.revenue,
+        row.Z.products, row.Z.revenue,
+      ])
+    }
+  } else {
+    rows.push([
+      'product_id',
+      'product_name',
+      'class',
+      'abc_class',
+      'xyz_class',
+      'revenue',
+      'revenue_share',
+      'cumulative_share',
+      'quantity_sold',
+      'coefficient_of_variation',
+    ])
+    for (const product of report.products) {
+      rows.push([
+        product.productId,
+        product.productName,
+        `${product.abcClass}${product.xyzClass}`,
+        product.abcClass,
+        product.xyzClass,
+        product.revenue,
+        product.revenueShare,
+        product.cumulativeShare,
+        product.quantitySold,
+        product.coefficientOfVariation,
+      ])
+    }
+  }
+
+  return rows.map(row => row.map(toCsvCell).join(',')).join('\n') + '\n'
+}
@@ -1,34 +1,84 @@
-import type { Inventory } from '@/payload-types'
+import type { Inventory, Product } from '@/payload-types'
 import type { Payload } from 'payload'
 import { generateCacheKey, stockCaching } from './caching'
+import { getReorderPoint } from './demandForecast'
+import { getExpiredBatchQuantities } from './inventoryBatches'
+import { findInventoryRecord, findProductInventory, getOutletId } from './outlets'
+import { getReservedQuantity } from './stockReservations'
+import { describeQuantity, getBaseUnit, toBaseQuantity, UnitConversionError } from './unitsOfMeasure'
 
 /**
  * Core stock availability checking utilities with caching
- * Simplified for MVP - uses quantity and low_stock_threshold only
+ * Simplified for MVP - uses quantity and the reorder point only (the forecast
+ * reorder point, else low_stock_threshold; see demandForecast)
+ * Stock held by active checkout reservations is not available (see stockReservations),
+ * nor are units in expired batches (see inventoryBatches)
+ * Quantities are in the product's base unit; a requested quantity may be
+ * given in another unit of the product and is converted first.
+ * Availability is answered for one outlet, or summed across all outlets.
+ * Checkout reservations hold chain-wide stock (the order is routed to an
+ * outlet once paid), so they only reduce the aggregated figure.
  */
 
+export interface OutletStockLevel {
+  /** Null for inventory recorded without an outlet */
+  outletId: string | null
+  inventoryId: string
+  quantity: number
+  lowStockThreshold: number
+}
+
 export interface StockAvailabilityResult {
   productId: string | number
+  /** Outlet the figures are for; null when summed across all outlets */
+  outletId: string | null
+  /** Unit all quantities below are counted in */
+  baseUnit: string
+  /** Requested quantity converted to the base unit */
+  requestedBaseQuantity: number
   quantity: number
+  /** In expired batches, not yet written off */
+  expiredQuantity: number
+  /** Held by active checkout reservations */
+  reservedQuantity: number
+  /** quantity − expiredQuantity − reservedQuantity */
+  availableQuantity: number
   lowStockThreshold: number
   isAvailable: boolean
   isLowStock: boolean
+  /** Stock per outlet making up the figures */
+  outlets: OutletStockLevel[]
 }
 
+const toOutletStockLevel = (inventory: Inventory): OutletStockLevel => ({
+  outletId: getOutletId(inventory.outlet),
+  inventoryId: inventory.id,
+  quantity: inventory.quantity || 0,
+  lowStockThreshold: getReorderPoint(inventory),
+})
+
 /**
  * Check stock availability for a single product
- * Uses simplified 1:1 inventory relationship
+ * `unit` defaults to the product's base unit. With `outletId` only that
+ * outlet's stock counts; otherwise stock is summed across outlets.
  */
 export async function checkStockAvailability(
   payload: Payload,
   productId: string | number,
-  requestedQuantity: number = 1
+  requestedQuantity: number = 1,
+  unit?: string | null,
+  options: { outletId?: string | null } = {}
 ): Promise<StockAvailabilityResult> {
+  const outletId = options.outletId || null
+
   try {
     // Generate cache key for this specific request
-    const cacheKey = generateCacheKey('stock-availability', {
+    // Prefixed with the product ID so reservations can invalidate it
+    const cacheKey = generateCacheKey(`stock-availability:${productId}`, {
       productId,
       requestedQuantity,
+      unit: unit || null,
+      outletId,
       date: new Date().toISOString().split('T')[0],
     })
 
@@ -38,37 +88,63 @@ export async function checkStockAvailability(
       return cached
     }
 
-    // Get inventory for the product (1:1 relationship)
-    const inventoryResult = await payload.find({
-      collection: 'inventory',
-      where: {
-        product: { equals: productId },
-      },
-      limit: 1,
-    })
+    // Inventory at the outlet, or every outlet's inventory for the product
+    const records = outletId
+      ? [await findInventoryRecord(payload, productId, { outletId, depth: 1 })].filter(
+        (record): record is Inventory => Boolean(record)
+      )
+      : await findProductInventory(payload, productId, { depth: 1 })
 
-    if (inventoryResult.docs.length === 0) {
+    const inventory = records[0]
+    const product: Product | null =
+      inventory && typeof inventory.product === 'object'
+        ? inventory.product
+        : unit
+          ? await payload.findByID({ collection: 'products', id: productId, depth: 0 })
+          : null
+    const baseUnit = getBaseUnit(product)
+    const requestedBaseQuantity = toBaseQuantity(product, requestedQuantity, unit)
+
+    if (!inventory) {
       const result: StockAvailabilityResult = {
         productId,
+        outletId,
+        baseUnit,
+        requestedBaseQuantity,
         quantity: 0,
+        expiredQuantity: 0,
+        reservedQuantity: 0,
+        availableQuantity: 0,
         lowStockThreshold: 10,
         isAvailable: false,
         isLowStock: true,
+        outlets: [],
       }
       stockCaching.setStockAvailability(cacheKey, result, 2 * 60 * 1000)
       return result
     }
 
-    const inventory = inventoryResult.docs[0]
-    const quantity = inventory.quantity || 0
-    const threshold = inventory.low_stock_threshold || 10
+    const outlets = records.map(toOutletStockLevel)
+    const quantity = outlets.reduce((sum, level) => sum + level.quantity, 0)
+    const threshold = outlets.reduce((sum, level) => sum + level.lowStockThreshold, 0)
+    const expired = await getExpiredBatchQuantities(payload, records.map((record) => record.id))
+    const expiredQuantity = [...expired.values()].reduce((sum, units) => sum + units, 0)
+    const reservedQuantity = outletId ? 0 : await getReservedQuantity(payload, productId)
+    const availableQuantity = Math.max(0, quantity - expiredQuantity - reservedQuantity)
 
     const result: StockAvailabilityResult = {
       productId,
+      outletId,
+      baseUnit,
+      requestedBaseQuantity,
       quantity,
+      expiredQuantity,
+      reservedQuantity,
+      availableQuantity,
       lowStockThreshold: threshold,
-      isAvailable: quantity >= requestedQuantity,
+      isAvailable: availableQuantity >= requestedBaseQuantity,
       isLowStock: quantity <= threshold,
+      outlets,
     }
 
     // Cache the result for 2 minutes
@@ -76,31 +152,43 @@ export async function checkStockAvailability(
 
     return result
   } catch (error) {
+    if (error instanceof UnitConversionError) throw error
+
     payload.logger.error(
       `Error checking stock availability for product ${productId}: ${error instanceof Error ? error.message : String(error)}`
     )
 
     return {
       productId,
+      outletId,
+      baseUnit: getBaseUnit(null),
+      requestedBaseQuantity: requestedQuantity,
       quantity: 0,
+      expiredQuantity: 0,
+      reservedQuantity: 0,
+      availableQuantity: 0,
       lowStockThreshold: 10,
       isAvailable: false,
       isLowStock: true,
+      outlets: [],
     }
   }
 }
 
 /**
  * Check stock availability for multiple products at once
+ * With `outletId` every item must be available at that outlet.
  */
 export async function checkBulkStockAvailability(
   payload: Payload,
-  items: Array<{ productId: string | number; quantity: number }>
+  items: Array<{ productId: string | number; quantity: number; unit?: string | null }>,
+  options: { outletId?: string | null } = {}
 ): Promise<{
   allAvailable: boolean
   results: StockAvailabilityResult[]
   unavailableProducts: Array<{
     productId: string | number
+    /** In the product's base unit */
     requested: number
     available: number
   }>
@@ -114,14 +202,14 @@ export async function checkBulkStockAvailability(
     }> = []
 
     for (const item of items) {
-      const result = await checkStockAvailability(payload, item.productId, item.quantity)
+      const result = await checkStockAvailability(payload, item.productId, item.quantity, item.unit, options)
       results.push(result)
 
       if (!result.isAvailable) {
         unavailableProducts.push({
           productId: item.productId,
-          requested: item.quantity,
-          available: result.quantity,
+          requested: result.requestedBaseQuantity,
+          available: result.availableQuantity,
         })
       }
     }
@@ -132,6 +220,8 @@ export async function checkBulkStockAvailability(
       unavailableProducts,
     }
   } catch (error) {
+    if (error instanceof UnitConversionError) throw error
+
     payload.logger.error(
       `Error checking bulk stock availability: ${error instanceof Error ? error.message : String(error)}`
     )
@@ -149,49 +239,54 @@ export async function checkBulkStockAvailability(
 }
 
 /**
- * Get low stock products (below low_stock_threshold)
+ * Get low stock products (at or below their reorder point), one entry per outlet
  */
 export async function getLowStockProducts(
   payload: Payload,
-  options: { limit?: number } = {}
+  options: { limit?: number; outletId?: string | null } = {}
 ): Promise<
   Array<{
     productId: string | number
     productName: string
+    /** Null for inventory recorded without an outlet */
+    outletId: string | null
     quantity: number
+    baseUnit: string
+    /** Quantity in the product's units, e.g. "2 box + 5 strip" */
+    quantityDescription: string
     lowStockThreshold: number
     deficit: number
   }>
 > {
   try {
-    const { limit = 100 } = options
+    const { limit = 100, outletId } = options
 
-    // Get all inventory
+    // Get all inventory, or one outlet's
     const inventoryResult = await payload.find({
       collection: 'inventory',
+      where: outletId ? { outlet: { equals: outletId } } : {},
       limit: 10000,
       depth: 1,
     })
 
-    // Filter products below low_stock_threshold
+    // Filter products at or below their reorder point
     const lowStockProducts = inventoryResult.docs
-      .filter((inventory: Inventory) => {
-        const quantity = inventory.quantity || 0
-        const threshold = inventory.low_stock_threshold || 10
-        return quantity <= threshold
-      })
+      .filter((inventory: Inventory) => (inventory.quantity || 0) <= getReorderPoint(inventory))
       .map((inventory: Inventory) => {
         const productId =
           typeof inventory.product === 'object' ? inventory.product.id : inventory.product
-        const productName =
-          typeof inventory.product === 'object' ? inventory.product.title : String(productId)
+        const product = typeof inventory.product === 'object' ? inventory.product : null
+        const productName = product ? product.title : String(productId)
         const quantity = inventory.quantity || 0
-        const threshold = inventory.low_stock_threshold || 10
+        const threshold = getReorderPoint(inventory)
 
         return {
           productId,
           productName,
+          outletId: getOutletId(inventory.outlet),
           quantity,
+          baseUnit: getBaseUnit(product),
+          quantityDescription: describeQuantity(product, quantity),
           lowStockThreshold: threshold,
           deficit: Math.max(0, threshold - quantity),
         }
@@ -1,18 +1,27 @@
 /**
  * Stock Management Utilities
- * simplified for MVP - 1:1 inventory, no expiry
+ * Inventory per product per outlet, with batch/lot expiry tracking
  */
 
-import type { Inventory, Product } from '@/payload-types'
-import type { Payload } from 'payload'
+import type { Category, Inventory, InventoryBatch, Product } from '@/payload-types'
+import type { Payload, Where } from 'payload'
+import { DEFAULT_LEAD_TIME_DAYS, getReorderPoint } from './demandForecast'
+import { getOutletId } from './outlets'
 
 export interface LowStockProduct {
   productId: string | number
   productName: string
   productSlug: string
   category: string
+  /** Outlet of the inventory record; null without an outlet */
+  outletId: string | null
   totalAvailable: number
+  /** Forecast reorder point, else the static low stock threshold */
   minimumStockLevel: number
+  /** Forecast daily sales; null before a forecast exists */
+  averageDailyDemand: number | null
+  /** Lead time the forecast was made for */
+  leadTimeDays: number | null
   deficit: number
   deficitPercentage: number
   estimatedValue: number
@@ -22,6 +31,8 @@ export interface LowStockProduct {
 export interface StockOptimizationRecommendation {
   productId: string | number
   productName: string
+  /** Outlet to restock; null without an outlet */
+  outletId: string | null
   currentStock: number
   minimumLevel: number
   recommendedOrderQuantity: number
@@ -32,12 +43,17 @@ export interface StockOptimizationRecommendation {
   estimatedCost: number
 }
 
-// Stub types for removed features to prevent breakages
 export interface ExpiringProduct {
   productId: string | number
   productName: string
+  batchId: string | number
+  batchNumber: string
   expiryDate: string
+  daysUntilExpiry: number
+  isExpired: boolean
   quantity: number
+  unitCost: number
+  value: number
 }
 
 export interface InventoryValuation {
@@ -53,12 +69,14 @@ export interface InventoryValuation {
 
 /**
  * Get low stock products with advanced filtering and sorting options
+ * One entry per outlet the product is low at
  */
 export async function getLowStockProducts(
   payload: Payload,
   options: {
     limit?: number
     categoryId?: string | number
+    outletId?: string | null
     sortBy?: 'deficit' | 'percentage' | 'value'
     sortOrder?: 'asc' | 'desc'
     minDeficit?: number
@@ -68,6 +86,7 @@ export async function getLowStockProducts(
     const {
       limit = 100,
       categoryId,
+      outletId,
       sortBy = 'deficit',
       sortOrder = 'desc',
       minDeficit = 1,
@@ -77,7 +96,10 @@ export async function getLowStockProducts(
     const inventoryResult = await payload.find({
       collection: 'inventory',
       where: {
-        quantity: { greater_than_equal: 0 },
+        and: [
+          { quantity: { greater_than_equal: 0 } },
+          ...(outletId ? [{ outlet: { equals: outletId } }] : []),
+        ],
       },
       depth: 2,
       limit: 10000,
@@ -98,7 +120,7 @@ export async function getLowStockProducts(
         }
 
         const quantity = inventory.quantity || 0
-        const threshold = inventory.low_stock_threshold || 10
+        const threshold = getReorderPoint(inventory)
         const deficit = threshold - quantity
 
         // Filter by min deficit
@@ -119,8 +141,11 @@ export async function getLowStockProducts(
           category: (category && typeof category === 'object')
             ? (category.name || 'Uncategorized')
             : 'Uncategorized',
+          outletId: getOutletId(inventory.outlet),
           totalAvailable: quantity,
           minimumStockLevel: threshold,
+          averageDailyDemand: inventory.reorder_point != null ? inventory.average_daily_demand ?? null : null,
+          leadTimeDays: inventory.lead_time_days ?? null,
           deficit,
           deficitPercentage,
           estimatedValue,
@@ -159,29 +184,38 @@ export async function getLowStockProducts(
 
 /**
  * Generate stock optimization recommendations
+ * With a demand forecast, orders restore the reorder point and cover the
+ * demand expected during the lead time; otherwise usage is estimated from
+ * the deficit.
  */
 export async function generateStockOptimizationRecommendations(
   payload: Payload,
   options: {
     limit?: number
     categoryId?: string | number
+    outletId?: string | null
   } = {}
 ): Promise<StockOptimizationRecommendation[]> {
   try {
-    const { limit = 50, categoryId } = options
+    const { limit = 50, categoryId, outletId } = options
 
     const lowStockProducts = await getLowStockProducts(payload, {
       limit: limit * 2,
       categoryId,
+      outletId,
     })
 
     const recommendations: StockOptimizationRecommendation[] = lowStockProducts.map(product => {
-      // Simple logic since we don't have usage history easily accessible in this MVP
-      const estimatedDailyUsage = Math.max(1, Math.floor(product.deficit / 7))
+      const forecastUsage = product.averageDailyDemand || 0
+      const estimatedDailyUsage = forecastUsage > 0
+        ? forecastUsage
+        : Math.max(1, Math.floor(product.deficit / 7))
       const daysOfStockRemaining = Math.floor(product.totalAvailable / estimatedDailyUsage)
 
-      const safetyStock = Math.ceil(product.minimumStockLevel * 0.2)
-      const recommendedOrderQuantity = product.deficit + safetyStock
+      // The forecast reorder point already includes safety stock
+      const recommendedOrderQuantity = forecastUsage > 0
+        ? product.deficit + Math.ceil(forecastUsage * (product.leadTimeDays || DEFAULT_LEAD_TIME_DAYS))
+        : product.deficit + Math.ceil(product.minimumStockLevel * 0.2)
 
       let priority: 'low' | 'medium' | 'high' | 'urgent'
       let reason: string
@@ -203,6 +237,7 @@ export async function generateStockOptimizationRecommendations(
       return {
         productId: product.productId,
         productName: product.productName,
+        outletId: product.outletId,
         currentStock: product.totalAvailable,
         minimumLevel: product.minimumStockLevel,
         recommendedOrderQuantity,
@@ -223,14 +258,104 @@ export async function generateStockOptimizationRecommendations(
   }
 }
 
-// Stub for retired function to prevent import errors in short term
-export async function getExpiringProducts(payload: Payload, _options: Record<string, unknown> = {}): Promise<ExpiringProduct[]> {
-  return []
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Unit value of a batch: purchase cost, falling back to the product's latest
+ * cost price and then its selling price
+ */
+function getBatchUnitValue(batch: InventoryBatch): number {
+  if (batch.unit_cost != null) return batch.unit_cost
+  const product = typeof batch.product === 'object' ? (batch.product as Product) : null
+  return product?.cost_price ?? product?.price ?? 0
+}
+
+/**
+ * Get batches with remaining stock that expire within the given window
+ * Sorted by expiry date (soonest first)
+ */
+export async function getExpiringProducts(
+  payload: Payload,
+  options: {
+    days?: number
+    includeExpired?: boolean
+    categoryId?: string | number
+    limit?: number
+  } = {}
+): Promise<ExpiringProduct[]> {
+  try {
+    const { days = 30, includeExpired = false, categoryId, limit = 100 } = options
+    const now = Date.now()
+
+    const conditions: Where[] = [
+      { quantity: { greater_than: 0 } },
+      { expiry_date: { less_than_equal: new Date(now + days * DAY_MS).toISOString() } },
+    ]
+    if (!includeExpired) {
+      conditions.push({ expiry_date: { greater_than: new Date(now).toISOString() } })
+    }
+
+    const batchesResult = await payload.find({
+      collection: 'inventory-batches',
+      where: { and: conditions },
+      sort: 'expiry_date',
+      depth: 1,
+      limit: 10000,
+    })
+
+    const expiringProducts = batchesResult.docs
+      .map((batch: InventoryBatch) => {
+        const product = typeof batch.product === 'object' ? (batch.product as Product) : null
+        if (!product) return null
+
+        if (categoryId) {
+          const catId = typeof product.category === 'object' ? product.category?.id : product.category
+          if (catId !== categoryId) return null
+        }
+
+        const expiryTime = new Date(batch.expiry_date).getTime()
+        const unitCost = getBatchUnitValue(batch)
+        const quantity = batch.quantity || 0
+
+        return {
+          productId: product.id,
+          productName: product.title || 'Unknown Product',
+          batchId: batch.id,
+          batchNumber: batch.batch_number,
+          expiryDate: batch.expiry_date,
+          daysUntilExpiry: Math.ceil((expiryTime - now) / DAY_MS),
+          isExpired: expiryTime <= now,
+          quantity,
+          unitCost,
+          value: quantity * unitCost,
+        } as ExpiringProduct
+      })
+      .filter((item): item is ExpiringProduct => item !== null)
+
+    return expiringProducts.slice(0, limit)
+  } catch (error) {
+    payload.logger.error(
+      `Error getting expiring products: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return []
+  }
 }
 
-// Stub for inventory valuation
-export async function calculateInventoryValuation(payload: Payload, _options: Record<string, unknown> = {}): Promise<InventoryValuation> {
-  return {
+/**
+ * Calculate inventory value from batch quantities and unit costs
+ * Unbatched legacy stock has no cost information and is not valued
+ */
+export async function calculateInventoryValuation(
+  payload: Payload,
+  options: {
+    expiringWithinDays?: number
+  } = {}
+): Promise<InventoryValuation> {
+  const { expiringWithinDays = 30 } = options
+  const now = Date.now()
+  const expiringCutoff = now + expiringWithinDays * DAY_MS
+
+  const valuation: InventoryValuation = {
     totalValue: 0,
     availableValue: 0,
     reservedValue: 0,
@@ -238,6 +363,56 @@ export async function calculateInventoryValuation(payload: Payload, _options: Re
     expiringValue: 0,
     categoryBreakdown: [],
     supplierBreakdown: [],
-    lastCalculated: new Date().toISOString()
+    lastCalculated: new Date().toISOString(),
   }
-}
\ No newline at end of file
+
+  try {
+    const batchesResult = await payload.find({
+      collection: 'inventory-batches',
+      where: { quantity: { greater_than: 0 } },
+      depth: 2,
+      limit: 10000,
+    })
+
+    const categoryMap = new Map<string, { categoryId: string | number; categoryName: string; totalValue: number; batchCount: number }>()
+
+    for (const batch of batchesResult.docs) {
+      const value = (batch.quantity || 0) * getBatchUnitValue(batch)
+      const expiryTime = new Date(batch.expiry_date).getTime()
+
+      valuation.totalValue += value
+      if (expiryTime <= now) {
+        valuation.expiredValue += value
+      } else {
+        valuation.availableValue += value
+        if (expiryTime <= expiringCutoff) valuation.expiringValue += value
+      }
+
+      const product = typeof batch.product === 'object' ? (batch.product as Product) : null
+      const category = product && typeof product.category === 'object' ? (product.category as Category) : null
+      const categoryKey = category ? String(category.id) : 'uncategorized'
+
+      if (!categoryMap.has(categoryKey)) {
+        categoryMap.set(categoryKey, {
+          categoryId: category?.id ?? categoryKey,
+          categoryName: category?.name || 'Uncategorized',
+          totalValue: 0,
+          batchCount: 0,
+        })
+      }
+
+      const categoryData = categoryMap.get(categoryKey)!
+      categoryData.totalValue += value
+      categoryData.batchCount++
+    }
+
+    valuation.categoryBreakdown = Array.from(categoryMap.values())
+
+    return valuation
+  } catch (error) {
+    payload.logger.error(
+      `Error calculating inventory valuation: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return valuation
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Stock Reservation Utilities
+ *
+ * Checkout holds stock from the moment a payment is initiated until the payment
+ * fails/expires (reservation released) or the paid order takes the stock.
+ * Settlement converts the hold, which keeps counting until the order deducts
+ * its stock on entering processing (fulfilled) or is cancelled (released).
+ * Active holds expire on their own at `expires_at`, matching the gateway's
+ * payment window, so abandoned checkouts never lock stock for longer than the
+ * customer could still pay. A payment held for fraud review extends its holds
+ * until an admin approves (converted) or denies (released) it.
+ *
+ * Available stock = inventory.quantity − expired batch units − active, unexpired
+ * and converted reservations.
+ * Holds are chain-wide: a checkout is not routed to an outlet until its order
+ * is created, so reservations count against the product's stock summed across
+ * outlets.
+ */
+
+import type { StockReservation, Transaction } from '@/payload-types'
+import { sql } from '@payloadcms/db-postgres'
+import type { Payload, PayloadRequest, TaskConfig, Where } from 'payload'
+import { commitTransaction, initTransaction, killTransaction } from 'payload'
+import { stockCaching } from './caching'
+import { getExpiredBatchQuantities } from './inventoryBatches'
+import { findProductInventory } from './outlets'
+import { getItemBaseQuantity } from './productVariants'
+
+export type StockReservationStatus = StockReservation['status']
+
+/**
+ * Stock that could not be reserved for a checkout
+ */
+export interface ReservationShortage {
+  productId: string
+  productName: string
+  requested: number
+  available: number
+}
+
+/**
+ * Thrown when a checkout asks for more than the available (unreserved) stock
+ */
+export class InsufficientStockError extends Error {
+  shortages: ReservationShortage[]
+
+  constructor(shortages: ReservationShortage[]) {
+    super(
+      `Insufficient stock: ${shortages
+        .map((s) => `"${s.productName}" requested ${s.requested}, available ${s.available}`)
+        .join('; ')}`
+    )
+    this.name = 'InsufficientStockError'
+    this.shortages = shortages
+  }
+}
+
+const relationId = (value: unknown): string | undefined => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : undefined
+}
+
+/**
+ * Total quantity held for a product: active, unexpired reservations plus
+ * converted ones whose order has not taken its stock yet
+ */
+export async function getReservedQuantity(
+  payload: Payload,
+  productId: string | number,
+  req?: PayloadRequest
+): Promise<number> {
+  const reservations = await payload.find({
+    collection: 'stock-reservations',
+    where: {
+      and: [
+        { product: { equals: productId } },
+        {
+          or: [
+            { status: { equals: 'converted' } },
+            {
+              and: [
+                { status: { equals: 'active' } },
+                { expires_at: { greater_than: new Date().toISOString() } },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  return reservations.docs.reduce((sum, reservation) => sum + (reservation.quantity || 0), 0)
+}
+
+/**
+ * Lock the inventory rows of the given products until the request's
+ * transaction ends, so concurrent checkouts check and reserve one at a time
+ */
+async function lockProductInventory(req: PayloadRequest, productIds: string[]): Promise<void> {
+  if (productIds.length === 0) return
+
+  const { db } = req.payload
+  const session = req.transactionID ? db.sessions?.[await req.transactionID]?.db : undefined
+  const drizzle = (session as typeof db.drizzle | undefined) ?? db.drizzle
+
+  // Sorted ids keep lock order stable between checkouts (no deadlocks)
+  const ids = [...productIds].sort()
+  await drizzle.execute(sql`
+    SELECT id FROM inventory
+    WHERE product_id IN (${sql.join(ids.map((id) => sql`${id}`), sql`, `)})
+    ORDER BY id
+    FOR UPDATE
+  `)
+}
+
+/**
+ * Reserve the items of a pending transaction until `expiresAt`
+ * Throws InsufficientStockError (and reserves nothing) if any item is short.
+ * The check and the insert run in one database transaction holding a lock on
+ * the products' inventory rows, so two checkouts cannot both take the last units.
+ */
+export async function reserveStockForTransaction({
+  req,
+  transaction,
+  expiresAt,
+}: {
+  req: PayloadRequest
+  transaction: Transaction
+  expiresAt: Date
+}): Promise<StockReservation[]> {
+  // Same product may appear once per variant; hold the combined quantity
+  const requested = new Map<string, number>()
+  for (const item of transaction.items || []) {
+    const productId = relationId(item.product)
+    const quantity = getItemBaseQuantity(item)
+    if (!productId || !quantity) continue
+    requested.set(productId, (requested.get(productId) || 0) + quantity)
+  }
+
+  const shouldCommit = await initTransaction(req)
+
+  try {
+    await lockProductInventory(req, [...requested.keys()])
+
+    const reservations = await createReservations(req, transaction, requested, expiresAt)
+
+    if (shouldCommit) await commitTransaction(req)
+    return reservations
+  } catch (error) {
+    if (shouldCommit) await killTransaction(req)
+    throw error
+  }
+}
+
+/**
+ * Check availability and create the reservations (caller holds the inventory lock)
+ */
+async function createReservations(
+  req: PayloadRequest,
+  transaction: Transaction,
+  requested: Map<string, number>,
+  expiresAt: Date
+): Promise<StockReservation[]> {
+  const { payload } = req
+  const shortages: ReservationShortage[] = []
+  const holds: Array<{ productId: string; inventoryId?: string; quantity: number }> = []
+
+  for (const [productId, quantity] of requested) {
+    const records = await findProductInventory(payload, productId, { req, depth: 1 })
+    const onHand = records.reduce((sum, record) => sum + (record.quantity || 0), 0)
+    const expired = await getExpiredBatchQuantities(payload, records.map((record) => record.id), req)
+    const sellable = onHand - [...expired.values()].reduce((sum, units) => sum + units, 0)
+
+    const inventory = records[0]
+    const reserved = await getReservedQuantity(payload, productId, req)
+    const available = Math.max(0, sellable - reserved)
+
+    if (available < quantity) {
+      const product = inventory && typeof inventory.product === 'object' ? inventory.product : null
+      shortages.push({
+        productId,
+        productName: product?.title || productId,
+        requested: quantity,
+        available,
+      })
+      continue
+    }
+
+    // Linked to an inventory record only while the product is stocked at one outlet
+    holds.push({ productId, inventoryId: records.length === 1 ? inventory.id : undefined, quantity })
+  }
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages)
+  }
+
+  const reservations: StockReservation[] = []
+  for (const hold of holds) {
+    reservations.push(
+      await payload.create({
+        collection: 'stock-reservations',
+        data: {
+          product: hold.productId,
+          inventory: hold.inventoryId,
+          transaction: transaction.id,
+          quantity: hold.quantity,
+          status: 'active',
+          expires_at: expiresAt.toISOString(),
+        },
+        req,
+        overrideAccess: true,
+      })
+    )
+    stockCaching.invalidateProduct(hold.productId)
+  }
+
+  return reservations
+}
+
+/**
+ * Move reservations matching `where` from one status to another
+ */
+async function updateReservations(
+  req: PayloadRequest,
+  where: Where,
+  fromStatus: StockReservationStatus,
+  data: Partial<StockReservation>
+): Promise<number> {
+  const reservations = await req.payload.find({
+    collection: 'stock-reservations',
+    where: {
+      and: [where, { status: { equals: fromStatus } }],
+    },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  for (const reservation of reservations.docs) {
+    await req.payload.update({
+      collection: 'stock-reservations',
+      id: reservation.id,
+      data,
+      req,
+      overrideAccess: true,
+    })
+    stockCaching.invalidateProduct(relationId(reservation.product)!)
+  }
+
+  return reservations.docs.length
+}
+
+/**
+ * Convert a settled transaction's reservations (held for the paid order)
+ * Converts expired-but-unreleased holds too: the customer paid within the window.
+ * Converted holds keep counting until the order takes or gives up the stock.
+ */
+export async function convertStockReservations(
+  req: PayloadRequest,
+  transactionId: string
+): Promise<number> {
+  return updateReservations(req, { transaction: { equals: transactionId } }, 'active', {
+    status: 'converted',
+    converted_at: new Date().toISOString(),
+  })
+}
+
+/**
+ * Keep a transaction's active reservations until `expiresAt`
+ * Used while a captured payment awaits fraud review, so the stock is still
+ * there if the payment is approved after the original payment window.
+ */
+export async function extendStockReservations(
+  req: PayloadRequest,
+  transactionId: string,
+  expiresAt: Date
+): Promise<number> {
+  return updateReservations(
+    req,
+    {
+      and: [
+        { transaction: { equals: transactionId } },
+        { expires_at: { less_than: expiresAt.toISOString() } },
+      ],
+    },
+    'active',
+    { expires_at: expiresAt.toISOString() }
+  )
+}
+
+/**
+ * Record the order created from a settled transaction on its converted reservations
+ */
+export async function linkStockReservationsToOrder(
+  req: PayloadRequest,
+  transactionId: string,
+  orderId: string
+): Promise<number> {
+  return updateReservations(req, { transaction: { equals: transactionId } }, 'converted', { order: orderId })
+}
+
+/**
+ * Fulfil an order's converted reservations once the order has deducted its stock
+ */
+export async function fulfillOrderStockReservations(
+  req: PayloadRequest,
+  orderId: string
+): Promise<number> {
+  return updateReservations(req, { order: { equals: orderId } }, 'converted', {
+    status: 'fulfilled',
+    fulfilled_at: new Date().toISOString(),
+  })
+}
+
+/**
+ * Release an order's converted reservations when it is cancelled before taking its stock
+ */
+export async function releaseOrderStockReservations(
+  req: PayloadRequest,
+  orderId: string,
+  reason: string
+): Promise<number> {
+  return updateReservations(req, { order: { equals: orderId } }, 'converted', {
+    status: 'released',
+    released_at: new Date().toISOString(),
+    release_reason: reason,
+  })
+}
+
+/**
+ * Release a failed, cancelled or expired transaction's reservations
+ */
+export async function releaseStockReservations(
+  req: PayloadRequest,
+  transactionId: string,
+  reason: string
+): Promise<number> {
+  return updateReservations(req, { transaction: { equals: transactionId } }, 'active', {
+    status: 'released',
+    released_at: new Date().toISOString(),
+    release_reason: reason,
+  })
+}
+
+/**
+ * Mark active reservations past their expiry as expired
+ * Expired holds already stop counting against availability; this keeps the
+ * collection's status accurate for admins.
+ */
+export async function expireStockReservations(req: PayloadRequest, limit = 500): Promise<number> {
+  const now = new Date().toISOString()
+  const reservations = await req.payload.find({
+    collection: 'stock-reservations',
+    where: {
+      and: [
+        { status: { equals: 'active' } },
+        { expires_at: { less_than_equal: now } },
+      ],
+    },
+    limit,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  for (const reservation of reservations.docs) {
+    await req.payload.update({
+      collection: 'stock-reservations',
+      id: reservation.id,
+      data: {
+        status: 'expired',
+        released_at: now,
+        release_reason: 'Payment window elapsed',
+      },
+      req,
+      overrideAccess: true,
+    })
+    stockCaching.invalidateProduct(relationId(reservation.product)!)
+  }
+
+  return reservations.docs.length
+}
+
+/**
+ * Jobs-queue task expiring stale reservations every 5 minutes on the 'payments' queue
+ */
+export const expireStockReservationsTask: TaskConfig<'expireStockReservations'> = {
+  slug: 'expireStockReservations',
+  label: 'Expire Stock Reservations',
+  schedule: [{ cron: '*/5 * * * *', queue: 'payments' }],
+  outputSchema: [
+    { name: 'expired', type: 'number', required: true },
+  ],
+  handler: async ({ req }) => {
+    const expired = await expireStockReservations(req)
+
+    if (expired > 0) {
+      req.payload.logger.info(`[Stock] Expired ${expired} stock reservations`)
+    }
+
+    return { output: { expired } }
+  },
+}
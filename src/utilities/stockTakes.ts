@@ -0,0 +1,442 @@
+/**
+ * Stock Takes (cycle counts)
+ *
+ * open → submitted → approved
+ * An admin opens a count for a category or shelf at one outlet (the default
+ * outlet unless chosen); lines are created for every inventory record in scope. Counted quantities are entered per line, in bulk
+ * or from CSV, in the product's base unit or any of its units. Each count
+ * snapshots the inventory quantity at that moment as `expected_quantity`, so
+ * `variance = counted − expected` stays correct if sales happen during the
+ * count. A submitted count is sent back (open) or approved by a second admin;
+ * approval applies every variance through adjustInventoryWithAudit in one
+ * database transaction.
+ */
+
+import type { Product, StockTake } from '@/payload-types'
+import type { Payload, PayloadRequest, Where } from 'payload'
+import { APIError, commitTransaction, initTransaction, killTransaction } from 'payload'
+import { getDefaultOutlet, outletInventoryWhere } from './outlets'
+import { adjustInventoryWithAudit } from './transactionSafety'
+import { describeQuantity, getBaseUnit, toBaseQuantity } from './unitsOfMeasure'
+
+export const STOCK_TAKE_STATUSES = ['open', 'submitted', 'approved', 'cancelled'] as const
+
+export type StockTakeStatus = (typeof STOCK_TAKE_STATUSES)[number]
+
+export const STOCK_TAKE_STATUS_OPTIONS: Array<{ label: string; value: StockTakeStatus }> = [
+  { label: 'Open', value: 'open' },
+  { label: 'Submitted', value: 'submitted' },
+  { label: 'Approved', value: 'approved' },
+  { label: 'Cancelled', value: 'cancelled' },
+]
+
+/**
+ * Allowed transitions per status; submitted → open sends a count back
+ */
+export const STOCK_TAKE_STATUS_TRANSITIONS: Record<StockTakeStatus, readonly StockTakeStatus[]> = {
+  open: ['submitted', 'cancelled'],
+  submitted: ['open', 'approved', 'cancelled'],
+  approved: [],
+  cancelled: [],
+}
+
+export function isStockTakeStatus(value: unknown): value is StockTakeStatus {
+  return typeof value === 'string' && (STOCK_TAKE_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Check whether a stock take may move from one status to another
+ */
+export function canTransitionStockTakeStatus(from: string | null | undefined, to: string): boolean {
+  const current = from || 'open'
+  if (!isStockTakeStatus(current) || !isStockTakeStatus(to)) return false
+  return STOCK_TAKE_STATUS_TRANSITIONS[current].includes(to)
+}
+
+/**
+ * Generate a stock take reference, e.g. ST-20260118-K3F9Q
+ */
+export function generateStockTakeReference(date: Date = new Date()): string {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, '')
+  const suffix = Math.random().toString(36).slice(2, 7).toUpperCase().padEnd(5, '0')
+  return `ST-${day}-${suffix}`
+}
+
+type StockTakeLine = NonNullable<StockTake['lines']>[number]
+
+const relationId = (value: unknown): string | undefined => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : undefined
+}
+
+/**
+ * Lines for every inventory record in a category and/or on a shelf, at an
+ * outlet (the default outlet without `outletId`)
+ */
+export async function buildStockTakeLines(
+  payload: Payload,
+  scope: { categoryId?: string | null; shelf?: string | null; outletId?: string | null },
+  req?: PayloadRequest
+): Promise<StockTakeLine[]> {
+  const conditions: Where[] = []
+  if (scope.shelf) conditions.push({ shelf_location: { equals: scope.shelf } })
+  if (scope.categoryId) conditions.push({ 'product.category': { equals: scope.categoryId } })
+
+  // Without outlets (single-outlet setup) every record is in scope
+  const defaultOutletId = (await getDefaultOutlet(payload, req))?.id
+  if (scope.outletId || defaultOutletId) {
+    conditions.push(outletInventoryWhere(scope.outletId || defaultOutletId, defaultOutletId))
+  }
+
+  const inventory = await payload.find({
+    collection: 'inventory',
+    where: conditions.length > 0 ? { and: conditions } : {},
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  return inventory.docs.map((record) => ({
+    inventory: record.id,
+    product: relationId(record.product)!,
+    expected_quantity: record.quantity || 0,
+    counted_quantity: null,
+    variance: null,
+  }))
+}
+
+export interface StockTakeCount {
+  /** Product ID or slug */
+  product: string
+  countedQuantity: number
+  /** Unit of countedQuantity; the product's base unit when empty */
+  unit?: string
+  notes?: string
+}
+
+/**
+ * Parse counts from CSV with a header row
+ * Columns: product (ID or slug), counted_quantity, unit (optional), notes (optional)
+ */
+export function parseStockTakeCsv(csv: string): StockTakeCount[] {
+  const rows = csv
+    .split(/\r?\n/)
+    .map((row) => row.trim())
+    .filter(Boolean)
+  if (rows.length < 2) {
+    throw new APIError('CSV must have a header row and at least one count', 400, null, true)
+  }
+
+  const header = splitCsvRow(rows[0]).map((column) => column.toLowerCase())
+  const productColumn = header.indexOf('product')
+  const quantityColumn = header.indexOf('counted_quantity')
+  if (productColumn === -1 || quantityColumn === -1) {
+    throw new APIError('CSV header must include "product" and "counted_quantity"', 400, null, true)
+  }
+  const unitColumn = header.indexOf('unit')
+  const notesColumn = header.indexOf('notes')
+
+  const errors: string[] = []
+  const counts: StockTakeCount[] = []
+
+  rows.slice(1).forEach((row, index) => {
+    const cells = splitCsvRow(row)
+    const product = cells[productColumn]
+    const countedQuantity = Number(cells[quantityColumn])
+
+    if (!product || cells[quantityColumn] === '' || !Number.isFinite(countedQuantity) || countedQuantity < 0) {
+      errors.push(`Row ${index + 2}: a product and a non-negative counted_quantity are required`)
+      return
+    }
+
+    counts.push({
+      product,
+      countedQuantity,
+      unit: unitColumn !== -1 ? cells[unitColumn] || undefined : undefined,
+      notes: notesColumn !== -1 ? cells[notesColumn] || undefined : undefined,
+    })
+  })
+
+  if (errors.length > 0) {
+    throw new APIError(errors.join('\n'), 400, null, true)
+  }
+
+  return counts
+}
+
+/**
+ * Split a CSV row, honouring double-quoted cells
+ */
+function splitCsvRow(row: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i]
+    if (char === '"' && quoted && row[i + 1] === '"') {
+      current += '"'
+      i++
+    } else if (char === '"') {
+      quoted = !quoted
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+
+  return cells
+}
+
+/**
+ * Record counted quantities on an open stock take
+ * Counts are matched to lines by product ID or slug and converted to the
+ * product's base unit; expected quantities and variances are refreshed by
+ * the StockTakes hooks.
+ */
+export async function recordStockTakeCounts(
+  payload: Payload,
+  req: PayloadRequest,
+  stockTakeId: string,
+  counts: StockTakeCount[]
+): Promise<StockTake> {
+  if (counts.length === 0) {
+    throw new APIError('At least one count is required', 400, null, true)
+  }
+
+  const stockTake = await payload.findByID({
+    collection: 'stock-takes',
+    id: stockTakeId,
+    depth: 1,
+    req,
+    overrideAccess: true,
+  })
+
+  if (stockTake.status !== 'open') {
+    throw new APIError(`Counts can only be entered on an open stock take (status: ${stockTake.status})`, 400, null, true)
+  }
+
+  const lines = stockTake.lines || []
+  const errors: string[] = []
+  const countedByLine = new Map<string, { counted: number; notes?: string }>()
+
+  for (const count of counts) {
+    const line = lines.find((entry) => {
+      const product = typeof entry.product === 'object' ? entry.product : null
+      return relationId(entry.product) === count.product || product?.slug === count.product
+    })
+    if (!line) {
+      errors.push(`Product "${count.product}" is not part of this stock take`)
+      continue
+    }
+
+    const product = typeof line.product === 'object' ? line.product : null
+    try {
+      countedByLine.set(line.id!, {
+        counted: toBaseQuantity(product, count.countedQuantity, count.unit),
+        notes: count.notes,
+      })
+    } catch (error) {
+      errors.push(`Product "${count.product}": ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new APIError(errors.join('\n'), 400, null, true)
+  }
+
+  return payload.update({
+    collection: 'stock-takes',
+    id: stockTake.id,
+    data: {
+      lines: lines.map((line) => {
+        const count = countedByLine.get(line.id!)
+        return {
+          ...line,
+          inventory: relationId(line.inventory)!,
+          product: relationId(line.product)!,
+          counted_quantity: count ? count.counted : line.counted_quantity,
+          notes: count?.notes ?? line.notes,
+        }
+      }),
+    },
+    req,
+    overrideAccess: true,
+  })
+}
+
+export interface StockTakeVarianceReport {
+  stockTakeId: string
+  reference: string
+  status: string
+  summary: {
+    totalLines: number
+    countedLines: number
+    linesWithVariance: number
+    /** Units missing (counted below expected), in base units */
+    shortageUnits: number
+    /** Units found (counted above expected), in base units */
+    surplusUnits: number
+    netVariance: number
+    shortageValue: number
+    surplusValue: number
+    netValue: number
+  }
+  lines: Array<{
+    productId: string
+    productName: string
+    baseUnit: string
+    expectedQuantity: number
+    countedQuantity: number | null
+    variance: number
+    /** Variance in the product's units, e.g. "-1 box + 2 strip" */
+    varianceDescription: string
+    /** Cost price, falling back to selling price */
+    unitValue: number
+    varianceValue: number
+    notes?: string | null
+  }>
+  generatedAt: string
+}
+
+/**
+ * Variance report for a stock take (lines with populated products)
+ * Values use the product's cost price, falling back to its selling price.
+ */
+export function generateStockTakeVarianceReport(stockTake: StockTake): StockTakeVarianceReport {
+  const summary: StockTakeVarianceReport['summary'] = {
+    totalLines: 0,
+    countedLines: 0,
+    linesWithVariance: 0,
+    shortageUnits: 0,
+    surplusUnits: 0,
+    netVariance: 0,
+    shortageValue: 0,
+    surplusValue: 0,
+    netValue: 0,
+  }
+
+  const lines = (stockTake.lines || []).map((line) => {
+    const product = typeof line.product === 'object' ? (line.product as Product) : null
+    const variance = line.variance || 0
+    const unitValue = product?.cost_price ?? product?.price ?? 0
+    const varianceValue = variance * unitValue
+
+    summary.totalLines++
+    if (line.counted_quantity != null) summary.countedLines++
+    if (variance !== 0) summary.linesWithVariance++
+    if (variance < 0) {
+      summary.shortageUnits += -variance
+      summary.shortageValue += -varianceValue
+    } else {
+      summary.surplusUnits += variance
+      summary.surplusValue += varianceValue
+    }
+    summary.netVariance += variance
+    summary.netValue += varianceValue
+
+    return {
+      productId: relationId(line.product)!,
+      productName: product?.title || String(relationId(line.product)),
+      baseUnit: getBaseUnit(product),
+      expectedQuantity: line.expected_quantity || 0,
+      countedQuantity: line.counted_quantity ?? null,
+      variance,
+      varianceDescription: describeQuantity(product, variance),
+      unitValue,
+      varianceValue,
+      notes: line.notes,
+    }
+  })
+
+  return {
+    stockTakeId: stockTake.id,
+    reference: stockTake.reference || '',
+    status: stockTake.status || 'open',
+    summary,
+    // Largest value impact first
+    lines: lines.sort((a, b) => Math.abs(b.varianceValue) - Math.abs(a.varianceValue)),
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Approve a submitted stock take and apply its variances
+ *
+ * The approver must be a different admin from the one who opened or
+ * submitted the count. All adjustments and the status change run in one
+ * transaction: if any adjustment fails, none is applied.
+ */
+export async function approveStockTake(
+  payload: Payload,
+  req: PayloadRequest,
+  stockTakeId: string,
+  options: { notes?: string } = {}
+): Promise<{ stockTake: StockTake; report: StockTakeVarianceReport }> {
+  if (req.user?.role !== 'admin') {
+    throw new APIError('Only administrators can approve stock takes', 403, null, true)
+  }
+
+  const stockTake = await payload.findByID({
+    collection: 'stock-takes',
+    id: stockTakeId,
+    depth: 1,
+    req,
+    overrideAccess: true,
+  })
+
+  if (stockTake.status !== 'submitted') {
+    throw new APIError(`Only submitted stock takes can be approved (status: ${stockTake.status})`, 400, null, true)
+  }
+
+  const userId = String(req.user.id)
+  if (relationId(stockTake.opened_by) === userId || relationId(stockTake.submitted_by) === userId) {
+    throw new APIError('A stock take must be approved by a different admin than the one who counted it', 403, null, true)
+  }
+
+  const shouldCommit = await initTransaction(req)
+
+  try {
+    for (const line of stockTake.lines || []) {
+      if (!line.variance) continue
+
+      const result = await adjustInventoryWithAudit(payload, req, relationId(line.inventory)!, line.variance, {
+        reason: `Stock take ${stockTake.reference}`,
+        notes: line.notes || undefined,
+        movementType: 'adjustment',
+      })
+      if (!result.success) {
+        const product = typeof line.product === 'object' ? line.product.title : relationId(line.product)
+        throw new APIError(`Adjustment for ${product} failed: ${result.error}`, 400, null, true)
+      }
+    }
+
+    const approved = await payload.update({
+      collection: 'stock-takes',
+      id: stockTake.id,
+      data: {
+        status: 'approved',
+        approved_by: req.user.collection === 'admins' ? req.user.id : undefined,
+        approved_at: new Date().toISOString(),
+        approval_notes: options.notes,
+      },
+      depth: 1,
+      req,
+      overrideAccess: true,
+      context: { stockTakeApproval: true },
+    })
+
+    if (shouldCommit) await commitTransaction(req)
+
+    payload.logger.info(`Stock take ${stockTake.reference} approved by ${userId}`)
+
+    return { stockTake: approved, report: generateStockTakeVarianceReport(approved) }
+  } catch (error) {
+    await killTransaction(req)
+    throw error
+  }
+}
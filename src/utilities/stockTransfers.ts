@@ -0,0 +1,584 @@
+/**
+ * Stock Transfers between outlets
+ *
+ * requested → in_transit → received
+ * A requested transfer can be edited or cancelled. Dispatch deducts every line
+ * from the source outlet's inventory (batches FEFO) and records the batches
+ * sent; receipt adds the received quantities to the destination outlet's
+ * inventory, re-creating the batches there, and records any difference
+ * between dispatched and received as a discrepancy. Quantities are in the
+ * product's base unit. Both steps run in one database transaction and are
+ * recorded in the movement ledger as transfer_out / transfer_in.
+ */
+
+import type { Inventory, StockTransfer } from '@/payload-types'
+import type { Payload, PayloadRequest } from 'payload'
+import { APIError, commitTransaction, initTransaction, killTransaction } from 'payload'
+import { getReorderPoint } from './demandForecast'
+import { consumeBatchesFEFO, type BatchAllocation } from './inventoryBatches'
+import { inventoryMovementContext, withScopedContext } from './inventoryMovements'
+import { findInventoryRecord, getDefaultOutlet } from './outlets'
+
+export const STOCK_TRANSFER_STATUSES = ['requested', 'in_transit', 'received', 'cancelled'] as const
+
+export type StockTransferStatus = (typeof STOCK_TRANSFER_STATUSES)[number]
+
+export const STOCK_TRANSFER_STATUS_OPTIONS: Array<{ label: string; value: StockTransferStatus }> = [
+  { label: 'Requested', value: 'requested' },
+  { label: 'In Transit', value: 'in_transit' },
+  { label: 'Received', value: 'received' },
+  { label: 'Cancelled', value: 'cancelled' },
+]
+
+/**
+ * Allowed transitions per status; stock in transit cannot be cancelled
+ */
+export const STOCK_TRANSFER_STATUS_TRANSITIONS: Record<StockTransferStatus, readonly StockTransferStatus[]> = {
+  requested: ['in_transit', 'cancelled'],
+  in_transit: ['received'],
+  received: [],
+  cancelled: [],
+}
+
+/**
+ * Statuses with stock still to arrive at the destination
+ */
+export const OPEN_STOCK_TRANSFER_STATUSES: readonly StockTransferStatus[] = ['requested', 'in_transit']
+
+export function isStockTransferStatus(value: unknown): value is StockTransferStatus {
+  return typeof value === 'string' && (STOCK_TRANSFER_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Check whether a transfer may move from one status to another
+ */
+export function canTransitionStockTransferStatus(from: string | null | undefined, to: string): boolean {
+  const current = from || 'requested'
+  if (!isStockTransferStatus(current) || !isStockTransferStatus(to)) return false
+  return STOCK_TRANSFER_STATUS_TRANSITIONS[current].includes(to)
+}
+
+/**
+ * Generate a transfer reference, e.g. TR-20260118-K3F9Q
+ */
+export function generateStockTransferReference(date: Date = new Date()): string {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, '')
+  const suffix = Math.random().toString(36).slice(2, 7).toUpperCase().padEnd(5, '0')
+  return `TR-${day}-${suffix}`
+}
+
+type StockTransferLine = NonNullable<StockTransfer['lines']>[number]
+
+const relationId = (value: unknown): string | undefined => {
+  if (value && typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return value ? String(value) : undefined
+}
+
+const productTitle = (line: StockTransferLine): string =>
+  typeof line.product === 'object' ? line.product.title : String(line.product)
+
+/**
+ * Line data for an update, with relationships reduced to IDs
+ */
+function toLineData(line: StockTransferLine): StockTransferLine {
+  return { ...line, product: relationId(line.product)! }
+}
+
+async function loadTransfer(payload: Payload, req: PayloadRequest, transferId: string): Promise<StockTransfer> {
+  return payload.findByID({
+    collection: 'stock-transfers',
+    id: transferId,
+    depth: 1,
+    req,
+    overrideAccess: true,
+  })
+}
+
+/**
+ * Dispatch a requested transfer from its source outlet
+ *
+ * Every line is checked against the source stock before anything moves.
+ * Batched stock is taken earliest expiry first; the batches sent are kept on
+ * the line so the destination receives the same batch numbers and expiries.
+ */
+export async function dispatchStockTransfer(
+  payload: Payload,
+  req: PayloadRequest,
+  transferId: string,
+  options: { notes?: string } = {}
+): Promise<StockTransfer> {
+  if (req.user?.role !== 'admin') {
+    throw new APIError('Only administrators can dispatch transfers', 403, null, true)
+  }
+
+  const transfer = await loadTransfer(payload, req, transferId)
+
+  if (transfer.status !== 'requested') {
+    throw new APIError(`Only requested transfers can be dispatched (status: ${transfer.status})`, 400, null, true)
+  }
+
+  const lines = transfer.lines || []
+  if (lines.length === 0) {
+    throw new APIError('A transfer needs at least one line to dispatch', 400, null, true)
+  }
+
+  const sourceId = relationId(transfer.source_outlet)
+  const sources = new Map<string, Inventory>()
+  const errors: string[] = []
+
+  for (const line of lines) {
+    const productId = relationId(line.product)!
+    const inventory = await findInventoryRecord(payload, productId, { outletId: sourceId, req })
+    const requested = lines
+      .filter((entry) => relationId(entry.product) === productId)
+      .reduce((sum, entry) => sum + entry.quantity, 0)
+
+    if (!inventory || (inventory.quantity || 0) < requested) {
+      errors.push(
+        `Not enough ${productTitle(line)} at the source outlet: ${inventory?.quantity || 0} available, ${requested} requested`
+      )
+      continue
+    }
+    sources.set(productId, inventory)
+  }
+
+  if (errors.length > 0) {
+    throw new APIError([...new Set(errors)].join('\n'), 400, null, true)
+  }
+
+  const reason = `Transfer ${transfer.reference}`
+  const shouldCommit = await initTransaction(req)
+
+  try {
+    const dispatchedLines: StockTransferLine[] = []
+
+    for (const line of lines) {
+      const productId = relationId(line.product)!
+      const inventory = sources.get(productId)!
+
+      const { allocations } = await consumeBatchesFEFO(payload, req, productId, line.quantity, {
+        inventoryId: inventory.id,
+      })
+
+      // Re-read: several lines may draw on the same record
+      const current = await payload.findByID({
+        collection: 'inventory',
+        id: inventory.id,
+        depth: 0,
+        req,
+        overrideAccess: true,
+      })
+
+      await withScopedContext(req, () =>
+        payload.update({
+          collection: 'inventory',
+          id: inventory.id,
+          data: { quantity: (current.quantity || 0) - line.quantity },
+          req,
+          overrideAccess: true,
+          context: inventoryMovementContext(
+            { type: 'transfer_out', reason, transferId: transfer.id, batchAllocations: allocations },
+            { skipHooks: true }
+          ),
+        })
+      )
+
+      dispatchedLines.push({ ...toLineData(line), dispatched_batches: allocations })
+    }
+
+    const dispatched = await payload.update({
+      collection: 'stock-transfers',
+      id: transfer.id,
+      data: {
+        status: 'in_transit',
+        lines: dispatchedLines,
+        dispatched_by: req.user.collection === 'admins' ? req.user.id : undefined,
+        dispatched_at: new Date().toISOString(),
+        dispatch_notes: options.notes,
+      },
+      depth: 1,
+      req,
+      overrideAccess: true,
+      context: { stockTransferDispatch: true },
+    })
+
+    if (shouldCommit) await commitTransaction(req)
+
+    payload.logger.info(`Stock transfer ${transfer.reference} dispatched (${lines.length} line(s))`)
+
+    return dispatched
+  } catch (error) {
+    await killTransaction(req)
+    throw error
+  }
+}
+
+export interface StockTransferReceiptLine {
+  lineId: string
+  /** Base units that arrived; the dispatched quantity when omitted */
+  receivedQuantity?: number
+  notes?: string
+}
+
+/**
+ * Receive a transfer at its destination outlet
+ *
+ * Lines not listed are received in full. A received quantity different from
+ * the dispatched one is recorded as the line's discrepancy (received −
+ * dispatched) and needs a note; only the received quantity is added to the
+ * destination. Batches are refilled earliest expiry first.
+ */
+export async function receiveStockTransfer(
+  payload: Payload,
+  req: PayloadRequest,
+  transferId: string,
+  receipt: StockTransferReceiptLine[] = [],
+  options: { notes?: string } = {}
+): Promise<StockTransfer> {
+  if (req.user?.role !== 'admin') {
+    throw new APIError('Only administrators can receive transfers', 403, null, true)
+  }
+
+  const transfer = await loadTransfer(payload, req, transferId)
+
+  if (transfer.status !== 'in_transit') {
+    throw new APIError(`Only transfers in transit can be received (status: ${transfer.status})`, 400, null, true)
+  }
+
+  const lines = transfer.lines || []
+  const errors: string[] = []
+
+  for (const entry of receipt) {
+    const line = lines.find((candidate) => candidate.id === entry.lineId)
+    if (!line) {
+      errors.push(`Line ${entry.lineId} is not on this transfer`)
+      continue
+    }
+    if (entry.receivedQuantity === undefined) continue
+    if (!Number.isInteger(entry.receivedQuantity) || entry.receivedQuantity < 0) {
+      errors.push(`Received quantity for ${productTitle(line)} must be a non-negative whole number`)
+    } else if (entry.receivedQuantity !== line.quantity && !entry.notes?.trim() && !line.notes?.trim()) {
+      errors.push(`A note is required for the ${productTitle(line)} discrepancy`)
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new APIError(errors.join('\n'), 400, null, true)
+  }
+
+  const destinationId = relationId(transfer.destination_outlet)
+  const reason = `Transfer ${transfer.reference}`
+  const shouldCommit = await initTransaction(req)
+
+  try {
+    const receivedLines: StockTransferLine[] = []
+
+    for (const line of lines) {
+      const entry = receipt.find((candidate) => candidate.lineId === line.id)
+      const received = entry?.receivedQuantity ?? line.quantity
+      const productId = relationId(line.product)!
+
+      if (received > 0) {
+        const inventoryId = await ensureDestinationInventory(payload, req, productId, destinationId)
+        await receiveTransferBatches(payload, req, {
+          productId,
+          inventoryId,
+          outletId: destinationId,
+          batches: (line.dispatched_batches as BatchAllocation[] | null | undefined) || [],
+          quantity: received,
+        })
+
+        const current = await payload.findByID({
+          collection: 'inventory',
+          id: inventoryId,
+          depth: 0,
+          req,
+          overrideAccess: true,
+        })
+
+        await withScopedContext(req, () =>
+          payload.update({
+            collection: 'inventory',
+            id: inventoryId,
+            data: { quantity: (current.quantity || 0) + received },
+            req,
+            overrideAccess: true,
+            context: inventoryMovementContext(
+              {
+                type: 'transfer_in',
+                reason,
+                notes: received !== line.quantity ? `Dispatched ${line.quantity}, received ${received}` : undefined,
+                transferId: transfer.id,
+              },
+              { skipHooks: true }
+            ),
+          })
+        )
+      }
+
+      receivedLines.push({
+        ...toLineData(line),
+        received_quantity: received,
+        discrepancy: received - line.quantity,
+        notes: entry?.notes ?? line.notes,
+      })
+    }
+
+    const hasDiscrepancy = receivedLines.some((line) => line.discrepancy !== 0)
+
+    const received = await payload.update({
+      collection: 'stock-transfers',
+      id: transfer.id,
+      data: {
+        status: 'received',
+        lines: receivedLines,
+        has_discrepancy: hasDiscrepancy,
+        received_by: req.user.collection === 'admins' ? req.user.id : undefined,
+        received_at: new Date().toISOString(),
+        receipt_notes: options.notes,
+      },
+      depth: 1,
+      req,
+      overrideAccess: true,
+      context: { stockTransferReceipt: true },
+    })
+
+    if (shouldCommit) await commitTransaction(req)
+
+    payload.logger.info(
+      `Stock transfer ${transfer.reference} received${hasDiscrepancy ? ' with discrepancies' : ''}`
+    )
+
+    return received
+  } catch (error) {
+    await killTransaction(req)
+    throw error
+  }
+}
+
+/**
+ * Inventory record of a product at the destination, created empty for the
+ * first transfer there
+ */
+async function ensureDestinationInventory(
+  payload: Payload,
+  req: PayloadRequest,
+  productId: string,
+  outletId?: string | null
+): Promise<string> {
+  const existing = await findInventoryRecord(payload, productId, { outletId, req })
+  if (existing) return existing.id
+
+  const created = await payload.create({
+    collection: 'inventory',
+    data: { product: productId, outlet: outletId, quantity: 0 },
+    req,
+    overrideAccess: true,
+  })
+  return created.id
+}
+
+/**
+ * Put received units back into batches at the destination, earliest expiry
+ * first, adding to a batch with the same number when the outlet has one
+ * Inventory is updated by the caller, so batch writes skip the sync.
+ */
+async function receiveTransferBatches(
+  payload: Payload,
+  req: PayloadRequest,
+  {
+    productId,
+    inventoryId,
+    outletId,
+    batches,
+    quantity,
+  }: {
+    productId: string
+    inventoryId: string
+    outletId?: string | null
+    batches: BatchAllocation[]
+    quantity: number
+  }
+): Promise<void> {
+  let remaining = quantity
+
+  const sorted = [...batches].sort((a, b) => a.expiryDate.localeCompare(b.expiryDate))
+  for (const batch of sorted) {
+    if (remaining <= 0) break
+    const take = Math.min(batch.quantity, remaining)
+
+    const existing = await payload.find({
+      collection: 'inventory-batches',
+      where: {
+        and: [
+          { inventory: { equals: inventoryId } },
+          { batch_number: { equals: batch.batchNumber } },
+        ],
+      },
+      limit: 1,
+      depth: 0,
+      req,
+      overrideAccess: true,
+    })
+
+    if (existing.docs[0]) {
+      await withScopedContext(req, () =>
+        payload.update({
+          collection: 'inventory-batches',
+          id: existing.docs[0].id,
+          data: { quantity: (existing.docs[0].quantity || 0) + take },
+          req,
+          overrideAccess: true,
+          context: { skipInventorySync: true },
+        })
+      )
+    } else {
+      await withScopedContext(req, () =>
+        payload.create({
+          collection: 'inventory-batches',
+          data: {
+            product: productId,
+            outlet: outletId,
+            batch_number: batch.batchNumber,
+            expiry_date: batch.expiryDate,
+            quantity: take,
+          },
+          req,
+          overrideAccess: true,
+          context: { skipInventorySync: true },
+        })
+      )
+    }
+
+    remaining -= take
+  }
+}
+
+export interface StockTransferSuggestion {
+  productId: string
+  productName: string
+  sourceOutletId: string
+  destinationOutletId: string
+  /** Base units to move */
+  quantity: number
+  /** Destination stock and reorder point before the transfer */
+  destinationQuantity: number
+  destinationThreshold: number
+  /** Source stock above twice its reorder point */
+  sourceSurplus: number
+}
+
+/**
+ * Suggest transfers for outlets at or below their reorder point from outlets
+ * holding a surplus of the same product
+ *
+ * An outlet keeps twice its reorder point (the "adequate" band of
+ * checkLowStockLevels); anything above is surplus. Each low outlet is topped
+ * up to twice its reorder point from the outlets with the largest surplus first.
+ * Stock already on its way (open transfers) counts towards the destination
+ * and is no longer surplus at the source.
+ */
+export async function suggestStockTransfers(
+  payload: Payload,
+  options: { productIds?: string[]; req?: PayloadRequest } = {}
+): Promise<StockTransferSuggestion[]> {
+  const { req } = options
+  const defaultOutletId = (await getDefaultOutlet(payload, req))?.id || null
+
+  const inventory = await payload.find({
+    collection: 'inventory',
+    where: options.productIds ? { product: { in: options.productIds } } : {},
+    pagination: false,
+    depth: 1,
+    req,
+    overrideAccess: true,
+  })
+
+  const openTransfers = await payload.find({
+    collection: 'stock-transfers',
+    where: { status: { in: [...OPEN_STOCK_TRANSFER_STATUSES] } },
+    pagination: false,
+    depth: 0,
+    req,
+    overrideAccess: true,
+  })
+
+  // Units already on their way, keyed by product and outlet
+  const inbound = new Map<string, number>()
+  const outbound = new Map<string, number>()
+  for (const transfer of openTransfers.docs) {
+    for (const line of transfer.lines || []) {
+      const product = relationId(line.product)
+      const to = `${product}:${relationId(transfer.destination_outlet)}`
+      inbound.set(to, (inbound.get(to) || 0) + line.quantity)
+      // Dispatched stock has already left the source inventory
+      if (transfer.status === 'requested') {
+        const from = `${product}:${relationId(transfer.source_outlet)}`
+        outbound.set(from, (outbound.get(from) || 0) + line.quantity)
+      }
+    }
+  }
+
+  const byProduct = new Map<string, Inventory[]>()
+  for (const record of inventory.docs) {
+    const productId = relationId(record.product)
+    if (!productId) continue
+    byProduct.set(productId, [...(byProduct.get(productId) || []), record])
+  }
+
+  const suggestions: StockTransferSuggestion[] = []
+
+  for (const [productId, records] of byProduct) {
+    if (records.length < 2) continue
+
+    const outlets = records
+      .map((record) => {
+        const outletId = relationId(record.outlet) || defaultOutletId
+        const threshold = getReorderPoint(record)
+        const key = `${productId}:${outletId}`
+        return {
+          outletId,
+          quantity: record.quantity || 0,
+          threshold,
+          available: (record.quantity || 0) + (inbound.get(key) || 0),
+          surplus: (record.quantity || 0) - (outbound.get(key) || 0) - threshold * 2,
+        }
+      })
+      .filter((entry): entry is typeof entry & { outletId: string } => Boolean(entry.outletId))
+
+    const donors = outlets
+      .filter((entry) => entry.surplus > 0)
+      .sort((a, b) => b.surplus - a.surplus)
+    const needy = outlets
+      .filter((entry) => entry.available <= entry.threshold)
+      .sort((a, b) => a.available / a.threshold - b.available / b.threshold)
+
+    const product = records[0].product
+    const productName = typeof product === 'object' ? product.title : productId
+
+    for (const destination of needy) {
+      let needed = destination.threshold * 2 - destination.available
+
+      for (const donor of donors) {
+        if (needed <= 0) break
+        if (donor.surplus <= 0 || donor.outletId === destination.outletId) continue
+
+        const quantity = Math.min(donor.surplus, needed)
+        suggestions.push({
+          productId,
+          productName,
+          sourceOutletId: donor.outletId,
+          destinationOutletId: destination.outletId,
+          quantity,
+          destinationQuantity: destination.quantity,
+          destinationThreshold: destination.threshold,
+          sourceSurplus: donor.surplus,
+        })
+        donor.surplus -= quantity
+        needed -= quantity
+      }
+    }
+  }
+
+  return suggestions
+}
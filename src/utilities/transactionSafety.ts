@@ -5,10 +5,19 @@
  * in complex operations across multiple collections.
  */
 
-import type { Inventory, Order } from '@/payload-types'
+import type { Inventory, InventoryMovement, Order } from '@/payload-types'
 import type { Payload, PayloadRequest } from 'payload'
-// Note provided InventoryMovement and Inventory types might be out of date if not regenerated yet.
-// We should rely on structural typing or 'any' fallback where types mismatch old definitions.
+import {
+  consumeBatchesFEFO,
+  describeBatchAllocations,
+  getSellableQuantity,
+  restoreOrderBatchStock,
+} from './inventoryBatches'
+import { getLatestInventoryMovement, inventoryMovementContext, withScopedContext } from './inventoryMovements'
+import { canTransitionOrderStatus } from './orderStatus'
+import { findInventoryRecord, getOutletId } from './outlets'
+import { getItemBaseQuantity } from './productVariants'
+import { toBaseQuantity } from './unitsOfMeasure'
 
 /**
  * Error class for transaction failures
@@ -30,15 +39,14 @@ export async function processOrderWithStockDeduction(
   orderId: string | number,
   options: {
     skipStockValidation?: boolean
+    // Kept for interface compatibility - ledger movements are always recorded by the Inventory hooks
     createMovements?: boolean
-    // createMovements kept for interface compatibility but will likely be ignored or use a different audit log if needed.
-    // Given the requirement to remove InventoryMovements collection, we will NOT create them.
   } = {}
 ): Promise<{
   success: boolean
   order?: Order
   stockDeductions?: Array<{ inventoryId: string | number; quantity: number }>
-  movements?: never[] // Simplified - no movements
+  movements?: InventoryMovement[]
   error?: string
 }> {
   const { skipStockValidation = false } = options
@@ -60,6 +68,10 @@ export async function processOrderWithStockDeduction(
       throw new TransactionError('Order has no items')
     }
 
+    if (order.stock_deducted) {
+      throw new TransactionError('Stock has already been deducted for this order')
+    }
+
     // Validate stock and plan deductions
     const stockDeductions: Array<{ inventoryId: string | number; quantity: number; productId: string | number }> = []
 
@@ -68,25 +80,20 @@ export async function processOrderWithStockDeduction(
         throw new TransactionError(`Order item has invalid product reference`)
       }
       const productId = item.product.id
-      const quantityRequired = item.quantity || 0
+      const quantityRequired = getItemBaseQuantity(item)
 
-      // Find single inventory record for product (overrideAccess for admin context)
-      const inventoryResult = await payload.find({
-        collection: 'inventory',
-        where: {
-          product: { equals: productId },
-        },
-        limit: 1,
+      // Inventory record at the order's outlet (overrideAccess for admin context)
+      const inventory = await findInventoryRecord(payload, productId, {
+        outletId: getOutletId(order.outlet),
         req,
-        overrideAccess: true,
       })
 
-      if (inventoryResult.docs.length === 0) {
+      if (!inventory) {
         throw new TransactionError(`Inventory not found for product ${productId}`)
       }
 
-      const inventory = inventoryResult.docs[0]
-      const available = inventory.quantity || 0
+      // Expired batch units are not sellable
+      const available = await getSellableQuantity(payload, inventory, req)
 
       if (!skipStockValidation && available < quantityRequired) {
         throw new TransactionError(
@@ -102,6 +109,7 @@ export async function processOrderWithStockDeduction(
     }
 
     // Execute stock deductions atomically
+    const movements: InventoryMovement[] = []
 
     for (const deduction of stockDeductions) {
       // Get current inventory state (safe refetch)
@@ -124,46 +132,58 @@ export async function processOrderWithStockDeduction(
         )
       }
 
-      // Update inventory quantity (overrideAccess for admin context in tests)
-      await payload.update({
-        collection: 'inventory',
-        id: deduction.inventoryId,
-        data: {
-          quantity: newQuantity,
-        },
-        req,
-        overrideAccess: true,
-        context: {
-          skipHooks: true, // Prevent infinite loops
-        },
+      // Consume batches first-expiry-first-out
+      const { allocations } = await consumeBatchesFEFO(payload, req, deduction.productId, deduction.quantity, {
+        inventoryId: deduction.inventoryId,
       })
 
-      // No InventoryMovements creation
+      // Update inventory quantity (overrideAccess for admin context in tests)
+      await withScopedContext(req, () =>
+        payload.update({
+          collection: 'inventory',
+          id: deduction.inventoryId,
+          data: {
+            quantity: newQuantity,
+          },
+          req,
+          overrideAccess: true,
+          context: inventoryMovementContext(
+            {
+              type: 'sale',
+              orderId,
+              reason: 'Order stock deduction',
+              notes: describeBatchAllocations(allocations),
+              batchAllocations: allocations,
+            },
+            { skipHooks: true } // Prevent infinite loops
+          ),
+        })
+      )
+
+      const movement = await getLatestInventoryMovement(payload, deduction.inventoryId, req)
+      if (movement) movements.push(movement)
     }
 
-    // Update order status if it was null (pending)
-    let updatedOrder = order
-    // Check if status is null or not set, assuming this implies pending payment/confirmation
-    if (!order.status) {
-      const result = await payload.update({
+    // Mark stock as held so the order hooks never deduct it again
+    const updatedOrder = await withScopedContext(req, () =>
+      payload.update({
         collection: 'orders',
         id: orderId,
         data: {
-          status: 'processing',
+          stock_deducted: true,
         },
         req,
         context: {
           skipStockDeduction: true, // Prevent double deduction
         },
       })
-      updatedOrder = result // payload.update by ID returns Order
-    }
+    )
 
     return {
       success: true,
       order: updatedOrder,
       stockDeductions: stockDeductions.map(d => ({ inventoryId: d.inventoryId, quantity: d.quantity })),
-      movements: [],
+      movements,
     }
   } catch (error) {
     return {
@@ -189,10 +209,10 @@ export async function cancelOrderWithStockRestoration(
   success: boolean
   order?: Order
   stockRestorations?: Array<{ inventoryId: string | number; quantity: number }>
-  movements?: never[]
+  movements?: InventoryMovement[]
   error?: string
 }> {
-  const { reason: _reason = 'Order cancellation' } = options
+  const { reason = 'Order cancellation' } = options
 
   try {
     // Get the order
@@ -211,42 +231,53 @@ export async function cancelOrderWithStockRestoration(
       throw new TransactionError('Order is already cancelled')
     }
 
-    if (order.status === 'delivered') {
-      throw new TransactionError('Cannot cancel delivered orders')
+    if (!canTransitionOrderStatus(order.status, 'cancelled')) {
+      throw new TransactionError(`Cannot cancel orders with status "${order.status}"`)
     }
 
     const stockRestorations: Array<{ inventoryId: string | number; quantity: number }> = []
+    const movements: InventoryMovement[] = []
 
-    // Restore stock based on order items
-    // Since we don't have movement records, we use the order items directly to know what to restore.
-    // This assumes 1:1 inventory map is clean.
-    if (order.items) {
+    // Restore stock to the order's outlet, only if it is held
+    if (order.stock_deducted && order.items) {
       for (const item of order.items) {
         if (typeof item.product !== 'object' || !item.product) continue
         const productId = item.product.id
-        const quantityToRestore = item.quantity || 0
+        const quantityToRestore = getItemBaseQuantity(item)
 
         if (quantityToRestore <= 0) continue
 
-        // Find inventory for product
-        const inventoryResult = await payload.find({
-          collection: 'inventory',
-          where: { product: { equals: productId } },
-          limit: 1,
-          req
+        // Find inventory for product at the order's outlet
+        const inventory = await findInventoryRecord(payload, productId, {
+          outletId: getOutletId(order.outlet),
+          req,
         })
 
-        if (inventoryResult.docs.length > 0) {
-          const inventory = inventoryResult.docs[0]
+        if (inventory) {
           const newQuantity = (inventory.quantity || 0) + quantityToRestore
+          const { allocations } = await restoreOrderBatchStock(payload, req, orderId, inventory.id, quantityToRestore)
 
-          await payload.update({
-            collection: 'inventory',
-            id: inventory.id,
-            data: { quantity: newQuantity },
-            req,
-            context: { skipHooks: true }
-          })
+          await withScopedContext(req, () =>
+            payload.update({
+              collection: 'inventory',
+              id: inventory.id,
+              data: { quantity: newQuantity },
+              req,
+              context: inventoryMovementContext(
+                {
+                  type: 'cancellation_restore',
+                  orderId,
+                  reason,
+                  notes: describeBatchAllocations(allocations),
+                  batchAllocations: allocations,
+                },
+                { skipHooks: true }
+              ),
+            })
+          )
+
+          const movement = await getLatestInventoryMovement(payload, inventory.id, req)
+          if (movement) movements.push(movement)
 
           stockRestorations.push({
             inventoryId: inventory.id,
@@ -258,24 +289,26 @@ export async function cancelOrderWithStockRestoration(
       }
     }
 
-    // Update order status
-    const updatedOrder = await payload.update({
-      collection: 'orders',
-      id: orderId,
-      data: {
-        status: 'cancelled',
-      },
-      req,
-      context: {
-        skipStockRestoration: true, // Prevent double restoration
-      },
-    })
+    // Update order status (releases stock_deducted via the state machine)
+    const updatedOrder = await withScopedContext(req, () =>
+      payload.update({
+        collection: 'orders',
+        id: orderId,
+        data: {
+          status: 'cancelled',
+        },
+        req,
+        context: {
+          skipStockRestoration: true, // Prevent double restoration
+        },
+      })
+    )
 
     return {
       success: true,
       order: updatedOrder,
       stockRestorations,
-      movements: [],
+      movements,
     }
   } catch (error) {
     return {
@@ -287,6 +320,7 @@ export async function cancelOrderWithStockRestoration(
 
 /**
  * Safely adjusts inventory quantities
+ * `quantityChange` is in `unit` of the product (its base unit by default).
  */
 export async function adjustInventoryWithAudit(
   payload: Payload,
@@ -296,15 +330,16 @@ export async function adjustInventoryWithAudit(
   options: {
     reason: string
     notes?: string
-    movementType?: 'adjustment' | 'expiry' | 'return'
+    movementType?: 'adjustment' | 'expiry' | 'return' | 'receipt'
+    unit?: string
   }
 ): Promise<{
   success: boolean
   inventory?: Inventory
-  movement?: null
+  movement?: InventoryMovement | null
   error?: string
 }> {
-  const { reason, notes = '' } = options
+  const { reason, notes = '', movementType = 'adjustment', unit } = options
 
   try {
     // Validate user has admin permissions
@@ -323,35 +358,46 @@ export async function adjustInventoryWithAudit(
       throw new TransactionError(`Inventory ${inventoryId} not found`)
     }
 
+    const product = !unit || typeof inventory.product === 'object'
+      ? inventory.product
+      : await payload.findByID({ collection: 'products', id: inventory.product, depth: 0, req })
+    const baseChange = unit
+      ? toBaseQuantity(typeof product === 'object' ? product : null, quantityChange, unit)
+      : quantityChange
+
     const currentQty = inventory.quantity || 0
-    const newQuantity = currentQty + quantityChange
+    const newQuantity = currentQty + baseChange
 
     if (newQuantity < 0) {
       throw new TransactionError(
-        `Adjustment would result in negative quantity: ${currentQty} + ${quantityChange} = ${newQuantity}`
+        `Adjustment would result in negative quantity: ${currentQty} + ${baseChange} = ${newQuantity}`
       )
     }
 
     // Update inventory
-    const updatedInventory = await payload.update({
-      collection: 'inventory',
-      id: inventoryId,
-      data: {
-        quantity: newQuantity,
-      },
-      req,
-      context: {
-        skipHooks: true,
-      },
-    })
+    const updatedInventory = await withScopedContext(req, () =>
+      payload.update({
+        collection: 'inventory',
+        id: inventoryId,
+        data: {
+          quantity: newQuantity,
+        },
+        req,
+        context: inventoryMovementContext(
+          { type: movementType, reason, notes: notes || undefined },
+          { skipHooks: true }
+        ),
+      })
+    )
+
+    const movement = await getLatestInventoryMovement(payload, inventoryId, req)
 
-    // Log to system logger instead of InventoryMovements
-    payload.logger.info(`Inventory Adjusted: ID=${inventoryId}, Change=${quantityChange}, New=${newQuantity}, Reason=${reason}, Notes=${notes}`)
+    payload.logger.info(`Inventory Adjusted: ID=${inventoryId}, Change=${baseChange}, New=${newQuantity}, Reason=${reason}`)
 
     return {
       success: true,
       inventory: updatedInventory,
-      movement: null,
+      movement,
     }
   } catch (error) {
     return {
@@ -410,21 +456,14 @@ export async function validateComplexOperation(
           for (const item of order.items) {
             if (typeof item.product !== 'object' || !item.product) continue
             const productId = item.product.id
-            const quantity = item.quantity || 0
+            const quantity = getItemBaseQuantity(item)
 
-            const inventoryResult = await payload.find({
-              collection: 'inventory',
-              where: {
-                product: { equals: productId },
-                // removed is_active check on inventory, relying on product active check if needed or assuming inventory existence implies active
-              },
+            const inventory = await findInventoryRecord(payload, productId, {
+              outletId: getOutletId(order.outlet),
               req,
             })
 
-            const totalAvailable = inventoryResult.docs.reduce(
-              (total, inv) => total + (inv.quantity || 0),
-              0
-            )
+            const totalAvailable = inventory?.quantity || 0
 
             if (totalAvailable < quantity) {
               errors.push(`Insufficient stock for product ${productId}`)
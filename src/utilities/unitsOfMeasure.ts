@@ -0,0 +1,114 @@
+/**
+ * Units of Measure
+ *
+ * Every product counts stock in one base unit (e.g. tablet); larger units are
+ * defined as conversion factors to it (1 strip = 10 tablets, 1 box = 100
+ * tablets). Inventory, batches, reservations and the movement ledger are all
+ * kept in the base unit; quantities entered in other units are converted on
+ * the way in, so a receipt of "5 box" and a sale of "3 strip" reconcile.
+ */
+
+import type { Product } from '@/payload-types'
+import { APIError } from 'payload'
+
+export const UNITS_OF_MEASURE = [
+  'tablet',
+  'capsule',
+  'strip',
+  'blister',
+  'box',
+  'bottle',
+  'sachet',
+  'tube',
+  'ampoule',
+  'vial',
+  'pcs',
+] as const
+
+export type UnitOfMeasure = (typeof UNITS_OF_MEASURE)[number]
+
+export const UNIT_OF_MEASURE_OPTIONS: Array<{ label: string; value: UnitOfMeasure }> = [
+  { label: 'Tablet', value: 'tablet' },
+  { label: 'Capsule', value: 'capsule' },
+  { label: 'Strip', value: 'strip' },
+  { label: 'Blister', value: 'blister' },
+  { label: 'Box', value: 'box' },
+  { label: 'Bottle', value: 'bottle' },
+  { label: 'Sachet', value: 'sachet' },
+  { label: 'Tube', value: 'tube' },
+  { label: 'Ampoule', value: 'ampoule' },
+  { label: 'Vial', value: 'vial' },
+  { label: 'Pcs', value: 'pcs' },
+]
+
+export const DEFAULT_BASE_UNIT: UnitOfMeasure = 'pcs'
+
+type UnitSource = Pick<Product, 'base_unit' | 'unit_conversions'>
+
+export class UnitConversionError extends APIError {
+  constructor(message: string) {
+    super(message, 400, null, true)
+    this.name = 'UnitConversionError'
+  }
+}
+
+export const getBaseUnit = (product: UnitSource | null | undefined): string =>
+  product?.base_unit || DEFAULT_BASE_UNIT
+
+/**
+ * All units of a product with their factor, largest first
+ */
+export function getProductUnits(product: UnitSource | null | undefined): Array<{ unit: string; factor: number }> {
+  const units = (product?.unit_conversions || [])
+    .filter((conversion) => conversion.unit && conversion.factor > 0)
+    .map((conversion) => ({ unit: conversion.unit, factor: conversion.factor }))
+
+  return [...units, { unit: getBaseUnit(product), factor: 1 }].sort((a, b) => b.factor - a.factor)
+}
+
+/**
+ * Base units in one `unit` of the product (1 for the base unit or no unit)
+ */
+export function getUnitFactor(product: UnitSource | null | undefined, unit?: string | null): number {
+  if (!unit || unit === getBaseUnit(product)) return 1
+
+  const conversion = (product?.unit_conversions || []).find((entry) => entry.unit === unit)
+  if (!conversion) {
+    throw new UnitConversionError(`Unit "${unit}" is not defined for this product (base unit: ${getBaseUnit(product)})`)
+  }
+  return conversion.factor
+}
+
+/**
+ * Convert a quantity in `unit` to the product's base unit
+ */
+export function toBaseQuantity(
+  product: UnitSource | null | undefined,
+  quantity: number,
+  unit?: string | null
+): number {
+  const baseQuantity = quantity * getUnitFactor(product, unit)
+  if (!Number.isInteger(baseQuantity)) {
+    throw new UnitConversionError(`${quantity} ${unit} is not a whole number of ${getBaseUnit(product)}`)
+  }
+  return baseQuantity
+}
+
+/**
+ * Describe a base quantity in the product's units, e.g. "4 box + 7 strip"
+ */
+export function describeQuantity(product: UnitSource | null | undefined, baseQuantity: number): string {
+  if (baseQuantity === 0) return `0 ${getBaseUnit(product)}`
+
+  const parts: string[] = []
+  let remaining = Math.abs(baseQuantity)
+  for (const { unit, factor } of getProductUnits(product)) {
+    const count = Math.floor(remaining / factor)
+    if (count > 0) {
+      parts.push(`${count} ${unit}`)
+      remaining -= count * factor
+    }
+  }
+
+  return `${baseQuantity < 0 ? '-' : ''}${parts.join(' + ')}`
+}
@@ -0,0 +1,97 @@
+import type { Address, Admin, Category, Inventory, Product, User } from '@/payload-types'
+import type { Payload, PayloadRequest } from 'payload'
+import { createLocalReq } from 'payload'
+
+export interface TestFixtures {
+  admin: Admin
+  /** Local API request authenticated as `admin` */
+  adminReq: PayloadRequest
+  customer: User
+  category: Category
+  product: Product
+  /** 100 units of `product`, low stock threshold 10 */
+  inventory: Inventory
+  /** The customer's default address */
+  address: Address
+}
+
+/**
+ * Creates an admin, a customer and a stocked product for integration tests.
+ */
+export async function createTestFixtures(payload: Payload): Promise<TestFixtures> {
+  const suffix = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+  const customer = await payload.create({
+    collection: 'users',
+    data: {
+      full_name: 'Test Customer',
+      email: `test-customer-${suffix}@test.com`,
+      role: 'customer',
+      phone: '081234567890',
+    },
+  })
+
+  const admin = await payload.create({
+    collection: 'admins',
+    data: {
+      full_name: 'Test Admin',
+      email: `test-admin-${suffix}@test.com`,
+      password: 'password123',
+      role: 'admin',
+      phone: '081234567891',
+    },
+  })
+  const adminReq = await createLocalReq({ user: { ...admin, collection: 'admins' } }, payload)
+
+  const category = await payload.create({
+    collection: 'categories',
+    data: {
+      name: 'Test Category',
+      slug: `test-category-${suffix}`,
+    },
+  })
+
+  const product = await payload.create({
+    collection: 'products',
+    data: {
+      title: 'Test Product',
+      slug: `test-product-${suffix}`,
+      price: 999,
+      category: category.id,
+    },
+  })
+
+  const inventory = await payload.create({
+    collection: 'inventory',
+    data: {
+      product: product.id,
+      quantity: 100,
+      low_stock_threshold: 10,
+    },
+  })
+
+  const address = await payload.create({
+    collection: 'addresses',
+    data: {
+      user: customer.id,
+      label: 'Test Address',
+      recipient_name: 'Test User',
+      phone: '+1234567890',
+      address_line: '123 Test St',
+      city: 'Test City',
+      postal_code: '12345',
+      is_default: true,
+    },
+  })
+
+  return { admin, adminReq, customer, category, product, inventory, address }
+}
+
+/**
+ * Deletes the users created by createTestFixtures.
+ */
+export async function deleteTestFixtureUsers(payload: Payload, fixtures: TestFixtures | undefined): Promise<void> {
+  if (!fixtures) return
+  await payload.delete({ collection: 'users', id: fixtures.customer.id })
+  await payload.delete({ collection: 'admins', id: fixtures.admin.id })
+}
@@ -337,6 +337,108 @@ describe('User Data Access Control', () => {
       expect(orderIds).toContain(customer1Order.id)
       expect(orderIds).toContain(customer2Order.id)
     })
+
+    it('should create customers\' orders as pending whatever status they send', async () => {
+      const order = await payload.create({
+        collection: 'orders',
+        user: customerUser1,
+        overrideAccess: false,
+        data: {
+          orderedBy: customerUser1.id,
+          items: customer1Order.items.map((item: any) => ({
+            product: typeof item.product === 'object' ? item.product.id : item.product,
+            price: item.price,
+            quantity: item.quantity,
+          })),
+          totalAmount: 100,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          status: 'paid',
+        },
+      })
+
+      try {
+        expect(order.status).toBe('pending')
+      } finally {
+        await payload.delete({ collection: 'orders', id: order.id })
+      }
+    })
+
+    it('should prevent customers from changing the status of their own orders', async () => {
+      await payload.update({
+        collection: 'orders',
+        id: customer1Order.id,
+        user: customerUser1,
+        overrideAccess: false,
+        data: { status: 'paid' },
+      })
+
+      const order = await payload.findByID({ collection: 'orders', id: customer1Order.id })
+      expect(order.status).toBe('pending')
+    })
+  })
+
+  describe('Private Document Access Control', () => {
+    let prescription: any
+
+    // 1×1 transparent PNG
+    const pngFile = () => {
+      const data = Buffer.from(
+        'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+        'base64'
+      )
+      return { data, mimetype: 'image/png', name: `resep-${Date.now()}.png`, size: data.length }
+    }
+
+    beforeAll(async () => {
+      prescription = await payload.create({
+        collection: 'private-documents',
+        data: { kind: 'prescription', user: customerUser1.id },
+        file: pngFile(),
+        overrideAccess: true,
+      })
+    })
+
+    afterAll(async () => {
+      if (prescription?.id) {
+        await payload.delete({ collection: 'private-documents', id: prescription.id })
+      }
+    })
+
+    it('should allow customers to read their own documents', async () => {
+      const doc = await payload.findByID({
+        collection: 'private-documents',
+        id: prescription.id,
+        user: customerUser1,
+        overrideAccess: false,
+      })
+
+      expect(doc.id).toBe(prescription.id)
+    })
+
+    it('should prevent customers from reading other customers\' documents', async () => {
+      const result = await payload.find({
+        collection: 'private-documents',
+        user: customerUser2,
+        overrideAccess: false,
+        where: { id: { equals: prescription.id } },
+      })
+
+      expect(result.docs).toHaveLength(0)
+    })
+
+    it('should prevent customers from creating documents directly', async () => {
+      await expect(
+        payload.create({
+          collection: 'private-documents',
+          data: { kind: 'prescription', user: customerUser1.id },
+          file: pngFile(),
+          user: customerUser1,
+          overrideAccess: false,
+        })
+      ).rejects.toThrow()
+    })
   })
 
   describe.skip('Cart Access Control', () => {
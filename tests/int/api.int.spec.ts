@@ -1,5 +1,6 @@
 import { getPayload, Payload } from 'payload'
 import config from '@/payload.config'
+import { searchCatalog } from '@/utilities/catalogSearch'
 
 import { describe, it, beforeAll, expect } from 'vitest'
 
@@ -18,3 +19,80 @@ describe('API', () => {
     expect(users).toBeDefined()
   })
 })
+
+describe('Catalog search', () => {
+  beforeAll(async () => {
+    const payloadConfig = await config
+    payload = await getPayload({ config: payloadConfig })
+  })
+
+  it('finds products by generic name with prefixes and typos', async () => {
+    const category = await payload.create({
+      collection: 'categories',
+      data: {
+        name: 'Demam & Nyeri',
+        slug: `demam-nyeri-${Date.now()}`,
+        search_keywords: 'panas, sakit kepala',
+      },
+    })
+
+    const product = await payload.create({
+      collection: 'products',
+      data: {
+        title: `Sanmol Tablet ${Date.now()}`,
+        slug: `sanmol-tablet-${Date.now()}`,
+        price: 12000,
+        category: category.id,
+        generic_name: 'Paracetamol',
+        dosage_form: 'tablet',
+        manufacturer: 'Sanbe Farma',
+        bpom_registration_number: 'DBL1234567890A1',
+      },
+    })
+
+    const byPrefix = await searchCatalog(payload, { query: 'paracet' })
+    expect(byPrefix.docs.map((doc) => doc.id)).toContain(product.id)
+
+    const byTypo = await searchCatalog(payload, { query: 'parasetamol' })
+    expect(byTypo.docs.map((doc) => doc.id)).toContain(product.id)
+
+    const bySynonym = await searchCatalog(payload, { query: 'sakit kepala' })
+    expect(bySynonym.docs.map((doc) => doc.id)).toContain(product.id)
+    expect(bySynonym.facets.categories.map((facet) => facet.categoryId)).toContain(category.id)
+
+    await payload.delete({ collection: 'products', id: product.id })
+    await payload.delete({ collection: 'categories', id: category.id })
+  })
+  it('matches dosages however they are written', async () => {
+    const category = await payload.create({
+      collection: 'categories',
+      data: {
+        name: 'Antibiotik',
+        slug: `antibiotik-${Date.now()}`,
+      },
+    })
+
+    const product = await payload.create({
+      collection: 'products',
+      data: {
+        title: `Amoxsan Kapsul ${Date.now()}`,
+        slug: `amoxsan-kapsul-${Date.now()}`,
+        price: 15000,
+        category: category.id,
+        generic_name: 'Amoxicillin',
+        strength: '500mg',
+        dosage_form: 'capsule',
+        bpom_registration_number: 'DKL1234567890A1',
+      },
+    })
+
+    const compact = await searchCatalog(payload, { query: 'amoxicillin 500mg' })
+    expect(compact.docs.map((doc) => doc.id)).toContain(product.id)
+
+    const spaced = await searchCatalog(payload, { query: 'amoxicillin 500 mg' })
+    expect(spaced.docs.map((doc) => doc.id)).toContain(product.id)
+
+    await payload.delete({ collection: 'products', id: product.id })
+    await payload.delete({ collection: 'categories', id: category.id })
+  })
+})
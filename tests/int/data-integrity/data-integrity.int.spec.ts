@@ -5,30 +5,47 @@
  * across all pharmacy collections.
  */
 
+import type { InventoryStockInfo } from '@/collections/Inventory/hooks/checkLowStockLevels'
+import { expireBankTransfers } from '@/payments/bank-transfer'
+import { findOrCreateOrderForTransaction } from '@/payments/shared'
 import {
   runDataIntegrityCheck,
   validateAddressIntegrity,
+  validateInventoryLedgerBalance,
   validateInventoryQuantities,
   validateOrderIntegrity,
   validateProductInventoryConsistency,
 } from '@/utilities/dataIntegrity'
+import { forecastReorderPoint, refreshReorderPoints } from '@/utilities/demandForecast'
+import { backfillOpeningBalances } from '@/utilities/inventoryMovements'
+import { rankOutletsForAddress } from '@/utilities/outlets'
+import { generateDraftPurchaseOrders, receivePurchaseOrder } from '@/utilities/purchaseOrders'
+import { checkPurchaseLimits } from '@/utilities/purchaseLimits'
+import { checkStockAvailability, getLowStockProducts } from '@/utilities/stockAvailability'
+import { InsufficientStockError, reserveStockForTransaction } from '@/utilities/stockReservations'
 import {
   adjustInventoryWithAudit,
   cancelOrderWithStockRestoration,
   processOrderWithStockDeduction,
 } from '@/utilities/transactionSafety'
+import type { Address, Admin, Inventory, Product, User } from '@/payload-types'
 import config from '@payload-config'
-import type { Payload } from 'payload'
-import { getPayload } from 'payload'
+import type { Payload, PayloadRequest } from 'payload'
+import { createLocalReq, getPayload } from 'payload'
 import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { TestFixtures } from '../../helpers/fixtures'
+import { createTestFixtures, deleteTestFixtureUsers } from '../../helpers/fixtures'
 
 describe('Data Integrity Integration Tests', () => {
   let payload: Payload
-  let testUser: any
-  let testAdmin: any
-  let testProduct: any
-  let testInventory: any
-  let testAddress: any
+  let fixtures: TestFixtures
+  let testUser: User
+  let testAdmin: Admin
+  /** Local API request authenticated as testAdmin */
+  let adminReq: PayloadRequest
+  let testProduct: Product
+  let testInventory: Inventory
+  let testAddress: Address
 
   beforeAll(async () => {
     payload = await getPayload({ config })
@@ -36,83 +53,19 @@ describe('Data Integrity Integration Tests', () => {
 
   afterAll(async () => {
     // Clean up test data
-    if (testUser) {
-      await payload.delete({ collection: 'users', id: testUser.id })
-    }
-    if (testAdmin) {
-      await payload.delete({ collection: 'users', id: testAdmin.id })
-    }
+    await deleteTestFixtureUsers(payload, fixtures)
   })
 
   beforeEach(async () => {
-    // Create test users
-    testUser = await payload.create({
-      collection: 'users',
-      data: {
-        full_name: 'Test Customer',
-        email: `test-customer-${Date.now()}@test.com`,
-        password: 'password123',
-        role: 'customer',
-        phone: '081234567890',
-      },
-    })
-
-    testAdmin = await payload.create({
-      collection: 'users',
-      data: {
-        full_name: 'Test Admin',
-        email: `test-admin-${Date.now()}@test.com`,
-        password: 'password123',
-        role: 'admin',
-        phone: '081234567891',
-      },
-    })
-
-    // Create test category
-    const testCategory = await payload.create({
-      collection: 'categories',
-      data: {
-        name: 'Test Category',
-        slug: `test-category-${Date.now()}`,
-      },
-    })
-
-    // Create test product
-    testProduct = await payload.create({
-      collection: 'products',
-      data: {
-        title: 'Test Product',
-        slug: `test-product-${Date.now()}`,
-        price: 999,
-        category: testCategory.id,
-        _status: 'published',
-      },
-    })
-
-    // Create test inventory
-    testInventory = await payload.create({
-      collection: 'inventory',
-      data: {
-        product: testProduct.id,
-        quantity: 100,
-        low_stock_threshold: 10,
-      },
-    })
-
-    // Create test address
-    testAddress = await payload.create({
-      collection: 'addresses',
-      data: {
-        user: testUser.id,
-        label: 'Test Address',
-        recipient_name: 'Test User',
-        phone: '+1234567890',
-        address_line: '123 Test St',
-        city: 'Test City',
-        postal_code: '12345',
-        is_default: true,
-      },
-    })
+    fixtures = await createTestFixtures(payload)
+    ;({
+      customer: testUser,
+      admin: testAdmin,
+      adminReq,
+      product: testProduct,
+      inventory: testInventory,
+      address: testAddress,
+    } = fixtures)
   })
 
   describe('Inventory Validation', () => {
@@ -122,29 +75,768 @@ describe('Data Integrity Integration Tests', () => {
       expect(result.errors).toHaveLength(0)
     })
 
-    it('should detect negative quantity', async () => {
-      // Validation prevents negative - verify it rejects
+    it('should detect negative quantity', async () => {
+      // Validation prevents negative - verify it rejects
+      await expect(
+        payload.update({
+          collection: 'inventory',
+          id: testInventory.id,
+          data: { quantity: -5 },
+          user: testAdmin,
+        })
+      ).rejects.toThrow()
+    })
+
+    it('should keep one inventory record per product and outlet under concurrent creates', async () => {
+      const product = await payload.create({
+        collection: 'products',
+        data: {
+          title: 'Concurrent Stock Product',
+          slug: `concurrent-stock-${Date.now()}`,
+          price: 999,
+          category: testProduct.category,
+        },
+      })
+
+      const results = await Promise.allSettled([
+        payload.create({ collection: 'inventory', data: { product: product.id, quantity: 5 } }),
+        payload.create({ collection: 'inventory', data: { product: product.id, quantity: 5 } }),
+      ])
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1)
+
+      const records = await payload.find({
+        collection: 'inventory',
+        where: { product: { equals: product.id } },
+        depth: 0,
+      })
+      expect(records.totalDocs).toBe(1)
+    })
+  })
+
+  describe('Product-Inventory Consistency', () => {
+    it('should calculate correct available stock', async () => {
+      const result = await validateProductInventoryConsistency(payload, testProduct.id)
+      expect(result.valid).toBe(true)
+      expect(result.calculatedStock).toBe(100)
+    })
+  })
+
+  describe('Order Validation', () => {
+    it('should validate correct order data', async () => {
+      const testOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{
+            product: testProduct.id,
+            quantity: 2,
+            price: 999,
+          }],
+          totalAmount: 1998,
+          status: 'pending',
+        },
+      })
+
+      const result = await validateOrderIntegrity(payload, testOrder.id)
+      expect(result.valid).toBe(true)
+      expect(result.errors).toHaveLength(0)
+    })
+
+    it('should detect order total not matching line price snapshots', async () => {
+      const testOrder = await payload.create({
+        collection: 'orders',
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{
+            product: testProduct.id,
+            quantity: 2,
+            price: 0,
+          }],
+          totalAmount: 1998,
+          status: 'pending',
+        },
+      })
+
+      const result = await validateOrderIntegrity(payload, testOrder.id)
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]).toContain('does not match line items total')
+    })
+
+    it('should allow only one order per payment', async () => {
+      const orderData = {
+        orderedBy: testUser.id,
+        shipping_name: 'Test',
+        shipping_address: 'Test Addr',
+        shipping_phone: '000',
+        items: [{
+          product: testProduct.id,
+          quantity: 1,
+          price: 999,
+        }],
+        totalAmount: 999,
+        payment_reference: `TXN-test-${Date.now()}`,
+        status: 'paid' as const,
+      }
+
+      await payload.create({ collection: 'orders', data: orderData })
+
+      await expect(
+        payload.create({ collection: 'orders', data: orderData })
+      ).rejects.toThrow()
+    })
+
+    it('should require a proof and a reason when reviewing bank transfers', async () => {
+      const transaction = await payload.create({
+        collection: 'transactions',
+        data: {
+          amount: 999,
+          status: 'pending',
+          paymentMethod: 'bank_transfer',
+          payment_reference: `BT-test-${Date.now()}`,
+          transfer_amount: 1123,
+          transfer_review_status: 'awaiting_proof',
+        },
+      })
+
+      // Cannot approve before a proof of payment is uploaded
+      await expect(
+        payload.update({
+          collection: 'transactions',
+          id: transaction.id,
+          data: { transfer_review_status: 'approved' },
+          user: testAdmin,
+        })
+      ).rejects.toThrow()
+
+      // Cannot reject without a reason
+      await expect(
+        payload.update({
+          collection: 'transactions',
+          id: transaction.id,
+          data: { transfer_review_status: 'rejected' },
+          user: testAdmin,
+        })
+      ).rejects.toThrow()
+
+      const rejected = await payload.update({
+        collection: 'transactions',
+        id: transaction.id,
+        data: {
+          transfer_review_status: 'rejected',
+          transfer_rejection_reason: 'Amount does not match the bank statement',
+        },
+        user: testAdmin,
+      })
+      expect(rejected.status).toBe('deny')
+    })
+
+    it('should expire bank transfers still awaiting proof after their deadline', async () => {
+      const req = await createLocalReq({}, payload)
+      const transferData = {
+        amount: 999,
+        status: 'pending' as const,
+        paymentMethod: 'bank_transfer',
+        transfer_amount: 1123,
+      }
+
+      const overdue = await payload.create({
+        collection: 'transactions',
+        data: {
+          ...transferData,
+          payment_reference: `BT-overdue-${Date.now()}`,
+          transfer_review_status: 'awaiting_proof',
+          transfer_deadline: new Date(Date.now() - 60 * 1000).toISOString(),
+        },
+      })
+      const inReview = await payload.create({
+        collection: 'transactions',
+        data: {
+          ...transferData,
+          payment_reference: `BT-review-${Date.now()}`,
+          transfer_review_status: 'pending_review',
+          transfer_deadline: new Date(Date.now() - 60 * 1000).toISOString(),
+        },
+      })
+
+      expect(await expireBankTransfers(req)).toBeGreaterThanOrEqual(1)
+
+      const expired = await payload.findByID({ collection: 'transactions', id: overdue.id })
+      expect(expired.status).toBe('expire')
+      expect(expired.expired_at).toBeTruthy()
+
+      // A proof awaiting the admin's review is left open
+      const reviewed = await payload.findByID({ collection: 'transactions', id: inReview.id })
+      expect(reviewed.status).toBe('pending')
+    })
+
+    it('should hold reserved stock until the payment fails', async () => {
+      const req = await createLocalReq({}, payload)
+      const transaction = await payload.create({
+        collection: 'transactions',
+        data: {
+          amount: 999 * 60,
+          status: 'pending',
+          paymentMethod: 'midtrans',
+          items: [{ product: testProduct.id, quantity: 60 }],
+        },
+      })
+
+      await reserveStockForTransaction({
+        req,
+        transaction,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      })
+
+      const held = await checkStockAvailability(payload, testProduct.id, 50)
+      expect(held.reservedQuantity).toBe(60)
+      expect(held.availableQuantity).toBe(40)
+      expect(held.isAvailable).toBe(false)
+
+      // A second checkout cannot take the held units
+      await expect(
+        reserveStockForTransaction({
+          req,
+          transaction,
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        })
+      ).rejects.toThrow(InsufficientStockError)
+
+      // Expiring the payment releases the hold
+      await payload.update({
+        collection: 'transactions',
+        id: transaction.id,
+        data: { status: 'expire' },
+      })
+
+      const released = await checkStockAvailability(payload, testProduct.id, 50)
+      expect(released.reservedQuantity).toBe(0)
+      expect(released.isAvailable).toBe(true)
+    })
+
+    it('should let only one of two concurrent checkouts take the last units', async () => {
+      const createCheckout = () =>
+        payload.create({
+          collection: 'transactions',
+          data: {
+            amount: 999 * 60,
+            status: 'pending',
+            paymentMethod: 'midtrans',
+            items: [{ product: testProduct.id, quantity: 60 }],
+          },
+        })
+      const [first, second] = await Promise.all([createCheckout(), createCheckout()])
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+
+      const results = await Promise.allSettled([
+        reserveStockForTransaction({ req: await createLocalReq({}, payload), transaction: first, expiresAt }),
+        reserveStockForTransaction({ req: await createLocalReq({}, payload), transaction: second, expiresAt }),
+      ])
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1)
+      const rejected = results.find((result) => result.status === 'rejected')
+      expect(rejected?.status === 'rejected' && rejected.reason).toBeInstanceOf(InsufficientStockError)
+    })
+
+    it('should keep settled holds until the order deducts its stock', async () => {
+      const req = await createLocalReq({}, payload)
+      const transaction = await payload.create({
+        collection: 'transactions',
+        data: {
+          amount: 999 * 60,
+          status: 'pending',
+          paymentMethod: 'midtrans',
+          payment_reference: `TXN-hold-${Date.now()}`,
+          items: [{ product: testProduct.id, quantity: 60, price: 999 }],
+        },
+      })
+      await reserveStockForTransaction({
+        req,
+        transaction,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      })
+
+      const settled = await payload.update({
+        collection: 'transactions',
+        id: transaction.id,
+        data: { status: 'settlement' },
+      })
+      const { order } = await findOrCreateOrderForTransaction({ req, transaction: settled })
+
+      // Paid but not yet processing: the units stay held for the order
+      const paid = await checkStockAvailability(payload, testProduct.id, 50)
+      expect(paid.reservedQuantity).toBe(60)
+      expect(paid.isAvailable).toBe(false)
+
+      await payload.update({
+        collection: 'orders',
+        id: order.id,
+        data: { status: 'processing' },
+        user: testAdmin,
+      })
+
+      const processing = await checkStockAvailability(payload, testProduct.id, 40)
+      expect(processing.quantity).toBe(40)
+      expect(processing.reservedQuantity).toBe(0)
+      expect(processing.isAvailable).toBe(true)
+    })
+
+    it('should hold orders whose lines do not match the paid amount', async () => {
+      const req = await createLocalReq({}, payload)
+      const transaction = await payload.create({
+        collection: 'transactions',
+        data: {
+          amount: 999 * 2 + 500,
+          status: 'settlement',
+          paymentMethod: 'midtrans',
+          payment_reference: `TXN-mismatch-${Date.now()}`,
+          items: [{ product: testProduct.id, quantity: 2, price: 999 }],
+        },
+      })
+
+      const { order } = await findOrCreateOrderForTransaction({ req, transaction })
+      expect(order.totalAmount).toBe(999 * 2)
+      expect(order.paid_amount).toBe(999 * 2 + 500)
+      expect(order.has_payment_mismatch).toBe(true)
+
+      await expect(
+        payload.update({
+          collection: 'orders',
+          id: order.id,
+          data: { status: 'processing' },
+          user: testAdmin,
+        })
+      ).rejects.toThrow('payment mismatch')
+
+      // Once an admin reconciles the payment the order proceeds
+      await payload.update({
+        collection: 'orders',
+        id: order.id,
+        data: { has_payment_mismatch: false },
+        user: testAdmin,
+      })
+      const processing = await payload.update({
+        collection: 'orders',
+        id: order.id,
+        data: { status: 'processing' },
+        user: testAdmin,
+      })
+      expect(processing.status).toBe('processing')
+    })
+
+    it('should create one order for concurrent confirmations without aborting either', async () => {
+      const transaction = await payload.create({
+        collection: 'transactions',
+        data: {
+          amount: 999,
+          status: 'settlement',
+          paymentMethod: 'midtrans',
+          payment_reference: `TXN-concurrent-${Date.now()}`,
+          items: [{ product: testProduct.id, quantity: 1, price: 999 }],
+        },
+      })
+
+      const confirm = async () => {
+        const req = await createLocalReq({}, payload)
+        return findOrCreateOrderForTransaction({ req, transaction })
+      }
+      const [first, second] = await Promise.all([confirm(), confirm()])
+
+      expect(first.order.id).toBe(second.order.id)
+      expect([first.created, second.created].filter(Boolean)).toHaveLength(1)
+
+      const orders = await payload.find({
+        collection: 'orders',
+        where: { payment_reference: { equals: transaction.payment_reference } },
+      })
+      expect(orders.totalDocs).toBe(1)
+    })
+
+    it('should not let customers rewrite the prices of their orders', async () => {
+      const testOrder = await payload.create({
+        collection: 'orders',
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{ product: testProduct.id, quantity: 2, price: 999 }],
+          totalAmount: 1998,
+          status: 'paid',
+        },
+      })
+
+      const tampered = await payload.update({
+        collection: 'orders',
+        id: testOrder.id,
+        data: {
+          items: [{ product: testProduct.id, quantity: 2, price: 1 }],
+          totalAmount: 2,
+          shipping_phone: '081234567890',
+        },
+        user: testUser,
+        overrideAccess: false,
+      })
+      expect(tampered.totalAmount).toBe(1998)
+      expect(tampered.items[0].price).toBe(999)
+      // Other fields stay editable
+      expect(tampered.shipping_phone).toBe('081234567890')
+    })
+  })
+
+  describe('Order Status State Machine', () => {
+    it('should reject illegal transitions and move stock exactly once', async () => {
+      const testOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{
+            product: testProduct.id,
+            quantity: 3,
+            price: 999,
+          }],
+          totalAmount: 2997,
+          status: 'pending',
+        },
+      })
+
+      await expect(
+        payload.update({
+          collection: 'orders',
+          id: testOrder.id,
+          data: { status: 'shipped' },
+        })
+      ).rejects.toThrow()
+
+      await payload.update({ collection: 'orders', id: testOrder.id, data: { status: 'paid' } })
+      const processing = await payload.update({
+        collection: 'orders',
+        id: testOrder.id,
+        data: { status: 'processing' },
+      })
+      expect(processing.stock_deducted).toBe(true)
+
+      let inventory = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+      expect(inventory.quantity).toBe(97)
+
+      const cancelled = await payload.update({
+        collection: 'orders',
+        id: testOrder.id,
+        data: { status: 'cancelled' },
+      })
+      expect(cancelled.stock_deducted).toBe(false)
+
+      inventory = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+      expect(inventory.quantity).toBe(100)
+    })
+
+    it('should restore stock when a processing order is refunded', async () => {
+      const testOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{
+            product: testProduct.id,
+            quantity: 4,
+            price: 999,
+          }],
+          totalAmount: 3996,
+          status: 'paid',
+        },
+      })
+
+      await payload.update({ collection: 'orders', id: testOrder.id, data: { status: 'processing' } })
+
+      const refunded = await payload.update({
+        collection: 'orders',
+        id: testOrder.id,
+        data: { status: 'refunded' },
+        context: { cancellationReason: 'Order refund: customer request' },
+      })
+      expect(refunded.stock_deducted).toBe(false)
+
+      const inventory = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+      expect(inventory.quantity).toBe(100)
+    })
+  })
+
+  describe('Prescription Verification', () => {
+    it('should hold prescription orders for pharmacist review', async () => {
+      await payload.update({
+        collection: 'products',
+        id: testProduct.id,
+        data: { requires_prescription: true, bpom_registration_number: 'DKL1234567890A1' },
+      })
+
+      const testOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{
+            product: testProduct.id,
+            quantity: 1,
+            price: 999,
+          }],
+          totalAmount: 999,
+          status: 'paid',
+        },
+      })
+
+      expect(testOrder.prescription_required).toBe(true)
+      expect(testOrder.prescription_status).toBe('pending_review')
+      expect(testOrder.status).toBe('prescription_review')
+
+      // Customers cannot clear the flag to skip the review
+      const tampered = await payload.update({
+        collection: 'orders',
+        id: testOrder.id,
+        data: { prescription_required: false },
+        user: testUser,
+        overrideAccess: false,
+      })
+      expect(tampered.prescription_required).toBe(true)
+      expect(tampered.status).toBe('prescription_review')
+
+      // Cannot approve without an uploaded prescription
+      await expect(
+        payload.update({
+          collection: 'orders',
+          id: testOrder.id,
+          data: { prescription_status: 'approved' },
+          user: testAdmin,
+        })
+      ).rejects.toThrow()
+
+      // Rejection cancels the order
+      const rejected = await payload.update({
+        collection: 'orders',
+        id: testOrder.id,
+        data: {
+          prescription_status: 'rejected',
+          prescription_rejection_reason: 'Prescription is illegible',
+        },
+        user: testAdmin,
+      })
+      expect(rejected.status).toBe('cancelled')
+    })
+  })
+
+  describe('Product Validation', () => {
+    it('should enforce pharmaceutical attribute rules', async () => {
+      const updated = await payload.update({
+        collection: 'products',
+        id: testProduct.id,
+        data: {
+          generic_name: '  paracetamol ',
+          strength: '500mg',
+          dosage_form: 'tablet',
+          drug_class: 'obat_bebas',
+          bpom_registration_number: 'GBL1234567890A1',
+        },
+      })
+      expect(updated.generic_name).toBe('Paracetamol')
+
+      // Non-standard strength notation
+      await expect(
+        payload.update({
+          collection: 'products',
+          id: testProduct.id,
+          data: { strength: 'five hundred' },
+        })
+      ).rejects.toThrow()
+
+      // Obat keras must be prescription only
+      await expect(
+        payload.update({
+          collection: 'products',
+          id: testProduct.id,
+          data: { drug_class: 'obat_keras', requires_prescription: false },
+        })
+      ).rejects.toThrow()
+    })
+
+    it('should block publishing medicines without a valid BPOM registration', async () => {
+      const draft = await payload.create({
+        collection: 'products',
+        data: {
+          title: 'Unregistered Medicine',
+          slug: `unregistered-medicine-${Date.now()}`,
+          price: 5000,
+          category: testProduct.category,
+          generic_name: 'Ibuprofen',
+          dosage_form: 'tablet',
+          is_published: false,
+        },
+      })
+
+      await expect(
+        payload.update({
+          collection: 'products',
+          id: draft.id,
+          data: { is_published: true, bpom_registration_number: 'ABC123' },
+        })
+      ).rejects.toThrow()
+
+      const published = await payload.update({
+        collection: 'products',
+        id: draft.id,
+        data: { is_published: true, bpom_registration_number: 'POM DBL 1234567890 A1' },
+      })
+      expect(published.bpom_registration_number).toBe('DBL1234567890A1')
+      expect(published.bpom_category).toBe('branded_drug')
+      expect(published.bpom_origin).toBe('local')
+    })
+  })
+
+  describe('Purchase Limits', () => {
+    it('should enforce purchase limits unless an admin overrides them', async () => {
+      await payload.update({
+        collection: 'products',
+        id: testProduct.id,
+        data: { max_quantity_per_order: 2 },
+      })
+
+      await expect(
+        payload.create({
+          collection: 'cart-items',
+          data: { user: testUser.id, product: testProduct.id, quantity: 3 },
+        })
+      ).rejects.toThrow(/at most 2/)
+
+      const testOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{ product: testProduct.id, quantity: 3, price: 999 }],
+          totalAmount: 2997,
+          status: 'paid',
+        },
+      })
+
+      await expect(
+        payload.update({
+          collection: 'orders',
+          id: testOrder.id,
+          data: { status: 'processing' },
+          user: testAdmin,
+        })
+      ).rejects.toThrow(/at most 2/)
+
+      // Overriding requires a reason
       await expect(
         payload.update({
-          collection: 'inventory',
-          id: testInventory.id,
-          data: { quantity: -5 },
+          collection: 'orders',
+          id: testOrder.id,
+          data: { purchase_limit_override: true },
           user: testAdmin,
         })
       ).rejects.toThrow()
+
+      const processing = await payload.update({
+        collection: 'orders',
+        id: testOrder.id,
+        data: {
+          status: 'processing',
+          purchase_limit_override: true,
+          purchase_limit_override_reason: 'Doctor prescribed a longer course',
+        },
+        user: testAdmin,
+      })
+      expect(processing.status).toBe('processing')
+      expect(processing.purchase_limit_override_at).toBeTruthy()
     })
-  })
 
-  describe('Product-Inventory Consistency', () => {
-    it('should calculate correct available stock', async () => {
-      const result = await validateProductInventoryConsistency(payload, testProduct.id)
-      expect(result.valid).toBe(true)
-      expect(result.calculatedStock).toBe(100)
+    it('should count pack-size lines in base units against purchase limits', async () => {
+      await payload.update({
+        collection: 'products',
+        id: testProduct.id,
+        data: { max_quantity_per_order: 15 },
+      })
+      const box = await payload.create({
+        collection: 'variants',
+        data: {
+          title: 'Box of 10',
+          product: testProduct.id,
+          options: [],
+          price: 9000,
+          units_per_pack: 10,
+          _status: 'published',
+        },
+      })
+
+      // One box is 10 units: within the limit
+      const withinLimit = await checkPurchaseLimits(payload, {
+        items: [{ productId: testProduct.id, quantity: 1, unitsPerPack: 10 }],
+      })
+      expect(withinLimit).toHaveLength(0)
+
+      // Two boxes are 20 units, over the limit of 15
+      const [violation] = await checkPurchaseLimits(payload, {
+        items: [{ productId: testProduct.id, quantity: 2, unitsPerPack: 10 }],
+      })
+      expect(violation.requested).toBe(20)
+
+      await expect(
+        payload.create({
+          collection: 'cart-items',
+          data: { user: testUser.id, product: testProduct.id, variant: box.id, quantity: 2 },
+        })
+      ).rejects.toThrow(/at most 15/)
     })
   })
 
-  describe('Order Validation', () => {
-    it('should validate correct order data', async () => {
+  describe('Drug Interaction Checks', () => {
+    it('should flag interacting and duplicate ingredients on the order', async () => {
+      await payload.update({
+        collection: 'products',
+        id: testProduct.id,
+        data: { active_ingredients: [{ name: 'warfarin' }] },
+      })
+
+      const otherProduct = await payload.create({
+        collection: 'products',
+        data: {
+          title: 'Pain Relief Combo',
+          slug: `pain-relief-combo-${Date.now()}`,
+          price: 1500,
+          category: testProduct.category,
+          active_ingredients: [{ name: 'Aspirin' }, { name: 'Warfarin' }],
+          is_published: false,
+        },
+      })
+
+      await payload.create({
+        collection: 'drug-interactions',
+        data: {
+          ingredient_a: 'warfarin',
+          ingredient_b: 'aspirin',
+          severity: 'major',
+          description: 'Increased bleeding risk.',
+        },
+      })
+
       const testOrder = await payload.create({
         collection: 'orders',
         user: testAdmin,
@@ -153,19 +845,20 @@ describe('Data Integrity Integration Tests', () => {
           shipping_name: 'Test',
           shipping_address: 'Test Addr',
           shipping_phone: '000',
-          items: [{
-            product: testProduct.id,
-            quantity: 2,
-            price: 999,
-          }],
-          totalAmount: 1998,
+          items: [
+            { product: testProduct.id, quantity: 1, price: 999 },
+            { product: otherProduct.id, quantity: 1, price: 1500 },
+          ],
+          totalAmount: 2499,
           status: 'pending',
         },
       })
 
-      const result = await validateOrderIntegrity(payload, testOrder.id)
-      expect(result.valid).toBe(true)
-      expect(result.errors).toHaveLength(0)
+      expect(testOrder.has_interaction_warnings).toBe(true)
+      const types = (testOrder.interaction_warnings || []).map((warning) => warning.type)
+      expect(types).toContain('interaction')
+      expect(types).toContain('duplicate_therapy')
+      expect(testOrder.interaction_warnings?.find((w) => w.type === 'interaction')?.severity).toBe('major')
     })
   })
 
@@ -206,7 +899,7 @@ describe('Data Integrity Integration Tests', () => {
 
       const result = await processOrderWithStockDeduction(
         payload,
-        { user: testAdmin, payload } as any,
+        adminReq,
         testOrder.id
       )
 
@@ -222,6 +915,122 @@ describe('Data Integrity Integration Tests', () => {
       expect(updatedInventory.quantity).toBe(90)
     })
 
+    it('should deduct pack-size variants in stock units', async () => {
+      const box = await payload.create({
+        collection: 'variants',
+        data: {
+          title: 'Box of 10',
+          product: testProduct.id,
+          options: [],
+          price: 9000,
+          units_per_pack: 10,
+          _status: 'published',
+        },
+      })
+
+      const testOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [
+            { product: testProduct.id, variant: box.id, quantity: 2, price: 9000 },
+            { product: testProduct.id, quantity: 3, price: 999 },
+          ],
+          totalAmount: 20997,
+          status: 'pending',
+        },
+      })
+      expect(testOrder.items[0].units_per_pack).toBe(10)
+
+      const result = await processOrderWithStockDeduction(
+        payload,
+        adminReq,
+        testOrder.id
+      )
+      expect(result.success).toBe(true)
+
+      const updatedInventory = await payload.findByID({
+        collection: 'inventory',
+        id: testInventory.id,
+      })
+      expect(updatedInventory.quantity).toBe(77)
+    })
+
+    it('should reconcile receipts and sales in different units of measure', async () => {
+      await payload.update({
+        collection: 'products',
+        id: testProduct.id,
+        data: {
+          unit_conversions: [
+            { unit: 'strip', factor: 10 },
+            { unit: 'box', factor: 100 },
+          ],
+        },
+      })
+
+      const batch = await payload.create({
+        collection: 'inventory-batches',
+        data: {
+          product: testProduct.id,
+          batch_number: `UOM-${Date.now()}`,
+          expiry_date: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+          quantity: 0,
+          received_quantity: 5,
+          received_unit: 'box',
+        },
+      })
+      expect(batch.quantity).toBe(500)
+
+      const strip = await payload.create({
+        collection: 'variants',
+        data: {
+          title: 'Strip',
+          product: testProduct.id,
+          options: [],
+          price: 9000,
+          unit: 'strip',
+          units_per_pack: 1,
+          _status: 'published',
+        },
+      })
+      expect(strip.units_per_pack).toBe(10)
+
+      const testOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{ product: testProduct.id, variant: strip.id, quantity: 3, price: 9000 }],
+          totalAmount: 27000,
+          status: 'pending',
+        },
+      })
+
+      const result = await processOrderWithStockDeduction(
+        payload,
+        adminReq,
+        testOrder.id
+      )
+      expect(result.success).toBe(true)
+
+      const updatedInventory = await payload.findByID({
+        collection: 'inventory',
+        id: testInventory.id,
+      })
+      expect(updatedInventory.quantity).toBe(570) // 100 + 5 box − 3 strip
+
+      const stock = await checkStockAvailability(payload, testProduct.id, 6, 'box')
+      expect(stock.requestedBaseQuantity).toBe(600)
+      expect(stock.isAvailable).toBe(false)
+    })
+
     it('should cancel order and restore stock atomically', async () => {
       // First create and process an order
       const testOrder = await payload.create({
@@ -245,7 +1054,7 @@ describe('Data Integrity Integration Tests', () => {
       // Process the order to deduct stock
       await processOrderWithStockDeduction(
         payload,
-        { user: testAdmin, payload } as any,
+        adminReq,
         testOrder.id
       )
 
@@ -259,7 +1068,7 @@ describe('Data Integrity Integration Tests', () => {
       // Cancel the order
       const result = await cancelOrderWithStockRestoration(
         payload,
-        { user: testAdmin, payload } as any,
+        adminReq,
         testOrder.id
       )
 
@@ -275,10 +1084,127 @@ describe('Data Integrity Integration Tests', () => {
       expect(inventory.quantity).toBe(100) // Back to original
     })
 
-    it('should adjust inventory with audit log (to logger)', async () => {
+    it('should consume batches first-expiry-first-out', async () => {
+      const now = Date.now()
+      const laterBatch = await payload.create({
+        collection: 'inventory-batches',
+        user: testAdmin,
+        data: {
+          product: testProduct.id,
+          batch_number: `LATE-${now}`,
+          expiry_date: new Date(now + 365 * 24 * 60 * 60 * 1000).toISOString(),
+          quantity: 10,
+        },
+      })
+      const earlierBatch = await payload.create({
+        collection: 'inventory-batches',
+        user: testAdmin,
+        data: {
+          product: testProduct.id,
+          batch_number: `EARLY-${now}`,
+          expiry_date: new Date(now + 30 * 24 * 60 * 60 * 1000).toISOString(),
+          quantity: 5,
+        },
+      })
+
+      const testOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{
+            product: testProduct.id,
+            quantity: 8,
+            price: 999,
+          }],
+          totalAmount: 7992,
+          status: 'pending',
+        },
+      })
+
+      const result = await processOrderWithStockDeduction(payload, adminReq, testOrder.id)
+      expect(result.success).toBe(true)
+      // Movement metadata stays with the operation it describes
+      expect(adminReq.context?.inventoryMovement).toBeUndefined()
+
+      const early = await payload.findByID({ collection: 'inventory-batches', id: earlierBatch.id })
+      const late = await payload.findByID({ collection: 'inventory-batches', id: laterBatch.id })
+      expect(early.quantity).toBe(0)
+      expect(late.quantity).toBe(7)
+
+      const inventory = await payload.findByID({
+        collection: 'inventory',
+        id: testInventory.id,
+      })
+      expect(inventory.quantity).toBe(107) // 100 + 15 received - 8 sold
+
+      // Cancelling returns each unit to the batch it came from
+      const cancelled = await cancelOrderWithStockRestoration(payload, adminReq, testOrder.id)
+      expect(cancelled.success).toBe(true)
+      expect(cancelled.movements?.[0].batch_allocations).toEqual([
+        expect.objectContaining({ batchId: laterBatch.id, quantity: 3 }),
+        expect.objectContaining({ batchId: earlierBatch.id, quantity: 5 }),
+      ])
+      expect((await payload.findByID({ collection: 'inventory-batches', id: earlierBatch.id })).quantity).toBe(5)
+      expect((await payload.findByID({ collection: 'inventory-batches', id: laterBatch.id })).quantity).toBe(10)
+    })
+
+    it('should never sell units from expired batches', async () => {
+      const now = Date.now()
+      const expiredBatch = await payload.create({
+        collection: 'inventory-batches',
+        user: testAdmin,
+        data: {
+          product: testProduct.id,
+          batch_number: `EXPIRED-${now}`,
+          expiry_date: new Date(now - 24 * 60 * 60 * 1000).toISOString(),
+          quantity: 20,
+        },
+      })
+
+      // 120 on hand, of which 20 expired
+      const availability = await checkStockAvailability(payload, testProduct.id, 110)
+      expect(availability.quantity).toBe(120)
+      expect(availability.expiredQuantity).toBe(20)
+      expect(availability.availableQuantity).toBe(100)
+      expect(availability.isAvailable).toBe(false)
+
+      const createOrder = (quantity: number) =>
+        payload.create({
+          collection: 'orders',
+          user: testAdmin,
+          data: {
+            orderedBy: testUser.id,
+            shipping_name: 'Test',
+            shipping_address: 'Test Addr',
+            shipping_phone: '000',
+            items: [{ product: testProduct.id, quantity, price: 999 }],
+            totalAmount: 999 * quantity,
+            status: 'pending',
+          },
+        })
+
+      const tooLarge = await createOrder(110)
+      const rejected = await processOrderWithStockDeduction(payload, adminReq, tooLarge.id)
+      expect(rejected.success).toBe(false)
+      expect(rejected.error).toContain('Insufficient stock')
+
+      // The unbatched units can still be sold
+      const fillable = await createOrder(100)
+      expect((await processOrderWithStockDeduction(payload, adminReq, fillable.id)).success).toBe(true)
+
+      const inventory = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+      expect(inventory.quantity).toBe(20)
+      expect((await payload.findByID({ collection: 'inventory-batches', id: expiredBatch.id })).quantity).toBe(20)
+    })
+
+    it('should adjust inventory and record a ledger movement', async () => {
       const result = await adjustInventoryWithAudit(
         payload,
-        { user: testAdmin, payload } as any,
+        adminReq,
         testInventory.id,
         -5,
         {
@@ -289,12 +1215,17 @@ describe('Data Integrity Integration Tests', () => {
 
       expect(result.success).toBe(true)
       expect(result.inventory?.quantity).toBe(95)
+      expect(result.movement?.type).toBe('adjustment')
+      expect(result.movement?.quantity_change).toBe(-5)
+      expect(result.movement?.quantity_before).toBe(100)
+      expect(result.movement?.quantity_after).toBe(95)
     })
 
     it('should prevent non-admin from adjusting inventory', async () => {
+      // Customers sign in through Supabase, so their requests carry no Payload user
       const result = await adjustInventoryWithAudit(
         payload,
-        { user: testUser, payload } as any,
+        await createLocalReq({}, payload),
         testInventory.id,
         10,
         {
@@ -305,6 +1236,269 @@ describe('Data Integrity Integration Tests', () => {
       expect(result.success).toBe(false)
       expect(result.error).toContain('Only administrators can adjust inventory')
     })
+
+    it('should backfill opening balances for stock that predates the ledger', async () => {
+      // Simulate a record created before the ledger existed
+      await payload.delete({
+        collection: 'inventory-movements',
+        where: { inventory: { equals: testInventory.id } },
+      })
+      expect((await validateInventoryLedgerBalance(payload, testInventory.id)).valid).toBe(false)
+
+      const backfilled = await backfillOpeningBalances(payload)
+      expect(backfilled).toContainEqual({ inventoryId: testInventory.id, openingBalance: 100 })
+      expect((await validateInventoryLedgerBalance(payload, testInventory.id)).valid).toBe(true)
+
+      // Re-running leaves balanced records alone
+      const rerun = await backfillOpeningBalances(payload)
+      expect(rerun.map((entry) => entry.inventoryId)).not.toContain(testInventory.id)
+    })
+  })
+
+  describe('Purchase Orders', () => {
+    it('should draft purchase orders and receive goods into inventory', async () => {
+      const supplier = await payload.create({
+        collection: 'suppliers',
+        data: { name: 'Test Supplier', code: `SUP-${Date.now()}` },
+      })
+
+      await payload.update({
+        collection: 'products',
+        id: testProduct.id,
+        data: {
+          default_supplier: supplier.id,
+          unit_conversions: [{ unit: 'box', factor: 100 }],
+        },
+      })
+      await payload.update({
+        collection: 'inventory',
+        id: testInventory.id,
+        data: { quantity: 5 },
+      })
+
+      const generated = await generateDraftPurchaseOrders(payload, { supplierId: supplier.id, req: adminReq })
+      const draftLine = generated.purchaseOrders
+        .flatMap((order) => order.items || [])
+        .find((item) => (typeof item.product === 'object' ? item.product.id : item.product) === testProduct.id)
+      expect(draftLine?.unit).toBe('box')
+      expect(draftLine?.quantity).toBe(1)
+
+      const purchaseOrder = await payload.create({
+        collection: 'purchase-orders',
+        data: {
+          supplier: supplier.id,
+          items: [{ product: testProduct.id, quantity: 3, unit: 'box', unit_cost: 50000 }],
+        },
+      })
+      expect(purchaseOrder.status).toBe('draft')
+      expect(purchaseOrder.total_amount).toBe(150000)
+
+      const itemId = purchaseOrder.items![0].id!
+      await expect(
+        receivePurchaseOrder(payload, adminReq, purchaseOrder.id, [{ itemId, quantity: 1 }])
+      ).rejects.toThrow('sent purchase order')
+
+      await payload.update({ collection: 'purchase-orders', id: purchaseOrder.id, data: { status: 'sent' } })
+
+      const firstReceipt = await receivePurchaseOrder(payload, adminReq, purchaseOrder.id, [
+        {
+          itemId,
+          quantity: 2,
+          batchNumber: `PO-BATCH-${Date.now()}`,
+          expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString(),
+        },
+      ])
+      expect(firstReceipt.purchaseOrder.status).toBe('partially_received')
+      expect(firstReceipt.receipts[0].baseQuantity).toBe(200)
+      expect(firstReceipt.receipts[0].baseUnitCost).toBe(500)
+
+      const batch = await payload.findByID({ collection: 'inventory-batches', id: firstReceipt.receipts[0].batchId! })
+      expect(batch.unit_cost).toBe(500)
+
+      await expect(
+        receivePurchaseOrder(payload, adminReq, purchaseOrder.id, [{ itemId, quantity: 2 }])
+      ).rejects.toThrow('1 outstanding')
+
+      const finalReceipt = await receivePurchaseOrder(payload, adminReq, purchaseOrder.id, [{ itemId, quantity: 1 }])
+      expect(finalReceipt.purchaseOrder.status).toBe('received')
+
+      const inventory = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+      expect(inventory.quantity).toBe(305) // 5 + 3 box
+
+      const product = await payload.findByID({ collection: 'products', id: testProduct.id })
+      expect(product.cost_price).toBe(500)
+    })
+  })
+
+  describe('Outlets', () => {
+    it('should keep stock per outlet and route orders to the nearest outlet with stock', async () => {
+      const suffix = Date.now()
+      const bandung = await payload.create({
+        collection: 'outlets',
+        data: {
+          name: 'Bandung Dago',
+          code: `BDG-${suffix}`,
+          city: 'Bandung',
+          postal_code: '40135',
+          service_areas: [{ postal_code_prefix: '401' }],
+        },
+      })
+      const jakarta = await payload.create({
+        collection: 'outlets',
+        data: {
+          name: 'Jakarta Selatan',
+          code: `JKT-${suffix}`,
+          city: 'Jakarta Selatan',
+          postal_code: '12190',
+          service_areas: [{ postal_code_prefix: '121' }],
+        },
+      })
+
+      const bandungStock = await payload.create({
+        collection: 'inventory',
+        data: { product: testProduct.id, outlet: bandung.id, quantity: 3 },
+      })
+      await payload.create({
+        collection: 'inventory',
+        data: { product: testProduct.id, outlet: jakarta.id, quantity: 20 },
+      })
+      await expect(
+        payload.create({
+          collection: 'inventory',
+          data: { product: testProduct.id, outlet: bandung.id, quantity: 1 },
+        })
+      ).rejects.toThrow('already has an inventory record at this outlet')
+
+      const atBandung = await checkStockAvailability(payload, testProduct.id, 5, undefined, { outletId: bandung.id })
+      expect(atBandung.isAvailable).toBe(false)
+      expect(atBandung.quantity).toBe(3)
+
+      const chainWide = await checkStockAvailability(payload, testProduct.id, 5)
+      expect(chainWide.isAvailable).toBe(true)
+      expect(chainWide.quantity).toBe(123)
+      expect(chainWide.outlets).toHaveLength(3)
+
+      const ranked = rankOutletsForAddress([jakarta, bandung], { city: 'Kota Bandung', postalCode: '40115' })
+      expect(ranked.map((entry) => entry.outlet.id)).toEqual([bandung.id, jakarta.id])
+
+      const bandungAddress = await payload.create({
+        collection: 'addresses',
+        data: {
+          user: testUser.id,
+          recipient_name: 'Test User',
+          address_line: 'Jl. Dago 1',
+          city: 'Bandung',
+          postal_code: '40115',
+        },
+      })
+      const orderData = {
+        orderedBy: testUser.id,
+        address: bandungAddress.id,
+        shipping_name: 'Test',
+        shipping_address: 'Jl. Dago 1, Bandung',
+        shipping_phone: '000',
+        totalAmount: 0,
+        status: 'pending' as const,
+      }
+
+      const nearOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: { ...orderData, items: [{ product: testProduct.id, quantity: 3, price: 999 }] },
+      })
+      expect(nearOrder.outlet).toBe(bandung.id)
+
+      // Bandung cannot fulfil 5, so the next nearest outlet with stock takes it
+      const largeOrder = await payload.create({
+        collection: 'orders',
+        user: testAdmin,
+        data: { ...orderData, items: [{ product: testProduct.id, quantity: 5, price: 999 }] },
+      })
+      expect(largeOrder.outlet).toBe(jakarta.id)
+
+      const result = await processOrderWithStockDeduction(payload, adminReq, nearOrder.id)
+      expect(result.success).toBe(true)
+      expect(result.stockDeductions![0].inventoryId).toBe(bandungStock.id)
+
+      const bandungAfter = await payload.findByID({ collection: 'inventory', id: bandungStock.id })
+      expect(bandungAfter.quantity).toBe(0)
+      const unassignedAfter = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+      expect(unassignedAfter.quantity).toBe(100)
+
+      await expect(
+        payload.update({ collection: 'orders', id: nearOrder.id, data: { outlet: jakarta.id } })
+      ).rejects.toThrow('cannot change while stock is held')
+
+      // Keep later tests' orders from routing to these outlets
+      for (const outlet of [bandung, jakarta]) {
+        await payload.update({ collection: 'outlets', id: outlet.id, data: { is_active: false } })
+      }
+    })
+  })
+
+  describe('Demand Forecast', () => {
+    it('should weight lead time demand by weekday seasonality', () => {
+      // Four weeks selling 2 a day on weekdays and 9 on Saturdays, ending on a Sunday
+      const asOf = new Date('2026-03-02T00:00:00Z') // Monday
+      const sales = Array.from({ length: 28 }, (_, day) => (day % 7 === 5 ? 9 : 2))
+
+      const forecast = forecastReorderPoint(sales, { asOf, leadTimeDays: 7 })
+      expect(forecast.averageDailyDemand).toBe(3)
+      expect(forecast.weekdayFactors[6]).toBe(3)
+      expect(forecast.leadTimeDemand).toBe(21)
+      expect(forecast.reorderPoint).toBe(21 + forecast.safetyStock)
+
+      // A lead time ending before Saturday expects weekday demand only
+      const shortLead = forecastReorderPoint(sales, { asOf, leadTimeDays: 3 })
+      expect(shortLead.leadTimeDemand).toBe(6)
+    })
+
+    it('should replace the static threshold with a reorder point from sales', async () => {
+      await payload.create({
+        collection: 'orders',
+        data: {
+          orderedBy: testUser.id,
+          shipping_name: 'Test',
+          shipping_address: 'Test Addr',
+          shipping_phone: '000',
+          items: [{ product: testProduct.id, quantity: 28, price: 999 }],
+          totalAmount: 28 * 999,
+          payment_reference: `TXN-forecast-${Date.now()}`,
+          status: 'paid',
+        },
+      })
+
+      // Forecast as of tomorrow so today's order is in the history
+      const result = await refreshReorderPoints(payload, {
+        asOf: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        productIds: [testProduct.id],
+      })
+      expect(result.forecasted).toBe(1)
+
+      const forecasted = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+      expect(forecasted.average_daily_demand).toBe(1)
+      expect(forecasted.lead_time_days).toBe(7)
+      expect(forecasted.reorder_point).toBe(24)
+
+      // 20 units is above the static threshold of 10 but below the reorder point
+      await adjustInventoryWithAudit(payload, adminReq, testInventory.id, -80, { reason: 'Forecast test' })
+      const low: Inventory & { stock_info?: InventoryStockInfo } = await payload.findByID({
+        collection: 'inventory',
+        id: testInventory.id,
+      })
+      expect(low.stock_info?.needs_reorder).toBe(true)
+      expect(low.stock_info?.low_stock_threshold).toBe(24)
+
+      // Availability and low stock reports use the same reorder point
+      const availability = await checkStockAvailability(payload, testProduct.id, 1)
+      expect(availability.lowStockThreshold).toBe(24)
+      expect(availability.isLowStock).toBe(true)
+
+      const lowStock = await getLowStockProducts(payload)
+      const entry = lowStock.find((item) => item.productId === testProduct.id)
+      expect(entry?.lowStockThreshold).toBe(24)
+      expect(entry?.deficit).toBe(4)
+    })
   })
 
   describe('Comprehensive Data Integrity Check', () => {
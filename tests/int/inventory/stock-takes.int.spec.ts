@@ -0,0 +1,81 @@
+/**
+ * Stock Take Integration Tests
+ *
+ * Counts entered against a shelf, approved into inventory through the
+ * audit trail.
+ */
+
+import type { Inventory, Product } from '@/payload-types'
+import { getLatestInventoryMovement } from '@/utilities/inventoryMovements'
+import { approveStockTake, parseStockTakeCsv, recordStockTakeCounts } from '@/utilities/stockTakes'
+import config from '@payload-config'
+import type { Payload, PayloadRequest } from 'payload'
+import { getPayload } from 'payload'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { TestFixtures } from '../../helpers/fixtures'
+import { createTestFixtures, deleteTestFixtureUsers } from '../../helpers/fixtures'
+
+describe('Stock Takes', () => {
+  let payload: Payload
+  let fixtures: TestFixtures
+  let adminReq: PayloadRequest
+  let testProduct: Product
+  let testInventory: Inventory
+
+  beforeAll(async () => {
+    payload = await getPayload({ config })
+  })
+
+  afterAll(async () => {
+    await deleteTestFixtureUsers(payload, fixtures)
+  })
+
+  beforeEach(async () => {
+    fixtures = await createTestFixtures(payload)
+    ;({ adminReq, product: testProduct, inventory: testInventory } = fixtures)
+  })
+
+  it('should apply approved count variances through the audit trail', async () => {
+    const shelf = `T-${Date.now()}`
+    await payload.update({
+      collection: 'inventory',
+      id: testInventory.id,
+      data: { shelf_location: shelf },
+    })
+
+    const stockTake = await payload.create({
+      collection: 'stock-takes',
+      data: { shelf_location: shelf },
+    })
+    expect(stockTake.status).toBe('open')
+    expect(stockTake.lines).toHaveLength(1)
+    expect(stockTake.lines![0].expected_quantity).toBe(100)
+
+    const counted = await recordStockTakeCounts(
+      payload,
+      adminReq,
+      stockTake.id,
+      parseStockTakeCsv(`product,counted_quantity,notes\n${testProduct.slug},96,"Damaged, discarded"`)
+    )
+    expect(counted.lines![0].variance).toBe(-4)
+
+    await expect(approveStockTake(payload, adminReq, stockTake.id)).rejects.toThrow('Only submitted')
+    await expect(
+      payload.update({ collection: 'stock-takes', id: stockTake.id, data: { status: 'approved' } })
+    ).rejects.toThrow()
+
+    await payload.update({ collection: 'stock-takes', id: stockTake.id, data: { status: 'submitted' } })
+
+    const { stockTake: approved, report } = await approveStockTake(payload, adminReq, stockTake.id)
+    expect(approved.status).toBe('approved')
+    expect(report.summary.shortageUnits).toBe(4)
+    expect(report.lines[0].notes).toBe('Damaged, discarded')
+
+    const inventory = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+    expect(inventory.quantity).toBe(96)
+
+    const movement = await getLatestInventoryMovement(payload, testInventory.id)
+    expect(movement?.type).toBe('adjustment')
+    expect(movement?.reason).toBe(`Stock take ${stockTake.reference}`)
+  })
+})
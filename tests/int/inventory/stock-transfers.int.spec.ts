@@ -0,0 +1,123 @@
+/**
+ * Stock Transfer Integration Tests
+ *
+ * Suggested, dispatched and received transfers between outlets, with the
+ * ledger movements on both sides.
+ */
+
+import type { Admin, Product } from '@/payload-types'
+import { generateInventoryMovementsReport } from '@/utilities/reportingUtilities'
+import { dispatchStockTransfer, receiveStockTransfer, suggestStockTransfers } from '@/utilities/stockTransfers'
+import config from '@payload-config'
+import type { Payload, PayloadRequest } from 'payload'
+import { getPayload } from 'payload'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { TestFixtures } from '../../helpers/fixtures'
+import { createTestFixtures, deleteTestFixtureUsers } from '../../helpers/fixtures'
+
+describe('Stock Transfers', () => {
+  let payload: Payload
+  let fixtures: TestFixtures
+  let testAdmin: Admin
+  let adminReq: PayloadRequest
+  let testProduct: Product
+
+  beforeAll(async () => {
+    payload = await getPayload({ config })
+  })
+
+  afterAll(async () => {
+    await deleteTestFixtureUsers(payload, fixtures)
+  })
+
+  beforeEach(async () => {
+    fixtures = await createTestFixtures(payload)
+    ;({ admin: testAdmin, adminReq, product: testProduct } = fixtures)
+  })
+
+  it('should move stock between outlets and record discrepancies on receipt', async () => {
+    const suffix = Date.now()
+    const surabaya = await payload.create({
+      collection: 'outlets',
+      data: { name: 'Surabaya Darmo', code: `SBY-${suffix}`, city: 'Surabaya' },
+    })
+    const malang = await payload.create({
+      collection: 'outlets',
+      data: { name: 'Malang Ijen', code: `MLG-${suffix}`, city: 'Malang' },
+    })
+
+    const surabayaStock = await payload.create({
+      collection: 'inventory',
+      data: { product: testProduct.id, outlet: surabaya.id, quantity: 40, low_stock_threshold: 5 },
+    })
+    const malangStock = await payload.create({
+      collection: 'inventory',
+      data: { product: testProduct.id, outlet: malang.id, quantity: 2, low_stock_threshold: 5 },
+    })
+
+    // Malang is low while Surabaya holds 30 above twice its threshold
+    const suggestions = await suggestStockTransfers(payload, { productIds: [testProduct.id] })
+    const suggestion = suggestions.find((entry) => entry.destinationOutletId === malang.id)
+    expect(suggestion).toMatchObject({ sourceOutletId: surabaya.id, quantity: 8, sourceSurplus: 30 })
+
+    await expect(
+      payload.create({
+        collection: 'stock-transfers',
+        data: {
+          source_outlet: surabaya.id,
+          destination_outlet: surabaya.id,
+          lines: [{ product: testProduct.id, quantity: 8 }],
+        },
+      })
+    ).rejects.toThrow('different outlets')
+
+    const transfer = await payload.create({
+      collection: 'stock-transfers',
+      user: testAdmin,
+      data: {
+        source_outlet: surabaya.id,
+        destination_outlet: malang.id,
+        lines: [{ product: testProduct.id, quantity: suggestion!.quantity }],
+      },
+    })
+    expect(transfer.status).toBe('requested')
+    expect(transfer.reference).toMatch(/^TR-\d{8}-/)
+
+    await expect(
+      payload.update({ collection: 'stock-transfers', id: transfer.id, data: { status: 'in_transit' } })
+    ).rejects.toThrow('dispatch action')
+
+    const dispatched = await dispatchStockTransfer(payload, adminReq, transfer.id)
+    expect(dispatched.status).toBe('in_transit')
+    const surabayaAfter = await payload.findByID({ collection: 'inventory', id: surabayaStock.id })
+    expect(surabayaAfter.quantity).toBe(32)
+
+    // Stock in transit is no longer suggested again
+    const pending = await suggestStockTransfers(payload, { productIds: [testProduct.id] })
+    expect(pending.find((entry) => entry.destinationOutletId === malang.id)).toBeUndefined()
+
+    const lineId = dispatched.lines![0].id!
+    await expect(
+      receiveStockTransfer(payload, adminReq, transfer.id, [{ lineId, receivedQuantity: 7 }])
+    ).rejects.toThrow('note is required')
+
+    const received = await receiveStockTransfer(payload, adminReq, transfer.id, [
+      { lineId, receivedQuantity: 7, notes: 'One strip damaged in transit' },
+    ])
+    expect(received.status).toBe('received')
+    expect(received.has_discrepancy).toBe(true)
+    expect(received.lines![0]).toMatchObject({ received_quantity: 7, discrepancy: -1 })
+
+    const malangAfter = await payload.findByID({ collection: 'inventory', id: malangStock.id })
+    expect(malangAfter.quantity).toBe(9)
+
+    const report = await generateInventoryMovementsReport(payload, { stockTransferId: transfer.id })
+    expect(report.movements.map((movement) => movement.type).sort()).toEqual(['transfer_in', 'transfer_out'])
+    expect(report.summary.totalQuantityOut).toBe(8)
+    expect(report.summary.totalQuantityIn).toBe(7)
+
+    for (const outlet of [surabaya, malang]) {
+      await payload.update({ collection: 'outlets', id: outlet.id, data: { is_active: false } })
+    }
+  })
+})
@@ -0,0 +1,366 @@
+/**
+ * Midtrans Payment Integration Tests
+ *
+ * Runs the adapter endpoints and the reconciliation job against a mocked
+ * Midtrans client, so webhooks, fraud reviews, refunds and reconciliation go through
+ * the real transaction, order and stock hooks.
+ */
+
+import type { MidtransClient } from '@/payments/midtrans'
+import { midtransAdapter, reconcileMidtransTransactions } from '@/payments/midtrans'
+import type { MidtransFraudStatus, MidtransNotification, MidtransTransactionStatus } from '@/payments/midtrans/types'
+import type { Admin, Inventory, Product, Transaction } from '@/payload-types'
+import { reserveStockForTransaction } from '@/utilities/stockReservations'
+import config from '@payload-config'
+import type { Endpoint, Payload, PayloadRequest } from 'payload'
+import { createLocalReq, getPayload } from 'payload'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { TestFixtures } from '../../helpers/fixtures'
+import { createTestFixtures, deleteTestFixtureUsers } from '../../helpers/fixtures'
+
+const midtrans = vi.hoisted(() => ({
+  handleNotification: vi.fn(async (body: unknown) => body),
+  verifySignature: vi.fn(() => true),
+  approveTransaction: vi.fn(),
+  denyTransaction: vi.fn(),
+  getTransactionStatus: vi.fn(),
+  expireTransaction: vi.fn(),
+  refundTransaction: vi.fn(),
+}))
+
+vi.mock('@/payments/midtrans/client', () => ({
+  createMidtransClient: () => midtrans,
+}))
+
+describe('Midtrans Payments', () => {
+  let payload: Payload
+  let fixtures: TestFixtures
+  let admin: Admin
+  let product: Product
+  let inventory: Inventory
+
+  const adapter = midtransAdapter({ serverKey: 'test-server-key', clientKey: 'test-client-key' })
+
+  const callEndpoint = async (path: string, body: Record<string, unknown>, user?: Admin) => {
+    const endpoint = adapter.endpoints?.find((candidate: Endpoint) => candidate.path === path)
+    if (!endpoint) throw new Error(`Midtrans endpoint ${path} not found`)
+
+    const req: PayloadRequest = await createLocalReq(
+      { user: user ? { ...user, collection: 'admins' } : undefined },
+      payload
+    )
+    req.json = async () => body
+
+    const response = await endpoint.handler(req)
+    return { status: response.status, body: await response.json() }
+  }
+
+  const notification = (
+    transaction: Transaction,
+    transactionStatus: MidtransTransactionStatus,
+    fraudStatus?: MidtransFraudStatus
+  ): MidtransNotification => ({
+    transaction_time: '2026-03-02 10:00:00',
+    transaction_status: transactionStatus,
+    transaction_id: `midtrans-${transaction.id}`,
+    status_message: 'Success',
+    status_code: '200',
+    signature_key: 'signature',
+    payment_type: 'credit_card',
+    order_id: transaction.midtrans_order_id!,
+    merchant_id: 'M000000',
+    gross_amount: `${transaction.amount}.00`,
+    fraud_status: fraudStatus,
+    currency: 'IDR',
+  })
+
+  const createReservedCheckout = async (quantity: number): Promise<Transaction> => {
+    const midtransOrderId = `TXN-test-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    const transaction = await payload.create({
+      collection: 'transactions',
+      data: {
+        amount: 999 * quantity,
+        status: 'pending',
+        paymentMethod: 'midtrans',
+        payment_reference: midtransOrderId,
+        midtrans_order_id: midtransOrderId,
+        items: [{ product: product.id, quantity, price: 999 }],
+      },
+    })
+    await reserveStockForTransaction({
+      req: await createLocalReq({}, payload),
+      transaction,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    })
+    return transaction
+  }
+
+  const findReservations = async (transactionId: string) =>
+    (await payload.find({
+      collection: 'stock-reservations',
+      where: { transaction: { equals: transactionId } },
+      depth: 0,
+    })).docs
+
+  beforeAll(async () => {
+    payload = await getPayload({ config })
+  })
+
+  beforeEach(async () => {
+    midtrans.approveTransaction.mockReset()
+    midtrans.denyTransaction.mockReset()
+    midtrans.getTransactionStatus.mockReset()
+    midtrans.expireTransaction.mockReset()
+    midtrans.refundTransaction.mockReset()
+
+    fixtures = await createTestFixtures(payload)
+    ;({ admin, product, inventory } = fixtures)
+  })
+
+  afterAll(async () => {
+    await deleteTestFixtureUsers(payload, fixtures)
+  })
+
+  describe('Fraud review', () => {
+    it('should hold the stock of a challenged capture without creating an order', async () => {
+      const transaction = await createReservedCheckout(5)
+
+      const webhook = await callEndpoint('/webhook', { ...notification(transaction, 'capture', 'challenge') })
+      expect(webhook.status).toBe(200)
+      expect(webhook.body.status).toBe('challenge')
+      expect(webhook.body.orderId).toBeNull()
+
+      // The hold outlasts the payment window while the payment is reviewed
+      const [reservation] = await findReservations(transaction.id)
+      expect(reservation.status).toBe('active')
+      expect(new Date(reservation.expires_at).getTime()).toBeGreaterThan(Date.now() + 24 * 60 * 60 * 1000)
+
+      const orders = await payload.find({
+        collection: 'orders',
+        where: { payment_reference: { equals: transaction.payment_reference } },
+      })
+      expect(orders.totalDocs).toBe(0)
+    })
+
+    it('should create the order when an admin approves a challenged capture', async () => {
+      const transaction = await createReservedCheckout(5)
+      await callEndpoint('/webhook', { ...notification(transaction, 'capture', 'challenge') })
+      midtrans.approveTransaction.mockResolvedValue(notification(transaction, 'capture', 'accept'))
+
+      const review = await callEndpoint(
+        '/fraud-review',
+        { transactionId: transaction.id, action: 'approve', note: 'Verified with the cardholder' },
+        admin
+      )
+      expect(review.status).toBe(200)
+      expect(review.body.data.status).toBe('capture')
+      expect(review.body.data.fraudStatus).toBe('accept')
+      expect(midtrans.approveTransaction).toHaveBeenCalledWith(transaction.midtrans_order_id)
+
+      const reviewed = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(reviewed.fraud_reviewed_by).toBe(admin.id)
+      expect(reviewed.fraud_review_note).toBe('Verified with the cardholder')
+
+      const order = await payload.findByID({ collection: 'orders', id: review.body.data.orderId, depth: 0 })
+      expect(order.status).toBe('paid')
+      expect(order.payment_reference).toBe(transaction.payment_reference)
+
+      // The hold now belongs to the order
+      const [reservation] = await findReservations(transaction.id)
+      expect(reservation.status).toBe('converted')
+      expect(reservation.order).toBe(order.id)
+    })
+
+    it('should release the stock when an admin denies a challenged capture', async () => {
+      const transaction = await createReservedCheckout(5)
+      await callEndpoint('/webhook', { ...notification(transaction, 'capture', 'challenge') })
+      midtrans.denyTransaction.mockResolvedValue(notification(transaction, 'deny', 'deny'))
+
+      const review = await callEndpoint('/fraud-review', { transactionId: transaction.id, action: 'deny' }, admin)
+      expect(review.status).toBe(200)
+      expect(review.body.data.status).toBe('deny')
+      expect(review.body.data.orderId).toBeNull()
+
+      const [reservation] = await findReservations(transaction.id)
+      expect(reservation.status).toBe('released')
+
+      const stock = await payload.findByID({ collection: 'inventory', id: inventory.id, depth: 0 })
+      expect(stock.quantity).toBe(100)
+    })
+
+    it('should reject reviews of payments that are not challenged', async () => {
+      const transaction = await createReservedCheckout(1)
+
+      const review = await callEndpoint('/fraud-review', { transactionId: transaction.id, action: 'approve' }, admin)
+      expect(review.status).toBe(400)
+      expect(midtrans.approveTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should require an admin to review payments', async () => {
+      const transaction = await createReservedCheckout(1)
+
+      const review = await callEndpoint('/fraud-review', { transactionId: transaction.id, action: 'approve' })
+      expect(review.status).toBe(401)
+    })
+  })
+
+  describe('Refunds', () => {
+    const settleCheckout = async (quantity: number): Promise<Transaction> => {
+      const transaction = await createReservedCheckout(quantity)
+      await callEndpoint('/webhook', { ...notification(transaction, 'settlement') })
+      return payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+    }
+
+    beforeEach(() => {
+      midtrans.refundTransaction.mockImplementation(async (orderId: string, params: { refund_key: string }) => ({
+        status_code: '200',
+        status_message: 'Success, refund request is approved',
+        order_id: orderId,
+        refund_key: params.refund_key,
+        refund_chargeback_id: 1,
+      }))
+    })
+
+    it('should record a partial refund and keep the order', async () => {
+      const transaction = await settleCheckout(5)
+
+      const refund = await callEndpoint(
+        '/refund',
+        { transactionId: transaction.id, amount: 1000, reason: 'One box damaged' },
+        admin
+      )
+      expect(refund.status).toBe(200)
+      expect(refund.body.data.status).toBe('partial_refund')
+      expect(refund.body.data.refundedAmount).toBe(1000)
+      expect(refund.body.data.remainingAmount).toBe(transaction.amount - 1000)
+      expect(refund.body.data.refundKey).toBe(`RFD-${transaction.id}-1`)
+      expect(midtrans.refundTransaction).toHaveBeenCalledWith(
+        transaction.midtrans_order_id,
+        expect.objectContaining({ refund_key: `RFD-${transaction.id}-1`, amount: 1000 })
+      )
+
+      const order = await payload.findByID({ collection: 'orders', id: refund.body.data.orderId, depth: 0 })
+      expect(order.status).toBe('paid')
+    })
+
+    it('should refund the remaining balance and move the order to refunded', async () => {
+      const transaction = await settleCheckout(5)
+      await callEndpoint('/refund', { transactionId: transaction.id, amount: 1000, reason: 'One box damaged' }, admin)
+
+      const refund = await callEndpoint('/refund', { transactionId: transaction.id, reason: 'Order returned' }, admin)
+      expect(refund.status).toBe(200)
+      expect(refund.body.data.status).toBe('refund')
+      expect(refund.body.data.refundAmount).toBe(transaction.amount - 1000)
+      expect(refund.body.data.remainingAmount).toBe(0)
+      // Each refund of the payment gets the next key in sequence
+      expect(refund.body.data.refundKey).toBe(`RFD-${transaction.id}-2`)
+      expect(refund.body.data.orderStatus).toBe('refunded')
+
+      const refunded = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(refunded.refunded_amount).toBe(transaction.amount)
+      expect(refunded.refunds).toHaveLength(2)
+    })
+
+    it('should reject refunds beyond the refundable balance', async () => {
+      const transaction = await settleCheckout(5)
+
+      const refund = await callEndpoint(
+        '/refund',
+        { transactionId: transaction.id, amount: transaction.amount + 1, reason: 'Too much' },
+        admin
+      )
+      expect(refund.status).toBe(400)
+      expect(midtrans.refundTransaction).not.toHaveBeenCalled()
+
+      // Concurrent refunds cannot both spend the same balance
+      const amount = Math.ceil(transaction.amount * 0.6)
+      const results = await Promise.all([
+        callEndpoint('/refund', { transactionId: transaction.id, amount, reason: 'First' }, admin),
+        callEndpoint('/refund', { transactionId: transaction.id, amount, reason: 'Second' }, admin),
+      ])
+      expect(results.map((result) => result.status).sort()).toEqual([200, 400])
+      expect(midtrans.refundTransaction).toHaveBeenCalledTimes(1)
+
+      const refunded = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(refunded.refunded_amount).toBe(amount)
+    })
+  })
+
+  describe('Reconciliation', () => {
+    const reconcile = async (statuses: Map<string, MidtransNotification>) => {
+      // Transactions left by other tests are unknown to this Midtrans mock
+      midtrans.getTransactionStatus.mockImplementation(async (orderId: string) => {
+        const status = statuses.get(orderId)
+        if (!status) throw new Error('Midtrans status request failed: 500')
+        return status
+      })
+
+      return reconcileMidtransTransactions(
+        await createLocalReq({}, payload),
+        midtrans as unknown as MidtransClient,
+        { minAgeMinutes: 0, limit: 1000 }
+      )
+    }
+
+    it('should settle a payment whose webhook was missed and create its order', async () => {
+      const transaction = await createReservedCheckout(5)
+
+      const report = await reconcile(
+        new Map([[transaction.midtrans_order_id!, notification(transaction, 'settlement')]])
+      )
+      const result = report.results.find((entry) => entry.transactionId === transaction.id)
+      expect(result?.action).toBe('updated')
+      expect(result?.previousStatus).toBe('pending')
+      expect(result?.status).toBe('settlement')
+      expect(result?.orderId).toBeDefined()
+      expect(report.orders_created).toBeGreaterThanOrEqual(1)
+
+      const settled = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(settled.status).toBe('settlement')
+      expect(settled.paid_at).toBeTruthy()
+
+      const order = await payload.findByID({ collection: 'orders', id: result!.orderId!, depth: 0 })
+      expect(order.payment_reference).toBe(transaction.payment_reference)
+
+      const [reservation] = await findReservations(transaction.id)
+      expect(reservation.status).toBe('converted')
+    })
+
+    it('should expire a payment Midtrans has expired and release its stock', async () => {
+      const transaction = await createReservedCheckout(5)
+
+      const report = await reconcile(
+        new Map([[transaction.midtrans_order_id!, notification(transaction, 'expire')]])
+      )
+      const result = report.results.find((entry) => entry.transactionId === transaction.id)
+      expect(result?.action).toBe('updated')
+      expect(result?.status).toBe('expire')
+      expect(result?.orderId).toBeUndefined()
+
+      const expired = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(expired.status).toBe('expire')
+      expect(expired.expired_at).toBeTruthy()
+
+      const [reservation] = await findReservations(transaction.id)
+      expect(reservation.status).toBe('released')
+
+      const orders = await payload.find({
+        collection: 'orders',
+        where: { payment_reference: { equals: transaction.payment_reference } },
+      })
+      expect(orders.totalDocs).toBe(0)
+    })
+
+    it('should leave a payment unchanged when Midtrans cannot be reached', async () => {
+      const transaction = await createReservedCheckout(1)
+
+      const report = await reconcile(new Map())
+      const result = report.results.find((entry) => entry.transactionId === transaction.id)
+      expect(result?.action).toBe('failed')
+      expect(result?.error).toContain('500')
+
+      const unchanged = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(unchanged.status).toBe('pending')
+    })
+  })
+})
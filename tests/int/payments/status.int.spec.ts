@@ -0,0 +1,90 @@
+/**
+ * Payment Status Rules Tests
+ *
+ * The shared precedence rules decide which provider notification wins for
+ * every gateway, and which statuses create an order.
+ */
+
+import { isPaidPaymentStatus, shouldApplyPaymentStatus } from '@/payments/shared'
+import type { PaymentTransactionStatus } from '@/payments/shared'
+import { XENDIT_STATUS_MAP } from '@/payments/xendit'
+import { describe, expect, it } from 'vitest'
+
+describe('Payment Status Rules', () => {
+  describe('shouldApplyPaymentStatus', () => {
+    it('should apply statuses that move a payment forward', () => {
+      expect(shouldApplyPaymentStatus('pending', 'challenge')).toBe(true)
+      expect(shouldApplyPaymentStatus('pending', 'settlement')).toBe(true)
+      expect(shouldApplyPaymentStatus('challenge', 'capture')).toBe(true)
+      expect(shouldApplyPaymentStatus('capture', 'settlement')).toBe(true)
+      expect(shouldApplyPaymentStatus('settlement', 'partial_refund')).toBe(true)
+      expect(shouldApplyPaymentStatus('partial_refund', 'refund')).toBe(true)
+    })
+
+    it('should treat a missing status as pending', () => {
+      expect(shouldApplyPaymentStatus(null, 'settlement')).toBe(true)
+      expect(shouldApplyPaymentStatus(undefined, 'pending')).toBe(false)
+    })
+
+    it('should ignore duplicate notifications', () => {
+      const statuses: PaymentTransactionStatus[] = ['pending', 'challenge', 'capture', 'settlement', 'expire', 'refund']
+      for (const status of statuses) {
+        expect(shouldApplyPaymentStatus(status, status)).toBe(false)
+      }
+    })
+
+    it('should never let a late failure undo a payment', () => {
+      for (const failure of ['deny', 'cancel', 'expire', 'failure'] as const) {
+        expect(shouldApplyPaymentStatus('pending', failure)).toBe(true)
+        expect(shouldApplyPaymentStatus('capture', failure)).toBe(false)
+        expect(shouldApplyPaymentStatus('settlement', failure)).toBe(false)
+        expect(shouldApplyPaymentStatus('refund', failure)).toBe(false)
+      }
+    })
+
+    it('should not move a failed payment back to pending or between failures', () => {
+      expect(shouldApplyPaymentStatus('expire', 'pending')).toBe(false)
+      expect(shouldApplyPaymentStatus('deny', 'expire')).toBe(false)
+      expect(shouldApplyPaymentStatus('settlement', 'capture')).toBe(false)
+    })
+  })
+
+  describe('isPaidPaymentStatus', () => {
+    it('should treat only captured and settled payments as paid', () => {
+      expect(isPaidPaymentStatus('capture')).toBe(true)
+      expect(isPaidPaymentStatus('settlement')).toBe(true)
+
+      const unpaid: Array<PaymentTransactionStatus | null | undefined> = [
+        'pending',
+        'challenge',
+        'deny',
+        'expire',
+        'partial_refund',
+        'refund',
+        null,
+        undefined,
+      ]
+      for (const status of unpaid) {
+        expect(isPaidPaymentStatus(status)).toBe(false)
+      }
+    })
+  })
+
+  describe('Xendit status mapping', () => {
+    it('should map invoice statuses onto transaction statuses', () => {
+      expect(XENDIT_STATUS_MAP).toEqual({
+        PENDING: 'pending',
+        PAID: 'settlement',
+        SETTLED: 'settlement',
+        EXPIRED: 'expire',
+      })
+    })
+
+    it('should create orders for paid invoices only', () => {
+      expect(isPaidPaymentStatus(XENDIT_STATUS_MAP.PAID)).toBe(true)
+      expect(isPaidPaymentStatus(XENDIT_STATUS_MAP.SETTLED)).toBe(true)
+      expect(isPaidPaymentStatus(XENDIT_STATUS_MAP.PENDING)).toBe(false)
+      expect(isPaidPaymentStatus(XENDIT_STATUS_MAP.EXPIRED)).toBe(false)
+    })
+  })
+})
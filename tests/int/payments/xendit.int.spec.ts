@@ -0,0 +1,241 @@
+/**
+ * Xendit Payment Integration Tests
+ *
+ * Runs the adapter's webhook and confirmOrder against a Xendit client whose
+ * API calls are mocked. The callback token check is the real one, so invoice
+ * callbacks go through token verification, the shared status rules and the
+ * transaction, order and stock hooks.
+ */
+
+import type * as XenditClientModule from '@/payments/xendit/client'
+import { xenditAdapter } from '@/payments/xendit'
+import type { XenditInvoice, XenditInvoiceCallback, XenditInvoiceStatus } from '@/payments/xendit'
+import type { Product, Transaction } from '@/payload-types'
+import { reserveStockForTransaction } from '@/utilities/stockReservations'
+import config from '@payload-config'
+import type { Endpoint, Payload, PayloadRequest } from 'payload'
+import { createLocalReq, getPayload } from 'payload'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { TestFixtures } from '../../helpers/fixtures'
+import { createTestFixtures, deleteTestFixtureUsers } from '../../helpers/fixtures'
+
+const CALLBACK_TOKEN = 'test-callback-token'
+
+const xendit = vi.hoisted(() => ({
+  createInvoice: vi.fn(),
+  getInvoice: vi.fn(),
+  expireInvoice: vi.fn(),
+}))
+
+// Only the API calls are mocked; verifyCallbackToken stays the real one
+vi.mock('@/payments/xendit/client', async (importOriginal) => {
+  const actual = await importOriginal<typeof XenditClientModule>()
+  return {
+    ...actual,
+    createXenditClient: (clientConfig: Parameters<typeof actual.createXenditClient>[0]) =>
+      Object.assign(actual.createXenditClient(clientConfig), xendit),
+  }
+})
+
+describe('Xendit Payments', () => {
+  let payload: Payload
+  let fixtures: TestFixtures
+  let product: Product
+
+  const adapter = xenditAdapter({ secretKey: 'test-secret-key', callbackToken: CALLBACK_TOKEN })
+
+  const callWebhook = async (body: XenditInvoiceCallback, token: string | null = CALLBACK_TOKEN) => {
+    const endpoint = adapter.endpoints?.find((candidate: Endpoint) => candidate.path === '/webhook')
+    if (!endpoint) throw new Error('Xendit webhook endpoint not found')
+
+    const req: PayloadRequest = await createLocalReq({}, payload)
+    req.headers = new Headers(token === null ? {} : { 'x-callback-token': token })
+    req.json = async () => body
+
+    const response = await endpoint.handler(req)
+    return { status: response.status, body: await response.json() }
+  }
+
+  const invoice = (transaction: Transaction, status: XenditInvoiceStatus): XenditInvoice => ({
+    id: transaction.provider_transaction_id!,
+    external_id: transaction.payment_reference!,
+    status,
+    amount: transaction.amount,
+    invoice_url: `https://checkout.xendit.co/web/${transaction.provider_transaction_id}`,
+    expiry_date: '2026-03-03T10:00:00.000Z',
+    currency: 'IDR',
+    created: '2026-03-02T10:00:00.000Z',
+    updated: '2026-03-02T10:05:00.000Z',
+    ...(status === 'PAID' && { paid_at: '2026-03-02T10:05:00.000Z', payment_channel: 'BCA' }),
+  })
+
+  const createReservedCheckout = async (quantity: number): Promise<Transaction> => {
+    const suffix = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    const transaction = await payload.create({
+      collection: 'transactions',
+      data: {
+        amount: 999 * quantity,
+        status: 'pending',
+        paymentMethod: 'xendit',
+        payment_reference: `TXN-test-${suffix}`,
+        provider_transaction_id: `inv-${suffix}`,
+        items: [{ product: product.id, quantity, price: 999 }],
+      },
+    })
+    await reserveStockForTransaction({
+      req: await createLocalReq({}, payload),
+      transaction,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    })
+    return transaction
+  }
+
+  const findOrders = async (transaction: Transaction) =>
+    payload.find({
+      collection: 'orders',
+      where: { payment_reference: { equals: transaction.payment_reference } },
+      depth: 0,
+    })
+
+  const findReservations = async (transactionId: string) =>
+    (await payload.find({
+      collection: 'stock-reservations',
+      where: { transaction: { equals: transactionId } },
+      depth: 0,
+    })).docs
+
+  beforeAll(async () => {
+    payload = await getPayload({ config })
+  })
+
+  beforeEach(async () => {
+    xendit.createInvoice.mockReset()
+    xendit.getInvoice.mockReset()
+    xendit.expireInvoice.mockReset()
+
+    fixtures = await createTestFixtures(payload)
+    ;({ product } = fixtures)
+  })
+
+  afterAll(async () => {
+    await deleteTestFixtureUsers(payload, fixtures)
+  })
+
+  describe('Webhook token', () => {
+    it('should reject callbacks without the callback token', async () => {
+      const transaction = await createReservedCheckout(1)
+
+      const missing = await callWebhook(invoice(transaction, 'PAID'), null)
+      expect(missing.status).toBe(401)
+
+      const unchanged = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(unchanged.status).toBe('pending')
+    })
+
+    it('should reject callbacks with a wrong callback token', async () => {
+      const transaction = await createReservedCheckout(1)
+
+      // Same length and a longer token: neither is accepted
+      expect((await callWebhook(invoice(transaction, 'PAID'), 'test-callback-tokeN')).status).toBe(401)
+      expect((await callWebhook(invoice(transaction, 'PAID'), `${CALLBACK_TOKEN}-extra`)).status).toBe(401)
+
+      expect((await findOrders(transaction)).totalDocs).toBe(0)
+    })
+  })
+
+  describe('Invoice callbacks', () => {
+    it('should settle a paid invoice and create its order', async () => {
+      const transaction = await createReservedCheckout(5)
+
+      const webhook = await callWebhook(invoice(transaction, 'PAID'))
+      expect(webhook.status).toBe(200)
+      expect(webhook.body.status).toBe('settlement')
+      expect(webhook.body.applied).toBe(true)
+
+      const settled = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(settled.status).toBe('settlement')
+      expect(settled.provider_payment_type).toBe('BCA')
+      expect(settled.paid_at).toBeTruthy()
+
+      const order = await payload.findByID({ collection: 'orders', id: webhook.body.orderId, depth: 0 })
+      expect(order.status).toBe('paid')
+      expect(order.totalAmount).toBe(transaction.amount)
+
+      const [reservation] = await findReservations(transaction.id)
+      expect(reservation.status).toBe('converted')
+    })
+
+    it('should ignore duplicate and out-of-order callbacks', async () => {
+      const transaction = await createReservedCheckout(5)
+      const paid = await callWebhook(invoice(transaction, 'PAID'))
+
+      // SETTLED maps to the same status: applied once, one order
+      const duplicate = await callWebhook(invoice(transaction, 'SETTLED'))
+      expect(duplicate.body.applied).toBe(false)
+      expect(duplicate.body.orderId).toBe(paid.body.orderId)
+
+      // A late EXPIRED cannot undo the payment
+      const late = await callWebhook(invoice(transaction, 'EXPIRED'))
+      expect(late.status).toBe(200)
+      expect(late.body.applied).toBe(false)
+      expect(late.body.status).toBe('settlement')
+
+      expect((await findOrders(transaction)).totalDocs).toBe(1)
+    })
+
+    it('should expire an unpaid invoice and release its stock', async () => {
+      const transaction = await createReservedCheckout(5)
+
+      const webhook = await callWebhook(invoice(transaction, 'EXPIRED'))
+      expect(webhook.body.status).toBe('expire')
+      expect(webhook.body.orderId).toBeNull()
+
+      const expired = await payload.findByID({ collection: 'transactions', id: transaction.id, depth: 0 })
+      expect(expired.expired_at).toBe('2026-03-02T10:05:00.000Z')
+
+      const [reservation] = await findReservations(transaction.id)
+      expect(reservation.status).toBe('released')
+      expect((await findOrders(transaction)).totalDocs).toBe(0)
+    })
+
+    it('should acknowledge callbacks for unknown invoices', async () => {
+      const transaction = await createReservedCheckout(1)
+
+      const webhook = await callWebhook({ ...invoice(transaction, 'PAID'), external_id: 'TXN-unknown' })
+      expect(webhook.status).toBe(200)
+      expect(webhook.body.ignored).toBe(true)
+    })
+  })
+
+  describe('confirmOrder', () => {
+    const confirm = async (transaction: Transaction) =>
+      adapter.confirmOrder({
+        data: { transactionId: transaction.id },
+        req: await createLocalReq({}, payload),
+        ordersSlug: 'orders',
+        transactionsSlug: 'transactions',
+        cartsSlug: 'carts',
+      })
+
+    it('should create the order when the webhook has not arrived', async () => {
+      const transaction = await createReservedCheckout(2)
+      xendit.getInvoice.mockResolvedValue(invoice(transaction, 'PAID'))
+
+      const confirmed = await confirm(transaction)
+      expect(xendit.getInvoice).toHaveBeenCalledWith(transaction.provider_transaction_id)
+
+      // The webhook arriving afterwards finds the same order
+      const webhook = await callWebhook(invoice(transaction, 'PAID'))
+      expect(webhook.body.orderId).toBe(confirmed.orderID)
+      expect((await findOrders(transaction)).totalDocs).toBe(1)
+    })
+
+    it('should refuse to confirm an unpaid invoice', async () => {
+      const transaction = await createReservedCheckout(2)
+      xendit.getInvoice.mockResolvedValue(invoice(transaction, 'PENDING'))
+
+      await expect(confirm(transaction)).rejects.toThrow('Failed to verify payment status')
+      expect((await findOrders(transaction)).totalDocs).toBe(0)
+    })
+  })
+})
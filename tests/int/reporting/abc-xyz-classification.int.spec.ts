@@ -0,0 +1,110 @@
+/**
+ * ABC/XYZ Classification Integration Tests
+ *
+ * Revenue (ABC) and demand variability (XYZ) classes from order history,
+ * stored on inventory and exported as CSV.
+ */
+
+import type { Inventory, Product, User } from '@/payload-types'
+import { abcXyzReportToCsv, generateAbcXyzReport } from '@/utilities/reportingUtilities'
+import config from '@payload-config'
+import type { Payload } from 'payload'
+import { getPayload } from 'payload'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { TestFixtures } from '../../helpers/fixtures'
+import { createTestFixtures, deleteTestFixtureUsers } from '../../helpers/fixtures'
+
+describe('ABC/XYZ Classification', () => {
+  let payload: Payload
+  let fixtures: TestFixtures
+  let testUser: User
+  let testProduct: Product
+  let testInventory: Inventory
+
+  beforeAll(async () => {
+    payload = await getPayload({ config })
+  })
+
+  afterAll(async () => {
+    await deleteTestFixtureUsers(payload, fixtures)
+  })
+
+  beforeEach(async () => {
+    fixtures = await createTestFixtures(payload)
+    ;({ customer: testUser, product: testProduct, inventory: testInventory } = fixtures)
+  })
+
+  it('should classify products and store the classes on inventory', async () => {
+    // Priced to outweigh other orders in the period
+    await payload.update({ collection: 'products', id: testProduct.id, data: { price: 5_000_000 } })
+    await payload.create({
+      collection: 'orders',
+      data: {
+        orderedBy: testUser.id,
+        shipping_name: 'Test',
+        shipping_address: 'Test Addr',
+        shipping_phone: '000',
+        items: [{ product: testProduct.id, quantity: 40, price: 5_000_000 }],
+        totalAmount: 40 * 5_000_000,
+        payment_reference: `TXN-abc-${Date.now()}`,
+        status: 'paid',
+      },
+    })
+
+    const unsold = await payload.create({
+      collection: 'products',
+      data: {
+        title: 'Unsold Product',
+        slug: `unsold-product-${Date.now()}`,
+        price: 999,
+        category: testProduct.category,
+      },
+    })
+    const unsoldStock = await payload.create({
+      collection: 'inventory',
+      data: { product: unsold.id, quantity: 5 },
+    })
+
+    const report = await generateAbcXyzReport(payload, {
+      startDate: new Date(Date.now() - 13 * 24 * 60 * 60 * 1000).toISOString(),
+      endDate: new Date(Date.now() + 60 * 1000).toISOString(),
+      bucketDays: 14,
+      store: true,
+    })
+
+    const sold = report.products.find((product) => product.productId === testProduct.id)
+    expect(sold).toMatchObject({ abcClass: 'A', xyzClass: 'X', quantitySold: 40 })
+    const idle = report.products.find((product) => product.productId === unsold.id)
+    expect(idle).toMatchObject({ abcClass: 'C', xyzClass: 'Z', revenue: 0, coefficientOfVariation: null })
+    expect(report.matrix.A.X.products).toBeGreaterThanOrEqual(1)
+
+    const classified = await payload.findByID({ collection: 'inventory', id: testInventory.id })
+    expect(classified.abc_class).toBe('A')
+    expect(classified.xyz_class).toBe('X')
+    const idleStock = await payload.find({
+      collection: 'inventory',
+      where: { and: [{ id: { equals: unsoldStock.id } }, { abc_class: { equals: 'C' } }] },
+    })
+    expect(idleStock.totalDocs).toBe(1)
+
+    const csv = abcXyzReportToCsv(report)
+    expect(csv.split('\n')[0]).toBe(
+      'product_id,product_name,class,abc_class,xyz_class,revenue,revenue_share,cumulative_share,quantity_sold,coefficient_of_variation'
+    )
+    expect(csv).toContain(`${testProduct.id},Test Product,AX,A,X,200000000,`)
+    expect(abcXyzReportToCsv(report, 'matrix').split('\n')[0]).toBe(
+      'abc_class,x_products,x_revenue,y_products,y_revenue,z_products,z_revenue'
+    )
+
+    // Product names cannot smuggle formulas into the spreadsheet
+    const injected = abcXyzReportToCsv({
+      ...report,
+      products: [
+        { ...sold!, productName: '=HYPERLINK("http://evil.test","Open")' },
+        { ...idle!, productName: '@SUM(A1:A9)' },
+      ],
+    }).split('\n')
+    expect(injected[1]).toContain(`${testProduct.id},"'=HYPERLINK(""http://evil.test"",""Open"")",AX`)
+    expect(injected[2]).toContain(`${unsold.id},'@SUM(A1:A9),CZ`)
+  })
+})